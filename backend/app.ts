@@ -12,19 +12,30 @@ import express, {
 } from 'express';
 import cors from 'cors';
 
+import { authExcept, type PublicRoute } from './middlewares/auth';
+
 /**
  * Импорт отдельных роутеров по доменам.
  * Каждый модуль инкапсулирует собственные эндпоинты и зависимости, что облегчает поддержку.
  */
+import accountsRoutes from './routes/accounts.routes';
+import attachmentsRoutes from './routes/attachments.routes';
+import auditRoutes from './routes/audit.routes';
 import authRoutes from './routes/auth.routes';
 import broadcastsRoutes from './routes/broadcasts.routes';
+import cannedResponsesRoutes from './routes/cannedResponses.routes';
 import chatsRoutes from './routes/chats.routes';
+import customersRoutes from './routes/customers.routes';
 import eventsRoutes from './routes/events.routes';
 import healthRoutes from './routes/health.routes';
+import integrationsRoutes from './routes/integrations.routes';
 import messagesRoutes from './routes/messages.routes';
+import operatorsRoutes from './routes/operators.routes';
 import ordersRoutes from './routes/orders.routes';
 import reservesRoutes from './routes/reserves.routes';
 import statsRoutes from './routes/stats.routes';
+import tagsRoutes from './routes/tags.routes';
+import webhooksRoutes from './routes/webhooks.routes';
 
 const app: Application = express();
 
@@ -35,6 +46,7 @@ const app: Application = express();
 app.use(cors({
   origin: process.env.CORS_ORIGIN ?? 'http://localhost:5173', // твой фронт
   credentials: true,
+  exposedHeaders: ['Retry-After'], // 429 при блокировке входа: фронтенд показывает время ожидания
 }));
 
 /**
@@ -53,19 +65,57 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+/**
+ * Публичные эндпоинты: всё остальное под /api требует валидный JWT.
+ * - health-check нужен оркестратору без токена;
+ * - login выдаёт токен, а /auth/me сам обрабатывает необязательный токен ({ user: null });
+ * - входящие webhooks приходят от интеграций, у которых нет пользовательского JWT
+ *   (вебхуки мессенджеров проверяют собственный секрет платформы, /messages/raw — RAW_WEBHOOK_SECRET);
+ * - поток событий проверяет доступ сам (authStream): EventSource приходит с билетом в ?ticket=, а не с заголовком.
+ */
+const PUBLIC_ROUTES: readonly PublicRoute[] = [
+  { method: '*', path: '/api/health/*' },
+  { method: 'POST', path: '/api/auth/login' },
+  { method: 'POST', path: '/api/auth/login/2fa' },
+  { method: 'GET', path: '/api/auth/me' },
+  { method: 'POST', path: '/api/auth/refresh' },
+  { method: 'POST', path: '/api/auth/logout' },
+  { method: 'POST', path: '/api/messages/raw' },
+  { method: 'POST', path: '/api/webhooks/telegram' },
+  { method: 'POST', path: '/api/integrations/vk/callback' },
+  { method: 'GET', path: '/api/events' },
+];
+
+/**
+ * Единый слой защиты: монтируем до роутеров, чтобы ни один доменный маршрут
+ * (chats, messages, orders, reserves, broadcasts, stat, events) не оказался открытым по ошибке.
+ * Ответ 401 — тот же { error }, который ожидает перехватчик axios на фронтенде.
+ */
+app.use('/api', authExcept(PUBLIC_ROUTES));
+
 /**
  * Маршруты сгруппированы по функциональным направлениям.
  * Порядок важен: сначала health-check, затем API-prefixed роуты.
  */
 app.use('/health', healthRoutes);
+app.use('/api/health', healthRoutes);
 app.use('/api/chats', chatsRoutes);
 app.use('/api/messages', messagesRoutes);
+app.use('/api/operators', operatorsRoutes);
+app.use('/api/canned-responses', cannedResponsesRoutes);
+app.use('/api/tags', tagsRoutes);
+app.use('/api/customers', customersRoutes);
+app.use('/api/attachments', attachmentsRoutes);
 app.use('/api/stat', statsRoutes);
 app.use('/api/orders', ordersRoutes);
 app.use('/api/reserves', reservesRoutes);
 app.use('/api/broadcasts', broadcastsRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/accounts', accountsRoutes);
+app.use('/api/audit', auditRoutes);
 app.use('/api/events', eventsRoutes);
+app.use('/api/webhooks', webhooksRoutes);
+app.use('/api/integrations', integrationsRoutes);
 
 /**
  * Обработка 404: если ни один из маршрутов не совпал, отправляем единый JSON-ответ.
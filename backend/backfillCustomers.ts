@@ -0,0 +1,33 @@
+/**
+ * Разовое сопоставление старых записей с профилями гостей: `npm run customers:backfill`
+ * (в контейнере — `node dist/backfillCustomers.js`). Запускается после миграции 0014 на базе
+ * с историей: без него чаты, заказы и брони получают профиль только при следующей записи.
+ *
+ * 1. Проверяем, что схема БД актуальна.
+ * 2. Прогоняем записи без профиля через linkCustomer (см. services/customers.service).
+ */
+import './config/env';
+
+import type { Pool } from 'pg';
+
+import pool from './db';
+import { assertSchemaUpToDate } from './db/migrator';
+import { backfillCustomers } from './services/customers.service';
+
+const db = pool as unknown as Pool;
+
+async function main(): Promise<void> {
+  await assertSchemaUpToDate();
+  const linked = await backfillCustomers();
+  console.log(
+    `Linked to customer profiles: ${linked.chat} chat(s), ${linked.order} order(s), ${linked.reservation} reservation(s).`,
+  );
+}
+
+main()
+  .then(() => db.end())
+  .catch(async (error: unknown) => {
+    console.error('Customer backfill failed:', error instanceof Error ? error.message : error);
+    await db.end().catch(() => undefined);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,36 @@
+/**
+ * Настройки подключения к API мессенджеров — единственное место, где читаются токены и адреса.
+ * - TELEGRAM_API_URL и VK_API_URL позволяют направить адаптеры и воркер приёма на локальный
+ *   мок-сервер или прокси (по умолчанию — боевые серверы).
+ * - TG_BOT_TOKEN, BOT_TOKEN, TG_TOKEN и VK_GROUP_TOKEN — прежние имена переменных, поддерживаются как запасные.
+ * Значения читаются при каждом вызове, чтобы учитывать переменные из dotenv-flow.
+ */
+
+/** Версия VK API для всех вызовов бэкенда. */
+export const VK_API_VERSION = '5.199';
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const telegramBase = (): string => trimSlash(process.env.TELEGRAM_API_URL || 'https://api.telegram.org');
+
+/** URL метода Bot API: `${TELEGRAM_API_URL}/bot<token>/<method>`. */
+export const telegramApiUrl = (token: string, method: string): string => `${telegramBase()}/bot${token}/${method}`;
+
+/** URL файла, полученного через getFile: `${TELEGRAM_API_URL}/file/bot<token>/<file_path>`. */
+export const telegramFileUrl = (token: string, filePath: string): string =>
+  `${telegramBase()}/file/bot${token}/${filePath}`;
+
+/** URL метода VK API: `${VK_API_URL}/method/<method>`. */
+export const vkApiUrl = (method: string): string =>
+  `${trimSlash(process.env.VK_API_URL || 'https://api.vk.com')}/method/${method}`;
+
+/** Токен бота Telegram. */
+export const telegramBotToken = (): string | undefined =>
+  process.env.TELEGRAM_BOT_TOKEN ||
+  process.env.TG_BOT_TOKEN ||
+  process.env.BOT_TOKEN ||
+  process.env.TG_TOKEN ||
+  undefined;
+
+/** Токен сообщества VK (сообщения, загрузка вложений, Bots Long Poll). */
+export const vkToken = (): string | undefined => process.env.VK_TOKEN || process.env.VK_GROUP_TOKEN || undefined;
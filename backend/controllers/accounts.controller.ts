@@ -0,0 +1,390 @@
+/**
+ * Контроллер управления аккаунтами (/api/accounts): список, приглашение, смена роли,
+ * (де)активация, сброс пароля и 2FA, политика обязательной 2FA по ролям, журнал блокировок входа. Наружу аккаунт уходит только через mapAccountToPublicUser,
+ * поэтому password_hash никогда не попадает в ответ.
+ */
+import type { RequestHandler } from 'express';
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+import { mapAccountToPublicUser, type AccountRow, type PublicUser } from './auth.controller';
+import { normalizeRole, type Role } from '../utils/permissions';
+import { generatePassword, hashPassword, validatePassword } from '../utils/password';
+import { PG_INVALID_TEXT, PG_UNIQUE_VIOLATION, pgCode } from '../utils/pgErrors';
+import { revokeAllSessions } from '../services/sessions.service';
+import { listLockoutEvents, type LockoutEvent } from '../services/loginThrottle.service';
+import {
+  disableTwoFactor,
+  listRolePolicies,
+  setRolePolicy,
+  type RolePolicies,
+} from '../services/twoFactor.service';
+import type { ErrorResponse } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+/**
+ * Колонки, которые читаем для ответа: password_hash намеренно не выбираем.
+ */
+const PUBLIC_COLUMNS = 'id, email, full_name, role, is_active, created_at, last_login_at';
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+$/;
+
+interface AccountsListResponse {
+  items: PublicUser[];
+  total: number;
+}
+
+interface AccountCreateBody {
+  email?: unknown;
+  fullName?: unknown;
+  role?: unknown;
+  password?: unknown;
+}
+
+interface AccountUpdateBody {
+  fullName?: unknown;
+  role?: unknown;
+  is_active?: unknown;
+}
+
+interface ResetPasswordBody {
+  password?: unknown;
+}
+
+/**
+ * temporaryPassword присутствует, только если пароль сгенерировал сервер: показываем его один раз.
+ */
+interface AccountWithPasswordResponse {
+  user: PublicUser;
+  temporaryPassword?: string;
+}
+
+interface TwoFactorPolicyBody {
+  role?: unknown;
+  required?: unknown;
+}
+
+/**
+ * Пароль из тела запроса или сгенерированный временный.
+ * Возвращает текст ошибки валидации, если переданный пароль не подходит.
+ */
+const resolvePassword = (
+  raw: unknown,
+): { password: string; generated: boolean } | { error: string } => {
+  if (raw === undefined || raw === null || raw === '') {
+    return { password: generatePassword(), generated: true };
+  }
+  const password = String(raw);
+  const error = validatePassword(password);
+  return error ? { error } : { password, generated: false };
+};
+
+/** Ключ pg_advisory_xact_lock: изменения ролей и активности аккаунтов выполняются по одному. */
+const ADMINS_LOCK_KEY = 'accounts_admins';
+
+/**
+ * Было бы изменение последним активным админом «понижено» (смена роли или деактивация).
+ * Вызывается внутри транзакции под ADMINS_LOCK_KEY: изменения аккаунтов идут по одному, поэтому
+ * два параллельных запроса не отключат двух последних админов и не заблокируют друг друга
+ * (строки админов дополнительно блокируются FOR UPDATE в порядке id).
+ */
+const wouldRemoveLastAdmin = async (
+  client: PoolClient,
+  target: AccountRow,
+  nextRole: Role | null,
+  nextActive: boolean,
+): Promise<boolean> => {
+  const isActiveAdmin = target.role === 'admin' && target.is_active !== false;
+  const staysActiveAdmin = (nextRole ?? target.role) === 'admin' && nextActive;
+  if (!isActiveAdmin || staysActiveAdmin) {
+    return false;
+  }
+
+  const { rows } = await client.query<{ id: string }>(
+    `SELECT id FROM accounts WHERE role = 'admin' AND COALESCE(is_active, TRUE) = TRUE ORDER BY id FOR UPDATE`,
+  );
+  return rows.every((row) => String(row.id) === String(target.id));
+};
+
+/**
+ * GET /api/accounts — все аккаунты, новые сверху.
+ */
+export const list: RequestHandler<unknown, AccountsListResponse | ErrorResponse> = async (
+  _req,
+  res,
+) => {
+  try {
+    const { rows } = await db.query<AccountRow>(
+      `SELECT ${PUBLIC_COLUMNS} FROM accounts ORDER BY created_at DESC`,
+    );
+    return res.json({ items: rows.map(mapAccountToPublicUser), total: rows.length });
+  } catch (error) {
+    console.error('ACCOUNTS LIST ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /api/accounts — приглашение нового сотрудника.
+ * • 400 — некорректный email/роль/пароль;
+ * • 409 — email уже занят;
+ * • 201 — { user, temporaryPassword? }, если пароль не передан, сервер генерирует временный.
+ */
+export const create: RequestHandler<
+  unknown,
+  AccountWithPasswordResponse | ErrorResponse,
+  AccountCreateBody
+> = async (req, res) => {
+  try {
+    const email = String(req.body?.email ?? '').trim().toLowerCase();
+    if (!EMAIL_RE.test(email)) {
+      return res.status(400).json({ error: 'valid email is required' });
+    }
+
+    const role = normalizeRole(req.body?.role ?? 'operator');
+    if (!role) {
+      return res.status(400).json({ error: 'unknown role' });
+    }
+
+    const fullName = String(req.body?.fullName ?? '').trim() || null;
+
+    const resolved = resolvePassword(req.body?.password);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const passwordHash = await hashPassword(resolved.password);
+    const { rows } = await db.query<AccountRow>(
+      `
+      INSERT INTO accounts (email, password_hash, full_name, role, is_active)
+      VALUES ($1, $2, $3, $4, TRUE)
+      RETURNING ${PUBLIC_COLUMNS}
+      `,
+      [email, passwordHash, fullName, role],
+    );
+
+    return res.status(201).json({
+      user: mapAccountToPublicUser(rows[0]),
+      ...(resolved.generated ? { temporaryPassword: resolved.password } : {}),
+    });
+  } catch (error) {
+    if (pgCode(error) === PG_UNIQUE_VIOLATION) {
+      return res.status(409).json({ error: 'email already exists' });
+    }
+    console.error('ACCOUNTS CREATE ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * PATCH /api/accounts/:id — смена имени, роли и/или is_active.
+ * • 400 — неизвестная роль или пустое тело;
+ * • 404 — аккаунт не найден;
+ * • 409 — операция оставила бы систему без активного администратора.
+ */
+export const update: RequestHandler<
+  { id: string },
+  PublicUser | ErrorResponse,
+  AccountUpdateBody
+> = async (req, res) => {
+  const { id } = req.params;
+  const body = req.body ?? {};
+
+  let nextRole: Role | null = null;
+  if (body.role !== undefined) {
+    nextRole = normalizeRole(body.role);
+    if (!nextRole) {
+      return res.status(400).json({ error: 'unknown role' });
+    }
+  }
+
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return res.status(400).json({ error: 'is_active must be boolean' });
+  }
+  const activeChange = body.is_active as boolean | undefined;
+
+  const fullName =
+    body.fullName === undefined ? undefined : String(body.fullName ?? '').trim() || null;
+
+  if (nextRole === null && activeChange === undefined && fullName === undefined) {
+    return res.status(400).json({ error: 'nothing to update' });
+  }
+
+  let client: PoolClient | null = null;
+  try {
+    client = await db.connect();
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [ADMINS_LOCK_KEY]);
+
+    const { rows: found } = await client.query<AccountRow>(
+      `SELECT ${PUBLIC_COLUMNS} FROM accounts WHERE id = $1 FOR UPDATE`,
+      [id],
+    );
+    const target = found[0];
+    if (!target) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const nextActive = activeChange ?? target.is_active !== false;
+    if (await wouldRemoveLastAdmin(client, target, nextRole, nextActive)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Cannot demote or deactivate the last active admin' });
+    }
+
+    const { rows } = await client.query<AccountRow>(
+      `
+      UPDATE accounts SET
+        full_name = CASE WHEN $2 THEN $3 ELSE full_name END,
+        role      = COALESCE($4, role),
+        is_active = COALESCE($5, is_active)
+      WHERE id = $1
+      RETURNING ${PUBLIC_COLUMNS}
+      `,
+      [id, fullName !== undefined, fullName ?? null, nextRole, activeChange ?? null],
+    );
+    await client.query('COMMIT');
+
+    return res.json(mapAccountToPublicUser(rows[0]));
+  } catch (error) {
+    await client?.query('ROLLBACK').catch(() => undefined);
+    if (pgCode(error) === PG_INVALID_TEXT) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    console.error('ACCOUNTS UPDATE ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  } finally {
+    client?.release();
+  }
+};
+
+/**
+ * POST /api/accounts/:id/reset-password — задаёт новый пароль (переданный или временный).
+ * Все выданные сотруднику токены после этого перестают действовать.
+ * Ответ — { user, temporaryPassword? }, как и при приглашении.
+ */
+export const resetPassword: RequestHandler<
+  { id: string },
+  AccountWithPasswordResponse | ErrorResponse,
+  ResetPasswordBody
+> = async (req, res) => {
+  try {
+    const resolved = resolvePassword(req.body?.password);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const passwordHash = await hashPassword(resolved.password);
+    const { rows } = await db.query<AccountRow>(
+      `
+      UPDATE accounts SET password_hash = $2
+      WHERE id = $1
+      RETURNING ${PUBLIC_COLUMNS}
+      `,
+      [req.params.id, passwordHash],
+    );
+    if (!rows.length) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    await revokeAllSessions(rows[0].id);
+
+    return res.json({
+      user: mapAccountToPublicUser(rows[0]),
+      ...(resolved.generated ? { temporaryPassword: resolved.password } : {}),
+    });
+  } catch (error) {
+    if (pgCode(error) === PG_INVALID_TEXT) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    console.error('ACCOUNTS RESET PASSWORD ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /api/accounts/:id/reset-2fa — отключает 2FA сотрудника, потерявшего телефон и коды восстановления.
+ * Сеансы сотрудника завершаются; если 2FA обязательна для роли,
+ * при следующем входе её потребуется подключить заново.
+ */
+export const resetTwoFactor: RequestHandler<{ id: string }, PublicUser | ErrorResponse> = async (
+  req,
+  res,
+) => {
+  try {
+    const { rows } = await db.query<AccountRow>(
+      `SELECT ${PUBLIC_COLUMNS} FROM accounts WHERE id = $1`,
+      [req.params.id],
+    );
+    if (!rows.length) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    await disableTwoFactor(rows[0].id);
+    await revokeAllSessions(rows[0].id);
+
+    return res.json(mapAccountToPublicUser(rows[0]));
+  } catch (error) {
+    if (pgCode(error) === PG_INVALID_TEXT) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    console.error('ACCOUNTS RESET 2FA ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * GET /api/accounts/2fa-policy — для каких ролей 2FA обязательна: { admin: true, ... }.
+ */
+export const getTwoFactorPolicy: RequestHandler<unknown, RolePolicies | ErrorResponse> = async (
+  _req,
+  res,
+) => {
+  try {
+    return res.json(await listRolePolicies());
+  } catch (error) {
+    console.error('ACCOUNTS 2FA POLICY ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * PUT /api/accounts/2fa-policy — { role, required }; в ответ — обновлённая политика целиком.
+ * Сотрудники роли без 2FA не теряют сеансы, но до её подключения API пускает их только в /api/auth/*.
+ */
+export const updateTwoFactorPolicy: RequestHandler<
+  unknown,
+  RolePolicies | ErrorResponse,
+  TwoFactorPolicyBody
+> = async (req, res) => {
+  try {
+    const role = normalizeRole(req.body?.role);
+    if (!role) {
+      return res.status(400).json({ error: 'unknown role' });
+    }
+    if (typeof req.body?.required !== 'boolean') {
+      return res.status(400).json({ error: 'required must be boolean' });
+    }
+
+    await setRolePolicy(role, req.body.required);
+    return res.json(await listRolePolicies());
+  } catch (error) {
+    console.error('ACCOUNTS 2FA POLICY UPDATE ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * GET /api/accounts/lockouts — последние блокировки входа (перебор пароля/кода) по email и IP.
+ */
+export const lockouts: RequestHandler<unknown, { items: LockoutEvent[] } | ErrorResponse> = async (
+  _req,
+  res,
+) => {
+  try {
+    return res.json({ items: await listLockoutEvents() });
+  } catch (error) {
+    console.error('ACCOUNTS LOCKOUTS ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
@@ -0,0 +1,81 @@
+/**
+ * Контроллер вложений (/api/attachments): загрузка файла оператором и выдача содержимого вложения.
+ * Файл принимает multer (routes/attachments.routes) — здесь проверяется тип и сохраняется запись.
+ */
+import type { RequestHandler } from 'express';
+
+import { accountId } from '../utils/requestAccount';
+import {
+  ALLOWED_UPLOAD_TYPES,
+  createUpload,
+  openAttachment,
+  uploadKind,
+} from '../services/attachments.service';
+import type { AttachmentRecord, ErrorResponse } from '../types/models';
+
+/** Типы, которые браузер может показать сам; остальное отдаём только на скачивание. */
+const INLINE_TYPES = /^(image\/(jpeg|png|webp|gif)|audio\/|application\/pdf$)/;
+
+/** Content-Disposition с именем файла в UTF-8 (RFC 5987) и ASCII-запасным вариантом. */
+const contentDisposition = (type: 'inline' | 'attachment', fileName: string): string =>
+  `${type}; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+/**
+ * POST /api/attachments (multipart, поле file)
+ * • 400 — файла нет, 413 — больше ATTACHMENT_MAX_BYTES, 415 — тип не из белого списка.
+ * • Возвращает запись вложения: её id передаётся в POST /api/messages как attachmentId.
+ */
+export const upload: RequestHandler<unknown, AttachmentRecord | ErrorResponse> = async (req, res) => {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({ error: 'file is required' });
+  }
+  const kind = uploadKind(file.mimetype);
+  if (!kind) {
+    return res.status(415).json({ error: `Unsupported file type. Allowed: ${ALLOWED_UPLOAD_TYPES.join(', ')}` });
+  }
+
+  try {
+    const record = await createUpload(file, kind, accountId(req));
+    return res.status(201).json(record);
+  } catch (error) {
+    console.error('ATTACHMENT UPLOAD ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * GET /api/attachments/:id/file — содержимое вложения.
+ * Входящее вложение при первом запросе скачивается из канала (502, если канал его не отдал).
+ */
+export const download: RequestHandler<{ id: string }, ErrorResponse> = async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+
+  let opened: Awaited<ReturnType<typeof openAttachment>>;
+  try {
+    opened = await openAttachment(id);
+  } catch (error) {
+    console.error('ATTACHMENT DOWNLOAD ERROR:', error);
+    return res.status(502).json({ error: 'Attachment is not available' });
+  }
+  if (!opened) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  const { attachment, stream } = opened;
+  const disposition = INLINE_TYPES.test(attachment.mime_type) ? 'inline' : 'attachment';
+  res.set({
+    'Content-Type': attachment.mime_type,
+    'Content-Disposition': contentDisposition(disposition, attachment.file_name),
+    'X-Content-Type-Options': 'nosniff',
+    'Cache-Control': 'private, max-age=86400',
+  });
+  stream.on('error', (error) => {
+    console.error('ATTACHMENT STREAM ERROR:', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
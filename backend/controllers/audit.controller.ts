@@ -0,0 +1,104 @@
+/**
+ * Контроллер журнала аудита (/api/audit): выборка записей с фильтрами для разбора инцидентов.
+ * Сами записи пишут контроллеры данных через recordAudit (services/audit.service).
+ */
+import type { RequestHandler } from 'express';
+
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITIES,
+  listAudit,
+  type AuditAction,
+  type AuditEntity,
+  type AuditFilters,
+  type AuditRecord,
+} from '../services/audit.service';
+import type { ErrorResponse } from '../types/models';
+
+interface AuditListQuery {
+  entity?: string;
+  entity_id?: string;
+  action?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
+  offset?: string;
+}
+
+interface AuditListResponse {
+  items: AuditRecord[];
+  total: number;
+}
+
+const MAX_LIMIT = 500;
+const MAX_FILTER_LENGTH = 200;
+
+const isAuditEntity = (value: string): value is AuditEntity =>
+  (AUDIT_ENTITIES as readonly string[]).includes(value);
+
+const isAuditAction = (value: string): value is AuditAction =>
+  (AUDIT_ACTIONS as readonly string[]).includes(value);
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/** Пустая строка — фильтр не задан; null — дата не разобрана. */
+const parseDate = (value: string | undefined): Date | undefined | null => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * GET /api/audit
+ * • Фильтры: entity, entity_id, action, actor (подстрока email), from/to (ISO-дата или дата-время;
+ *   `to` не включается), пагинация limit/offset (limit не больше 500).
+ * • Новые записи сверху, общее количество под фильтрами — в `X-Total-Count`.
+ */
+export const list: RequestHandler<unknown, AuditListResponse | ErrorResponse, unknown, AuditListQuery> = async (
+  req,
+  res,
+) => {
+  try {
+    const { entity = '', entity_id = '', action = '', actor = '', from, to, limit, offset } = req.query;
+
+    if (entity && !isAuditEntity(entity)) {
+      return res.status(400).json({ error: `entity must be one of: ${AUDIT_ENTITIES.join(', ')}` });
+    }
+    if (action && !isAuditAction(action)) {
+      return res.status(400).json({ error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` });
+    }
+    if (entity_id.length > MAX_FILTER_LENGTH || actor.length > MAX_FILTER_LENGTH) {
+      return res.status(400).json({ error: 'filter is too long (max 200)' });
+    }
+
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+    if (fromDate === null || toDate === null) {
+      return res.status(400).json({ error: 'from/to must be valid dates' });
+    }
+
+    const filters: AuditFilters = {
+      entity: entity ? (entity as AuditEntity) : undefined,
+      entityId: entity_id.trim() || undefined,
+      action: action ? (action as AuditAction) : undefined,
+      actor: actor.trim() || undefined,
+      from: fromDate,
+      to: toDate,
+      limit: Math.min(Math.max(toNumber(limit, 100), 1), MAX_LIMIT),
+      offset: Math.max(toNumber(offset, 0), 0),
+    };
+
+    const result = await listAudit(filters);
+    res.set('X-Total-Count', String(result.total));
+    return res.json(result);
+  } catch (error) {
+    console.error('AUDIT LIST ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
@@ -1,36 +1,58 @@
 /**
- * Контроллер авторизации: обработчики входа и получения текущего пользователя.
+ * Контроллер авторизации: вход (с открытием сеанса и вторым фактором), текущий пользователь,
+ * правка профиля и смена пароля.
  */
 import bcrypt from 'bcryptjs';
 import type { RequestHandler } from 'express';
 import type { Pool } from 'pg';
 
 import pool from '../db';
-import { sign } from '../utils/jwt';
+import { sign, signChallenge, verifyChallenge } from '../utils/jwt';
 import type { AuthTokenPayload } from '../utils/jwt';
+import { permissionsFor, type Permission } from '../utils/permissions';
+import { hashPassword, validatePassword } from '../utils/password';
+import { createSession, revokeAllSessions, sessionMetaFrom } from '../services/sessions.service';
+import { getTwoFactorState, verifySecondFactor } from '../services/twoFactor.service';
+import {
+  clearFailures,
+  getRetryAfter,
+  registerFailure,
+  type ThrottleKeys,
+} from '../services/loginThrottle.service';
 
 /**
  * Строковые поля, которые возвращает SELECT из таблицы accounts.
  */
-interface AccountRow {
-  id: number;
+export interface AccountRow {
+  id: string;
   email: string;
   full_name: string | null;
   role: string | null;
-  password_hash: string | null;
+  password_hash?: string | null;
   is_active: boolean | null;
   created_at: Date | string;
   last_login_at: Date | string | null;
+  totp_enabled_at?: Date | string | null;
 }
 
-interface PublicUser {
-  id: number;
+/**
+ * Публичное представление аккаунта — без password_hash. Его же отдаёт /api/accounts.
+ */
+export interface PublicUser {
+  id: string;
   email: string;
   fullName: string | null;
   role: string | null;
+  /** Права роли — по ним фронтенд скрывает недоступные разделы и действия. */
+  permissions: Permission[];
   is_active: boolean | null;
   created_at: Date | string;
   last_login_at: Date | string | null;
+  /**
+   * Только во входе и /auth/me: роль требует 2FA, а пользователь её ещё не подключил —
+   * до подключения сервер пускает лишь в /api/auth/*.
+   */
+  twoFactorSetupRequired?: boolean;
 }
 
 interface LoginRequestBody {
@@ -40,9 +62,31 @@ interface LoginRequestBody {
 
 interface LoginSuccessResponse {
   token: string;
+  /** Refresh-токен сеанса: обменивается на новую пару через POST /auth/refresh. */
+  refreshToken: string;
   user: PublicUser;
 }
 
+/**
+ * Пароль верен, но у аккаунта включена 2FA: клиент должен прислать код в POST /auth/login/2fa.
+ */
+interface LoginChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+interface LoginSecondStepBody {
+  challengeToken?: unknown;
+  code?: unknown;
+}
+
+/**
+ * 429: слишком много неудачных попыток. retryAfter дублирует заголовок Retry-After для UI.
+ */
+interface ThrottledResponse extends ErrorResponse {
+  retryAfter: number;
+}
+
 interface MeSuccessResponse {
   user: PublicUser | null;
 }
@@ -51,28 +95,97 @@ interface ErrorResponse {
   error: string;
 }
 
+/**
+ * Ошибка валидации формы: общий текст + сообщения по полям, чтобы UI подсветил конкретный input.
+ */
+interface FieldErrorResponse extends ErrorResponse {
+  fields: Record<string, string>;
+}
+
+interface UpdateMeBody {
+  fullName?: unknown;
+}
+
+interface ChangePasswordBody {
+  currentPassword?: unknown;
+  newPassword?: unknown;
+}
+
+interface ChangePasswordResponse {
+  ok: true;
+  /** Сколько других сеансов было завершено. */
+  revokedSessions: number;
+}
+
+const MAX_FULL_NAME_LENGTH = 100;
+
 const db = pool as unknown as Pool;
 
-const mapAccountToPublicUser = (acc: AccountRow): PublicUser => ({
+export const mapAccountToPublicUser = (acc: AccountRow): PublicUser => ({
   id: acc.id,
   email: acc.email,
   fullName: acc.full_name,
   role: acc.role,
+  permissions: permissionsFor(acc.role),
   is_active: acc.is_active,
   created_at: acc.created_at,
   last_login_at: acc.last_login_at,
 });
 
+const throttled = (retryAfter: number): ThrottledResponse => ({
+  error: 'Too many login attempts, try again later',
+  retryAfter,
+});
+
+const throttleKeysFrom = (req: Parameters<typeof sessionMetaFrom>[0], email: string): ThrottleKeys => ({
+  email: email.toLowerCase(),
+  ip: sessionMetaFrom(req).ip,
+});
+
+const ACCOUNT_LOGIN_COLUMNS =
+  'id, email, full_name, role, password_hash, is_active, created_at, last_login_at, totp_enabled_at';
+
+/**
+ * Завершение входа (после пароля и, если нужно, второго фактора): открываем сеанс и выдаём токены.
+ */
+const completeLogin = async (
+  req: Parameters<typeof sessionMetaFrom>[0],
+  acc: AccountRow,
+): Promise<LoginSuccessResponse> => {
+  db.query('UPDATE accounts SET last_login_at = NOW() WHERE id = $1', [acc.id]).catch((rawError: unknown) => {
+    const err = rawError as { code?: unknown; message?: unknown };
+    const code = err?.code ? String(err.code) : undefined;
+    const message = err?.message ? String(err.message) : 'unknown error';
+    console.warn('skip last_login_at update:', code ?? message);
+  });
+
+  await clearFailures(acc.email.toLowerCase());
+  const { session, refreshToken } = await createSession(acc.id, sessionMetaFrom(req));
+  const token = sign({ id: acc.id, email: acc.email, role: acc.role ?? undefined, sid: session.id });
+
+  const twoFactor = await getTwoFactorState(acc.id);
+
+  return {
+    token,
+    refreshToken,
+    user: {
+      ...mapAccountToPublicUser(acc),
+      twoFactorSetupRequired: Boolean(twoFactor?.required && !twoFactor.enabled),
+    },
+  };
+};
+
 /**
  * POST /auth/login
  *  - 400, если не пришли email/password.
  *  - 401, если пара логин/пароль неверна.
- *  - 500, если JWT не настроен (нет секрета).
- *  - 200, если всё хорошо: { token, user }.
+ *  - 429 + Retry-After, если по email или IP слишком много неудачных попыток.
+ *  - 200 { twoFactorRequired, challengeToken }, если у аккаунта включена 2FA — дальше /auth/login/2fa.
+ *  - 200, если всё хорошо: { token, refreshToken, user }.
  */
 export const login: RequestHandler<
   unknown,
-  LoginSuccessResponse | ErrorResponse,
+  LoginSuccessResponse | LoginChallengeResponse | ThrottledResponse | ErrorResponse,
   LoginRequestBody
 > = async (req, res) => {
   try {
@@ -83,9 +196,26 @@ export const login: RequestHandler<
       return res.status(400).json({ error: 'email & password required' });
     }
 
+    const throttleKeys = throttleKeysFrom(req, email);
+    const retryAfter = await getRetryAfter(throttleKeys);
+    if (retryAfter) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json(throttled(retryAfter));
+    }
+
+    // Неизвестный email тоже считается неудачей: иначе перебор по email выдавал бы, какие аккаунты есть.
+    const rejectCredentials = async () => {
+      const lockedFor = await registerFailure(throttleKeys);
+      if (lockedFor) {
+        res.set('Retry-After', String(lockedFor));
+        return res.status(429).json(throttled(lockedFor));
+      }
+      return res.status(401).json({ error: 'Invalid credentials' });
+    };
+
     const { rows } = await db.query<AccountRow>(
       `
-      SELECT id, email, full_name, role, password_hash, is_active, created_at, last_login_at
+      SELECT ${ACCOUNT_LOGIN_COLUMNS}
       FROM accounts
       WHERE lower(email) = $1
         AND COALESCE(is_active, TRUE) = TRUE
@@ -96,35 +226,82 @@ export const login: RequestHandler<
     const acc = rows[0];
 
     if (!acc?.password_hash) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      return rejectCredentials();
     }
 
     const ok = await bcrypt.compare(password, acc.password_hash);
     if (!ok) {
+      return rejectCredentials();
+    }
+
+    if (acc.totp_enabled_at) {
+      return res.json({ twoFactorRequired: true, challengeToken: signChallenge(acc.id) });
+    }
+    return res.json(await completeLogin(req, acc));
+  } catch (rawError: unknown) {
+    console.error('LOGIN ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/login/2fa — второй шаг входа: challengeToken из /auth/login + код из приложения
+ * или код восстановления.
+ *  - 400, если не пришли challengeToken/code.
+ *  - 401, если challengeToken истёк/неверен или код не подошёл.
+ *  - 429 + Retry-After: неверные коды считаются теми же счётчиками, что и пароли.
+ *  - 200 { token, refreshToken, user }.
+ */
+export const loginSecondStep: RequestHandler<
+  unknown,
+  LoginSuccessResponse | ThrottledResponse | ErrorResponse,
+  LoginSecondStepBody
+> = async (req, res) => {
+  try {
+    const challengeToken = String(req.body?.challengeToken ?? '');
+    const code = String(req.body?.code ?? '').trim();
+
+    if (!challengeToken || !code) {
+      return res.status(400).json({ error: 'challengeToken & code required' });
+    }
+
+    const accountId = verifyChallenge(challengeToken);
+    if (!accountId) {
+      return res.status(401).json({ error: 'Login session expired, sign in again' });
+    }
+
+    const { rows } = await db.query<AccountRow>(
+      `
+      SELECT ${ACCOUNT_LOGIN_COLUMNS}
+      FROM accounts
+      WHERE id = $1 AND COALESCE(is_active, TRUE) = TRUE
+      `,
+      [accountId],
+    );
+    const acc = rows[0];
+    if (!acc) {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    db.query('UPDATE accounts SET last_login_at = NOW() WHERE id = $1', [acc.id]).catch((rawError: unknown) => {
-      const err = rawError as { code?: unknown; message?: unknown };
-      const code = err?.code ? String(err.code) : undefined;
-      const message = err?.message ? String(err.message) : 'unknown error';
-      console.warn('skip last_login_at update:', code ?? message);
-    });
+    const throttleKeys = throttleKeysFrom(req, acc.email);
+    const retryAfter = await getRetryAfter(throttleKeys);
+    if (retryAfter) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json(throttled(retryAfter));
+    }
 
-    let token: string;
-    try {
-      token = sign({ id: acc.id, email: acc.email, role: acc.role ?? undefined });
-    } catch (rawError) {
-      console.error('JWT sign error:', rawError);
-      return res.status(500).json({ error: 'JWT is not configured' });
+    if (!(await verifySecondFactor(acc.id, code))) {
+      const lockedFor = await registerFailure(throttleKeys);
+      if (lockedFor) {
+        res.set('Retry-After', String(lockedFor));
+        return res.status(429).json(throttled(lockedFor));
+      }
+      return res.status(401).json({ error: 'Invalid code' });
     }
 
-    return res.json({
-      token,
-      user: mapAccountToPublicUser(acc),
-    });
+    return res.json(await completeLogin(req, acc));
   } catch (rawError: unknown) {
-    console.error('LOGIN ERROR:', rawError);
+    console.error('LOGIN 2FA ERROR:', rawError);
     return res.status(500).json({ error: 'Internal error' });
   }
 };
@@ -132,7 +309,7 @@ export const login: RequestHandler<
 /**
  * GET /auth/me
  *  - токен опционален. Если нет/невалиден — возвращаем { user: null } и 200.
- *  - если токен есть, подтягиваем свежие данные из БД.
+ *  - если токен есть, подтягиваем свежие данные из БД (включая актуальный список прав роли).
  */
 export const me: RequestHandler<unknown, MeSuccessResponse | ErrorResponse> = async (
   req,
@@ -159,11 +336,112 @@ export const me: RequestHandler<unknown, MeSuccessResponse | ErrorResponse> = as
         return res.json({ user: null });
       }
 
+      const twoFactor = await getTwoFactorState(acc.id);
+
       return res.json({
-        user: mapAccountToPublicUser(acc),
+        user: {
+          ...mapAccountToPublicUser(acc),
+          twoFactorSetupRequired: Boolean(twoFactor?.required && !twoFactor.enabled),
+        },
       });
     } catch (rawError: unknown) {
       console.error('ME ERROR:', rawError);
       return res.status(500).json({ error: 'Internal error' });
     }
   };
+
+/**
+ * PATCH /auth/me — пользователь меняет своё отображаемое имя.
+ *  - 400 с fields.fullName, если имя слишком длинное.
+ *  - 200 { user } с обновлёнными данными.
+ */
+export const updateMe: RequestHandler<
+  unknown,
+  MeSuccessResponse | FieldErrorResponse | ErrorResponse,
+  UpdateMeBody
+> = async (req, res) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+
+    const fullName = String(req.body?.fullName ?? '').trim();
+    if (fullName.length > MAX_FULL_NAME_LENGTH) {
+      const message = `fullName must be at most ${MAX_FULL_NAME_LENGTH} characters`;
+      return res.status(400).json({ error: message, fields: { fullName: message } });
+    }
+
+    const { rows } = await db.query<AccountRow>(
+      `
+      UPDATE accounts SET full_name = $2
+      WHERE id = $1
+      RETURNING id, email, full_name, role, is_active, created_at, last_login_at
+      `,
+      [userFromAuth.id, fullName || null],
+    );
+    const acc = rows[0];
+
+    if (!acc) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    return res.json({ user: mapAccountToPublicUser(acc) });
+  } catch (rawError: unknown) {
+    console.error('UPDATE ME ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/password — смена пароля текущим пользователем.
+ *  - 400 с fields.*, если текущий пароль неверен или новый не проходит правила сложности.
+ *  - 200 { ok, revokedSessions }: все прочие сеансы пользователя отзываются,
+ *    текущий продолжает работу с прежними токенами.
+ */
+export const changePassword: RequestHandler<
+  unknown,
+  ChangePasswordResponse | FieldErrorResponse | ErrorResponse,
+  ChangePasswordBody
+> = async (req, res) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+    const currentPassword = String(req.body?.currentPassword ?? '');
+    const newPassword = String(req.body?.newPassword ?? '');
+
+    const fields: Record<string, string> = {};
+    if (!currentPassword) {
+      fields.currentPassword = 'current password is required';
+    }
+    const strengthError = validatePassword(newPassword);
+    if (strengthError) {
+      fields.newPassword = strengthError;
+    } else if (newPassword === currentPassword) {
+      fields.newPassword = 'new password must differ from the current one';
+    }
+    if (Object.keys(fields).length) {
+      return res.status(400).json({ error: 'Validation failed', fields });
+    }
+
+    const { rows } = await db.query<AccountRow>(
+      'SELECT id, email, role, password_hash FROM accounts WHERE id = $1',
+      [userFromAuth.id],
+    );
+    const acc = rows[0];
+    if (!acc?.password_hash) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const ok = await bcrypt.compare(currentPassword, acc.password_hash);
+    if (!ok) {
+      const message = 'current password is incorrect';
+      return res.status(400).json({ error: message, fields: { currentPassword: message } });
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+    await db.query('UPDATE accounts SET password_hash = $2 WHERE id = $1', [acc.id, passwordHash]);
+    const revokedSessions = await revokeAllSessions(acc.id, userFromAuth.sid);
+
+    return res.json({ ok: true, revokedSessions });
+  } catch (rawError: unknown) {
+    console.error('CHANGE PASSWORD ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
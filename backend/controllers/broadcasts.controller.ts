@@ -1,6 +1,7 @@
 
 import type { RequestHandler } from 'express';
 
+import { recordAudit } from '../services/audit.service';
 import type { ErrorResponse } from '../types/models';
 
 /**
@@ -31,6 +32,8 @@ interface BroadcastFilters {
   onlyActiveDays?: number;
   minOrders?: number;
   platform?: string;
+  /** Сегмент по тегам чатов: id тегов, подходит чат хотя бы с одним из них. */
+  tags?: number[];
 }
 
 interface PreviewRecipientsArgs {
@@ -160,7 +163,8 @@ export const preview: RequestHandler<
  * POST /api/broadcasts
  * • Режимы: 'all' (всем по фильтрам), 'limit' (первым N) и 'selected' (список chat_id).
  * • В тестовом режиме (`testMode=true`) отправка не происходит, возвращается только статистика.
- * • При боевой отправке делегируем работу сервису и возвращаем результат (успехи/ошибки).
+ * • При боевой отправке делегируем работу сервису и возвращаем результат (успехи/ошибки);
+ *   запуск фиксируется в журнале аудита.
  */
 export const sendBroadcast: RequestHandler<unknown, BroadcastResult | ErrorResponse, BroadcastSendBody> = async (
   req,
@@ -221,6 +225,26 @@ export const sendBroadcast: RequestHandler<unknown, BroadcastResult | ErrorRespo
       recipientIds,
     });
 
+    // Тестовый прогон ничего не отправляет — в журнал попадает только боевая рассылка.
+    if (!result.testMode) {
+      await recordAudit(req, {
+        action: 'send',
+        entity: 'broadcast',
+        after: {
+          title,
+          text,
+          imageUrl,
+          platforms,
+          mode,
+          limit,
+          recipients: mode === 'selected' ? recipientIds.length : null,
+          total: result.total,
+          sent: result.sent,
+          failed: result.failed,
+        },
+      });
+    }
+
     return res.json(result);
   } catch (err) {
     return next(err);
@@ -0,0 +1,224 @@
+/**
+ * Контроллер шаблонов ответов (/api/canned-responses): CRUD библиотеки шаблонов и подстановка
+ * переменных для конкретного чата. Все изменения пишутся в журнал аудита.
+ */
+import type { RequestHandler } from 'express';
+
+import { PG_UNIQUE_VIOLATION, pgCode } from '../utils/pgErrors';
+import { accountId } from '../utils/requestAccount';
+import { recordAudit } from '../services/audit.service';
+import {
+  BODY_MAX_LENGTH,
+  CATEGORY_MAX_LENGTH,
+  SHORTCUT_RE,
+  TEMPLATE_VARIABLES,
+  TITLE_MAX_LENGTH,
+  createCannedResponse,
+  deleteCannedResponse,
+  findCannedResponse,
+  listCannedResponses,
+  renderCannedResponse,
+  updateCannedResponse,
+  type CannedResponse,
+  type CannedResponseInput,
+  type RenderedResponse,
+  type TemplateVariable,
+} from '../services/cannedResponses.service';
+import type { ErrorResponse } from '../types/models';
+
+interface CannedListQuery {
+  q?: string;
+  category?: string;
+}
+
+interface CannedListResponse {
+  items: CannedResponse[];
+  /** Переменные, которые понимает сервер, — для подсказки в редакторе шаблонов. */
+  variables: readonly TemplateVariable[];
+}
+
+interface CannedBody {
+  shortcut?: unknown;
+  title?: unknown;
+  body?: unknown;
+  category?: unknown;
+}
+
+interface RenderBody {
+  chat_id?: unknown;
+}
+
+type IdParams = { id: string };
+
+const parseId = (value: string): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * Проверяет и нормализует тело запроса: shortcut приводится к нижнему регистру без ведущего «/»,
+ * пустая категория — null. Возвращает текст ошибки, если поле не подходит.
+ */
+const parseInput = (body: CannedBody | undefined): CannedResponseInput | string => {
+  const { shortcut, title, body: text, category } = body ?? {};
+  if (typeof shortcut !== 'string' || typeof title !== 'string' || typeof text !== 'string') {
+    return 'shortcut, title and body are required';
+  }
+  const cleanShortcut = shortcut.trim().replace(/^\//, '').toLowerCase();
+  if (!SHORTCUT_RE.test(cleanShortcut)) {
+    return 'shortcut must be 1-32 letters, digits, "_" or "-"';
+  }
+  const cleanTitle = title.trim();
+  if (!cleanTitle || cleanTitle.length > TITLE_MAX_LENGTH) {
+    return `title must be 1-${TITLE_MAX_LENGTH} characters`;
+  }
+  if (!text.trim() || text.length > BODY_MAX_LENGTH) {
+    return `body must be 1-${BODY_MAX_LENGTH} characters`;
+  }
+  if (category != null && typeof category !== 'string') {
+    return 'category must be string';
+  }
+  const cleanCategory = category?.trim() || null;
+  if (cleanCategory && cleanCategory.length > CATEGORY_MAX_LENGTH) {
+    return `category is too long (max ${CATEGORY_MAX_LENGTH})`;
+  }
+  return { shortcut: cleanShortcut, title: cleanTitle, body: text, category: cleanCategory };
+};
+
+/**
+ * GET /api/canned-responses — все шаблоны (фильтры: q — подстрока, category).
+ * Библиотека небольшая, поэтому без пагинации: палитра «/» ищет по ней на клиенте.
+ */
+export const list: RequestHandler<unknown, CannedListResponse | ErrorResponse, unknown, CannedListQuery> = async (
+  req,
+  res,
+) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const category = typeof req.query.category === 'string' ? req.query.category.trim() : '';
+    const items = await listCannedResponses({ q: q || undefined, category: category || undefined });
+    return res.json({ items, variables: TEMPLATE_VARIABLES });
+  } catch (error) {
+    console.error('Failed to list canned responses:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * GET /api/canned-responses/:id — один шаблон.
+ */
+export const getOne: RequestHandler<IdParams, CannedResponse | ErrorResponse> = async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+  try {
+    const row = await findCannedResponse(id);
+    if (!row) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json(row);
+  } catch (error) {
+    console.error('Failed to load canned response:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /api/canned-responses — новый шаблон. Занятый shortcut — 409.
+ */
+export const create: RequestHandler<unknown, CannedResponse | ErrorResponse, CannedBody> = async (req, res) => {
+  const input = parseInput(req.body);
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input });
+  }
+  try {
+    const row = await createCannedResponse(input, accountId(req));
+    await recordAudit(req, { action: 'create', entity: 'canned_response', entityId: row.id, after: row });
+    return res.status(201).json(row);
+  } catch (error) {
+    if (pgCode(error) === PG_UNIQUE_VIOLATION) {
+      return res.status(409).json({ error: 'Shortcut already exists' });
+    }
+    console.error('Failed to create canned response:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * PUT /api/canned-responses/:id — полная замена полей шаблона.
+ */
+export const update: RequestHandler<IdParams, CannedResponse | ErrorResponse, CannedBody> = async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+  const input = parseInput(req.body);
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input });
+  }
+  try {
+    const before = await findCannedResponse(id);
+    if (!before) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    const row = await updateCannedResponse(id, input);
+    if (!row) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    await recordAudit(req, { action: 'update', entity: 'canned_response', entityId: id, before, after: row });
+    return res.json(row);
+  } catch (error) {
+    if (pgCode(error) === PG_UNIQUE_VIOLATION) {
+      return res.status(409).json({ error: 'Shortcut already exists' });
+    }
+    console.error('Failed to update canned response:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * DELETE /api/canned-responses/:id — удаляет шаблон.
+ */
+export const remove: RequestHandler<IdParams, { ok: true } | ErrorResponse> = async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+  try {
+    const row = await deleteCannedResponse(id);
+    if (!row) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    await recordAudit(req, { action: 'delete', entity: 'canned_response', entityId: id, before: row });
+    return res.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to delete canned response:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /api/canned-responses/:id/render — текст шаблона для чата chat_id с подставленными переменными.
+ * missing — переменные без значения (они остаются в тексте в фигурных скобках).
+ */
+export const render: RequestHandler<IdParams, RenderedResponse | ErrorResponse, RenderBody> = async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+  const chatId = Number(req.body?.chat_id);
+  if (req.body?.chat_id == null || !Number.isFinite(chatId)) {
+    return res.status(400).json({ error: 'chat_id must be number' });
+  }
+  try {
+    const result = await renderCannedResponse(id, chatId, accountId(req));
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    return res.json(result.rendered);
+  } catch (error) {
+    console.error('Failed to render canned response:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
@@ -0,0 +1,158 @@
+/**
+ * Контроллер внутренних заметок по чату (/api/chats/:chat_id/notes). Заметки видят только операторы;
+ * каждое изменение пишется в аудит, а счётчик заметок чата уходит в SSE-топик `chats`.
+ */
+import type { Request, RequestHandler } from 'express';
+
+import { broadcast } from '../utils/events';
+import { hasPermission } from '../utils/permissions';
+import { accountId } from '../utils/requestAccount';
+import { recordAudit } from '../services/audit.service';
+import {
+  NOTE_MAX_LENGTH,
+  createChatNote,
+  deleteChatNote,
+  findChatNote,
+  findChatWithNotesCount,
+  listChatNotes,
+  updateChatNote,
+  type ChatNote,
+} from '../services/chatNotes.service';
+import type { ErrorResponse } from '../types/models';
+
+type ChatParams = { chat_id: string };
+
+type NoteParams = { chat_id: string; note_id: string };
+
+interface NoteBody {
+  body?: unknown;
+}
+
+interface NotesListResponse {
+  items: ChatNote[];
+}
+
+/** Текст заметки из тела запроса или текст ошибки валидации. */
+const parseBody = (body: NoteBody | undefined): { text: string } | { error: string } => {
+  const text = typeof body?.body === 'string' ? body.body.trim() : '';
+  if (!text) {
+    return { error: 'body is required' };
+  }
+  if (text.length > NOTE_MAX_LENGTH) {
+    return { error: `body is too long (max ${NOTE_MAX_LENGTH})` };
+  }
+  return { text };
+};
+
+/** Оповещает клиентов о новом числе заметок чата. */
+const broadcastNotesCount = async (chatId: number): Promise<void> => {
+  const row = await findChatWithNotesCount(chatId);
+  if (row) {
+    broadcast('chats', { action: 'update', row });
+  }
+};
+
+const parseNoteParams = (req: Request<NoteParams>): { chatId: number; noteId: number } | null => {
+  const chatId = Number(req.params.chat_id);
+  const noteId = Number(req.params.note_id);
+  return Number.isFinite(chatId) && Number.isInteger(noteId) && noteId > 0 ? { chatId, noteId } : null;
+};
+
+/**
+ * GET /api/chats/:chat_id/notes — заметки чата, новые сверху.
+ */
+export const list: RequestHandler<ChatParams, NotesListResponse | ErrorResponse> = async (req, res, next) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    return res.json({ items: await listChatNotes(chatId) });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /api/chats/:chat_id/notes — добавляет заметку от имени текущего аккаунта: `{ body }`.
+ */
+export const create: RequestHandler<ChatParams, ChatNote | ErrorResponse, NoteBody> = async (req, res, next) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const parsed = parseBody(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const note = await createChatNote(chatId, accountId(req), parsed.text);
+    if (!note) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    await recordAudit(req, { action: 'create', entity: 'chat_note', entityId: note.id, after: note });
+    await broadcastNotesCount(chatId);
+    return res.status(201).json(note);
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * PUT /api/chats/:chat_id/notes/:note_id — правит текст заметки. Только автор.
+ */
+export const update: RequestHandler<NoteParams, ChatNote | ErrorResponse, NoteBody> = async (req, res, next) => {
+  try {
+    const ids = parseNoteParams(req);
+    if (!ids) {
+      return res.status(400).json({ error: 'chat_id and note_id must be numbers' });
+    }
+    const parsed = parseBody(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const before = await findChatNote(ids.chatId, ids.noteId);
+    if (!before) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (before.author_id !== accountId(req)) {
+      return res.status(403).json({ error: 'Only the author can edit a note' });
+    }
+    const after = await updateChatNote(ids.chatId, ids.noteId, parsed.text);
+    if (!after) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    await recordAudit(req, { action: 'update', entity: 'chat_note', entityId: ids.noteId, before, after });
+    return res.json(after);
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /api/chats/:chat_id/notes/:note_id — удаляет заметку. Автор удаляет свою,
+ * чужую — только с правом chats:delete.
+ */
+export const remove: RequestHandler<NoteParams, { ok: true } | ErrorResponse> = async (req, res, next) => {
+  try {
+    const ids = parseNoteParams(req);
+    if (!ids) {
+      return res.status(400).json({ error: 'chat_id and note_id must be numbers' });
+    }
+    const before = await findChatNote(ids.chatId, ids.noteId);
+    if (!before) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (before.author_id !== accountId(req) && !hasPermission(req.user?.role, 'chats:delete')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    if (!(await deleteChatNote(ids.chatId, ids.noteId))) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    await recordAudit(req, { action: 'delete', entity: 'chat_note', entityId: ids.noteId, before });
+    await broadcastNotesCount(ids.chatId);
+    return res.json({ ok: true });
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -1,13 +1,38 @@
 
-import type { RequestHandler } from 'express';
+import type { Request, RequestHandler, Response } from 'express';
 import type { Pool, PoolClient } from 'pg';
 
 /**
- * Контроллер чатов: формирует списки чатов с поиском, позволяет создавать/обновлять
- * карточки и удалять чаты с оповещением фронтенда.
+ * Контроллер чатов: формирует списки чатов с поиском и счётчиками непрочитанного, позволяет
+ * создавать/обновлять карточки и удалять чаты с оповещением фронтенда. Каждая мутация пишется
+ * в журнал аудита. Позиции чтения (chat_reads) у каждого аккаунта свои. У чата может быть
+ * ответственный оператор (assigned_to) — назначение, перехват и освобождение тоже здесь —
+ * и статус переписки (open / pending / resolved). Теги и заметки чата — в tags/chatNotes.controller,
+ * здесь они только отдаются в списке.
  */
 import pool from '../db';
 import { broadcast } from '../utils/events';
+import { hasPermission } from '../utils/permissions';
+import { PG_UNIQUE_VIOLATION, pgCode } from '../utils/pgErrors';
+import { normalizePlatform } from '../utils/platform';
+import { accountId } from '../utils/requestAccount';
+import { recordAudit } from '../services/audit.service';
+import { tryLinkCustomer } from '../services/customers.service';
+import {
+  assignChat,
+  findAssignedChat,
+  type AssignedChat,
+  type AssignResult,
+} from '../services/assignment.service';
+import {
+  CHAT_STATUSES,
+  isChatStatus,
+  RESOLUTION_REASON_MAX_LENGTH,
+  setChatStatus,
+  type ChatStatus,
+  type ChatWithStatus,
+} from '../services/chatStatus.service';
+import { chatTagsSql, type Tag } from '../services/tags.service';
 import type { ChatRecord, ErrorResponse } from '../types/models';
 
 const db = pool as unknown as Pool;
@@ -16,6 +41,13 @@ interface ChatsListQuery {
   limit?: string;
   offset?: string;
   q?: string;
+  unanswered?: string;
+  /** me — назначенные текущему аккаунту, none — свободные; без параметра — все. */
+  assigned?: string;
+  /** Статусы через запятую: open,pending,resolved; без параметра — все. */
+  status?: string;
+  /** id тегов через запятую: чаты хотя бы с одним из них. */
+  tag?: string;
 }
 
 interface ChatsListResponse {
@@ -32,15 +64,60 @@ interface ChatsUpsertBody {
 }
 
 interface ChatListItem extends ChatRecord {
+  assigned_to: string | null;
+  assignee_name: string | null;
+  status: ChatStatus;
+  status_changed_at: string | Date;
+  resolved_at: string | Date | null;
+  resolution_reason: string | null;
+  tags: Tag[];
+  notes_count: number;
   last_ts: string | Date | null;
+  unread_count: number;
+  awaiting_reply: boolean;
 }
 
 interface CountRow {
   total: number;
 }
 
+interface MarkReadBody {
+  message_id?: number | string | null;
+}
+
+interface MarkReadResponse {
+  chat_id: number;
+  last_read_message_id: number;
+  unread_count: number;
+}
+
+interface StatusBody {
+  status?: unknown;
+  reason?: unknown;
+}
+
+interface AssignBody {
+  account_id?: string | null;
+}
+
+interface UnreadTotals {
+  chats: number;
+  messages: number;
+}
+
 const MAX_SEARCH_LENGTH = 200;
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CHAT_COLUMNS = 'chat_id, username, first_name, last_name, platform';
+
+const findChat = async (chatId: number): Promise<ChatRecord | null> => {
+  const { rows } = await db.query<ChatRecord>(`SELECT ${CHAT_COLUMNS} FROM chats WHERE chat_id = $1`, [
+    chatId,
+  ]);
+  return rows[0] ?? null;
+};
+
 const toNumber = (value: unknown, fallback: number): number => {
   const parsed = Number.parseInt(String(value ?? ''), 10);
   if (Number.isFinite(parsed)) {
@@ -54,12 +131,64 @@ const normalizeLimit = (value: unknown, defaultValue: number, max: number): numb
 
 const normalizeOffset = (value: unknown): number => Math.max(toNumber(value, 0), 0);
 
+const isTruthyFlag = (value: unknown): boolean =>
+  ['1', 'true', 'yes'].includes(String(value ?? '').toLowerCase());
+
+/**
+ * CTE `unread`: непрочитанные входящие аккаунта по чатам (chat_id, unread_count).
+ * Прочитано всё до chat_reads.last_read_message_id; если аккаунт чат ещё не открывал —
+ * непрочитанными считаются входящие после создания аккаунта, а не вся история.
+ * Считаем только в чатах, где есть входящие после позиции чтения (EXISTS), и только по ним —
+ * оба прохода идут по индексу messages_chat_inbound_idx (миграция 0017).
+ */
+const unreadCte = (accountParam: string): string => `
+  unread AS (
+    SELECT c.chat_id, n.unread_count
+    FROM chats c
+    LEFT JOIN chat_reads r ON r.chat_id = c.chat_id AND r.account_id = ${accountParam}
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*)::int AS unread_count
+      FROM messages m
+      WHERE m.chat_id = c.chat_id
+        AND m.from_me IS NOT TRUE
+        AND m.id > COALESCE(r.last_read_message_id, 0)
+        AND (r.chat_id IS NOT NULL OR m.date > (SELECT created_at FROM accounts WHERE id = ${accountParam}))
+    ) n
+    WHERE EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.chat_id = c.chat_id
+          AND m.from_me IS NOT TRUE
+          AND m.id > COALESCE(r.last_read_message_id, 0)
+      )
+      AND n.unread_count > 0
+  )
+`;
+
+/**
+ * CTE `last_msg`: время последнего сообщения чата и ждёт ли гость ответа (последнее сообщение — входящее).
+ */
+const LAST_MESSAGE_CTE = `
+  last_msg AS (
+    SELECT DISTINCT ON (m.chat_id)
+      m.chat_id,
+      m.date AS last_ts,
+      m.from_me IS NOT TRUE AS awaiting_reply
+    FROM messages m
+    ORDER BY m.chat_id, m.date DESC NULLS LAST, m.id DESC
+  )
+`;
+
 /**
  * GET /api/chats
  * • Получаем сгруппированный список чатов: собираем username/имя/фамилию/платформу и находим
  *   timestamp последнего сообщения (LEFT JOIN messages).
  * • Поисковая строка `q` работает по username, имени и фамилии (ILIKE), пагинация задаётся
  *   параметрами `limit`/`offset` с ограничениями.
+ * • Для текущего аккаунта считаем `unread_count` — непрочитанные входящие, и `awaiting_reply` —
+ *   последнее сообщение от гостя. `unanswered=true` оставляет только чаты, ждущие ответа.
+ * • `assigned_to`/`assignee_name` — ответственный оператор; `assigned=me|none` — только свои или свободные.
+ * • `status` — статус переписки и данные последнего решения; `status=open,pending` — только эти статусы.
+ * • `tags` и `notes_count` — внутренние теги и число заметок; `tag=1,2` — чаты хотя бы с одним из тегов.
  * • В заголовок `X-Total-Count` записывается общее количество чатов под фильтрами.
  */
 export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, unknown, ChatsListQuery> = async (
@@ -67,7 +196,7 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
   res,
   next,
 ) => {
-  const { limit = '100', offset = '0', q = '' } = req.query;
+  const { limit = '100', offset = '0', q = '', unanswered, assigned, status, tag } = req.query;
 
   const lim = normalizeLimit(limit, 100, 5000);
   const off = normalizeOffset(offset);
@@ -77,16 +206,55 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
     return res.status(400).json({ error: 'q is too long (max 200)' });
   }
 
-  const params: Array<string | number> = [];
-  let whereChats = '';
+  if (assigned && !['me', 'none', 'all'].includes(assigned)) {
+    return res.status(400).json({ error: 'assigned must be one of: me, none, all' });
+  }
+  const statuses = String(status ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (!statuses.every(isChatStatus)) {
+    return res.status(400).json({ error: `status must be a list of: ${CHAT_STATUSES.join(', ')}` });
+  }
+  const tagIds = String(tag ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (!tagIds.every((value) => /^\d+$/.test(value))) {
+    return res.status(400).json({ error: 'tag must be a list of tag ids' });
+  }
+  const account = accountId(req);
+
+  const params: Array<string | number | null> = [];
+  const conditions: string[] = [];
   if (query) {
     params.push(`%${query}%`);
-    whereChats = `
-      WHERE COALESCE(c.username, '') ILIKE $${params.length}
-         OR COALESCE(c.first_name, '') ILIKE $${params.length}
-         OR COALESCE(c.last_name,  '') ILIKE $${params.length}
-    `;
+    conditions.push(`(
+      COALESCE(c.username, '') ILIKE $${params.length}
+      OR COALESCE(c.first_name, '') ILIKE $${params.length}
+      OR COALESCE(c.last_name,  '') ILIKE $${params.length}
+    )`);
+  }
+  if (assigned === 'me') {
+    params.push(account);
+    conditions.push(`c.assigned_to = $${params.length}::uuid`);
+  } else if (assigned === 'none') {
+    conditions.push('c.assigned_to IS NULL');
+  }
+  if (statuses.length) {
+    params.push(statuses.join(','));
+    conditions.push(`c.status = ANY(string_to_array($${params.length}, ','))`);
   }
+  if (tagIds.length) {
+    params.push(tagIds.join(','));
+    conditions.push(`EXISTS (
+      SELECT 1 FROM chat_tags ct
+      WHERE ct.chat_id = c.chat_id AND ct.tag_id = ANY(string_to_array($${params.length}, ',')::int[])
+    )`);
+  }
+  const whereChats = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const whereMerged = isTruthyFlag(unanswered) ? 'WHERE lm.awaiting_reply' : '';
 
   const countSql = `
     WITH base AS (
@@ -94,11 +262,16 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
       FROM chats c
       ${whereChats}
       GROUP BY c.chat_id
-    )
+    ),
+    ${LAST_MESSAGE_CTE}
     SELECT COUNT(*)::int AS total
-    FROM base
+    FROM base b
+    LEFT JOIN last_msg lm ON lm.chat_id = b.chat_id
+    ${whereMerged}
   `;
 
+  const accountParam = `$${params.length + 1}`;
+
   const listSql = `
     WITH base AS (
       SELECT
@@ -106,16 +279,18 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
         MAX(c.username)   AS username,
         MAX(c.first_name) AS first_name,
         MAX(c.last_name)  AS last_name,
-        MAX(c.platform)   AS platform
+        MAX(c.platform)   AS platform,
+        c.assigned_to,
+        c.status,
+        c.status_changed_at,
+        c.resolved_at,
+        c.resolution_reason
       FROM chats c
       ${whereChats}
-      GROUP BY c.chat_id
-    ),
-    last_msg AS (
-      SELECT m.chat_id, MAX(m.date) AS last_ts
-      FROM messages m
-      GROUP BY m.chat_id
+      GROUP BY c.chat_id, c.assigned_to, c.status, c.status_changed_at, c.resolved_at, c.resolution_reason
     ),
+    ${LAST_MESSAGE_CTE},
+    ${unreadCte(accountParam)},
     merged AS (
       SELECT
         b.chat_id,
@@ -123,9 +298,22 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
         b.first_name,
         b.last_name,
         b.platform,
-        lm.last_ts
+        b.assigned_to,
+        COALESCE(a.full_name, a.email) AS assignee_name,
+        b.status,
+        b.status_changed_at,
+        b.resolved_at,
+        b.resolution_reason,
+        ${chatTagsSql('b.chat_id')} AS tags,
+        (SELECT COUNT(*)::int FROM chat_notes n WHERE n.chat_id = b.chat_id) AS notes_count,
+        lm.last_ts,
+        COALESCE(u.unread_count, 0) AS unread_count,
+        COALESCE(lm.awaiting_reply, false) AS awaiting_reply
       FROM base b
       LEFT JOIN last_msg lm ON lm.chat_id = b.chat_id
+      LEFT JOIN unread u ON u.chat_id = b.chat_id
+      LEFT JOIN accounts a ON a.id = b.assigned_to
+      ${whereMerged}
     )
     SELECT
       chat_id,
@@ -133,10 +321,20 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
       first_name,
       last_name,
       platform,
-      last_ts
+      assigned_to,
+      assignee_name,
+      status,
+      status_changed_at,
+      resolved_at,
+      resolution_reason,
+      tags,
+      notes_count,
+      last_ts,
+      unread_count,
+      awaiting_reply
     FROM merged
     ORDER BY last_ts DESC NULLS LAST, chat_id DESC
-    LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    LIMIT $${params.length + 2} OFFSET $${params.length + 3}
   `;
 
   let client: PoolClient | null = null;
@@ -144,7 +342,7 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
     client = await db.connect();
     const [{ rows: countRows }, { rows: listRows }] = await Promise.all([
       client.query<CountRow>(countSql, params),
-      client.query<ChatListItem>(listSql, [...params, lim, off]),
+      client.query<ChatListItem>(listSql, [...params, account, lim, off]),
     ]);
 
     const total = countRows?.[0]?.total ?? 0;
@@ -158,8 +356,11 @@ export const list: RequestHandler<unknown, ChatsListResponse | ErrorResponse, un
 };
 
 /**
- * POST /api/chats — выполняет UPSERT: если чат существует, обновляет профиль и платформу; если нет,
- * создаёт новую запись. После операции рассылаем событие `chats:upsert`.
+ * POST /api/chats — выполняет UPSERT: если чат существует, обновляет профиль; если нет,
+ * создаёт новую запись (id в канале — тот же chat_id). Платформу существующего чата не меняем:
+ * другой platform для того же chat_id (tg и telegram — одна платформа) — это другой чат, отвечаем 409.
+ * 409 и в случае, если в канале уже есть чат с этим id под другим chat_id (chats_platform_external_idx).
+ * После операции рассылаем событие `chats:upsert` и сопоставляем чат с профилем гостя.
  */
 export const createOrUpsert: RequestHandler<unknown, ChatRecord | ErrorResponse, ChatsUpsertBody> = async (
   req,
@@ -180,14 +381,20 @@ export const createOrUpsert: RequestHandler<unknown, ChatRecord | ErrorResponse,
       return res.status(400).json({ error: 'chat_id (number) is required' });
     }
 
+    const before = await findChat(chatId);
+    if (before?.platform && platform && normalizePlatform(before.platform) !== normalizePlatform(platform)) {
+      console.warn(`Chat ${chatId} upsert with platform ${platform} refused: chat belongs to ${before.platform}`);
+      return res.status(409).json({ error: 'Chat belongs to another platform' });
+    }
+
     const sql = `
-      INSERT INTO chats (chat_id, username, first_name, last_name, platform)
-      VALUES ($1, $2, $3, $4, $5)
+      INSERT INTO chats (chat_id, external_chat_id, username, first_name, last_name, platform)
+      VALUES ($1, $1, $2, $3, $4, $5)
       ON CONFLICT (chat_id) DO UPDATE SET
         username   = EXCLUDED.username,
         first_name = EXCLUDED.first_name,
         last_name  = EXCLUDED.last_name,
-        platform   = EXCLUDED.platform
+        platform   = COALESCE(chats.platform, EXCLUDED.platform)
       RETURNING chat_id, username, first_name, last_name, platform
     `;
 
@@ -200,16 +407,30 @@ export const createOrUpsert: RequestHandler<unknown, ChatRecord | ErrorResponse,
     ]);
 
     const row = rows[0];
+    await recordAudit(req, {
+      action: before ? 'update' : 'create',
+      entity: 'chat',
+      entityId: chatId,
+      before,
+      after: row,
+    });
     broadcast('chats', { action: 'upsert', row });
+    await tryLinkCustomer('chat', chatId);
     return res.json(row);
   } catch (error) {
+    if (pgCode(error) === PG_UNIQUE_VIOLATION) {
+      console.warn(`Chat ${req.body?.chat_id} upsert refused: the channel chat is already stored under another chat_id`);
+      return res.status(409).json({ error: 'Chat already exists under another chat_id' });
+    }
     return next(error);
   }
 };
 
 /**
- * PATCH /api/chats/:chat_id — частично обновляет запись чата. Возвращаем обновлённые данные
- * и отправляем событие `chats:update`.
+ * PATCH /api/chats/:chat_id — частично обновляет запись чата (платформу сменить нельзя — 409;
+ * 409 и при задании платформы чату без неё, если в этом канале уже есть чат с тем же id).
+ * Возвращаем обновлённые данные, отправляем событие `chats:update` и сопоставляем чат
+ * с профилем гостя (новый username может совпасть с другими записями).
  */
 export const update: RequestHandler<
   { chat_id: string },
@@ -229,13 +450,22 @@ export const update: RequestHandler<
       platform = null,
     } = req.body ?? {};
 
+    const before = await findChat(chatId);
+    if (!before) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (before.platform && platform && normalizePlatform(before.platform) !== normalizePlatform(platform)) {
+      console.warn(`Chat ${chatId} update with platform ${platform} refused: chat belongs to ${before.platform}`);
+      return res.status(409).json({ error: 'Chat belongs to another platform' });
+    }
+
     const sql = `
       UPDATE chats
       SET
         username   = $2,
         first_name = $3,
         last_name  = $4,
-        platform   = $5
+        platform   = COALESCE(platform, $5)
       WHERE chat_id = $1
       RETURNING chat_id, username, first_name, last_name, platform
     `;
@@ -253,9 +483,15 @@ export const update: RequestHandler<
     }
 
     const row = rows[0];
+    await recordAudit(req, { action: 'update', entity: 'chat', entityId: chatId, before, after: row });
     broadcast('chats', { action: 'update', row });
+    await tryLinkCustomer('chat', chatId);
     return res.json(row);
   } catch (error) {
+    if (pgCode(error) === PG_UNIQUE_VIOLATION) {
+      console.warn(`Chat ${req.params.chat_id} update refused: the channel chat is already stored under another chat_id`);
+      return res.status(409).json({ error: 'Chat already exists under another chat_id' });
+    }
     return next(error);
   }
 };
@@ -275,14 +511,241 @@ export const remove: RequestHandler<{ chat_id: string }, void | ErrorResponse> =
       return res.status(400).json({ error: 'chat_id must be number' });
     }
 
-    const result = await db.query('DELETE FROM chats WHERE chat_id = $1', [chatId]);
-    if (!result.rowCount) {
+    const { rows } = await db.query<ChatRecord>(
+      `DELETE FROM chats WHERE chat_id = $1 RETURNING ${CHAT_COLUMNS}`,
+      [chatId],
+    );
+    if (!rows.length) {
       return res.status(404).json({ error: 'Not found' });
     }
 
+    await recordAudit(req, { action: 'delete', entity: 'chat', entityId: chatId, before: rows[0] });
     broadcast('chats', { action: 'delete', chat_id: chatId });
     return res.status(204).end();
   } catch (error) {
     return next(error);
   }
 };
+
+/**
+ * POST /api/chats/:chat_id/read — отмечает чат прочитанным текущим аккаунтом: до `message_id`
+ * из тела или до последнего сообщения чата. Позиция только растёт (повторный вызов со старым id
+ * её не откатывает). Ответ — новая позиция и сколько непрочитанного осталось.
+ */
+export const markRead: RequestHandler<
+  { chat_id: string },
+  MarkReadResponse | ErrorResponse,
+  MarkReadBody
+> = async (req, res, next) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const messageIdRaw = req.body?.message_id;
+    const messageId = messageIdRaw == null || messageIdRaw === '' ? null : Number(messageIdRaw);
+    if (messageId !== null && !Number.isSafeInteger(messageId)) {
+      return res.status(400).json({ error: 'message_id must be integer' });
+    }
+    const account = accountId(req);
+    if (!account) {
+      return res.status(401).json({ error: 'No token' });
+    }
+
+    if (!(await findChat(chatId))) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const { rows } = await db.query<{ last_read_message_id: number }>(
+      `
+        INSERT INTO chat_reads (account_id, chat_id, last_read_message_id)
+        VALUES ($1, $2, COALESCE($3, (SELECT MAX(id) FROM messages WHERE chat_id = $2), 0))
+        ON CONFLICT (account_id, chat_id) DO UPDATE SET
+          last_read_message_id = GREATEST(chat_reads.last_read_message_id, EXCLUDED.last_read_message_id),
+          read_at = NOW()
+        RETURNING last_read_message_id
+      `,
+      [account, chatId, messageId],
+    );
+    const { rows: unreadRows } = await db.query<{ unread_count: number }>(
+      `WITH ${unreadCte('$1')} SELECT COALESCE(MAX(unread_count), 0)::int AS unread_count FROM unread WHERE chat_id = $2`,
+      [account, chatId],
+    );
+
+    return res.json({
+      chat_id: chatId,
+      last_read_message_id: rows[0].last_read_message_id,
+      unread_count: unreadRows[0]?.unread_count ?? 0,
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * GET /api/chats/unread — итоги для бейджа в навигации: сколько чатов с непрочитанным
+ * и сколько непрочитанных входящих всего у текущего аккаунта.
+ */
+export const unreadTotals: RequestHandler<unknown, UnreadTotals | ErrorResponse> = async (req, res, next) => {
+  try {
+    const { rows } = await db.query<UnreadTotals>(
+      `
+        WITH ${unreadCte('$1')}
+        SELECT COUNT(*)::int AS chats, COALESCE(SUM(unread_count), 0)::int AS messages
+        FROM unread
+      `,
+      [accountId(req)],
+    );
+    return res.json(rows[0] ?? { chats: 0, messages: 0 });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Общая часть assign/take/unassign: меняет ответственного, пишет аудит и рассылает `chats:update`
+ * со строкой чата (assigned_to и assignee_name), чтобы списки у всех операторов обновились.
+ */
+const applyAssignment = async (
+  req: Request,
+  chatId: number,
+  assignee: string | null,
+): Promise<AssignResult> => {
+  const result = await assignChat(chatId, assignee);
+  if (result.status === 200) {
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'chat',
+      entityId: chatId,
+      before: result.before,
+      after: result.after,
+    });
+    broadcast('chats', { action: 'update', row: result.after });
+  }
+  return result;
+};
+
+const sendAssignResult = (res: Response<AssignedChat | ErrorResponse>, result: AssignResult) =>
+  result.status === 200 ? res.json(result.after) : res.status(result.status).json({ error: result.error });
+
+/**
+ * POST /api/chats/:chat_id/assign — руководитель назначает чат оператору `account_id`
+ * (null — снимает назначение). Назначить можно только активный аккаунт с правом отвечать гостям.
+ */
+export const assign: RequestHandler<{ chat_id: string }, AssignedChat | ErrorResponse, AssignBody> = async (
+  req,
+  res,
+  next,
+) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const raw = req.body?.account_id;
+    if (raw !== null && (typeof raw !== 'string' || !UUID_RE.test(raw))) {
+      return res.status(400).json({ error: 'account_id (uuid or null) is required' });
+    }
+    return sendAssignResult(res, await applyAssignment(req, chatId, raw));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /api/chats/:chat_id/take — текущий аккаунт берёт чат себе, в том числе перехватывает
+ * у другого оператора.
+ */
+export const take: RequestHandler<{ chat_id: string }, AssignedChat | ErrorResponse> = async (req, res, next) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const account = accountId(req);
+    if (!account) {
+      return res.status(401).json({ error: 'No token' });
+    }
+    return sendAssignResult(res, await applyAssignment(req, chatId, account));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /api/chats/:chat_id/unassign — освобождает чат. Оператор может освободить только свой чат;
+ * чужой — лишь с правом chats:assign.
+ */
+export const unassign: RequestHandler<{ chat_id: string }, AssignedChat | ErrorResponse> = async (
+  req,
+  res,
+  next,
+) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const chat = await findAssignedChat(chatId);
+    if (!chat) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    const foreign = chat.assigned_to && chat.assigned_to !== accountId(req);
+    if (foreign && !hasPermission(req.user?.role, 'chats:assign')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    return sendAssignResult(res, await applyAssignment(req, chatId, null));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * PUT /api/chats/:chat_id/status — меняет статус переписки: `{ status, reason? }`.
+ * Для resolved сохраняются время, причина (до 500 символов) и автор решения; переход пишется
+ * в историю статусов и журнал аудита, клиенты получают `chats:update`.
+ */
+export const updateStatus: RequestHandler<
+  { chat_id: string },
+  ChatWithStatus | ErrorResponse,
+  StatusBody
+> = async (req, res, next) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const { status, reason } = req.body ?? {};
+    if (!isChatStatus(status)) {
+      return res.status(400).json({ error: `status must be one of: ${CHAT_STATUSES.join(', ')}` });
+    }
+    if (reason != null && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'reason must be string' });
+    }
+    const cleanReason = reason?.trim() || null;
+    if (cleanReason && cleanReason.length > RESOLUTION_REASON_MAX_LENGTH) {
+      return res.status(400).json({ error: `reason is too long (max ${RESOLUTION_REASON_MAX_LENGTH})` });
+    }
+
+    const result = await setChatStatus(chatId, status, {
+      reason: status === 'resolved' ? cleanReason : null,
+      actorId: accountId(req),
+    });
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    if (result.changed) {
+      await recordAudit(req, {
+        action: 'update',
+        entity: 'chat',
+        entityId: chatId,
+        before: result.before,
+        after: result.after,
+      });
+      broadcast('chats', { action: 'update', row: result.after });
+    }
+    return res.json(result.after);
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -0,0 +1,193 @@
+/**
+ * Контроллер профилей гостей (/api/customers и /api/chats/:chat_id/customer): карточка гостя
+ * и ручные исправления автоматического сопоставления — объединение и разделение профилей.
+ */
+import type { RequestHandler } from 'express';
+
+import { recordAudit } from '../services/audit.service';
+import {
+  findChatCustomer,
+  findCustomerProfile,
+  linkCustomer,
+  mergeCustomers,
+  splitCustomer,
+  type CustomerProfile,
+} from '../services/customers.service';
+import type { ErrorResponse } from '../types/models';
+
+type ChatParams = { chat_id: string };
+
+type CustomerParams = { id: string };
+
+interface MergeBody {
+  source_id?: unknown;
+  /** Вместо source_id: профиль гостя этого чата (чат без профиля сначала привязывается). */
+  chat_id?: unknown;
+}
+
+interface SplitBody {
+  chat_ids?: unknown;
+  order_ids?: unknown;
+  reservation_ids?: unknown;
+}
+
+interface SplitResponse {
+  source: CustomerProfile;
+  created: CustomerProfile;
+}
+
+const parseId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+/** chat_id бывает отрицательным (групповые чаты Telegram) — проверяем только целочисленность. */
+const parseChatId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isSafeInteger(id) ? id : null;
+};
+
+/** Список id из тела запроса; null — не массив чисел. */
+const parseIds = (value: unknown, parse: (item: unknown) => number | null = parseId): number[] | null => {
+  if (value == null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const ids = value.map(parse);
+  return ids.every((id): id is number => id != null) ? ids : null;
+};
+
+/**
+ * GET /api/chats/:chat_id/customer — профиль гостя для карточки в чате; только чтение.
+ * null — чат ещё не привязан к профилю (привязка идёт при записи, см. customers.service).
+ */
+export const getForChat: RequestHandler<ChatParams, CustomerProfile | null | ErrorResponse> = async (
+  req,
+  res,
+  next,
+) => {
+  try {
+    const chatId = parseChatId(req.params.chat_id);
+    if (chatId == null) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const result = await findChatCustomer(chatId);
+    if (!result.chat) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json(result.profile);
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * GET /api/customers/:id — профиль гостя: чаты, платформы, заказы, сумма и последняя бронь.
+ */
+export const getOne: RequestHandler<CustomerParams, CustomerProfile | ErrorResponse> = async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id == null) {
+      return res.status(400).json({ error: 'id must be number' });
+    }
+    const profile = await findCustomerProfile(id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json(profile);
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /api/customers/:id/merge — переносит в профиль все записи профиля `{ source_id }`
+ * (или профиля гостя чата `{ chat_id }`) и удаляет его.
+ */
+export const merge: RequestHandler<CustomerParams, CustomerProfile | ErrorResponse, MergeBody> = async (
+  req,
+  res,
+  next,
+) => {
+  try {
+    const targetId = parseId(req.params.id);
+    const byChat = req.body?.chat_id != null;
+    const chatId = byChat ? parseChatId(req.body?.chat_id) : null;
+    const requestedId = byChat ? null : parseId(req.body?.source_id);
+    if (targetId == null || (chatId == null && requestedId == null)) {
+      return res.status(400).json({ error: 'id and source_id (or chat_id) must be numbers' });
+    }
+    const sourceId = chatId != null ? await linkCustomer('chat', chatId) : requestedId;
+    if (sourceId == null) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    const result = await mergeCustomers(targetId, sourceId);
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'customer',
+      entityId: targetId,
+      before: result.before,
+      after: result.after,
+    });
+    await recordAudit(req, {
+      action: 'delete',
+      entity: 'customer',
+      entityId: sourceId,
+      before: result.before.source,
+    });
+    return res.json(result.after);
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /api/customers/:id/split — отделяет перечисленные записи в новый профиль:
+ * `{ chat_ids, order_ids, reservation_ids }`. Ответ — оба профиля после разделения.
+ */
+export const split: RequestHandler<CustomerParams, SplitResponse | ErrorResponse, SplitBody> = async (
+  req,
+  res,
+  next,
+) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id == null) {
+      return res.status(400).json({ error: 'id must be number' });
+    }
+    const chatIds = parseIds(req.body?.chat_ids, parseChatId);
+    const orderIds = parseIds(req.body?.order_ids);
+    const reservationIds = parseIds(req.body?.reservation_ids);
+    if (!chatIds || !orderIds || !reservationIds) {
+      return res.status(400).json({ error: 'chat_ids, order_ids and reservation_ids must be arrays of ids' });
+    }
+    if (!chatIds.length && !orderIds.length && !reservationIds.length) {
+      return res.status(400).json({ error: 'Nothing to split' });
+    }
+    const result = await splitCustomer(id, { chatIds, orderIds, reservationIds });
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'customer',
+      entityId: id,
+      before: result.before,
+      after: result.source,
+    });
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'customer',
+      entityId: result.created.id,
+      after: result.created,
+    });
+    return res.json({ source: result.source, created: result.created });
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -0,0 +1,29 @@
+/**
+ * Контроллер проверок состояния: liveness (процесс жив) и readiness (готов обслуживать запросы).
+ * Оба эндпоинта публичные и не трогают req.user.
+ */
+import type { RequestHandler } from 'express';
+
+import { getReadiness, type ReadinessReport } from '../services/health.service';
+
+interface LivenessResponse {
+  ok: true;
+  uptimeSec: number;
+}
+
+/**
+ * GET /api/health/live — отвечает, пока процесс способен обработать запрос. Зависимости не проверяет:
+ * перезапуск контейнера не поможет, если лежит база.
+ */
+export const live: RequestHandler<unknown, LivenessResponse> = (_req, res) => {
+  res.json({ ok: true, uptimeSec: Math.round(process.uptime()) });
+};
+
+/**
+ * GET /api/health/ready (и /api/health/db) — состояние каждого компонента.
+ * 200, если всё в порядке, 503 — если сервис деградировал (см. services/health.service).
+ */
+export const ready: RequestHandler<unknown, ReadinessReport> = async (_req, res) => {
+  const report = await getReadiness();
+  res.status(report.status === 'ok' ? 200 : 503).json(report);
+};
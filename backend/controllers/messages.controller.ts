@@ -1,13 +1,18 @@
 
+import { timingSafeEqual } from 'crypto';
 import type { RequestHandler } from 'express';
 import type { Pool } from 'pg';
 
 /**
  * Контроллер сообщений: обрабатывает историю чатов, вебхуки входящих, обновление
- * и удаление сообщений, а также уведомляет SSE-подписчиков.
+ * и удаление сообщений, а также уведомляет SSE-подписчиков. Мутации пишутся в журнал аудита.
  */
 import pool from '../db';
 import { broadcast } from '../utils/events';
+import { recordAudit } from '../services/audit.service';
+import { tryAutoAssignChat } from '../services/assignment.service';
+import { withAttachments } from '../services/attachments.service';
+import { reopenChat } from '../services/chatStatus.service';
 import type { ErrorResponse, MessageRecord } from '../types/models';
 
 const db = pool as unknown as Pool;
@@ -72,6 +77,8 @@ const normalizeBoolean = (value: unknown): boolean | null => {
  * GET /messages
  * • Диалоговый режим: при отсутствии `table=1` требуется параметр `chatId` — возвращаем хронологический
  *   список сообщений этого чата (используется пагинация `limit/offset`).
+ *   Каждое сообщение приходит с массивом `attachments` (метаданные; содержимое — GET /api/attachments/:id/file)
+ *   и статусом доставки `status`/`error` (для исходящих из панели).
  * • Табличный режим (`table=1`): позволяет искать по тексту сообщения и по имени/username собеседника,
  *   отдаёт дополнительные поля чата и заголовок `X-Total-Count` для пагинации администратора.
  */
@@ -96,7 +103,7 @@ export const list: RequestHandler<
 
       const sql = `
         SELECT * FROM (
-          SELECT id, chat_id, from_me, text, date
+          SELECT id, chat_id, from_me, text, date, status, error
           FROM messages
           WHERE chat_id = $1
           ORDER BY date DESC, id DESC
@@ -105,7 +112,7 @@ export const list: RequestHandler<
         ORDER BY date ASC, id ASC
       `;
       const { rows } = await db.query<MessageRecord>(sql, [chatId, lim, off]);
-      return res.json(rows);
+      return res.json(await withAttachments(rows));
     }
 
     const { limit = '50', offset = '0', q = '' } = req.query;
@@ -159,15 +166,39 @@ export const list: RequestHandler<
   }
 };
 
+/**
+ * Сверяет заголовок X-Raw-Webhook-Secret с RAW_WEBHOOK_SECRET за постоянное время.
+ */
+function isValidRawWebhookSecret(header: string | undefined): boolean {
+  const expected = process.env.RAW_WEBHOOK_SECRET;
+  if (!expected || !header) {
+    return false;
+  }
+  const a = Buffer.from(header);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
 /**
  * POST /messages/raw — регистрирует входящее сообщение (например, из вебхука или импорта).
+ * Маршрут без JWT: интеграция подтверждает себя заголовком X-Raw-Webhook-Secret
+ * (401 при несовпадении, 503 — RAW_WEBHOOK_SECRET не задан).
  * Если дата не передана, ставим текущее время. После вставки уведомляем клиентов (`messages:create`).
+ * Входящее от гостя (from_me = false) — как и из каналов (inbound.service) — возвращает отложенный
+ * или решённый чат в open, а свободный чат назначает оператору на линии (`chats:update`).
  */
 export const createRaw: RequestHandler<
   unknown,
   MessageRecord | ErrorResponse,
   MessageCreateRawBody
 > = async (req, res) => {
+  if (!process.env.RAW_WEBHOOK_SECRET) {
+    return res.status(503).json({ error: 'Raw messages webhook is not configured' });
+  }
+  if (!isValidRawWebhookSecret(req.get('X-Raw-Webhook-Secret'))) {
+    return res.status(401).json({ error: 'Invalid secret' });
+  }
+
   try {
     const { chat_id, text, from_me = false, date = null } = req.body ?? {};
 
@@ -188,7 +219,18 @@ export const createRaw: RequestHandler<
     ]);
 
     const row = rows[0];
+    await recordAudit(req, { action: 'create', entity: 'message', entityId: row.id, after: row });
     broadcast('messages', { action: 'create', row });
+    if (!row.from_me) {
+      const reopened = await reopenChat(row.chat_id);
+      if (reopened) {
+        broadcast('chats', { action: 'update', row: reopened });
+      }
+      const assigned = await tryAutoAssignChat(Number(row.chat_id));
+      if (assigned) {
+        broadcast('chats', { action: 'update', row: assigned });
+      }
+    }
     return res.json(row);
   } catch (err) {
     console.error('CREATE MESSAGE ERROR:', err);
@@ -230,6 +272,15 @@ export const update: RequestHandler<
       date,
     ];
 
+    const { rows: found } = await db.query<MessageRecord>(
+      'SELECT id, chat_id, from_me, text, date FROM messages WHERE id = $1',
+      [id],
+    );
+    const before = found[0];
+    if (!before) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
     const { rows } = await db.query<MessageRecord>(sql, params);
 
     if (!rows.length) {
@@ -237,6 +288,7 @@ export const update: RequestHandler<
     }
 
     const row = rows[0];
+    await recordAudit(req, { action: 'update', entity: 'message', entityId: id, before, after: row });
     broadcast('messages', { action: 'update', row });
     return res.json(row);
   } catch (err) {
@@ -259,11 +311,16 @@ export const remove: RequestHandler<{ id: string }, MessageDeleteResponse | Erro
       return res.status(400).json({ error: 'id must be a number' });
     }
 
-    const result = await db.query('DELETE FROM messages WHERE id = $1', [id]);
-    if (!result.rowCount) {
+    const { rows } = await db.query<MessageRecord>(
+      'DELETE FROM messages WHERE id = $1 RETURNING id, chat_id, from_me, text, date',
+      [id],
+    );
+    if (!rows.length) {
       return res.status(404).json({ error: 'Not found' });
     }
 
+    await recordAudit(req, { action: 'delete', entity: 'message', entityId: id, before: rows[0] });
+
     broadcast('messages', { action: 'delete', id });
     return res.json({ ok: true, id });
   } catch (err) {
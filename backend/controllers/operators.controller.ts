@@ -0,0 +1,68 @@
+/**
+ * Контроллер операторов (/api/operators): кому можно назначать чаты, их нагрузка и отметка «на линии».
+ * Автоназначение (services/assignment.service) отдаёт новые чаты только операторам на линии.
+ */
+import type { RequestHandler } from 'express';
+
+import {
+  assignStrategy,
+  listAssignees,
+  setOnline,
+  type AssignStrategy,
+  type Assignee,
+} from '../services/assignment.service';
+import type { ErrorResponse } from '../types/models';
+
+interface OperatorsListResponse {
+  items: Assignee[];
+  strategy: AssignStrategy;
+}
+
+interface OnlineBody {
+  online?: unknown;
+}
+
+interface OnlineResponse {
+  online: boolean;
+}
+
+/**
+ * GET /api/operators — аккаунты, которым можно назначать чаты: на линии ли и сколько
+ * назначенных чатов ждут ответа. strategy — текущая стратегия автоназначения.
+ */
+export const list: RequestHandler<unknown, OperatorsListResponse | ErrorResponse> = async (_req, res) => {
+  try {
+    return res.json({ items: await listAssignees(), strategy: assignStrategy() });
+  } catch (error) {
+    console.error('Failed to list operators:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * PUT /api/operators/me/online — текущий аккаунт встаёт на линию (online: true) или уходит с неё.
+ */
+export const updateOnline: RequestHandler<unknown, OnlineResponse | ErrorResponse, OnlineBody> = async (
+  req,
+  res,
+) => {
+  const online = req.body?.online;
+  if (typeof online !== 'boolean') {
+    return res.status(400).json({ error: 'online (boolean) is required' });
+  }
+  const accountId = req.user?.id;
+  if (!accountId) {
+    return res.status(401).json({ error: 'No token' });
+  }
+
+  try {
+    const value = await setOnline(String(accountId), online);
+    if (value === null) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json({ online: value });
+  } catch (error) {
+    console.error('Failed to update online status:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
@@ -8,11 +8,16 @@ import type { Pool } from 'pg';
  */
 import pool from '../db';
 import { broadcast } from '../utils/events';
+import { recordAudit } from '../services/audit.service';
+import { tryLinkCustomer } from '../services/customers.service';
 import { normalizeTimeInput } from '../utils/time';
 import type { ErrorResponse, OrderRecord } from '../types/models';
 
 const db = pool as unknown as Pool;
 
+const ORDER_COLUMNS =
+  'id, tg_username, name, phone, order_type, date, time, address, items, total, comment, platform, created_at';
+
 interface OrdersListQuery {
   table?: string;
   limit?: string;
@@ -205,6 +210,7 @@ export const list: RequestHandler<
  * • Принимает поля заказа (контактные данные, сумму, состав и т.д.)
  * • Сервер автоматически выставляет `created_at = NOW()`
  * • После успешной вставки отправляется событие `orders:create`, чтобы клиенты обновили список
+ * • Заказ привязывается к профилю гостя по телефону или username (customers.service)
  */
 export const create: RequestHandler<unknown, OrderRecord | ErrorResponse, OrderCreateBody> = async (
   req,
@@ -251,7 +257,9 @@ export const create: RequestHandler<unknown, OrderRecord | ErrorResponse, OrderC
     ]);
 
     const row = rows[0];
+    await recordAudit(req, { action: 'create', entity: 'order', entityId: row.id, after: row });
     broadcast('orders', { action: 'create', row });
+    await tryLinkCustomer('order', Number(row.id));
     return res.json(row);
   } catch (error) {
     console.error('ORDERS CREATE ERROR:', error);
@@ -264,6 +272,8 @@ export const create: RequestHandler<unknown, OrderRecord | ErrorResponse, OrderC
  * • Выполняет частичное обновление: для каждого поля заказа используется COALESCE,
  *   поэтому можно изменять лишь часть информации.
  * • При успешном обновлении публикуется событие `orders:update` с обновлённой записью.
+ * • Заказ без профиля гостя привязывается к нему, новые телефон или username подтягивают к профилю
+ *   совпадающие записи (customers.service).
  */
 export const update: RequestHandler<
   { id: string },
@@ -292,6 +302,14 @@ export const update: RequestHandler<
 
     const normalizedTime = time === null ? null : normalizeTimeInput(time);
 
+    const { rows: beforeRows } = await db.query<OrderRecord>(
+      `SELECT ${ORDER_COLUMNS} FROM orders WHERE id = $1`,
+      [id],
+    );
+    if (!beforeRows.length) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
     const sql = `
       UPDATE orders SET
         tg_username = COALESCE($2, tg_username),
@@ -330,7 +348,15 @@ export const update: RequestHandler<
     }
 
     const row = rows[0];
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'order',
+      entityId: id,
+      before: beforeRows[0],
+      after: row,
+    });
     broadcast('orders', { action: 'update', row });
+    await tryLinkCustomer('order', id);
     return res.json(row);
   } catch (error) {
     console.error('ORDERS UPDATE ERROR:', error);
@@ -353,11 +379,16 @@ export const remove: RequestHandler<{ id: string }, OrderDeleteResponse | ErrorR
       return res.status(400).json({ error: 'id must be number' });
     }
 
-    const result = await db.query('DELETE FROM orders WHERE id = $1', [id]);
-    if (!result.rowCount) {
+    const { rows } = await db.query<OrderRecord>(
+      `DELETE FROM orders WHERE id = $1 RETURNING ${ORDER_COLUMNS}`,
+      [id],
+    );
+    if (!rows.length) {
       return res.status(404).json({ error: 'Not found' });
     }
 
+    await recordAudit(req, { action: 'delete', entity: 'order', entityId: id, before: rows[0] });
+
     broadcast('orders', { action: 'delete', id });
     return res.json({ ok: true, id });
   } catch (error) {
@@ -7,11 +7,16 @@ import type { Pool } from "pg";
  */
 import pool from "../db";
 import { broadcast } from "../utils/events";
+import { recordAudit } from "../services/audit.service";
+import { tryLinkCustomer } from "../services/customers.service";
 import { normalizeTimeInput } from "../utils/time";
 import type { ErrorResponse, ReservationRecord } from "../types/models";
 
 const db = pool as unknown as Pool;
 
+const RESERVATION_COLUMNS =
+  "id, tg_username, name, phone, address, date, time, guests, comment, platform, created_at";
+
 interface ReservesListQuery {
   table?: string;
   limit?: string;
@@ -199,6 +204,7 @@ export const list: RequestHandler<
  * • Создаёт новую запись: устанавливает дату создания NOW(), валидирует количество гостей
  *   (неотрицательное число) и сохраняет контактную информацию.
  * • После вставки рассылается событие `reservations:create`.
+ * • Бронь привязывается к профилю гостя по телефону или username (customers.service).
  */
 export const create: RequestHandler<
   unknown,
@@ -247,7 +253,9 @@ export const create: RequestHandler<
     ]);
 
     const row = rows[0];
+    await recordAudit(req, { action: "create", entity: "reservation", entityId: row.id, after: row });
     broadcast("reservations", { action: "create", row });
+    await tryLinkCustomer("reservation", Number(row.id));
     return res.json(row);
   } catch (error) {
     console.error("RESERVES CREATE ERROR:", error);
@@ -260,6 +268,8 @@ export const create: RequestHandler<
  * • Частично обновляет бронь: каждое поле берёт новое значение, если оно передано; количество гостей
  *   дополнительно проверяется на корректность.
  * • При успехе публикуется событие `reservations:update` с обновлённой записью.
+ * • Бронь без профиля гостя привязывается к нему, новые телефон или username подтягивают к профилю
+ *   совпадающие записи (customers.service).
  */
 export const update: RequestHandler<
   { id: string },
@@ -291,6 +301,14 @@ export const update: RequestHandler<
 
     const normalizedTime = time === null ? null : normalizeTimeInput(time);
 
+    const { rows: beforeRows } = await db.query<ReservationRecord>(
+      `SELECT ${RESERVATION_COLUMNS} FROM reservations WHERE id = $1`,
+      [id],
+    );
+    if (!beforeRows.length) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
     const sql = `
       UPDATE reservations SET
         tg_username = COALESCE($2, tg_username),
@@ -324,7 +342,15 @@ export const update: RequestHandler<
     }
 
     const row = rows[0];
+    await recordAudit(req, {
+      action: "update",
+      entity: "reservation",
+      entityId: id,
+      before: beforeRows[0],
+      after: row,
+    });
     broadcast("reservations", { action: "update", row });
+    await tryLinkCustomer("reservation", id);
     return res.json(row);
   } catch (error) {
     console.error("RESERVES UPDATE ERROR:", error);
@@ -347,11 +373,16 @@ export const remove: RequestHandler<
       return res.status(400).json({ error: "id must be number" });
     }
 
-    const result = await db.query("DELETE FROM reservations WHERE id = $1", [id]);
-    if (!result.rowCount) {
+    const { rows } = await db.query<ReservationRecord>(
+      `DELETE FROM reservations WHERE id = $1 RETURNING ${RESERVATION_COLUMNS}`,
+      [id],
+    );
+    if (!rows.length) {
       return res.status(404).json({ error: "Not found" });
     }
 
+    await recordAudit(req, { action: "delete", entity: "reservation", entityId: id, before: rows[0] });
+
     broadcast("reservations", { action: "delete", id });
     return res.json({ ok: true, id });
   } catch (error) {
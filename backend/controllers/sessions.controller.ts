@@ -0,0 +1,206 @@
+/**
+ * Контроллер сеансов: обновление пары токенов, выход, выход со всех устройств
+ * и управление списком собственных сеансов (/api/auth/...).
+ */
+import type { RequestHandler } from 'express';
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import { sign } from '../utils/jwt';
+import type { AuthTokenPayload } from '../utils/jwt';
+import {
+  listSessions,
+  revokeAllSessions,
+  revokeByRefreshToken,
+  revokeSession,
+  rotateSession,
+  sessionMetaFrom,
+  type SessionRecord,
+} from '../services/sessions.service';
+import type { ErrorResponse } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+/** Код PostgreSQL для некорректного uuid в параметре пути. */
+const PG_INVALID_TEXT = '22P02';
+
+interface RefreshBody {
+  refreshToken?: unknown;
+}
+
+interface RefreshResponse {
+  token: string;
+  /** Нет — предъявлен только что ротированный токен: действующий refresh-токен у клиента уже есть. */
+  refreshToken?: string;
+}
+
+interface OkResponse {
+  ok: true;
+}
+
+interface LogoutAllResponse extends OkResponse {
+  revokedSessions: number;
+}
+
+interface SessionItem {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date | string;
+  lastUsedAt: Date | string;
+  expiresAt: Date | string;
+  /** Сеанс, из которого пришёл запрос: его удобнее завершать через обычный выход. */
+  current: boolean;
+}
+
+interface SessionsListResponse {
+  items: SessionItem[];
+}
+
+interface AccountTokenRow {
+  id: string;
+  email: string;
+  role: string | null;
+  is_active: boolean | null;
+}
+
+const toSessionItem = (session: SessionRecord, currentSid: string | undefined): SessionItem => ({
+  id: session.id,
+  userAgent: session.user_agent,
+  ip: session.ip,
+  createdAt: session.created_at,
+  lastUsedAt: session.last_used_at,
+  expiresAt: session.expires_at,
+  current: session.id === currentSid,
+});
+
+/**
+ * POST /auth/refresh — публичный: обменивает refresh-токен на новую пару токенов.
+ *  - 400, если refreshToken не передан.
+ *  - 401 для неизвестного/истёкшего/отозванного/повторно использованного токена и отключённого аккаунта.
+ *  - 200 { token, refreshToken }; прежний refresh-токен больше не действует.
+ *  - 200 { token } — предъявлен предыдущий токен в первые секунды после ротации (другая вкладка
+ *    обновила пару раньше): выдаётся только access-токен.
+ */
+export const refresh: RequestHandler<unknown, RefreshResponse | ErrorResponse, RefreshBody> = async (
+  req,
+  res,
+) => {
+  try {
+    const presented = String(req.body?.refreshToken ?? '');
+    if (!presented) {
+      return res.status(400).json({ error: 'refreshToken required' });
+    }
+
+    const rotated = await rotateSession(presented, sessionMetaFrom(req));
+    if (!rotated.ok) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    const { rows } = await db.query<AccountTokenRow>(
+      'SELECT id, email, role, is_active FROM accounts WHERE id = $1',
+      [rotated.session.account_id],
+    );
+    const acc = rows[0];
+    if (!acc || acc.is_active === false) {
+      await revokeSession(rotated.session.account_id, rotated.session.id);
+      return res.status(401).json({ error: 'Account is disabled' });
+    }
+
+    let token: string;
+    try {
+      token = sign({ id: acc.id, email: acc.email, role: acc.role ?? undefined, sid: rotated.session.id });
+    } catch (rawError) {
+      console.error('JWT sign error:', rawError);
+      return res.status(500).json({ error: 'JWT is not configured' });
+    }
+
+    return res.json(rotated.refreshToken ? { token, refreshToken: rotated.refreshToken } : { token });
+  } catch (rawError: unknown) {
+    console.error('REFRESH ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/logout — публичный: завершает сеанс по refreshToken из тела или по access-токену.
+ * Идемпотентен: всегда 200, даже если сеанс уже был завершён.
+ */
+export const logout: RequestHandler<unknown, OkResponse | ErrorResponse, RefreshBody> = async (
+  req,
+  res,
+) => {
+  try {
+    const presented = String(req.body?.refreshToken ?? '');
+    const userFromAuth = (req.user ?? null) as AuthTokenPayload | null;
+
+    if (presented) {
+      await revokeByRefreshToken(presented);
+    } else if (userFromAuth?.sid) {
+      await revokeSession(String(userFromAuth.id), userFromAuth.sid);
+    }
+
+    return res.json({ ok: true });
+  } catch (rawError: unknown) {
+    console.error('LOGOUT ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/logout-all — завершает все сеансы пользователя, включая текущий.
+ */
+export const logoutAll: RequestHandler<unknown, LogoutAllResponse | ErrorResponse> = async (
+  req,
+  res,
+) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+    const revokedSessions = await revokeAllSessions(String(userFromAuth.id));
+    return res.json({ ok: true, revokedSessions });
+  } catch (rawError: unknown) {
+    console.error('LOGOUT ALL ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * GET /auth/sessions — активные сеансы текущего пользователя (устройство, IP, время).
+ */
+export const list: RequestHandler<unknown, SessionsListResponse | ErrorResponse> = async (
+  req,
+  res,
+) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+    const sessions = await listSessions(String(userFromAuth.id));
+    return res.json({ items: sessions.map((s) => toSessionItem(s, userFromAuth.sid)) });
+  } catch (rawError: unknown) {
+    console.error('SESSIONS LIST ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * DELETE /auth/sessions/:id — отзывает один из собственных сеансов.
+ *  - 404, если сеанс не найден, чужой или уже завершён.
+ */
+export const revoke: RequestHandler<{ id: string }, OkResponse | ErrorResponse> = async (
+  req,
+  res,
+) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+    const ok = await revokeSession(String(userFromAuth.id), req.params.id);
+    if (!ok) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json({ ok: true });
+  } catch (rawError: unknown) {
+    if ((rawError as { code?: string } | null)?.code === PG_INVALID_TEXT) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    console.error('SESSIONS REVOKE ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
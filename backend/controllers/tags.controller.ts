@@ -0,0 +1,109 @@
+/**
+ * Контроллер тегов: библиотека тегов (/api/tags) и теги конкретного чата (/api/chats/:chat_id/tags).
+ * Изменение тегов чата пишется в аудит как изменение чата и уходит в SSE-топик `chats`.
+ */
+import type { Request, RequestHandler, Response } from 'express';
+
+import { broadcast } from '../utils/events';
+import { accountId } from '../utils/requestAccount';
+import { recordAudit } from '../services/audit.service';
+import {
+  TAG_NAME_MAX_LENGTH,
+  addChatTag,
+  listTags,
+  removeChatTag,
+  type ChatTagResult,
+  type ChatWithTags,
+  type TagWithUsage,
+} from '../services/tags.service';
+import type { ErrorResponse } from '../types/models';
+
+type ChatParams = { chat_id: string };
+
+type ChatTagParams = { chat_id: string; tag_id: string };
+
+interface AddTagBody {
+  name?: unknown;
+}
+
+interface TagsListResponse {
+  items: TagWithUsage[];
+}
+
+/** Аудит и SSE, если теги чата действительно изменились; ответ — чат с тегами. */
+const sendTagResult = async (
+  req: Request<ChatParams>,
+  res: Response<ChatWithTags | ErrorResponse>,
+  result: ChatTagResult,
+) => {
+  if (result.status !== 200) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  if (result.changed) {
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'chat',
+      entityId: result.after.chat_id,
+      before: result.before,
+      after: result.after,
+    });
+    broadcast('chats', { action: 'update', row: result.after });
+  }
+  return res.json(result.after);
+};
+
+/**
+ * GET /api/tags — все теги с числом помеченных чатов (для подсказок и сегментов рассылки).
+ */
+export const list: RequestHandler<unknown, TagsListResponse | ErrorResponse> = async (_req, res) => {
+  try {
+    return res.json({ items: await listTags() });
+  } catch (error) {
+    console.error('Failed to list tags:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /api/chats/:chat_id/tags — вешает на чат тег `{ name }`; нового тега с таким именем
+ * ещё нет — он создаётся.
+ */
+export const addToChat: RequestHandler<ChatParams, ChatWithTags | ErrorResponse, AddTagBody> = async (
+  req,
+  res,
+  next,
+) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    if (!Number.isFinite(chatId)) {
+      return res.status(400).json({ error: 'chat_id must be number' });
+    }
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim().replace(/\s+/g, ' ') : '';
+    if (!name || name.length > TAG_NAME_MAX_LENGTH) {
+      return res.status(400).json({ error: `name must be 1-${TAG_NAME_MAX_LENGTH} characters` });
+    }
+    return await sendTagResult(req, res, await addChatTag(chatId, name, accountId(req)));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /api/chats/:chat_id/tags/:tag_id — снимает тег с чата.
+ */
+export const removeFromChat: RequestHandler<ChatTagParams, ChatWithTags | ErrorResponse> = async (
+  req,
+  res,
+  next,
+) => {
+  try {
+    const chatId = Number(req.params.chat_id);
+    const tagId = Number(req.params.tag_id);
+    if (!Number.isFinite(chatId) || !Number.isInteger(tagId)) {
+      return res.status(400).json({ error: 'chat_id and tag_id must be numbers' });
+    }
+    return await sendTagResult(req, res, await removeChatTag(chatId, tagId));
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -0,0 +1,169 @@
+/**
+ * Контроллер 2FA текущего пользователя (/api/auth/2fa): состояние, подключение,
+ * отключение и перевыпуск кодов восстановления.
+ */
+import bcrypt from 'bcryptjs';
+import type { RequestHandler } from 'express';
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import type { AuthTokenPayload } from '../utils/jwt';
+import {
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorState,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  verifySecondFactor,
+  type EnrollmentStart,
+  type TwoFactorState,
+} from '../services/twoFactor.service';
+import type { ErrorResponse } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+interface CodeBody {
+  code?: unknown;
+}
+
+interface DisableBody extends CodeBody {
+  password?: unknown;
+}
+
+/** Коды показываются один раз — сохранить их пользователь должен сразу. */
+interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+interface OkResponse {
+  ok: true;
+}
+
+const codeFrom = (body: CodeBody | undefined): string => String(body?.code ?? '').trim();
+
+/**
+ * GET /auth/2fa — { enabled, required, recoveryCodesLeft }.
+ */
+export const status: RequestHandler<unknown, TwoFactorState | ErrorResponse> = async (req, res) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+    const state = await getTwoFactorState(String(userFromAuth.id));
+    if (!state) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json(state);
+  } catch (rawError: unknown) {
+    console.error('2FA STATUS ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/2fa/enroll — новый секрет и otpauth URI для приложения-аутентификатора.
+ *  - 409, если 2FA уже включена.
+ * Повторный вызов до подтверждения заменяет секрет (например, если QR отсканировать не удалось).
+ */
+export const enroll: RequestHandler<unknown, EnrollmentStart | ErrorResponse> = async (req, res) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+    const { rows } = await db.query<{ email: string }>('SELECT email FROM accounts WHERE id = $1', [
+      userFromAuth.id,
+    ]);
+    if (!rows[0]) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const started = await startEnrollment(String(userFromAuth.id), rows[0].email);
+    if (!started) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    return res.json(started);
+  } catch (rawError: unknown) {
+    console.error('2FA ENROLL ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/2fa/confirm — код из приложения включает 2FA.
+ *  - 400, если код неверен или подключение не начато.
+ *  - 200 { recoveryCodes }.
+ */
+export const confirm: RequestHandler<unknown, RecoveryCodesResponse | ErrorResponse, CodeBody> = async (
+  req,
+  res,
+) => {
+  try {
+    const userFromAuth = req.user as AuthTokenPayload;
+    const recoveryCodes = await confirmEnrollment(String(userFromAuth.id), codeFrom(req.body));
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+    return res.json({ recoveryCodes });
+  } catch (rawError: unknown) {
+    console.error('2FA CONFIRM ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/2fa/recovery-codes — перевыпуск кодов восстановления (нужен текущий код 2FA).
+ */
+export const recoveryCodes: RequestHandler<
+  unknown,
+  RecoveryCodesResponse | ErrorResponse,
+  CodeBody
+> = async (req, res) => {
+  try {
+    const accountId = String((req.user as AuthTokenPayload).id);
+    if (!(await verifySecondFactor(accountId, codeFrom(req.body)))) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+    return res.json({ recoveryCodes: await regenerateRecoveryCodes(accountId) });
+  } catch (rawError: unknown) {
+    console.error('2FA RECOVERY CODES ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /auth/2fa/disable — отключение 2FA; нужны пароль и код (из приложения или восстановления).
+ *  - 400, если пароль или код неверны.
+ *  - 409, если 2FA обязательна для роли пользователя.
+ */
+export const disable: RequestHandler<unknown, OkResponse | ErrorResponse, DisableBody> = async (
+  req,
+  res,
+) => {
+  try {
+    const accountId = String((req.user as AuthTokenPayload).id);
+
+    const state = await getTwoFactorState(accountId);
+    if (!state?.enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+    if (state.required) {
+      return res.status(409).json({ error: 'Two-factor authentication is required for your role' });
+    }
+
+    const { rows } = await db.query<{ password_hash: string | null }>(
+      'SELECT password_hash FROM accounts WHERE id = $1',
+      [accountId],
+    );
+    const passwordHash = rows[0]?.password_hash;
+    const password = String(req.body?.password ?? '');
+    if (!passwordHash || !password || !(await bcrypt.compare(password, passwordHash))) {
+      return res.status(400).json({ error: 'Invalid password' });
+    }
+
+    if (!(await verifySecondFactor(accountId, codeFrom(req.body)))) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    await disableTwoFactor(accountId);
+    return res.json({ ok: true });
+  } catch (rawError: unknown) {
+    console.error('2FA DISABLE ERROR:', rawError);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
@@ -0,0 +1,87 @@
+/**
+ * Контроллер вебхуков мессенджеров (/api/webhooks, /api/integrations): принимает апдейты напрямую от платформ.
+ * Маршруты публичные — подлинность запроса подтверждает секрет платформы, а не JWT.
+ */
+import type { RequestHandler } from 'express';
+
+import {
+  handleTelegramUpdate,
+  isTelegramWebhookConfigured,
+  isValidTelegramSecret,
+} from '../services/telegramUpdates.service';
+import {
+  handleVkCallback,
+  isExpectedVkGroup,
+  isValidVkSecret,
+  isVkCallbackBody,
+  isVkCallbackConfigured,
+} from '../services/vkCallback.service';
+import type { IngestResult } from '../services/inbound.service';
+import type { ErrorResponse } from '../types/models';
+
+interface WebhookAckResponse {
+  ok: true;
+  result: IngestResult | 'ignored';
+}
+
+/**
+ * POST /api/webhooks/telegram
+ * • Проверяет заголовок X-Telegram-Bot-Api-Secret-Token (401 при несовпадении, 503 — секрет не задан).
+ * • message / edited_message из личного чата сохраняются (см. services/inbound.service);
+ *   прочие апдейты подтверждаются без обработки, чтобы Telegram не слал их повторно.
+ * • Ошибка БД → 500: Telegram повторит доставку, дубль отсечёт уникальный external_id.
+ */
+export const telegram: RequestHandler<unknown, WebhookAckResponse | ErrorResponse, unknown> = async (
+  req,
+  res,
+) => {
+  if (!isTelegramWebhookConfigured()) {
+    return res.status(503).json({ error: 'Telegram webhook is not configured' });
+  }
+  if (!isValidTelegramSecret(req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+    return res.status(401).json({ error: 'Invalid secret token' });
+  }
+
+  try {
+    const result = await handleTelegramUpdate(req.body);
+    return res.json({ ok: true, result });
+  } catch (error) {
+    console.error('TELEGRAM WEBHOOK ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+/**
+ * POST /api/integrations/vk/callback
+ * • confirmation → строка VK_CONFIRMATION_CODE (так VK подтверждает адрес сервера).
+ * • Остальные события: поле secret сверяется с VK_CALLBACK_SECRET (401), group_id — с VK_GROUP_ID (403).
+ * • message_new / message_reply / message_edit сохраняются (см. services/vkCallback.service),
+ *   прочие события подтверждаются без обработки. VK ждёт в ответ ровно «ok», иначе повторяет доставку.
+ * • Ошибка БД → 500: VK повторит событие, повтор обработается заново.
+ */
+export const vkCallback: RequestHandler<unknown, string | ErrorResponse, unknown> = async (req, res) => {
+  if (!isVkCallbackConfigured()) {
+    return res.status(503).json({ error: 'VK callback is not configured' });
+  }
+  const body = req.body;
+  if (!isVkCallbackBody(body)) {
+    return res.status(400).json({ error: 'Invalid callback body' });
+  }
+  if (!isExpectedVkGroup(body.group_id)) {
+    return res.status(403).json({ error: 'Unknown group' });
+  }
+  if (body.type === 'confirmation') {
+    return res.type('text/plain').send(process.env.VK_CONFIRMATION_CODE);
+  }
+  if (!isValidVkSecret(body.secret)) {
+    return res.status(401).json({ error: 'Invalid secret' });
+  }
+
+  try {
+    await handleVkCallback(body);
+    return res.type('text/plain').send('ok');
+  } catch (error) {
+    console.error('VK CALLBACK ERROR:', error);
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * CLI миграций: `npm run migrate`, `npm run migrate:status`, `npm run migrate:down [-- <шагов>]`,
+ * `npm run db:seed`. В контейнере — `node dist/db/migrate.js <команда>`.
+ *
+ * seed заливает тестовые данные (db/seeds/dev.sql) и по умолчанию срабатывает только на пустой
+ * базе: скрипт не идемпотентен для сообщений, заказов и броней. `seed --force` — залить повторно.
+ */
+import '../config/env';
+
+import path from 'path';
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import { getStatus, migrateDown, migrateUp, readSql } from './migrator';
+
+const db = pool as unknown as Pool;
+
+const SEED_PATH = path.resolve(__dirname, 'seeds', 'dev.sql');
+
+async function up(): Promise<void> {
+  const applied = await migrateUp();
+  console.log(applied.length ? `Applied ${applied.length} migration(s).` : 'Database schema is up to date.');
+}
+
+async function status(): Promise<void> {
+  for (const { migration, applied, modified } of await getStatus()) {
+    const version = migration?.version ?? applied?.version;
+    const name = migration?.name ?? applied?.name;
+    const state = applied ? `applied ${new Date(applied.applied_at).toISOString()}` : 'pending';
+    const notes = [
+      modified ? 'file changed after it was applied' : null,
+      migration ? null : 'file is missing',
+    ].filter(Boolean);
+    console.log(`${version}_${name}\t${state}${notes.length ? ` (${notes.join('; ')})` : ''}`);
+  }
+}
+
+async function down(rawSteps: string | undefined): Promise<void> {
+  const steps = rawSteps === undefined ? 1 : Number(rawSteps);
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('Number of steps must be a positive integer');
+  }
+  const reverted = await migrateDown(steps);
+  console.log(reverted.length ? `Reverted ${reverted.length} migration(s).` : 'Nothing to revert.');
+}
+
+async function seed(force: boolean): Promise<void> {
+  const { rows } = await db.query<{ total: number }>('SELECT COUNT(*)::int AS total FROM accounts');
+  if (!force && (rows[0]?.total ?? 0) > 0) {
+    console.log('Database already has accounts, seed skipped (use "seed --force" to run anyway).');
+    return;
+  }
+  await db.query(readSql(SEED_PATH));
+  console.log('Seed data loaded.');
+}
+
+async function main(): Promise<void> {
+  const [command = 'up', ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up':
+      return up();
+    case 'status':
+      return status();
+    case 'down':
+      return down(args[0]);
+    case 'seed':
+      return seed(args.includes('--force'));
+    default:
+      throw new Error(`Unknown command "${command}". Use: up | status | down [steps] | seed [--force]`);
+  }
+}
+
+main()
+  .then(() => db.end())
+  .catch(async (error: unknown) => {
+    console.error('MIGRATE ERROR:', error instanceof Error ? error.message : error);
+    await db.end().catch(() => undefined);
+    process.exitCode = 1;
+  });
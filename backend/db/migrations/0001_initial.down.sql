@@ -0,0 +1,12 @@
+-- Откат исходной схемы: удаляет все таблицы вместе с данными.
+drop table if exists reservations;
+drop table if exists orders;
+drop table if exists messages;
+drop table if exists chats;
+drop table if exists audit_log;
+drop table if exists lockout_events;
+drop table if exists login_attempts;
+drop table if exists sessions;
+drop table if exists role_security;
+drop table if exists recovery_codes;
+drop table if exists accounts;
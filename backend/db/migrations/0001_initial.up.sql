@@ -0,0 +1,152 @@
+-- 0001 — исходная схема (раньше лежала в db/init/01_schema.sql и выполнялась entrypoint'ом Postgres).
+-- Все операторы идемпотентны: на базе, созданной старым init-скриптом, миграция лишь дописывает недостающее.
+
+-- ===== accounts =====
+create extension if not exists "pgcrypto"; -- для gen_random_uuid()
+
+create table if not exists accounts (
+  id uuid primary key default gen_random_uuid(),
+  email text unique not null,
+  password_hash text not null,
+  full_name text,
+  role text default 'admin' check (role in ('admin', 'manager', 'operator', 'analyst')),
+  is_active boolean default true,
+  last_login_at timestamptz,
+  created_at timestamptz default now(),
+  totp_secret text,              -- base32-секрет TOTP; до подтверждения кодом 2FA не включена
+  totp_enabled_at timestamptz,   -- не null = второй фактор обязателен при входе
+  totp_last_step bigint          -- последний принятый шаг TOTP: один код нельзя использовать дважды
+);
+
+-- Базы, созданные до появления 2FA: колонки TOTP добавляем отдельно.
+alter table accounts add column if not exists totp_secret text;
+alter table accounts add column if not exists totp_enabled_at timestamptz;
+alter table accounts add column if not exists totp_last_step bigint;
+
+-- ===== two-factor =====
+-- Одноразовые коды восстановления на случай потери телефона: храним только SHA-256.
+create table if not exists recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null references accounts(id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index if not exists recovery_codes_account_idx on recovery_codes(account_id);
+
+-- Роли, для которых администратор сделал 2FA обязательной.
+create table if not exists role_security (
+  role text primary key check (role in ('admin', 'manager', 'operator', 'analyst')),
+  require_2fa boolean not null default false
+);
+
+-- ===== sessions =====
+-- Сеансы входа: access-JWT ссылается на строку через claim sid, refresh-токен хранится только хешем.
+create table if not exists sessions (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null references accounts(id) on delete cascade,
+  refresh_token_hash text unique not null,
+  previous_token_hash text, -- хеш предыдущего refresh-токена: его повторное предъявление отзывает сеанс
+  user_agent text,
+  ip text,
+  created_at timestamptz default now(),
+  last_used_at timestamptz default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz
+);
+
+create index if not exists sessions_account_idx on sessions(account_id);
+create index if not exists sessions_previous_token_idx on sessions(previous_token_hash);
+
+-- ===== login throttling =====
+-- Счётчики неудачных входов по email и IP (services/loginThrottle.service.ts).
+create table if not exists login_attempts (
+  scope text not null check (scope in ('email', 'ip')),
+  key text not null,
+  failures integer not null default 0,
+  last_failure_at timestamptz not null default now(),
+  locked_until timestamptz,
+  primary key (scope, key)
+);
+
+-- Журнал блокировок: виден администратору в разделе аккаунтов.
+create table if not exists lockout_events (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null,
+  key text not null,
+  failures integer not null,
+  locked_until timestamptz not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists lockout_events_created_idx on lockout_events(created_at desc);
+
+-- ===== audit =====
+-- Журнал изменений данных (services/audit.service.ts). Для update в before/after — только изменившиеся поля.
+create table if not exists audit_log (
+  id bigserial primary key,
+  actor_id uuid references accounts(id) on delete set null,
+  actor_email text,          -- копия на момент действия: аккаунт могут переименовать или удалить
+  action text not null,      -- create | update | delete | send
+  entity text not null,      -- chat | message | order | reservation | broadcast
+  entity_id text,
+  before jsonb,
+  after jsonb,
+  ip text,
+  created_at timestamptz default now()
+);
+
+create index if not exists audit_log_created_idx on audit_log(created_at desc);
+create index if not exists audit_log_entity_idx on audit_log(entity, entity_id);
+
+-- ===== chats =====
+create table if not exists chats (
+  id serial primary key,
+  chat_id bigint unique not null,
+  username text,
+  first_name text,
+  last_name text,
+  platform text
+);
+
+-- ===== messages =====
+create table if not exists messages (
+  id serial primary key,
+  chat_id bigint references chats(chat_id) on delete cascade,
+  from_me boolean,
+  text text,
+  date timestamptz default current_timestamp
+);
+
+-- ===== orders =====
+create table if not exists orders (
+  id serial primary key,
+  tg_username text,
+  name text,
+  phone text,
+  order_type text,
+  "date" date,          -- было: text
+  "time" time,          -- было: text
+  address text,
+  items text,
+  total integer,
+  comment text,
+  created_at timestamptz default now(),
+  platform text
+);
+
+-- ===== reservations =====
+create table if not exists reservations (
+  id serial primary key,
+  tg_username text,
+  name text,
+  phone text,
+  address text,
+  "date" date,
+  "time" text,          -- переведено в time миграцией 0002
+  guests integer,
+  comment text,
+  created_at timestamptz default now(),
+  platform text
+);
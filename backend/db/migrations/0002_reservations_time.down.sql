@@ -0,0 +1,4 @@
+-- Возврат reservations.time к text в формате «чч:мм».
+alter table reservations
+  alter column "time" type text
+  using to_char("time", 'HH24:MI');
@@ -0,0 +1,7 @@
+-- 0002 — reservations.time: text → time, как уже сделано в orders.
+-- Значения, которые не разбираются как время (свободный текст), обнуляются.
+alter table reservations
+  alter column "time" type time
+  using case
+    when trim("time") ~ '^([01]?\d|2[0-3])[:.][0-5]\d(:[0-5]\d)?$' then replace(trim("time"), '.', ':')::time
+  end;
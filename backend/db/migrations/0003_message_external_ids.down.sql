@@ -0,0 +1,3 @@
+drop index if exists messages_chat_external_idx;
+alter table messages drop column if exists edited_at;
+alter table messages drop column if exists external_id;
@@ -0,0 +1,8 @@
+-- 0003 — идентификатор сообщения во внешнем канале (Telegram message_id) и время правки.
+-- Уникальность в пределах чата: повторная доставка того же апдейта не создаёт дубль.
+alter table messages add column if not exists external_id bigint;
+alter table messages add column if not exists edited_at timestamptz;
+
+create unique index if not exists messages_chat_external_idx
+  on messages(chat_id, external_id)
+  where external_id is not null;
@@ -0,0 +1 @@
+drop table if exists vk_callback_events;
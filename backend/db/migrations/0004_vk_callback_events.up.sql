@@ -0,0 +1,9 @@
+-- 0004 — обработанные события VK Callback API: VK повторяет доставку, пока не получит «ok»,
+-- и event_id позволяет не обработать одно событие дважды. Старые записи чистит сам обработчик.
+create table if not exists vk_callback_events (
+  event_id text primary key,
+  type text not null,
+  received_at timestamptz not null default now()
+);
+
+create index if not exists vk_callback_events_received_idx on vk_callback_events(received_at);
@@ -0,0 +1,7 @@
+-- 0005 — позиции long polling для воркера приёма (npm run ingest): offset getUpdates в Telegram
+-- и ts VK Bots Long Poll. После перезапуска воркер продолжает с сохранённого места.
+create table if not exists ingest_offsets (
+  source text primary key,
+  value text not null,
+  updated_at timestamptz not null default now()
+);
@@ -0,0 +1,19 @@
+-- 0006 — вложения сообщений: фото, документы и голосовые.
+-- Файл лежит в хранилище под storage_key. Входящие из канала сохраняются только ссылкой source_ref
+-- (Telegram file_id или URL VK) и скачиваются при первом просмотре.
+-- Загруженный оператором файл без message_id ещё не отправлен.
+create table if not exists message_attachments (
+  id serial primary key,
+  message_id integer references messages(id) on delete cascade,
+  kind text not null check (kind in ('photo', 'document', 'voice')),
+  file_name text not null,
+  mime_type text not null,
+  size_bytes integer,
+  storage_key text unique,
+  source_ref text,
+  uploaded_by uuid references accounts(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (storage_key is not null or source_ref is not null)
+);
+
+create index if not exists message_attachments_message_idx on message_attachments(message_id);
@@ -0,0 +1,2 @@
+alter table messages drop column if exists error;
+alter table messages drop column if exists status;
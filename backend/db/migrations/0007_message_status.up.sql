@@ -0,0 +1,6 @@
+-- 0007 — статус доставки исходящих сообщений.
+-- Ответ оператора сохраняется как pending до вызова платформы, затем становится sent (с external_id
+-- из 0003) или failed с текстом ошибки в error. Входящие и ранее сохранённые сообщения — sent.
+alter table messages add column if not exists status text not null default 'sent'
+  check (status in ('pending', 'sent', 'failed'));
+alter table messages add column if not exists error text;
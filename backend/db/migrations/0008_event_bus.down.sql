@@ -0,0 +1,2 @@
+drop table if exists event_payloads;
+drop sequence if exists event_ids;
@@ -0,0 +1,14 @@
+-- 0008 — шина событий SSE между экземплярами бэкенда (EVENT_BUS=postgres, LISTEN/NOTIFY).
+-- event_ids — сквозная нумерация событий: id одинаков на всех экземплярах, поэтому Last-Event-ID
+-- работает после переподключения к другой реплике.
+-- event_payloads — данные событий, не влезающие в NOTIFY (предел 8000 байт); в уведомлении уходит только id.
+create sequence if not exists event_ids;
+
+create table if not exists event_payloads (
+  id bigint primary key,
+  topic text not null,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists event_payloads_created_at_idx on event_payloads(created_at);
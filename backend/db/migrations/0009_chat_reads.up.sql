@@ -0,0 +1,19 @@
+-- 0009 — позиции чтения чатов операторами: непрочитанные входящие считаются для каждого аккаунта.
+-- last_read_message_id — id последнего просмотренного сообщения чата (messages.id растёт с каждой записью).
+-- Чтобы после обновления у всех не оказалась непрочитанной вся история, текущие сообщения
+-- отмечаются прочитанными для существующих аккаунтов.
+create table if not exists chat_reads (
+  account_id uuid not null references accounts(id) on delete cascade,
+  chat_id bigint not null references chats(chat_id) on delete cascade,
+  last_read_message_id integer not null default 0,
+  read_at timestamptz not null default now(),
+  primary key (account_id, chat_id)
+);
+
+insert into chat_reads (account_id, chat_id, last_read_message_id)
+select a.id, m.chat_id, max(m.id)
+from accounts a
+cross join messages m
+where m.chat_id is not null
+group by a.id, m.chat_id
+on conflict do nothing;
@@ -0,0 +1,5 @@
+alter table accounts drop column if exists last_assigned_at;
+alter table accounts drop column if exists is_online;
+drop index if exists chats_assigned_to_idx;
+alter table chats drop column if exists assigned_at;
+alter table chats drop column if exists assigned_to;
@@ -0,0 +1,11 @@
+-- 0010 — назначение чатов операторам.
+-- chats.assigned_to — ответственный за переписку (null — чат свободен), assigned_at — когда назначен.
+-- accounts.is_online — оператор «на линии»: только таким автоназначение отдаёт новые чаты;
+-- accounts.last_assigned_at — время последнего назначения, по нему идёт очередь (round-robin).
+alter table chats add column if not exists assigned_to uuid references accounts(id) on delete set null;
+alter table chats add column if not exists assigned_at timestamptz;
+
+create index if not exists chats_assigned_to_idx on chats(assigned_to);
+
+alter table accounts add column if not exists is_online boolean not null default false;
+alter table accounts add column if not exists last_assigned_at timestamptz;
@@ -0,0 +1,7 @@
+drop table if exists chat_status_history;
+drop index if exists chats_status_idx;
+alter table chats drop column if exists resolved_by;
+alter table chats drop column if exists resolution_reason;
+alter table chats drop column if exists resolved_at;
+alter table chats drop column if exists status_changed_at;
+alter table chats drop column if exists status;
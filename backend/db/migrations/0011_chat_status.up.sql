@@ -0,0 +1,25 @@
+-- 0011 — жизненный цикл переписки: open (ждёт оператора) → pending (ждём гостя) → resolved (решено).
+-- Решённый или отложенный чат снова становится open, когда гость пишет новое сообщение.
+-- resolved_at / resolution_reason / resolved_by — последнее решение; полная история переходов
+-- (для KPI поддержки: время до решения, повторные обращения) — в chat_status_history.
+alter table chats add column if not exists status text not null default 'open'
+  check (status in ('open', 'pending', 'resolved'));
+alter table chats add column if not exists status_changed_at timestamptz not null default now();
+alter table chats add column if not exists resolved_at timestamptz;
+alter table chats add column if not exists resolution_reason text;
+alter table chats add column if not exists resolved_by uuid references accounts(id) on delete set null;
+
+create index if not exists chats_status_idx on chats(status);
+
+create table if not exists chat_status_history (
+  id bigserial primary key,
+  chat_id bigint not null references chats(chat_id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  reason text,
+  actor_id uuid references accounts(id) on delete set null, -- null — система (автооткрытие)
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_status_history_chat_idx on chat_status_history(chat_id, created_at);
+create index if not exists chat_status_history_created_idx on chat_status_history(created_at desc);
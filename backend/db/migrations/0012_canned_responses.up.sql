@@ -0,0 +1,16 @@
+-- 0012 — библиотека шаблонов ответов операторов (меню, зоны доставки, часы работы…).
+-- shortcut — короткое имя для команды «/» в окне чата (уникально, в нижнем регистре);
+-- в body допускаются переменные вида {first_name}, {last_order_total} — их подставляет сервер
+-- при вставке шаблона в конкретный чат (services/cannedResponses.service.ts).
+create table if not exists canned_responses (
+  id serial primary key,
+  shortcut text not null unique,
+  title text not null,
+  body text not null,
+  category text,
+  created_by uuid references accounts(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists canned_responses_category_idx on canned_responses(category);
@@ -0,0 +1,3 @@
+drop table if exists chat_notes;
+drop table if exists chat_tags;
+drop table if exists tags;
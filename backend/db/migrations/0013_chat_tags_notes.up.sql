@@ -0,0 +1,31 @@
+-- 0013 — внутренний контекст по чатам: теги («VIP», «аллергия») и заметки операторов.
+-- Видны только в админке и гостю никогда не отправляются. Теги общие для всех чатов
+-- (имя уникально без учёта регистра) и служат ещё и сегментом для рассылок.
+create table if not exists tags (
+  id serial primary key,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists tags_name_lower_key on tags (lower(name));
+
+create table if not exists chat_tags (
+  chat_id bigint not null references chats(chat_id) on delete cascade,
+  tag_id integer not null references tags(id) on delete cascade,
+  created_by uuid references accounts(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (chat_id, tag_id)
+);
+
+create index if not exists chat_tags_tag_idx on chat_tags(tag_id);
+
+create table if not exists chat_notes (
+  id bigserial primary key,
+  chat_id bigint not null references chats(chat_id) on delete cascade,
+  author_id uuid references accounts(id) on delete set null,
+  body text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_notes_chat_idx on chat_notes(chat_id, created_at);
@@ -0,0 +1,14 @@
+drop index if exists reservations_username_key_idx;
+drop index if exists reservations_phone_key_idx;
+drop index if exists orders_username_key_idx;
+drop index if exists orders_phone_key_idx;
+drop index if exists chats_username_key_idx;
+
+drop function if exists customer_username_key(text, text);
+drop function if exists customer_phone_key(text);
+
+alter table reservations drop column if exists customer_id;
+alter table orders drop column if exists customer_id;
+alter table chats drop column if exists customer_id;
+
+drop table if exists customers;
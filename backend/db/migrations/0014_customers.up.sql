@@ -0,0 +1,45 @@
+-- 0014 — единый профиль гостя: customers связывает чаты (Telegram и VK), заказы и брони.
+-- Связь — customer_id в каждой таблице. Автоматически записи сводятся по ключам: нормализованный
+-- телефон (заказы, брони) и username в пределах платформы (чаты, заказы, брони); ошибки
+-- сопоставления оператор исправляет вручную — объединением и разделением профилей.
+create table if not exists customers (
+  id serial primary key,
+  display_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table chats add column if not exists customer_id integer references customers(id) on delete set null;
+alter table orders add column if not exists customer_id integer references customers(id) on delete set null;
+alter table reservations add column if not exists customer_id integer references customers(id) on delete set null;
+
+create index if not exists chats_customer_idx on chats(customer_id);
+create index if not exists orders_customer_idx on orders(customer_id);
+create index if not exists reservations_customer_idx on reservations(customer_id);
+
+-- Телефон → только цифры, российский номер приводится к 7XXXXXXXXXX; слишком короткий — null.
+create or replace function customer_phone_key(phone text) returns text
+language sql immutable as $$
+  select case
+    when length(d) = 11 and left(d, 1) = '8' then '7' || substr(d, 2)
+    when length(d) = 10 then '7' || d
+    when length(d) >= 7 then d
+  end
+  from (select regexp_replace(coalesce(phone, ''), '\D', '', 'g') as d) s
+$$;
+
+-- Username → «платформа:имя» без @ и регистра: одинаковые ники в Telegram и VK — разные люди.
+-- Платформа без значения считается Telegram (исторически поле называется tg_username).
+create or replace function customer_username_key(platform text, username text) returns text
+language sql immutable as $$
+  select case when u <> '' then
+    (case when lower(coalesce(platform, '')) in ('vk', 'vkontakte') then 'vk' else 'telegram' end) || ':' || u
+  end
+  from (select lower(regexp_replace(btrim(coalesce(username, '')), '^@+', '')) as u) s
+$$;
+
+create index if not exists chats_username_key_idx on chats (customer_username_key(platform, username));
+create index if not exists orders_phone_key_idx on orders (customer_phone_key(phone));
+create index if not exists orders_username_key_idx on orders (customer_username_key(platform, tg_username));
+create index if not exists reservations_phone_key_idx on reservations (customer_phone_key(phone));
+create index if not exists reservations_username_key_idx on reservations (customer_username_key(platform, tg_username));
@@ -0,0 +1,4 @@
+-- 0015 — время последней ротации refresh-токена. Несколько вкладок одного браузера могут
+-- одновременно предъявить один и тот же токен: в течение короткого окна после ротации
+-- предыдущий токен ещё принимается (без новой ротации), и только позже считается кражей.
+alter table sessions add column if not exists rotated_at timestamptz;
@@ -0,0 +1,3 @@
+drop sequence if exists chats_internal_id_seq;
+drop index if exists chats_platform_external_idx;
+alter table chats drop column if exists external_chat_id;
@@ -0,0 +1,16 @@
+-- 0016 — чат во внешнем канале определяется парой (platform, external_chat_id), а не chat_id:
+-- peer_id VK и chat.id Telegram — независимые пространства и могут совпасть.
+-- chat_id остаётся внутренним ключом (на него ссылаются сообщения, метки, заметки и т. д.):
+-- новый чат получает chat_id, равный id в канале, а если такой chat_id уже занят чатом
+-- другой платформы — значение из chats_internal_id_seq (отрицательный диапазон ниже id Telegram).
+alter table chats add column if not exists external_chat_id bigint;
+update chats set external_chat_id = chat_id where external_chat_id is null;
+alter table chats alter column external_chat_id set not null;
+
+create unique index if not exists chats_platform_external_idx on chats(platform, external_chat_id);
+
+create sequence if not exists chats_internal_id_seq
+  as bigint
+  minvalue -9007199254740991
+  maxvalue -1000000000000000
+  start with -9007199254740991;
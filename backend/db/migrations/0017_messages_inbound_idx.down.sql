@@ -0,0 +1 @@
+drop index if exists messages_chat_inbound_idx;
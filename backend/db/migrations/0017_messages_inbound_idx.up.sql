@@ -0,0 +1,5 @@
+-- 0017 — индекс входящих сообщений по чату: счётчики непрочитанных (chats.controller, unreadCte)
+-- проходят по нему только сообщения после позиции чтения, а не всю историю.
+create index if not exists messages_chat_inbound_idx
+  on messages(chat_id, id)
+  where from_me is not true;
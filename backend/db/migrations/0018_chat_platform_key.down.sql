@@ -0,0 +1,5 @@
+-- Слитые чаты обратно не разделяются.
+drop index if exists chats_platform_external_idx;
+create unique index if not exists chats_platform_external_idx on chats(platform, external_chat_id);
+
+drop function if exists chat_platform_key(text);
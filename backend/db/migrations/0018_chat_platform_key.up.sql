@@ -0,0 +1,67 @@
+-- 0018 — платформа чата в ключе (platform, external_chat_id) сравнивается нормализованной,
+-- как в utils/platform.ts: tg / telegram / Telegram и пустая платформа — один Telegram,
+-- vk / vkontakte / вк — один VK. Иначе старый чат с platform = 'tg' или null не совпадал
+-- с входящим 'telegram', и гость получал второй чат с id из chats_internal_id_seq.
+-- Такие уже разделённые чаты сливаются в исходный (chat_id = external_chat_id, иначе самый
+-- ранний): сообщения, позиции чтения, теги, заметки и история статусов переходят в него.
+create or replace function chat_platform_key(platform text) returns text
+language sql immutable as $$
+  select case
+    when p = '' or p in ('tg', 'telegram', 't.me') or p like 'tg%' then 'telegram'
+    when p in ('vk', 'vkontakte', 'вк') then 'vk'
+    else p
+  end
+  from (select lower(btrim(coalesce(platform, ''))) as p) s
+$$;
+
+create temporary table chat_merges on commit drop as
+select c.chat_id as from_id, k.chat_id as to_id
+from chats c
+join (
+  select distinct on (chat_platform_key(platform), external_chat_id)
+    chat_platform_key(platform) as platform_key, external_chat_id, chat_id
+  from chats
+  order by chat_platform_key(platform), external_chat_id, (chat_id = external_chat_id) desc, id
+) k on k.platform_key = chat_platform_key(c.platform) and k.external_chat_id = c.external_chat_id
+where c.chat_id <> k.chat_id;
+
+-- Сообщение, уже сохранённое в исходном чате (повторная доставка), не дублируем.
+delete from messages m
+using chat_merges g, messages k
+where m.chat_id = g.from_id and k.chat_id = g.to_id and k.external_id = m.external_id;
+
+update messages m set chat_id = g.to_id from chat_merges g where m.chat_id = g.from_id;
+
+insert into chat_reads (account_id, chat_id, last_read_message_id, read_at)
+select r.account_id, g.to_id, max(r.last_read_message_id), max(r.read_at)
+from chat_reads r
+join chat_merges g on g.from_id = r.chat_id
+group by r.account_id, g.to_id
+on conflict (account_id, chat_id) do update set
+  last_read_message_id = greatest(chat_reads.last_read_message_id, excluded.last_read_message_id),
+  read_at = greatest(chat_reads.read_at, excluded.read_at);
+
+insert into chat_tags (chat_id, tag_id, created_by, created_at)
+select g.to_id, t.tag_id, t.created_by, t.created_at
+from chat_tags t
+join chat_merges g on g.from_id = t.chat_id
+on conflict do nothing;
+
+update chat_notes n set chat_id = g.to_id from chat_merges g where n.chat_id = g.from_id;
+update chat_status_history h set chat_id = g.to_id from chat_merges g where h.chat_id = g.from_id;
+
+update chats k set
+  username    = coalesce(k.username, d.username),
+  first_name  = coalesce(k.first_name, d.first_name),
+  last_name   = coalesce(k.last_name, d.last_name),
+  customer_id = coalesce(k.customer_id, d.customer_id),
+  assigned_to = coalesce(k.assigned_to, d.assigned_to),
+  assigned_at = case when k.assigned_to is null then d.assigned_at else k.assigned_at end
+from chat_merges g
+join chats d on d.chat_id = g.from_id
+where k.chat_id = g.to_id;
+
+delete from chats c using chat_merges g where c.chat_id = g.from_id;
+
+drop index if exists chats_platform_external_idx;
+create unique index chats_platform_external_idx on chats (chat_platform_key(platform), external_chat_id);
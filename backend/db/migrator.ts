@@ -0,0 +1,227 @@
+/**
+ * Версионные миграции схемы БД.
+ *
+ * Как устроено:
+ * - Миграция — пара файлов в db/migrations: `<версия>_<имя>.up.sql` и (необязательно) `.down.sql`.
+ *   Версия — число в начале имени; применяются строго по возрастанию.
+ * - Применённые миграции записываются в schema_migrations вместе с контрольной суммой up-скрипта:
+ *   если уже применённый файл потом отредактировали, status покажет это.
+ * - Каждая миграция выполняется в своей транзакции вместе с записью в schema_migrations,
+ *   а весь прогон держит advisory-lock — два процесса не накатят одно и то же одновременно.
+ * - Сервер при старте сверяется со списком (assertSchemaUpToDate) и не запускается, пока есть
+ *   неприменённые миграции.
+ */
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+
+const db = pool as unknown as Pool;
+
+/** В сборке SQL-файлы копируются рядом со скомпилированным кодом (см. Dockerfile). */
+export const MIGRATIONS_DIR = path.resolve(__dirname, 'migrations');
+
+const FILE_RE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+
+/** Произвольный, но постоянный ключ pg_advisory_lock для прогона миграций. */
+const LOCK_KEY = 7_240_311;
+
+export interface Migration {
+  version: number;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date | string;
+}
+
+export interface MigrationStatus {
+  migration: Migration | null;
+  applied: AppliedMigration | null;
+  /** Файл применённой миграции изменился после применения. */
+  modified: boolean;
+}
+
+/** Читает SQL-файл; BOM в начале (Windows-редакторы) Postgres не принимает. */
+export const readSql = (filePath: string): string =>
+  fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+
+const checksumOf = (sql: string): string => createHash('sha256').update(sql).digest('hex');
+
+/**
+ * Миграции из каталога, по возрастанию версии. Дубли версий и down без up — ошибка.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of fs.readdirSync(dir)) {
+    const match = FILE_RE.exec(file);
+    if (!match) {
+      continue;
+    }
+    const [, rawVersion, name, direction] = match;
+    const version = Number(rawVersion);
+    const entry = byVersion.get(version) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Migration version ${version} is used by both "${entry.name}" and "${name}"`);
+    }
+    entry[direction as 'up' | 'down'] = path.join(dir, file);
+    byVersion.set(version, entry);
+  }
+
+  return [...byVersion.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, { name, up, down }]) => {
+      if (!up) {
+        throw new Error(`Migration ${version}_${name} has no .up.sql file`);
+      }
+      return { version, name, upPath: up, downPath: down ?? null, checksum: checksumOf(readSql(up)) };
+    });
+}
+
+const ensureTable = async (client: Pool | PoolClient): Promise<void> => {
+  await client.query(`
+    create table if not exists schema_migrations (
+      version integer primary key,
+      name text not null,
+      checksum text not null,
+      applied_at timestamptz not null default now()
+    )
+  `);
+};
+
+const loadApplied = async (client: Pool | PoolClient): Promise<AppliedMigration[]> => {
+  await ensureTable(client);
+  const { rows } = await client.query<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version',
+  );
+  return rows;
+};
+
+/**
+ * Сводка: все известные миграции (из файлов и из таблицы) с отметкой, применены ли они.
+ */
+export async function getStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  const applied = new Map((await loadApplied(db)).map((row) => [row.version, row]));
+  const versions = [...new Set([...migrations.map((m) => m.version), ...applied.keys()])].sort(
+    (a, b) => a - b,
+  );
+
+  return versions.map((version) => {
+    const migration = migrations.find((m) => m.version === version) ?? null;
+    const row = applied.get(version) ?? null;
+    return {
+      migration,
+      applied: row,
+      modified: Boolean(migration && row && migration.checksum !== row.checksum),
+    };
+  });
+}
+
+/** Миграции, которые есть в файлах, но ещё не применены. */
+export async function getPending(): Promise<Migration[]> {
+  return (await getStatus())
+    .filter((entry) => entry.migration && !entry.applied)
+    .map((entry) => entry.migration as Migration);
+}
+
+/** Выполняет действие на отдельном соединении под advisory-lock. */
+async function withLock<T>(action: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [LOCK_KEY]);
+    try {
+      return await action(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function inTransaction(client: PoolClient, action: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await action();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Применяет все неприменённые миграции по порядку. Возвращает применённые.
+ * Ошибка в миграции откатывает только её; уже применённые до неё остаются.
+ */
+export async function migrateUp(log: (message: string) => void = console.log): Promise<Migration[]> {
+  return withLock(async (client) => {
+    const applied = new Set((await loadApplied(client)).map((row) => row.version));
+    const pending = loadMigrations().filter((m) => !applied.has(m.version));
+
+    for (const migration of pending) {
+      log(`Applying ${migration.version}_${migration.name}...`);
+      await inTransaction(client, async () => {
+        await client.query(readSql(migration.upPath));
+        await client.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [
+          migration.version,
+          migration.name,
+          migration.checksum,
+        ]);
+      });
+    }
+
+    return pending;
+  });
+}
+
+/**
+ * Откатывает последние `steps` применённых миграций, новые первыми. Возвращает откаченные.
+ * Миграцию без .down.sql откатить нельзя — прогон останавливается на ней.
+ */
+export async function migrateDown(
+  steps = 1,
+  log: (message: string) => void = console.log,
+): Promise<Migration[]> {
+  return withLock(async (client) => {
+    const migrations = loadMigrations();
+    const toRevert = (await loadApplied(client)).reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const row of toRevert) {
+      const migration = migrations.find((m) => m.version === row.version);
+      if (!migration?.downPath) {
+        throw new Error(`Migration ${row.version}_${row.name} has no .down.sql file and cannot be reverted`);
+      }
+      log(`Reverting ${migration.version}_${migration.name}...`);
+      await inTransaction(client, async () => {
+        await client.query(readSql(migration.downPath as string));
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+      reverted.push(migration);
+    }
+
+    return reverted;
+  });
+}
+
+/**
+ * Проверка при старте сервера: бросает ошибку, если схема отстаёт от файлов миграций.
+ */
+export async function assertSchemaUpToDate(): Promise<void> {
+  const pending = await getPending();
+  if (pending.length) {
+    const list = pending.map((m) => `${m.version}_${m.name}`).join(', ');
+    throw new Error(`Pending database migrations: ${list}. Run "npm run migrate" before starting the server.`);
+  }
+}
@@ -42,9 +42,10 @@ ON CONFLICT (email) DO NOTHING;
 
 
 
-INSERT INTO chats (chat_id, username, first_name, last_name, platform)
+INSERT INTO chats (chat_id, external_chat_id, username, first_name, last_name, platform)
 SELECT
   100000000 + gs AS chat_id,
+  100000000 + gs AS external_chat_id,
   'user' || gs AS username,
   (ARRAY['Алексей','Мария','Ирина','Степан','Антон','Леонид','Алиса','Максим','Артём','Дарья','Екатерина','Павел','Ольга','Глеб','Ксения','Виталий','Наталья','Григорий','Вероника','Илья'])[((gs - 1) % 20) + 1] AS first_name,
   (ARRAY['Петров','Смирнова','Иванова','Кузнецов','Попова','Соколова','Волкова','Романов','Андреев','Новикова','Гусев','Максимова','Тихонов','Федорова','Орлова','Егорова','Лебедева','Васильев','Громов','Жуков'])[((gs - 1) % 20) + 1] AS last_name,
@@ -2,10 +2,14 @@
  * Точка входа сервера.
  * 1. Загружаем конфигурацию dotenv-flow, чтобы переменные process.env читались из файлов .env.
  * 2. Приводим номер порта к числу, чтобы избежать несовместимости форматов между Unix и Windows.
- * 3. Далее инициализируем Express-приложение и запускаем HTTP-сервер на указанном порту.
+ * 3. Проверяем, что все миграции схемы применены: на устаревшей схеме сервер не стартует.
+ * 4. Далее инициализируем Express-приложение, подписываемся на шину событий SSE
+ *    и запускаем HTTP-сервер на указанном порту.
  */
 import './config/env';
 import app from './app';
+import { assertSchemaUpToDate } from './db/migrator';
+import { listenEvents } from './utils/events';
 
 /**
  * Порт читается из переменной окружения или берётся по умолчанию; приводим к числу.
@@ -14,9 +18,18 @@ import app from './app';
 const PORT = Number(process.env.PORT ?? 5000);
 
 /**
- * Запускаем Express-приложение и слушаем входящие запросы.
+ * Запускаем Express-приложение и слушаем входящие запросы — только если схема БД актуальна
+ * (иначе запросы падали бы на отсутствующих таблицах и колонках).
  * В консоли выводится человекочитаемое сообщение, если сервер успешно стартовал.
  */
-app.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-});
+assertSchemaUpToDate()
+  .then(() => {
+    listenEvents();
+    app.listen(PORT, () => {
+      console.log(`Server running on http://localhost:${PORT}`);
+    });
+  })
+  .catch((error: unknown) => {
+    console.error('Server not started:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,47 @@
+/**
+ * Воркер приёма сообщений long polling'ом: `npm run ingest` (в контейнере — `node dist/ingest.js`).
+ * Нужен, когда у установки нет публичного HTTPS-адреса для вебхуков Telegram и Callback API VK.
+ *
+ * 1. Проверяем, что схема БД актуальна (как и HTTP-сервер, на устаревшей схеме не работаем).
+ * 2. Опрашиваем все каналы с заданными учётными данными (см. services/ingestPolling.service).
+ * 3. SIGINT/SIGTERM: прерываем текущие запросы, дожидаемся циклов, отправки событий SSE в шину
+ *    (services/eventBus) и закрываем пул БД.
+ *    Повторный сигнал завершает процесс сразу.
+ */
+import './config/env';
+
+import type { Pool } from 'pg';
+
+import pool from './db';
+import { assertSchemaUpToDate } from './db/migrator';
+import { closeEventBus } from './services/eventBus';
+import { configuredChannels, runChannel } from './services/ingestPolling.service';
+
+const db = pool as unknown as Pool;
+
+async function main(): Promise<void> {
+  const channels = configuredChannels();
+  if (channels.length === 0) {
+    throw new Error('Nothing to poll: set TELEGRAM_BOT_TOKEN and/or VK_TOKEN with VK_GROUP_ID');
+  }
+
+  const controller = new AbortController();
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      console.log(`${signal} received, stopping ingestion…`);
+      controller.abort();
+    });
+  }
+
+  await assertSchemaUpToDate();
+  await Promise.all(channels.map((channel) => runChannel(channel, controller.signal)));
+}
+
+main()
+  .then(() => closeEventBus())
+  .then(() => db.end())
+  .catch(async (error: unknown) => {
+    console.error('Ingestion stopped:', error instanceof Error ? error.message : error);
+    await db.end().catch(() => undefined);
+    process.exit(1);
+  });
@@ -1,21 +1,79 @@
 /**
  * Middleware аутентификации по JWT в заголовке Authorization: Bearer <token>.
+ * Кроме подписи проверяет, что аккаунт активен, а сеанс токена (claim sid) не отозван.
+ * Пока пользователь не подключил обязательную для его роли 2FA, пускает только в /api/auth/*.
+ * Помимо точечного auth(required) экспортирует authExcept — общий слой защиты API
+ * с явным списком публичных маршрутов, и authStream — вход в поток событий по билету.
  */
 import { RequestHandler } from 'express';
+import type { Pool } from 'pg';
 
-import { AuthTokenPayload, verify } from '../utils/jwt';
+import pool from '../db';
+import { AuthTokenPayload, verify, verifyStreamTicket } from '../utils/jwt';
 
 const BEARER_PREFIX = 'Bearer ';
 
+const db = pool as unknown as Pool;
+
 export type AuthMiddleware = RequestHandler;
 
+interface AccountStateRow {
+  role: string | null;
+  is_active: boolean | null;
+  session_active: boolean;
+  two_factor_setup_required: boolean;
+}
+
+/**
+ * Куда можно без подключённой обязательной 2FA: профиль, сеансы и само подключение.
+ */
+const TWO_FACTOR_SETUP_PREFIX = '/api/auth/';
+
+/**
+ * Сверяет токен с текущим состоянием аккаунта и сеанса. Токен перестаёт действовать, если:
+ * - аккаунт удалён или отключён (is_active = false);
+ * - сеанс из claim `sid` отозван (выход, смена/сброс пароля) или истёк.
+ * Роль берём из БД: смена роли администратором действует сразу, без перелогина.
+ */
+const resolveActivePayload = async (payload: AuthTokenPayload): Promise<AuthTokenPayload | null> => {
+  if (!payload.sid) {
+    return null;
+  }
+
+  const { rows } = await db.query<AccountStateRow>(
+    `
+    SELECT a.role, a.is_active,
+           EXISTS (
+             SELECT 1 FROM sessions s
+             WHERE s.id = $2 AND s.account_id = a.id
+               AND s.revoked_at IS NULL AND s.expires_at > NOW()
+           ) AS session_active,
+           (a.totp_enabled_at IS NULL AND COALESCE(rs.require_2fa, FALSE)) AS two_factor_setup_required
+    FROM accounts a
+    LEFT JOIN role_security rs ON rs.role = a.role
+    WHERE a.id = $1
+    `,
+    [payload.id, payload.sid],
+  );
+  const acc = rows[0];
+  if (!acc || acc.is_active === false || !acc.session_active) {
+    return null;
+  }
+
+  return {
+    ...payload,
+    role: acc.role ?? undefined,
+    twoFactorSetupRequired: acc.two_factor_setup_required,
+  };
+};
+
 /**
  * Возвращает middleware, который проверяет токен и кладёт payload в req.user.
- * @param required Если true — отклоняет запрос без токена / с неверным токеном (401).
+ * @param required Если true — отклоняет запрос без токена / с неверным или отозванным токеном (401).
  *                 Если false — пропускает дальше с req.user = null.
  */
 export default function auth(required = true): AuthMiddleware {
-  return (req, res, next) => {
+  return async (req, res, next) => {
     const authHeader = req.headers.authorization ?? '';
     const token = authHeader.startsWith(BEARER_PREFIX)
       ? authHeader.slice(BEARER_PREFIX.length)
@@ -29,10 +87,9 @@ export default function auth(required = true): AuthMiddleware {
       return next();
     }
 
+    let payload: AuthTokenPayload;
     try {
-      const payload = verify(token);
-      req.user = payload;
-      return next();
+      payload = verify(token);
     } catch (error) {
       console.warn('[auth] verify failed:', (error as Error).name, (error as Error).message);
 
@@ -42,5 +99,100 @@ export default function auth(required = true): AuthMiddleware {
       req.user = null;
       return next();
     }
+
+    try {
+      const active = await resolveActivePayload(payload);
+      if (!active) {
+        if (required) {
+          return res.status(401).json({ error: 'Session revoked' });
+        }
+        req.user = null;
+        return next();
+      }
+
+      const fullPath = `${req.baseUrl}${req.path}`;
+      if (active.twoFactorSetupRequired && !fullPath.startsWith(TWO_FACTOR_SETUP_PREFIX)) {
+        return res.status(403).json({ error: 'Two-factor authentication setup required' });
+      }
+
+      req.user = active;
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+/**
+ * Аутентификация потока событий (GET /api/events): короткий билет из ?ticket= (см. signStreamTicket)
+ * или обычный Bearer-токен. Билет нужен EventSource — он не умеет передавать заголовок Authorization.
+ * Сеанс и активность аккаунта проверяются так же, как в auth().
+ */
+export function authStream(): AuthMiddleware {
+  const bearer = auth(true);
+
+  return async (req, res, next) => {
+    const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : '';
+    if (!ticket) {
+      return bearer(req, res, next);
+    }
+
+    const payload = verifyStreamTicket(ticket);
+    if (!payload) {
+      return res.status(401).json({ error: 'Invalid ticket' });
+    }
+
+    try {
+      const active = await resolveActivePayload(payload);
+      if (!active) {
+        return res.status(401).json({ error: 'Session revoked' });
+      }
+      if (active.twoFactorSetupRequired) {
+        return res.status(403).json({ error: 'Two-factor authentication setup required' });
+      }
+
+      req.user = active;
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+/**
+ * Публичный маршрут: HTTP-метод ('*' — любой) и путь от корня приложения.
+ * Путь с суффиксом '/*' совпадает со всеми вложенными адресами.
+ */
+export interface PublicRoute {
+  method: string;
+  path: string;
+}
+
+const matchesPath = (pattern: string, path: string): boolean => {
+  if (pattern.endsWith('/*')) {
+    const prefix = pattern.slice(0, -2);
+    return path === prefix || path.startsWith(`${prefix}/`);
+  }
+  return path === pattern || path === `${pattern}/`;
+};
+
+/**
+ * Требует валидный токен для всех запросов, кроме перечисленных в publicRoutes.
+ * Путь берём целиком (baseUrl + path), поэтому middleware можно монтировать на любой префикс.
+ */
+export function authExcept(publicRoutes: readonly PublicRoute[]): AuthMiddleware {
+  const required = auth(true);
+
+  return (req, res, next) => {
+    const fullPath = `${req.baseUrl}${req.path}`;
+    const isPublic = publicRoutes.some(
+      (route) =>
+        (route.method === '*' || route.method === req.method) && matchesPath(route.path, fullPath),
+    );
+
+    if (isPublic) {
+      return next();
+    }
+    return required(req, res, next);
   };
 }
@@ -0,0 +1,28 @@
+/**
+ * Middleware авторизации по ролям: пропускает запрос, только если роль из токена даёт нужное право.
+ * Рассчитан на работу после auth/authExcept, которые кладут payload в req.user.
+ */
+import type { RequestHandler } from 'express';
+
+import { hasPermission, type Permission } from '../utils/permissions';
+
+/**
+ * Возвращает middleware, требующий все перечисленные права.
+ * - 401, если пользователь не аутентифицирован;
+ * - 403, если роли не хватает хотя бы одного права.
+ */
+export default function requirePermission(...required: Permission[]): RequestHandler {
+  return (req, res, next) => {
+    const user = req.user ?? null;
+    if (!user) {
+      return res.status(401).json({ error: 'No token' });
+    }
+
+    const missing = required.find((permission) => !hasPermission(user.role, permission));
+    if (missing) {
+      return res.status(403).json({ error: `Forbidden: ${missing} required` });
+    }
+
+    return next();
+  };
+}
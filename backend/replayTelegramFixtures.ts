@@ -0,0 +1,208 @@
+/**
+ * Проверка приёма Telegram без живого бота: `npm run fixtures:telegram`.
+ * Записанные апдейты из fixtures/telegram прогоняются через handleTelegramUpdate (тот же путь,
+ * что у вебхука и long polling), после чего сверяются строки chats, messages и message_attachments.
+ *
+ * Запускать только на отдельной тестовой базе (имя PGDATABASE оканчивается на _test) с актуальной
+ * схемой: скрипт удаляет чат гостя из fixtures перед каждым сценарием и после проверки.
+ *
+ * Сценарии:
+ * 1. Новое сообщение, его повторная доставка, правка и повторная доставка правки, фото с подписью,
+ *    стикер и сообщение из группы (пропускается).
+ * 2. Правка пришла раньше исходного сообщения: правка сохраняется как новое, опоздавший
+ *    оригинал — дубль.
+ */
+import './config/env';
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import type { Pool } from 'pg';
+
+import pool from './db';
+import { assertSchemaUpToDate } from './db/migrator';
+import { closeEventBus, setEventBus } from './services/eventBus';
+import { createMemoryBus } from './services/eventBus/memory.bus';
+import type { IngestResult } from './services/inbound.service';
+import { handleTelegramUpdate } from './services/telegramUpdates.service';
+
+const db = pool as unknown as Pool;
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures', 'telegram');
+
+/** chat.id гостя в fixtures (личный чат) и группы из group_message.json. */
+const GUEST_CHAT_ID = 524901377;
+const GROUP_CHAT_ID = -1001987654321;
+
+interface ChatRow {
+  chat_id: string;
+  platform: string | null;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+interface MessageRow {
+  external_id: string;
+  from_me: boolean | null;
+  text: string | null;
+  date: Date;
+  edited_at: Date | null;
+  attachments: Array<{ kind: string; file_name: string; size_bytes: number | null; source_ref: string | null }>;
+}
+
+const readFixture = (name: string): unknown =>
+  JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf-8'));
+
+async function replay(name: string, expected: IngestResult | 'ignored'): Promise<void> {
+  const result = await handleTelegramUpdate(readFixture(name));
+  assert.equal(result, expected, `${name}.json: expected ${expected}, got ${result}`);
+  console.log(`  ${name}.json → ${result}`);
+}
+
+/** Удаляет чат гостя (сообщения и вложения — каскадом) и его профиль гостя. */
+async function cleanUp(): Promise<void> {
+  const { rows } = await db.query<{ customer_id: number | null }>(
+    `DELETE FROM chats
+     WHERE chat_platform_key(platform) = 'telegram' AND external_chat_id = ANY($1::bigint[])
+     RETURNING customer_id`,
+    [[GUEST_CHAT_ID, GROUP_CHAT_ID]],
+  );
+  const customerIds = rows.map((row) => row.customer_id).filter((id) => id != null);
+  if (customerIds.length) {
+    await db.query('DELETE FROM customers WHERE id = ANY($1::int[])', [customerIds]);
+  }
+}
+
+async function findGuestChat(): Promise<ChatRow | null> {
+  const { rows } = await db.query<ChatRow>(
+    `SELECT chat_id, platform, username, first_name, last_name FROM chats
+     WHERE chat_platform_key(platform) = 'telegram' AND external_chat_id = $1`,
+    [GUEST_CHAT_ID],
+  );
+  return rows[0] ?? null;
+}
+
+async function findMessages(chatId: string): Promise<MessageRow[]> {
+  const { rows } = await db.query<MessageRow>(
+    `
+    SELECT m.external_id, m.from_me, m.text, m.date, m.edited_at,
+      COALESCE(
+        (SELECT json_agg(json_build_object(
+            'kind', a.kind, 'file_name', a.file_name, 'size_bytes', a.size_bytes, 'source_ref', a.source_ref
+          ) ORDER BY a.id)
+         FROM message_attachments a WHERE a.message_id = m.id),
+        '[]'
+      ) AS attachments
+    FROM messages m
+    WHERE m.chat_id = $1
+    ORDER BY m.external_id
+    `,
+    [chatId],
+  );
+  return rows;
+}
+
+async function replayInOrder(): Promise<void> {
+  console.log('Scenario 1: updates in delivery order');
+  await cleanUp();
+  await replay('message', 'created');
+  await replay('message', 'duplicate');
+  await replay('edited_message', 'updated');
+  await replay('edited_message', 'duplicate');
+  await replay('photo_with_caption', 'created');
+  await replay('sticker', 'created');
+  await replay('group_message', 'ignored');
+
+  const chat = await findGuestChat();
+  assert.ok(chat, 'guest chat was not created');
+  assert.deepEqual(
+    { platform: chat.platform, username: chat.username, first_name: chat.first_name, last_name: chat.last_name },
+    // Апдейты без фамилии и username не затирают уже известный профиль.
+    { platform: 'telegram', username: 'anna_smirnova', first_name: 'Анна', last_name: 'Смирнова' },
+  );
+
+  const group = await db.query('SELECT 1 FROM chats WHERE external_chat_id = $1', [GROUP_CHAT_ID]);
+  assert.equal(group.rowCount, 0, 'group chat must not be stored');
+
+  const messages = await findMessages(chat.chat_id);
+  assert.deepEqual(
+    messages.map((m) => ({
+      external_id: Number(m.external_id),
+      from_me: m.from_me,
+      text: m.text,
+      date: m.date.toISOString(),
+      edited_at: m.edited_at?.toISOString() ?? null,
+      attachments: m.attachments,
+    })),
+    [
+      {
+        external_id: 412,
+        from_me: false,
+        text: 'Здравствуйте! Можно забронировать столик на пятницу на 20:00?',
+        date: new Date(1760872800 * 1000).toISOString(),
+        edited_at: new Date(1760872861 * 1000).toISOString(),
+        attachments: [],
+      },
+      {
+        external_id: 413,
+        from_me: false,
+        text: 'Вот так выглядел заказ',
+        date: new Date(1760872905 * 1000).toISOString(),
+        edited_at: null,
+        // Берётся самый крупный размер фото.
+        attachments: [
+          { kind: 'photo', file_name: 'photo_413.jpg', size_bytes: 48211, source_ref: 'AgACAgIAAxkBAAIBmWbSample2' },
+        ],
+      },
+      {
+        external_id: 414,
+        from_me: false,
+        text: '[стикер]',
+        date: new Date(1760872950 * 1000).toISOString(),
+        edited_at: null,
+        attachments: [],
+      },
+    ],
+  );
+}
+
+async function replayEditBeforeOriginal(): Promise<void> {
+  console.log('Scenario 2: edit delivered before the original message');
+  await cleanUp();
+  await replay('edited_message', 'created');
+  await replay('message', 'duplicate');
+
+  const chat = await findGuestChat();
+  assert.ok(chat, 'guest chat was not created');
+  const messages = await findMessages(chat.chat_id);
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].text, 'Здравствуйте! Можно забронировать столик на пятницу на 20:00?');
+  assert.equal(messages[0].edited_at?.toISOString(), new Date(1760872861 * 1000).toISOString());
+}
+
+async function main(): Promise<void> {
+  const database = process.env.PGDATABASE ?? '';
+  if (!database.endsWith('_test')) {
+    throw new Error(`Refusing to replay fixtures into "${database}": use a test database (PGDATABASE=<name>_test)`);
+  }
+
+  setEventBus(createMemoryBus());
+  await assertSchemaUpToDate();
+  try {
+    await replayInOrder();
+    await replayEditBeforeOriginal();
+  } finally {
+    await cleanUp();
+  }
+  console.log('Telegram fixtures OK.');
+}
+
+main()
+  .then(() => closeEventBus())
+  .then(() => db.end())
+  .catch(async (error: unknown) => {
+    console.error('Telegram fixtures check failed:', error instanceof Error ? error.message : error);
+    await db.end().catch(() => undefined);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,50 @@
+/**
+ * Маршруты управления аккаунтами сотрудников. Доступны только роли с правом accounts:manage.
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
+import * as accounts from '../controllers/accounts.controller';
+
+const router = Router();
+
+router.use(requirePermission('accounts:manage'));
+
+/**
+ * GET /accounts — список аккаунтов без хешей паролей.
+ */
+router.get('/', asyncH(accounts.list));
+
+/**
+ * GET/PUT /accounts/2fa-policy — роли, для которых двухфакторная аутентификация обязательна.
+ */
+router.get('/2fa-policy', asyncH(accounts.getTwoFactorPolicy));
+router.put('/2fa-policy', asyncH(accounts.updateTwoFactorPolicy));
+
+/**
+ * GET /accounts/lockouts — журнал блокировок входа после серии неудачных попыток.
+ */
+router.get('/lockouts', asyncH(accounts.lockouts));
+
+/**
+ * POST /accounts — приглашение: создаёт аккаунт и при необходимости генерирует временный пароль.
+ */
+router.post('/', asyncH(accounts.create));
+
+/**
+ * PATCH /accounts/:id — имя, роль, активность. Последнего активного админа отключить нельзя.
+ */
+router.patch('/:id', asyncH(accounts.update));
+
+/**
+ * POST /accounts/:id/reset-password — новый пароль для сотрудника.
+ */
+router.post('/:id/reset-password', asyncH(accounts.resetPassword));
+
+/**
+ * POST /accounts/:id/reset-2fa — отключение 2FA сотрудника (потерян телефон и коды восстановления).
+ */
+router.post('/:id/reset-2fa', asyncH(accounts.resetTwoFactor));
+
+export default router;
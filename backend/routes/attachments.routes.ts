@@ -0,0 +1,45 @@
+/**
+ * Маршруты вложений: загрузка файла перед отправкой и выдача содержимого для ленты чата.
+ */
+import { Router } from 'express';
+import type { RequestHandler } from 'express';
+import multer from 'multer';
+
+import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
+import * as attachments from '../controllers/attachments.controller';
+import { ATTACHMENT_MAX_BYTES } from '../services/attachments.service';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 1 },
+}).single('file');
+
+/**
+ * Принимает один файл из поля file. Ошибки multer отдаём тем же { error }, что и остальной API.
+ */
+const receiveFile: RequestHandler = (req, res, next) => {
+  upload(req, res, (error: unknown) => {
+    if (!error) {
+      return next();
+    }
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ error: `File is larger than ${ATTACHMENT_MAX_BYTES} bytes` });
+    }
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid upload' });
+  });
+};
+
+/**
+ * POST /attachments — загрузка файла (multipart, поле file); id вложения передаётся при отправке сообщения.
+ */
+router.post('/', requirePermission('messages:send'), receiveFile, asyncH(attachments.upload));
+
+/**
+ * GET /attachments/:id/file — содержимое вложения (входящие скачиваются из канала при первом запросе).
+ */
+router.get('/:id/file', requirePermission('messages:read'), asyncH(attachments.download));
+
+export default router;
@@ -0,0 +1,19 @@
+/**
+ * Маршруты журнала аудита. Доступны только роли с правом audit:read.
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
+import * as audit from '../controllers/audit.controller';
+
+const router = Router();
+
+router.use(requirePermission('audit:read'));
+
+/**
+ * GET /audit — записи журнала с фильтрами по сущности, действию, автору и периоду.
+ */
+router.get('/', asyncH(audit.list));
+
+export default router;
@@ -1,10 +1,13 @@
 /**
- * Маршруты авторизации: вход по email/password и получение текущего пользователя.
+ * Маршруты авторизации: вход по email/password (и второй фактор), текущий пользователь, правка профиля,
+ * смена пароля, сеансы (обновление токенов, выход, список устройств) и управление 2FA.
  */
 import { Router } from 'express';
 import type { RequestHandler } from 'express';
 
-import { login, me } from '../controllers/auth.controller';
+import { changePassword, login, loginSecondStep, me, updateMe } from '../controllers/auth.controller';
+import * as sessions from '../controllers/sessions.controller';
+import * as twoFactor from '../controllers/twoFactor.controller';
 import auth from '../middlewares/auth';
 
 const router = Router();
@@ -24,9 +27,57 @@ const optionalAuth = typeof auth === 'function' ? auth(false) : passThrough;
  */
 router.post('/login', login);
 
+/**
+ * POST /auth/login/2fa — второй шаг входа для аккаунтов с 2FA: challengeToken + код.
+ */
+router.post('/login/2fa', loginSecondStep);
+
 /**
  * GET /auth/me — возвращает актуальные данные пользователя или null, если токена нет.
  */
 router.get('/me', optionalAuth, me);
 
+/**
+ * PATCH /auth/me — редактирование собственного профиля (токен проверяет общий слой в app.ts).
+ */
+router.patch('/me', updateMe);
+
+/**
+ * POST /auth/password — смена пароля; остальные сеансы пользователя отзываются.
+ */
+router.post('/password', changePassword);
+
+/**
+ * POST /auth/refresh — обмен refresh-токена на новую пару (публичный маршрут).
+ */
+router.post('/refresh', sessions.refresh);
+
+/**
+ * POST /auth/logout — завершение текущего сеанса; работает и с истёкшим access-токеном,
+ * если передан refreshToken.
+ */
+router.post('/logout', optionalAuth, sessions.logout);
+
+/**
+ * POST /auth/logout-all — выход на всех устройствах.
+ */
+router.post('/logout-all', sessions.logoutAll);
+
+/**
+ * GET /auth/sessions — активные сеансы; DELETE /auth/sessions/:id — отзыв одного из них.
+ */
+router.get('/sessions', sessions.list);
+router.delete('/sessions/:id', sessions.revoke);
+
+
+/**
+ * Двухфакторная аутентификация текущего пользователя: состояние, подключение (enroll → confirm),
+ * перевыпуск кодов восстановления и отключение.
+ */
+router.get('/2fa', twoFactor.status);
+router.post('/2fa/enroll', twoFactor.enroll);
+router.post('/2fa/confirm', twoFactor.confirm);
+router.post('/2fa/recovery-codes', twoFactor.recoveryCodes);
+router.post('/2fa/disable', twoFactor.disable);
+
 export default router;
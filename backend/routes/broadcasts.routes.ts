@@ -4,6 +4,7 @@
 import { Router } from 'express';
 
 import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
 import { preview, sendBroadcast } from '../controllers/broadcasts.controller';
 
 const router = Router();
@@ -11,11 +12,11 @@ const router = Router();
 /**
  * GET /broadcasts/recipients — считает получателей по заданным фильтрам без фактической отправки.
  */
-router.get('/recipients', asyncH(preview));
+router.get('/recipients', requirePermission('broadcasts:send'), asyncH(preview));
 
 /**
  * POST /broadcasts — стартует рассылку (или тестовую отправку) и возвращает сводку по задаче.
  */
-router.post('/', asyncH(sendBroadcast));
+router.post('/', requirePermission('broadcasts:send'), asyncH(sendBroadcast));
 
 export default router;
@@ -0,0 +1,42 @@
+/**
+ * Маршруты шаблонов ответов: библиотека шаблонов и подстановка переменных для чата.
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
+import * as canned from '../controllers/cannedResponses.controller';
+
+const router = Router();
+
+/**
+ * GET /canned-responses — список шаблонов (q, category) и поддерживаемые переменные.
+ */
+router.get('/', requirePermission('canned:read'), asyncH(canned.list));
+
+/**
+ * GET /canned-responses/:id — один шаблон.
+ */
+router.get('/:id', requirePermission('canned:read'), asyncH(canned.getOne));
+
+/**
+ * POST /canned-responses — создаёт шаблон.
+ */
+router.post('/', requirePermission('canned:write'), asyncH(canned.create));
+
+/**
+ * PUT /canned-responses/:id — обновляет шаблон.
+ */
+router.put('/:id', requirePermission('canned:write'), asyncH(canned.update));
+
+/**
+ * DELETE /canned-responses/:id — удаляет шаблон.
+ */
+router.delete('/:id', requirePermission('canned:write'), asyncH(canned.remove));
+
+/**
+ * POST /canned-responses/:id/render — текст шаблона для чата с подставленными переменными.
+ */
+router.post('/:id/render', requirePermission('canned:read'), asyncH(canned.render));
+
+export default router;
@@ -1,31 +1,101 @@
 /**
- * CRUD-маршруты по чатам: список, создание/обновление и удаление карточек.
+ * CRUD-маршруты по чатам: список, создание/обновление и удаление карточек, позиции чтения,
+ * назначение ответственного оператора, статус переписки, внутренние теги и заметки, профиль гостя.
  */
 import { Router } from 'express';
 
 import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
 import * as chats from '../controllers/chats.controller';
+import * as customers from '../controllers/customers.controller';
+import * as notes from '../controllers/chatNotes.controller';
+import * as tags from '../controllers/tags.controller';
 
 const router = Router();
 
 /**
  * GET /chats — выдаёт список чатов с поддержкой фильтров/пагинации (логика в контроллере).
  */
-router.get('/', asyncH(chats.list));
+router.get('/', requirePermission('chats:read'), asyncH(chats.list));
+
+/**
+ * GET /chats/unread — итоги непрочитанного текущего аккаунта (бейдж «Чаты» в навигации).
+ */
+router.get('/unread', requirePermission('chats:read'), asyncH(chats.unreadTotals));
 
 /**
  * POST /chats — создаёт или обновляет чат (upsert), если контроллер это поддерживает.
  */
-router.post('/', asyncH(chats.createOrUpsert));
+router.post('/', requirePermission('chats:write'), asyncH(chats.createOrUpsert));
+
+/**
+ * POST /chats/:chat_id/read — отмечает чат прочитанным текущим аккаунтом.
+ */
+router.post('/:chat_id/read', requirePermission('chats:read'), asyncH(chats.markRead));
+
+/**
+ * POST /chats/:chat_id/assign — назначает чат оператору (руководитель).
+ */
+router.post('/:chat_id/assign', requirePermission('chats:assign'), asyncH(chats.assign));
+
+/**
+ * POST /chats/:chat_id/take — текущий аккаунт берёт чат себе (перехватывает у другого).
+ */
+router.post('/:chat_id/take', requirePermission('messages:send'), asyncH(chats.take));
+
+/**
+ * POST /chats/:chat_id/unassign — освобождает чат (чужой — только с правом chats:assign).
+ */
+router.post('/:chat_id/unassign', requirePermission('chats:write'), asyncH(chats.unassign));
+
+/**
+ * PUT /chats/:chat_id/status — меняет статус переписки (open / pending / resolved).
+ */
+router.put('/:chat_id/status', requirePermission('chats:write'), asyncH(chats.updateStatus));
+
+/**
+ * POST /chats/:chat_id/tags — вешает тег на чат (по имени, новый тег создаётся).
+ */
+router.post('/:chat_id/tags', requirePermission('chats:write'), asyncH(tags.addToChat));
+
+/**
+ * DELETE /chats/:chat_id/tags/:tag_id — снимает тег с чата.
+ */
+router.delete('/:chat_id/tags/:tag_id', requirePermission('chats:write'), asyncH(tags.removeFromChat));
+
+/**
+ * GET /chats/:chat_id/notes — внутренние заметки по чату.
+ */
+router.get('/:chat_id/notes', requirePermission('chats:read'), asyncH(notes.list));
+
+/**
+ * POST /chats/:chat_id/notes — добавляет заметку.
+ */
+router.post('/:chat_id/notes', requirePermission('chats:write'), asyncH(notes.create));
+
+/**
+ * PUT /chats/:chat_id/notes/:note_id — правит заметку (только автор).
+ */
+router.put('/:chat_id/notes/:note_id', requirePermission('chats:write'), asyncH(notes.update));
+
+/**
+ * DELETE /chats/:chat_id/notes/:note_id — удаляет заметку (чужую — с правом chats:delete).
+ */
+router.delete('/:chat_id/notes/:note_id', requirePermission('chats:write'), asyncH(notes.remove));
+
+/**
+ * GET /chats/:chat_id/customer — профиль гостя чата; null — чат ещё не привязан к профилю.
+ */
+router.get('/:chat_id/customer', requirePermission('customers:read'), asyncH(customers.getForChat));
 
 /**
  * PUT /chats/:chat_id — сохраняет изменения в конкретном чате.
  */
-router.put('/:chat_id', asyncH(chats.update));
+router.put('/:chat_id', requirePermission('chats:write'), asyncH(chats.update));
 
 /**
  * DELETE /chats/:chat_id — удаляет чат и связанные данные (если предусмотрено контроллером).
  */
-router.delete('/:chat_id', asyncH(chats.remove));
+router.delete('/:chat_id', requirePermission('chats:delete'), asyncH(chats.remove));
 
 export default router;
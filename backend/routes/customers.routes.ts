@@ -0,0 +1,28 @@
+/**
+ * Маршруты профилей гостей: карточка профиля, объединение и разделение профилей.
+ * Профиль для конкретного чата — GET /chats/:chat_id/customer (chats.routes).
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
+import * as customers from '../controllers/customers.controller';
+
+const router = Router();
+
+/**
+ * GET /customers/:id — профиль гостя.
+ */
+router.get('/:id', requirePermission('customers:read'), asyncH(customers.getOne));
+
+/**
+ * POST /customers/:id/merge — вливает в профиль другой профиль (source_id).
+ */
+router.post('/:id/merge', requirePermission('customers:write'), asyncH(customers.merge));
+
+/**
+ * POST /customers/:id/split — отделяет чаты, заказы и брони в новый профиль.
+ */
+router.post('/:id/split', requirePermission('customers:write'), asyncH(customers.split));
+
+export default router;
@@ -4,12 +4,26 @@
 import { Router } from 'express';
 
 import { sseHandler } from '../utils/events';
+import { AuthTokenPayload, signStreamTicket, STREAM_TICKET_TTL_SEC } from '../utils/jwt';
+import { authStream } from '../middlewares/auth';
+import requirePermission from '../middlewares/permissions';
 
 const router = Router();
 
+/**
+ * POST /events/ticket — короткий билет для подключения EventSource: GET /events?ticket=…
+ * Билет привязан к сеансу: после выхода или отзыва сеанса им не подключиться.
+ */
+router.post('/ticket', requirePermission('events:read'), (req, res) => {
+  const userFromAuth = req.user as AuthTokenPayload;
+  const ticket = signStreamTicket({ id: userFromAuth.id, sid: userFromAuth.sid });
+  res.json({ ticket, expiresIn: STREAM_TICKET_TTL_SEC });
+});
+
 /**
  * GET /events — держит соединение открытым и транслирует события выбранных топиков.
+ * Маршрут публичный для authExcept: доступ проверяет authStream (билет или Bearer-токен).
  */
-router.get('/', sseHandler);
+router.get('/', authStream(), requirePermission('events:read'), sseHandler);
 
 export default router;
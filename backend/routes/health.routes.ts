@@ -1,13 +1,29 @@
 /**
- * Простейший проверочный эндпоинт: отвечает ok=true, если приложение живо.
+ * Проверки состояния для оркестратора и мониторинга: liveness и readiness.
+ * Роутер смонтирован на /api/health (публичный префикс) и, для совместимости, на /health.
  */
 import { Router } from 'express';
 
+import asyncH from '../utils/asyncH';
+import * as health from '../controllers/health.controller';
+
 const router = Router();
 
 /**
- * GET /health — используется мониторингом/оркестратором для проверки состояния.
+ * GET /health — краткий ответ «процесс жив» (исторический адрес, то же, что /live).
+ */
+router.get('/', health.live);
+
+/**
+ * GET /live — liveness: процесс отвечает на запросы.
+ */
+router.get('/live', health.live);
+
+/**
+ * GET /ready — readiness: база, миграции и каналы; 503, если сервис деградировал.
+ * GET /db — тот же отчёт: по этому адресу контейнер проверяет docker-compose.
  */
-router.get('/', (_req, res) => res.json({ ok: true }));
+router.get('/ready', asyncH(health.ready));
+router.get('/db', asyncH(health.ready));
 
 export default router;
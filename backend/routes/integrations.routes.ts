@@ -0,0 +1,16 @@
+/**
+ * Интеграции с внешними платформами, которые сами ходят к нам (Callback API).
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import * as webhooks from '../controllers/webhooks.controller';
+
+const router = Router();
+
+/**
+ * POST /integrations/vk/callback — события VK Callback API сообщества (подтверждение, сообщения).
+ */
+router.post('/vk/callback', asyncH(webhooks.vkCallback));
+
+export default router;
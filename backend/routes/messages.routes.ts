@@ -3,33 +3,38 @@
  * Маршруты работы с сообщениями: получение истории, webhooks и отправка от оператора.
  */
 import { Router } from 'express';
-import type { RequestHandler } from 'express';
+import type { RequestHandler, Response } from 'express';
 
 import asyncH from '../utils/asyncH';
+import { accountId } from '../utils/requestAccount';
+import requirePermission from '../middlewares/permissions';
 import * as messages from '../controllers/messages.controller';
-import { sendOperatorMessage } from '../services/send.service';
+import { retryOperatorMessage, sendOperatorMessage } from '../services/send.service';
+import { recordAudit } from '../services/audit.service';
+import type { MessageRecord } from '../types/models';
 
 const router = Router();
 
 /**
  * GET /messages — выдаёт список сообщений с учётом фильтров/пагинации из контроллера.
  */
-router.get('/', asyncH(messages.list));
+router.get('/', requirePermission('messages:read'), asyncH(messages.list));
 
 /**
- * POST /messages/raw — приём «сырых» сообщений от внешних интеграций (webhook).
+ * POST /messages/raw — приём «сырых» сообщений от внешних интеграций (webhook);
+ * вместо JWT — общий секрет в заголовке X-Raw-Webhook-Secret (проверяет контроллер).
  */
 router.post('/raw', asyncH(messages.createRaw));
 
 /**
  * PUT /messages/:id — обновление полей сообщения (например, статуса доставки).
  */
-router.put('/:id', asyncH(messages.update));
+router.put('/:id', requirePermission('messages:write'), asyncH(messages.update));
 
 /**
  * DELETE /messages/:id — удаление сообщения.
  */
-router.delete('/:id', asyncH(messages.remove));
+router.delete('/:id', requirePermission('messages:delete'), asyncH(messages.remove));
 
 /**
  * Тело запроса при отправке сообщения от оператора гостю.
@@ -37,30 +42,71 @@ router.delete('/:id', asyncH(messages.remove));
 type SendBody = {
   chatId?: string | number;
   text?: string;
+  /** ID загрузки из POST /api/attachments; текст тогда уходит подписью и может быть пустым. */
+  attachmentId?: string | number | null;
 };
 
+type SendResult = Awaited<ReturnType<typeof sendOperatorMessage>>;
+
 /**
- * POST /messages — отправка ответа от оператора; передаём chatId и текст.
- * Контроллер возвращает 400, если данные невалидны, 502 — если внешний сервис упал.
+ * Ответ по итогу отправки. Если строка сообщения уже сохранена (в том числе со статусом failed),
+ * она возвращается и в ответе с ошибкой — в поле message, чтобы клиент показал её с кнопкой повтора.
+ */
+const respondWithResult = async (req: Parameters<typeof recordAudit>[0], res: Response, result: SendResult) => {
+  const row = 'data' in result ? (result.data as MessageRecord) : null;
+  if (row) {
+    await recordAudit(req, { action: 'send', entity: 'message', entityId: row.id, after: row });
+  }
+  if (result.status !== 200) {
+    return res.status(result.status).json(row ? { error: result.error, message: row } : { error: result.error });
+  }
+  return res.json(row);
+};
+
+/**
+ * POST /messages — отправка ответа от оператора; передаём chatId и текст и/или attachmentId.
+ * Сообщение сохраняется со статусом pending до вызова платформы, затем sent или failed
+ * (статус рассылается в SSE-топик messages). 400 — данные невалидны, 502 — платформа отказала.
  */
 const sendMessage: RequestHandler<unknown, unknown, SendBody> = async (req, res) => {
-  const { chatId, text } = req.body ?? {};
-  if (!chatId || !text || String(text).trim() === '') {
-    return res.status(400).json({ error: 'chatId and text are required' });
+  const { chatId, text, attachmentId = null } = req.body ?? {};
+  const hasText = Boolean(text) && String(text).trim() !== '';
+  if (!chatId || (!hasText && !attachmentId)) {
+    return res.status(400).json({ error: 'chatId and text or attachmentId are required' });
   }
 
   try {
-    const result = await sendOperatorMessage({ chatId, text });
-    if (result.status !== 200) {
-      return res.status(result.status).json({ error: result.error });
-    }
-    return res.json(result.data);
+    return await respondWithResult(
+      req,
+      res,
+      await sendOperatorMessage({ chatId, text, attachmentId, accountId: accountId(req) }),
+    );
   } catch (error) {
     console.error('Send error:', error);
-    return res.status(502).json({ error: 'Upstream send failed' });
+    return res.status(500).json({ error: 'Internal error' });
+  }
+};
+
+router.post('/', requirePermission('messages:send'), asyncH(sendMessage));
+
+/**
+ * POST /messages/:id/retry — повторная отправка сообщения со статусом failed.
+ * 404 — сообщения нет, 409 — оно не в статусе failed, 502 — платформа снова отказала.
+ */
+const retryMessage: RequestHandler<{ id: string }> = async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+
+  try {
+    return await respondWithResult(req, res, await retryOperatorMessage(id));
+  } catch (error) {
+    console.error('Retry error:', error);
+    return res.status(500).json({ error: 'Internal error' });
   }
 };
 
-router.post('/', asyncH(sendMessage));
+router.post('/:id/retry', requirePermission('messages:send'), asyncH(retryMessage));
 
 export default router;
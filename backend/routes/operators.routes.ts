@@ -0,0 +1,22 @@
+/**
+ * Маршруты операторов: список для назначения чатов и отметка «на линии».
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
+import * as operators from '../controllers/operators.controller';
+
+const router = Router();
+
+/**
+ * GET /operators — кому можно назначить чат, с нагрузкой и статусом «на линии».
+ */
+router.get('/', requirePermission('chats:read'), asyncH(operators.list));
+
+/**
+ * PUT /operators/me/online — текущий аккаунт встаёт на линию или уходит с неё.
+ */
+router.put('/me/online', requirePermission('messages:send'), asyncH(operators.updateOnline));
+
+export default router;
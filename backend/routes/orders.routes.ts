@@ -4,6 +4,7 @@
 import { Router } from 'express';
 
 import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
 import * as orders from '../controllers/orders.controller';
 
 const router = Router();
@@ -11,21 +12,21 @@ const router = Router();
 /**
  * GET /orders — выдаёт список заказов, поддерживает режим таблицы/фильтров на стороне контроллера.
  */
-router.get('/', asyncH(orders.list));
+router.get('/', requirePermission('orders:read'), asyncH(orders.list));
 
 /**
  * POST /orders — создаёт новый заказ.
  */
-router.post('/', asyncH(orders.create));
+router.post('/', requirePermission('orders:write'), asyncH(orders.create));
 
 /**
  * PUT /orders/:id — обновляет существующий заказ.
  */
-router.put('/:id', asyncH(orders.update));
+router.put('/:id', requirePermission('orders:write'), asyncH(orders.update));
 
 /**
  * DELETE /orders/:id — удаляет заказ.
  */
-router.delete('/:id', asyncH(orders.remove));
+router.delete('/:id', requirePermission('orders:delete'), asyncH(orders.remove));
 
 export default router;
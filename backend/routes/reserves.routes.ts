@@ -4,6 +4,7 @@
 import { Router } from 'express';
 
 import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
 import * as reserves from '../controllers/reserves.controller';
 
 const router = Router();
@@ -11,21 +12,21 @@ const router = Router();
 /**
  * GET /reserves — список броней (контроллер может отдавать таблицу или карточки).
  */
-router.get('/', asyncH(reserves.list));
+router.get('/', requirePermission('reserves:read'), asyncH(reserves.list));
 
 /**
  * POST /reserves — создаёт новую бронь.
  */
-router.post('/', asyncH(reserves.create));
+router.post('/', requirePermission('reserves:write'), asyncH(reserves.create));
 
 /**
  * PUT /reserves/:id — обновляет бронь с указанным идентификатором.
  */
-router.put('/:id', asyncH(reserves.update));
+router.put('/:id', requirePermission('reserves:write'), asyncH(reserves.update));
 
 /**
  * DELETE /reserves/:id — удаляет бронь.
  */
-router.delete('/:id', asyncH(reserves.remove));
+router.delete('/:id', requirePermission('reserves:delete'), asyncH(reserves.remove));
 
 export default router;
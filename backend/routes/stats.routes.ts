@@ -4,11 +4,17 @@
 import { Router } from "express";
 
 import asyncH from "../utils/asyncH";
+import requirePermission from "../middlewares/permissions";
 import * as stats from "../controllers/stats.controller";
 import { itemsByCategory } from "../controllers/stats.controller";
 
 const router = Router();
 
+/**
+ * Вся статистика доступна по одному праву — аналитику больше ничего не нужно.
+ */
+router.use(requirePermission("stats:read"));
+
 /**
  * GET /stats/orders — общая статистика по заказам (количество, суммы и т.п.).
  */
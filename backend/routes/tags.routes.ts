@@ -0,0 +1,17 @@
+/**
+ * Маршруты тегов: библиотека тегов чатов (теги конкретного чата — в chats.routes).
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import requirePermission from '../middlewares/permissions';
+import * as tags from '../controllers/tags.controller';
+
+const router = Router();
+
+/**
+ * GET /tags — все теги с числом помеченных чатов.
+ */
+router.get('/', requirePermission('chats:read'), asyncH(tags.list));
+
+export default router;
@@ -0,0 +1,16 @@
+/**
+ * Вебхуки мессенджеров: входящие сообщения гостей приходят сюда напрямую от платформ.
+ */
+import { Router } from 'express';
+
+import asyncH from '../utils/asyncH';
+import * as webhooks from '../controllers/webhooks.controller';
+
+const router = Router();
+
+/**
+ * POST /webhooks/telegram — апдейты Telegram Bot API (setWebhook с secret_token).
+ */
+router.post('/telegram', asyncH(webhooks.telegram));
+
+export default router;
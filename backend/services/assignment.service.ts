@@ -0,0 +1,259 @@
+/**
+ * Назначение чатов операторам: у чата один ответственный (chats.assigned_to) или никого.
+ *
+ * Как устроено:
+ * - Вручную чат назначает руководитель (assign), оператор берёт себе — в том числе перехватывает
+ *   чужой (take) — или освобождает (unassign). Проверка прав — в контроллере.
+ * - Автоназначение: первое входящее в свободный чат отдаётся оператору «на линии» (accounts.is_online)
+ *   по стратегии CHAT_ASSIGN_STRATEGY:
+ *     least_busy (по умолчанию) — у кого меньше назначенных нерешённых чатов, ждущих ответа;
+ *     round_robin — по очереди, кто дольше всех не получал чат;
+ *     off — не назначать.
+ *   При равной нагрузке least_busy тоже выбирает того, кто дольше ждёт. Выбор идёт под advisory-блокировкой,
+ *   чтобы два одновременных входящих не ушли одному оператору «вне очереди».
+ * - Назначить можно только активный аккаунт с правом messages:send.
+ * - «На линии» — отметка is_online и действующий сеанс: выход и отзыв последнего сеанса снимают
+ *   отметку (goOfflineWithoutSessions), а аккаунт, чьи сеансы истекли, на линии не считается.
+ */
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+import { hasPermission, ROLES } from '../utils/permissions';
+import type { ChatRecord } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+export type AssignStrategy = 'least_busy' | 'round_robin' | 'off';
+
+const STRATEGIES: readonly AssignStrategy[] = ['least_busy', 'round_robin', 'off'];
+
+/** Ключ pg_advisory_xact_lock для выбора оператора. */
+const ASSIGN_LOCK_KEY = 'chat_assignment';
+
+/** Роли, которым можно назначать чаты: отвечать гостям может только роль с messages:send. */
+const ASSIGNABLE_ROLES: string[] = ROLES.filter((role) => hasPermission(role, 'messages:send'));
+
+export interface AssignedChat extends ChatRecord {
+  assigned_to: string | null;
+  assigned_at: string | Date | null;
+  /** Имя ответственного (или email, если имя не заполнено). */
+  assignee_name: string | null;
+}
+
+export interface Assignee {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: string;
+  is_online: boolean;
+  /** Назначенные нерешённые чаты, ждущие ответа (нагрузка для least_busy). */
+  open_chats: number;
+}
+
+export type AssignResult =
+  | { status: 200; before: AssignedChat; after: AssignedChat }
+  | { status: 400 | 404; error: string };
+
+export const assignStrategy = (): AssignStrategy => {
+  const value = String(process.env.CHAT_ASSIGN_STRATEGY ?? '').trim().toLowerCase();
+  return (STRATEGIES as readonly string[]).includes(value) ? (value as AssignStrategy) : 'least_busy';
+};
+
+/**
+ * Оператор на линии: отметка is_online и хотя бы один неотозванный и неистёкший сеанс.
+ * account — алиас таблицы accounts в запросе.
+ */
+const onlineSql = (account: string): string => `
+  (
+    ${account}.is_online AND EXISTS (
+      SELECT 1 FROM sessions s
+      WHERE s.account_id = ${account}.id AND s.revoked_at IS NULL AND s.expires_at > NOW()
+    )
+  )
+`;
+
+/**
+ * Нагрузка оператора: его нерешённые чаты, где последнее сообщение — от гостя.
+ * accountRef — SQL-выражение с id аккаунта.
+ */
+const openChatsSql = (accountRef: string): string => `
+  (
+    SELECT COUNT(*)::int
+    FROM chats ac
+    WHERE ac.assigned_to = ${accountRef}
+      AND ac.status <> 'resolved'
+      AND (
+        SELECT m.from_me IS NOT TRUE
+        FROM messages m
+        WHERE m.chat_id = ac.chat_id
+        ORDER BY m.date DESC NULLS LAST, m.id DESC
+        LIMIT 1
+      )
+  )
+`;
+
+const ASSIGNED_CHAT_SQL = `
+  SELECT
+    c.chat_id, c.username, c.first_name, c.last_name, c.platform,
+    c.assigned_to, c.assigned_at,
+    COALESCE(a.full_name, a.email) AS assignee_name
+  FROM chats c
+  LEFT JOIN accounts a ON a.id = c.assigned_to
+  WHERE c.chat_id = $1
+`;
+
+export async function findAssignedChat(
+  chatId: number,
+  client: Pool | PoolClient = db,
+): Promise<AssignedChat | null> {
+  const { rows } = await client.query<AssignedChat>(ASSIGNED_CHAT_SQL, [chatId]);
+  return rows[0] ?? null;
+}
+
+/** Можно ли назначить чат аккаунту: активен и роль отвечает гостям. */
+async function isAssignable(accountId: string): Promise<boolean> {
+  const { rows } = await db.query<{ id: string }>(
+    'SELECT id FROM accounts WHERE id = $1 AND is_active IS NOT FALSE AND role = ANY($2)',
+    [accountId, ASSIGNABLE_ROLES],
+  );
+  return rows.length > 0;
+}
+
+async function setAssignee(client: Pool | PoolClient, chatId: number, accountId: string | null): Promise<void> {
+  await client.query(
+    `
+      UPDATE chats
+      SET assigned_to = $2::uuid,
+          assigned_at = CASE WHEN $2::uuid IS NULL THEN NULL ELSE NOW() END
+      WHERE chat_id = $1
+    `,
+    [chatId, accountId],
+  );
+  if (accountId) {
+    await client.query('UPDATE accounts SET last_assigned_at = NOW() WHERE id = $1', [accountId]);
+  }
+}
+
+/**
+ * Назначает чат аккаунту (null — освобождает). Возвращает строки до и после — для аудита и SSE.
+ */
+export async function assignChat(chatId: number, accountId: string | null): Promise<AssignResult> {
+  const before = await findAssignedChat(chatId);
+  if (!before) {
+    return { status: 404, error: 'Not found' };
+  }
+  if (accountId && !(await isAssignable(accountId))) {
+    return { status: 400, error: 'Account cannot be assigned to chats' };
+  }
+
+  await setAssignee(db, chatId, accountId);
+  const after = await findAssignedChat(chatId);
+  if (!after) {
+    return { status: 404, error: 'Not found' };
+  }
+  return { status: 200, before, after };
+}
+
+/**
+ * Автоназначение свободного чата оператору «на линии». Возвращает обновлённый чат или null,
+ * если чат уже занят, стратегия off или на линии никого нет.
+ */
+export async function autoAssignChat(chatId: number): Promise<AssignedChat | null> {
+  const strategy = assignStrategy();
+  if (strategy === 'off') {
+    return null;
+  }
+
+  const order =
+    strategy === 'least_busy'
+      ? `${openChatsSql('a.id')} ASC, a.last_assigned_at ASC NULLS FIRST, a.id`
+      : 'a.last_assigned_at ASC NULLS FIRST, a.id';
+
+  const client = await db.connect();
+  let assigned = false;
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [ASSIGN_LOCK_KEY]);
+
+    const { rows: chatRows } = await client.query<{ assigned_to: string | null }>(
+      'SELECT assigned_to FROM chats WHERE chat_id = $1 FOR UPDATE',
+      [chatId],
+    );
+    if (chatRows[0] && !chatRows[0].assigned_to) {
+      const { rows: candidates } = await client.query<{ id: string }>(
+        `
+          SELECT a.id
+          FROM accounts a
+          WHERE ${onlineSql('a')} AND a.is_active IS NOT FALSE AND a.role = ANY($1)
+          ORDER BY ${order}
+          LIMIT 1
+        `,
+        [ASSIGNABLE_ROLES],
+      );
+      if (candidates[0]) {
+        await setAssignee(client, chatId, candidates[0].id);
+        assigned = true;
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return assigned ? findAssignedChat(chatId) : null;
+}
+
+/**
+ * autoAssignChat для путей приёма сообщений: сбой автоназначения логируется и не мешает
+ * сохранить входящее. null — чат не назначен.
+ */
+export async function tryAutoAssignChat(chatId: number): Promise<AssignedChat | null> {
+  try {
+    return await autoAssignChat(chatId);
+  } catch (error) {
+    console.error('Auto-assign failed:', error);
+    return null;
+  }
+}
+
+/** Аккаунты, которым можно назначать чаты, со статусом «на линии» и текущей нагрузкой. */
+export async function listAssignees(): Promise<Assignee[]> {
+  const { rows } = await db.query<Assignee>(
+    `
+      SELECT a.id, a.email, a.full_name, a.role, ${onlineSql('a')} AS is_online,
+             ${openChatsSql('a.id')} AS open_chats
+      FROM accounts a
+      WHERE a.is_active IS NOT FALSE AND a.role = ANY($1)
+      ORDER BY is_online DESC, COALESCE(a.full_name, a.email)
+    `,
+    [ASSIGNABLE_ROLES],
+  );
+  return rows;
+}
+
+/** Ставит или снимает отметку «на линии». Возвращает новое значение; null — аккаунта нет. */
+export async function setOnline(accountId: string, online: boolean): Promise<boolean | null> {
+  const { rows } = await db.query<{ is_online: boolean }>(
+    'UPDATE accounts SET is_online = $2 WHERE id = $1 RETURNING is_online',
+    [accountId, online],
+  );
+  return rows[0]?.is_online ?? null;
+}
+
+/**
+ * Снимает отметку «на линии», если у аккаунта не осталось действующих сеансов
+ * (выход, отзыв сеансов, сброс пароля) — иначе чаты назначались бы тому, кого нет.
+ */
+export async function goOfflineWithoutSessions(accountId: string): Promise<void> {
+  await db.query(
+    `
+      UPDATE accounts a SET is_online = FALSE
+      WHERE a.id = $1 AND a.is_online AND NOT ${onlineSql('a')}
+    `,
+    [accountId],
+  );
+}
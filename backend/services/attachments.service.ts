@@ -0,0 +1,307 @@
+/**
+ * Вложения сообщений: загрузки оператора, вложения входящих сообщений и выдача содержимого.
+ *
+ * Как устроено:
+ * - Оператор сначала загружает файл (POST /api/attachments) — появляется строка без message_id;
+ *   при отправке сообщения она привязывается к нему. Неотправленные загрузки старше суток удаляются.
+ * - Тип вложения определяется по MIME из белого списка ниже, размер ограничен ATTACHMENT_MAX_BYTES.
+ * - Входящие вложения хранятся ссылкой канала (source_ref) и скачиваются адаптером при первом
+ *   просмотре; дальше отдаются из хранилища (services/storage).
+ */
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { Readable } from 'stream';
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+import { getChannelAdapter, type ChannelAdapter, type SendOptions, type SentMessage } from './channels';
+import { getFileStorage } from './storage';
+import type { AttachmentKind, AttachmentRecord } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+/** Максимальный размер загружаемого файла, байт (по умолчанию 20 МБ — лимит Bot API на отправку файлов). */
+export const ATTACHMENT_MAX_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 20 * 1024 * 1024;
+
+/** Сколько часов хранится загрузка, которую так и не отправили. */
+const UNSENT_TTL_HOURS = 24;
+
+/**
+ * Разрешённые для загрузки типы. Голосовым считается только OGG/Opus — этот формат принимают
+ * и Telegram sendVoice, и голосовые VK; остальное аудио уходит документом.
+ */
+const UPLOAD_KINDS: Record<string, AttachmentKind> = {
+  'image/jpeg': 'photo',
+  'image/png': 'photo',
+  'image/webp': 'photo',
+  'image/gif': 'document',
+  'audio/ogg': 'voice',
+  'audio/opus': 'voice',
+  'audio/mpeg': 'document',
+  'audio/mp4': 'document',
+  'application/pdf': 'document',
+  'text/plain': 'document',
+  'text/csv': 'document',
+  'application/zip': 'document',
+  'application/msword': 'document',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'document',
+  'application/vnd.ms-excel': 'document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'document',
+};
+
+export const ALLOWED_UPLOAD_TYPES = Object.keys(UPLOAD_KINDS);
+
+const ATTACHMENT_COLUMNS = 'id, message_id, kind, file_name, mime_type, size_bytes, created_at';
+
+/** Вложение входящего сообщения, как его разобрал адаптер приёма. */
+export interface InboundAttachment {
+  kind: AttachmentKind;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number | null;
+  /** Telegram file_id или прямой URL файла во VK. */
+  sourceRef: string;
+}
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+interface AttachmentRow extends AttachmentRecord {
+  storage_key: string | null;
+  source_ref: string | null;
+  platform: string | null;
+  uploaded_by: string | null;
+}
+
+/** Тип вложения для загрузки; null — MIME не разрешён. */
+export const uploadKind = (mimeType: string): AttachmentKind | null =>
+  UPLOAD_KINDS[mimeType.toLowerCase().split(';')[0].trim()] ?? null;
+
+const storageKey = (fileName: string): string => {
+  const now = new Date();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+  const ext = path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, '').slice(0, 10);
+  return `${now.getUTCFullYear()}/${month}/${randomUUID()}${ext}`;
+};
+
+/** Убирает из имени каталоги и управляющие символы. */
+const safeFileName = (name: string): string =>
+  path.basename(name).replace(/[\u0000-\u001f"\\]/g, '_').slice(0, 200) || 'file';
+
+const toRecord = ({
+  storage_key: _key,
+  source_ref: _ref,
+  platform: _platform,
+  uploaded_by: _uploadedBy,
+  ...record
+}: AttachmentRow) => record as AttachmentRecord;
+
+/** Удаляет загрузки, которые так и не отправили. Ошибка не мешает новой загрузке. */
+async function pruneUnsent(): Promise<void> {
+  try {
+    const { rows } = await db.query<{ storage_key: string | null }>(
+      `
+      DELETE FROM message_attachments
+      WHERE message_id IS NULL AND created_at < NOW() - make_interval(hours => $1)
+      RETURNING storage_key
+      `,
+      [UNSENT_TTL_HOURS],
+    );
+    const storage = getFileStorage();
+    await Promise.all(rows.filter((row) => row.storage_key).map((row) => storage.remove(row.storage_key as string)));
+  } catch (error) {
+    console.warn('[attachments] cleanup failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Сохраняет загрузку оператора в хранилище. Тип и размер проверяет вызывающий код (uploadKind, multer).
+ */
+export async function createUpload(
+  file: UploadedFile,
+  kind: AttachmentKind,
+  uploadedBy: string | null,
+): Promise<AttachmentRecord> {
+  await pruneUnsent();
+
+  const fileName = safeFileName(file.originalname);
+  const key = storageKey(fileName);
+  const storage = getFileStorage();
+  await storage.put(key, file.buffer);
+
+  try {
+    const { rows } = await db.query<AttachmentRecord>(
+      `
+      INSERT INTO message_attachments (kind, file_name, mime_type, size_bytes, storage_key, uploaded_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING ${ATTACHMENT_COLUMNS}
+      `,
+      [kind, fileName, file.mimetype, file.size, key, uploadedBy],
+    );
+    return rows[0];
+  } catch (error) {
+    await storage.remove(key);
+    throw error;
+  }
+}
+
+async function findAttachment(id: number): Promise<AttachmentRow | null> {
+  const { rows } = await db.query<AttachmentRow>(
+    `
+    SELECT a.id, a.message_id, a.kind, a.file_name, a.mime_type, a.size_bytes, a.created_at,
+           a.storage_key, a.source_ref, a.uploaded_by, c.platform
+    FROM message_attachments a
+    LEFT JOIN messages m ON m.id = a.message_id
+    LEFT JOIN chats c ON c.chat_id = m.chat_id
+    WHERE a.id = $1
+    `,
+    [id],
+  );
+  return rows[0] ?? null;
+}
+
+/** Скачивает входящее вложение из канала в хранилище. */
+async function fetchFromChannel(row: AttachmentRow): Promise<string> {
+  const adapter = getChannelAdapter(row.platform);
+  if (!adapter || !row.source_ref) {
+    throw new Error(`Attachment ${row.id} has no source to download from`);
+  }
+  const file = await adapter.fetchFile(row.source_ref);
+  const key = storageKey(row.file_name);
+  await getFileStorage().put(key, file.data);
+  await db.query('UPDATE message_attachments SET storage_key = $2, size_bytes = $3 WHERE id = $1', [
+    row.id,
+    key,
+    file.data.length,
+  ]);
+  return key;
+}
+
+/**
+ * Вложение и поток его содержимого; null — вложения нет.
+ */
+export async function openAttachment(id: number): Promise<{ attachment: AttachmentRecord; stream: Readable } | null> {
+  const row = await findAttachment(id);
+  if (!row) {
+    return null;
+  }
+  const key = row.storage_key ?? (await fetchFromChannel(row));
+  return { attachment: toRecord(row), stream: await getFileStorage().read(key) };
+}
+
+/**
+ * Загрузка оператора accountId, ещё не привязанная к сообщению; null — нет, уже отправлена
+ * или загружена другим аккаунтом (чужой файл по id отправить нельзя).
+ */
+export async function findUnsentUpload(id: number, accountId: string | null): Promise<AttachmentRow | null> {
+  const row = await findAttachment(id);
+  return row && row.message_id === null && row.storage_key && accountId && row.uploaded_by === accountId
+    ? row
+    : null;
+}
+
+/**
+ * Отправляет загрузку в канал: фото, документ или голосовое (если канал не умеет голосовые — документом).
+ * caption — текст оператора, его длину проверяет вызывающий код (capabilities.maxCaptionLength).
+ */
+export async function sendUpload(
+  adapter: ChannelAdapter,
+  chatId: number,
+  upload: AttachmentRow,
+  caption: string,
+  options?: SendOptions,
+): Promise<SentMessage> {
+  const data = await getFileStorage().readBuffer(upload.storage_key as string);
+  const media = { data, mimeType: upload.mime_type, fileName: upload.file_name, caption };
+
+  if (upload.kind === 'photo' && adapter.capabilities.photo) {
+    return adapter.sendPhoto(chatId, media, options);
+  }
+  if (upload.kind === 'voice' && adapter.capabilities.voice) {
+    return adapter.sendVoice(chatId, media, options);
+  }
+  return adapter.sendDocument(chatId, media, options);
+}
+
+/** Загрузка оператора, привязанная к сообщению (для повторной отправки); null — сообщение без файла. */
+export async function findMessageUpload(messageId: number): Promise<AttachmentRow | null> {
+  const { rows } = await db.query<{ id: number }>(
+    'SELECT id FROM message_attachments WHERE message_id = $1 AND storage_key IS NOT NULL ORDER BY id LIMIT 1',
+    [messageId],
+  );
+  return rows[0] ? findAttachment(rows[0].id) : null;
+}
+
+/**
+ * Привязывает загрузку к исходящему сообщению (ещё до отправки — сообщение сохраняется как pending).
+ * Условие повторяет findUnsentUpload прямо в UPDATE: при двойной отправке или отправке того же id
+ * другим оператором строку привязывает только первый запрос, остальные получают пустой массив.
+ */
+export async function linkUpload(
+  client: PoolClient,
+  uploadId: number,
+  messageId: number,
+  accountId: string,
+): Promise<AttachmentRecord[]> {
+  const { rows } = await client.query<AttachmentRecord>(
+    `
+    UPDATE message_attachments SET message_id = $2
+    WHERE id = $1 AND message_id IS NULL AND storage_key IS NOT NULL AND uploaded_by = $3
+    RETURNING ${ATTACHMENT_COLUMNS}
+    `,
+    [uploadId, messageId, accountId],
+  );
+  return rows;
+}
+
+/** Сохраняет вложения входящего сообщения (только ссылки канала, без скачивания). */
+export async function insertInboundAttachments(
+  client: PoolClient,
+  messageId: number,
+  attachments: InboundAttachment[],
+): Promise<AttachmentRecord[]> {
+  const saved: AttachmentRecord[] = [];
+  for (const attachment of attachments) {
+    const { rows } = await client.query<AttachmentRecord>(
+      `
+      INSERT INTO message_attachments (message_id, kind, file_name, mime_type, size_bytes, source_ref)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING ${ATTACHMENT_COLUMNS}
+      `,
+      [
+        messageId,
+        attachment.kind,
+        safeFileName(attachment.fileName),
+        attachment.mimeType,
+        attachment.sizeBytes,
+        attachment.sourceRef,
+      ],
+    );
+    saved.push(rows[0]);
+  }
+  return saved;
+}
+
+/** Добавляет к сообщениям их вложения (одним запросом на всю страницу истории). */
+export async function withAttachments<T extends { id: number }>(
+  messages: T[],
+): Promise<Array<T & { attachments: AttachmentRecord[] }>> {
+  if (messages.length === 0) {
+    return [];
+  }
+  const { rows } = await db.query<AttachmentRecord>(
+    `SELECT ${ATTACHMENT_COLUMNS} FROM message_attachments WHERE message_id = ANY($1::int[]) ORDER BY id`,
+    [messages.map((message) => message.id)],
+  );
+  const byMessage = new Map<number, AttachmentRecord[]>();
+  for (const row of rows) {
+    const list = byMessage.get(row.message_id as number) ?? [];
+    list.push(row);
+    byMessage.set(row.message_id as number, list);
+  }
+  return messages.map((message) => ({ ...message, attachments: byMessage.get(message.id) ?? [] }));
+}
@@ -0,0 +1,164 @@
+/**
+ * Журнал аудита: кто, когда и с какого IP изменил данные (чаты, сообщения, заказы, брони, рассылки).
+ *
+ * Как устроено:
+ * - Контроллер после успешной мутации вызывает recordAudit с «до» и «после».
+ *   Для update в журнал попадают только изменившиеся поля, для create/delete — запись целиком.
+ * - Запись в журнал не должна ломать саму операцию: ошибка логируется, но не пробрасывается.
+ */
+import type { Request } from 'express';
+import type { Pool } from 'pg';
+
+import pool from '../db';
+
+const db = pool as unknown as Pool;
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'send'] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITIES = [
+  'chat',
+  'message',
+  'order',
+  'reservation',
+  'broadcast',
+  'canned_response',
+  'chat_note',
+  'customer',
+] as const;
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditEntry {
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string | number | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface AuditRecord {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity: AuditEntity;
+  entity_id: string | null;
+  before: Snapshot | null;
+  after: Snapshot | null;
+  ip: string | null;
+  created_at: Date | string;
+}
+
+export interface AuditFilters {
+  entity?: AuditEntity;
+  entityId?: string;
+  action?: AuditAction;
+  actor?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+type AuditRequest = Pick<Request, 'user' | 'ip' | 'socket'>;
+
+/** Даты сравниваем по значению: pg отдаёт новые объекты Date на каждый запрос. */
+const comparable = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Оставляет в «до» и «после» только различающиеся поля. null — изменений нет.
+ */
+export const diffSnapshots = (
+  before: object,
+  after: object,
+): { before: Snapshot; after: Snapshot } | null => {
+  const prev = before as Snapshot;
+  const next = after as Snapshot;
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (JSON.stringify(comparable(prev[key])) !== JSON.stringify(comparable(next[key]))) {
+      changedBefore[key] = prev[key] ?? null;
+      changedAfter[key] = next[key] ?? null;
+    }
+  }
+
+  return Object.keys(changedAfter).length ? { before: changedBefore, after: changedAfter } : null;
+};
+
+/**
+ * Пишет запись аудита. Актор — из req.user (для публичных вебхуков — null, то есть «система»).
+ */
+export async function recordAudit(req: AuditRequest, entry: AuditEntry): Promise<void> {
+  let before = entry.before ?? null;
+  let after = entry.after ?? null;
+  if (entry.action === 'update' && before && after) {
+    const diff = diffSnapshots(before, after);
+    if (!diff) {
+      return;
+    }
+    ({ before, after } = diff);
+  }
+
+  try {
+    await db.query(
+      `
+      INSERT INTO audit_log (actor_id, actor_email, action, entity, entity_id, before, after, ip)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `,
+      [
+        req.user?.id ?? null,
+        req.user?.email ?? null,
+        entry.action,
+        entry.entity,
+        entry.entityId === undefined || entry.entityId === null ? null : String(entry.entityId),
+        before ? JSON.stringify(before) : null,
+        after ? JSON.stringify(after) : null,
+        req.ip ?? req.socket?.remoteAddress ?? null,
+      ],
+    );
+  } catch (error) {
+    console.error('[audit] failed to record', entry.action, entry.entity, entry.entityId, error);
+  }
+}
+
+/**
+ * Записи журнала с фильтрами, новые сверху.
+ */
+export async function listAudit(filters: AuditFilters): Promise<{ items: AuditRecord[]; total: number }> {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  const add = (clause: (placeholder: string) => string, value: unknown): void => {
+    params.push(value);
+    where.push(clause(`$${params.length}`));
+  };
+
+  if (filters.entity) add((p) => `entity = ${p}`, filters.entity);
+  if (filters.entityId) add((p) => `entity_id = ${p}`, filters.entityId);
+  if (filters.action) add((p) => `action = ${p}`, filters.action);
+  if (filters.actor) add((p) => `actor_email ILIKE ${p}`, `%${filters.actor}%`);
+  if (filters.from) add((p) => `created_at >= ${p}`, filters.from);
+  if (filters.to) add((p) => `created_at < ${p}`, filters.to);
+
+  const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+  const [{ rows: countRows }, { rows }] = await Promise.all([
+    db.query<{ total: number }>(`SELECT COUNT(*)::int AS total FROM audit_log ${whereSql}`, params),
+    db.query<AuditRecord>(
+      `
+      SELECT id, actor_id, actor_email, action, entity, entity_id, before, after, ip, created_at
+      FROM audit_log
+      ${whereSql}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+      [...params, filters.limit, filters.offset],
+    ),
+  ]);
+
+  return { items: rows, total: countRows[0]?.total ?? 0 };
+}
@@ -3,29 +3,7 @@
 
 const pool = require('../db');
 const { normalizePlatform, variantsFor } = require('../utils/platform');
-
-// Node 18+ имеет глобальный fetch. Проверяем и подсказываем, если окружение старое.
-const fetch = globalThis.fetch;
-if (!fetch) {
-  throw new Error(
-    'Global fetch is not available. Use Node 18+ or polyfill (e.g., node-fetch).',
-  );
-}
-
-// Подгружаем локальные адаптеры, если они есть.
-// Они позволяют отправлять через локальные функции; иначе падаем на REST API.
-let tg = {};
-let vk = {};
-try {
-  tg = require('./telegram.service');
-} catch {
-  /* noop */
-}
-try {
-  vk = require('./vk.service');
-} catch {
-  /* noop */
-}
+const { getChannelAdapter } = require('./channels');
 
 // Мягкий троттлинг, чтобы не словить лимиты.
 const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
@@ -68,8 +46,9 @@ const buildLogText = ({ title, text, imageUrl }) => {
 
 /**
  * УПРОЩЁННАЯ ВЫБОРКА ПОЛУЧАТЕЛЕЙ.
- * Ожидаем таблицу chats(chat_id, platform, ...).
- * Здесь применяем только фильтр по платформе и limit. Остальные фильтры — в планах.
+ * Ожидаем таблицу chats(chat_id, external_chat_id, platform, ...): адресат в канале — external_chat_id.
+ * Здесь применяем фильтр по платформе, сегмент по тегам (filters.tags — id тегов, чат подходит,
+ * если помечен хотя бы одним) и limit. Остальные фильтры — в планах.
  */
 async function selectRecipients({ filters, platforms, limit }) {
   const params = [];
@@ -86,8 +65,18 @@ async function selectRecipients({ filters, platforms, limit }) {
     where.push(`LOWER(platform) = ANY($${params.length})`);
   }
 
+  const tagIds = (Array.isArray(filters?.tags) ? filters.tags : [])
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+  if (tagIds.length) {
+    params.push(tagIds);
+    where.push(
+      `EXISTS (SELECT 1 FROM chat_tags ct WHERE ct.chat_id = chats.chat_id AND ct.tag_id = ANY($${params.length}::int[]))`,
+    );
+  }
+
   let sql = `
-    SELECT chat_id, platform
+    SELECT chat_id, external_chat_id, platform
     FROM chats
     ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
     ORDER BY chat_id DESC
@@ -101,99 +90,26 @@ async function selectRecipients({ filters, platforms, limit }) {
   return rows;
 }
 
-/** Отправка в Telegram (через локальный адаптер или напрямую Bot API) */
-async function sendTelegram(chatId, { title, text, imageUrl }) {
-  if (tg?.sendMessageOrPhoto) {
-    const message = buildMessage(title, text);
-    return tg.sendMessageOrPhoto(chatId, {
-      text: message,
-      imageUrl,
-      parse_mode: 'HTML',
-    });
-  }
-  if (tg?.sendMessage) {
-    const message = buildMessage(title, text);
-    return tg.sendMessage(chatId, message, { parse_mode: 'HTML' });
-  }
-
-  const token =
-    process.env.TELEGRAM_BOT_TOKEN ||
-    process.env.TG_BOT_TOKEN ||
-    process.env.BOT_TOKEN ||
-    process.env.TG_TOKEN;
-
-  if (!token) throw new Error('TG_BOT_TOKEN is not set');
-
-  const message = buildMessage(title, text);
-
-  if (imageUrl) {
-    const r = await fetch(`https://api.telegram.org/bot${token}/sendPhoto`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        chat_id: chatId,
-        photo: imageUrl,
-        caption: message,
-        parse_mode: 'HTML',
-      }),
-    });
-    const j = await r.json();
-    if (!j.ok) throw new Error(j.description || 'tg sendPhoto failed');
-    return j;
-  }
-
-  const r = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text: message,
-      parse_mode: 'HTML',
-    }),
-  });
-  const j = await r.json();
-  if (!j.ok) throw new Error(j.description || 'tg sendMessage failed');
-  return j;
-}
-
-/** Отправка во VK (через локальный адаптер или напрямую messages.send) */
-async function sendVK(userId, { title, text, imageUrl }) {
-  const message = (title ? `${title}\n\n` : '') + (text || '');
-
-  if (vk?.sendMessageSimple) {
-    return vk.sendMessageSimple(userId, { text: message, imageUrl });
-  }
-  if (vk?.sendMessage) {
-    return vk.sendMessage(userId, message);
-  }
-
-  const token = process.env.VK_GROUP_TOKEN;
-  const groupId = process.env.VK_GROUP_ID;
-  if (!token || !groupId) throw new Error('VK credentials not set');
-
-  const url = 'https://api.vk.com/method/messages.send?v=5.199';
-  const params = new URLSearchParams({
-    access_token: token,
-    random_id: Math.floor(Math.random() * 1e12).toString(),
-    user_id: String(userId),
-    message,
-    group_id: String(groupId),
-  });
-
-  const r = await fetch(url, { method: 'POST', body: params });
-  const j = await r.json();
-  if (j.error) throw new Error(j.error.error_msg || 'vk send failed');
-  return j;
-}
-
 /**
- * Отправляет сообщение одному получателю в зависимости от платформы.
+ * Отправляет сообщение одному получателю через адаптер его платформы.
+ * Платформам с HTML-разметкой заголовок уходит жирным; картинка — фото с подписью,
+ * а если канал фото не умеет — ссылкой в тексте.
  */
-async function sendOne(recipient, payload) {
-  const plat = normalizePlatform(recipient.platform); // 'telegram' → 'tg', 'vk' → 'vk'
-  if (plat === 'tg') return sendTelegram(recipient.chat_id, payload);
-  if (plat === 'vk') return sendVK(recipient.chat_id, payload);
-  throw new Error(`Unsupported platform: ${recipient.platform}`);
+async function sendOne(recipient, { title, text, imageUrl }) {
+  const adapter = getChannelAdapter(recipient.platform);
+  if (!adapter) throw new Error(`Unsupported platform: ${recipient.platform}`);
+
+  const { html, photo } = adapter.capabilities;
+  const message = html
+    ? buildMessage(title, text)
+    : [title, text].map((s) => (s || '').trim()).filter(Boolean).join('\n\n');
+  const chatId = Number(recipient.external_chat_id);
+
+  if (imageUrl && photo) {
+    return adapter.sendPhoto(chatId, { url: imageUrl, caption: message }, { html });
+  }
+  const body = imageUrl ? [message, imageUrl].filter(Boolean).join('\n\n') : message;
+  return adapter.sendText(chatId, body, { html });
 }
 
 /**
@@ -245,7 +161,7 @@ async function runBroadcast({
   if (mode === 'selected' && Array.isArray(recipientIds) && recipientIds.length) {
     const { rows } = await pool.query(
       `
-        SELECT chat_id, platform
+        SELECT chat_id, external_chat_id, platform
         FROM chats
         WHERE chat_id::text = ANY($1::text[])
       `,
@@ -285,15 +201,16 @@ async function runBroadcast({
   // Простая поштучная отправка с паузой (минимизируем риски лимитов)
   for (const r of recipients) {
     try {
-      await sendOne(r, payload);
+      const sent = await sendOne(r, payload);
 
-      // Пишем в БД, чтобы сообщение появилось в админ-чате
+      // Пишем в БД, чтобы сообщение появилось в админ-чате (эхо VK по тому же ID уже не продублируется)
       await pool.query(
         `
-          INSERT INTO messages (chat_id, from_me, text, date)
-          VALUES ($1, $2, $3, NOW())
+          INSERT INTO messages (chat_id, from_me, text, date, external_id)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (chat_id, external_id) WHERE external_id IS NOT NULL DO NOTHING
         `,
-        [r.chat_id, true, buildLogText(payload)],
+        [r.chat_id, true, buildLogText(payload), sent.date, sent.messageId],
       );
 
       result.sent += 1;
@@ -0,0 +1,229 @@
+/**
+ * Шаблоны ответов операторов (canned_responses): типовые ответы про меню, зоны доставки, часы работы.
+ *
+ * Как устроено:
+ * - У шаблона есть shortcut — по нему оператор находит шаблон командой «/» в окне чата.
+ *   Shortcut хранится в нижнем регистре: латиница, кириллица, цифры, «_» и «-».
+ * - В тексте допускаются переменные {first_name}, {last_order_total} и т. п. (TEMPLATE_VARIABLES).
+ *   renderCannedResponse подставляет их из карточки чата, последнего заказа гостя и аккаунта оператора.
+ *   Заказ связываем с чатом по username (orders.tg_username), как и везде в админке.
+ * - Неизвестные переменные остаются в тексте как есть, а известные, но пустые (нет заказа, нет имени)
+ *   возвращаются в missing — оператор допишет их руками.
+ */
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import type { ChatRecord } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+export const SHORTCUT_RE = /^[a-zа-яё0-9_-]{1,32}$/;
+export const TITLE_MAX_LENGTH = 120;
+export const BODY_MAX_LENGTH = 4000;
+export const CATEGORY_MAX_LENGTH = 60;
+
+export const TEMPLATE_VARIABLES = [
+  'first_name',
+  'last_name',
+  'full_name',
+  'username',
+  'operator_name',
+  'last_order_total',
+  'last_order_date',
+  'last_order_address',
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export interface CannedResponse {
+  id: number;
+  shortcut: string;
+  title: string;
+  body: string;
+  category: string | null;
+  created_by: string | null;
+  created_at: string | Date;
+  updated_at: string | Date;
+}
+
+export interface CannedResponseInput {
+  shortcut: string;
+  title: string;
+  body: string;
+  category: string | null;
+}
+
+export interface CannedResponseFilters {
+  /** Подстрока в shortcut, названии или тексте. */
+  q?: string;
+  category?: string;
+}
+
+export interface RenderedResponse {
+  text: string;
+  /** Известные переменные, для которых не нашлось значения. */
+  missing: TemplateVariable[];
+}
+
+export type RenderResult = { status: 200; rendered: RenderedResponse } | { status: 404; error: string };
+
+interface LastOrder {
+  total: number | null;
+  created_on: string | null;
+  address: string | null;
+}
+
+const COLUMNS = 'id, shortcut, title, body, category, created_by, created_at, updated_at';
+
+const VARIABLE_RE = /\{([a-z_]+)\}/g;
+
+export const isTemplateVariable = (value: string): value is TemplateVariable =>
+  (TEMPLATE_VARIABLES as readonly string[]).includes(value);
+
+export async function listCannedResponses(filters: CannedResponseFilters = {}): Promise<CannedResponse[]> {
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+  if (filters.q) {
+    params.push(`%${filters.q}%`);
+    conditions.push(`(shortcut ILIKE $${params.length} OR title ILIKE $${params.length} OR body ILIKE $${params.length})`);
+  }
+  if (filters.category) {
+    params.push(filters.category);
+    conditions.push(`category = $${params.length}`);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { rows } = await db.query<CannedResponse>(
+    `SELECT ${COLUMNS} FROM canned_responses ${where} ORDER BY category NULLS LAST, shortcut`,
+    params,
+  );
+  return rows;
+}
+
+export async function findCannedResponse(id: number): Promise<CannedResponse | null> {
+  const { rows } = await db.query<CannedResponse>(`SELECT ${COLUMNS} FROM canned_responses WHERE id = $1`, [id]);
+  return rows[0] ?? null;
+}
+
+/** Создаёт шаблон. Занятый shortcut — ошибка уникальности PostgreSQL (23505), её разбирает контроллер. */
+export async function createCannedResponse(
+  input: CannedResponseInput,
+  createdBy: string | null,
+): Promise<CannedResponse> {
+  const { rows } = await db.query<CannedResponse>(
+    `
+      INSERT INTO canned_responses (shortcut, title, body, category, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${COLUMNS}
+    `,
+    [input.shortcut, input.title, input.body, input.category, createdBy],
+  );
+  return rows[0];
+}
+
+export async function updateCannedResponse(id: number, input: CannedResponseInput): Promise<CannedResponse | null> {
+  const { rows } = await db.query<CannedResponse>(
+    `
+      UPDATE canned_responses
+      SET shortcut = $2, title = $3, body = $4, category = $5, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${COLUMNS}
+    `,
+    [id, input.shortcut, input.title, input.body, input.category],
+  );
+  return rows[0] ?? null;
+}
+
+export async function deleteCannedResponse(id: number): Promise<CannedResponse | null> {
+  const { rows } = await db.query<CannedResponse>(
+    `DELETE FROM canned_responses WHERE id = $1 RETURNING ${COLUMNS}`,
+    [id],
+  );
+  return rows[0] ?? null;
+}
+
+/** Последний заказ гостя: orders.tg_username пишется то с «@», то без. */
+async function findLastOrder(username: string): Promise<LastOrder | null> {
+  const { rows } = await db.query<LastOrder>(
+    `
+      SELECT total, to_char(created_at, 'DD.MM.YYYY') AS created_on, address
+      FROM orders
+      WHERE lower(ltrim(tg_username, '@')) = lower(ltrim($1, '@'))
+      ORDER BY created_at DESC NULLS LAST, id DESC
+      LIMIT 1
+    `,
+    [username],
+  );
+  return rows[0] ?? null;
+}
+
+async function findOperatorName(accountId: string): Promise<string | null> {
+  const { rows } = await db.query<{ name: string | null }>(
+    'SELECT COALESCE(full_name, email) AS name FROM accounts WHERE id = $1',
+    [accountId],
+  );
+  return rows[0]?.name ?? null;
+}
+
+const clean = (value: string | null | undefined): string | null => value?.trim() || null;
+
+/** Подставляет значения в текст шаблона. Пустые значения отдаются в missing, переменная остаётся в тексте. */
+export function fillTemplate(
+  body: string,
+  values: Partial<Record<TemplateVariable, string | null>>,
+): RenderedResponse {
+  const missing = new Set<TemplateVariable>();
+  const text = body.replace(VARIABLE_RE, (match, name: string) => {
+    if (!isTemplateVariable(name)) return match;
+    const value = values[name];
+    if (value == null || value === '') {
+      missing.add(name);
+      return match;
+    }
+    return value;
+  });
+  return { text, missing: [...missing] };
+}
+
+/**
+ * Готовит текст шаблона для конкретного чата. Заказ и имя оператора запрашиваем,
+ * только если шаблон их использует.
+ */
+export async function renderCannedResponse(
+  id: number,
+  chatId: number,
+  operatorId: string | null,
+): Promise<RenderResult> {
+  const template = await findCannedResponse(id);
+  if (!template) {
+    return { status: 404, error: 'Canned response not found' };
+  }
+  const { rows } = await db.query<ChatRecord>(
+    'SELECT chat_id, username, first_name, last_name, platform FROM chats WHERE chat_id = $1',
+    [chatId],
+  );
+  const chat = rows[0];
+  if (!chat) {
+    return { status: 404, error: 'Chat not found' };
+  }
+
+  const uses = (name: TemplateVariable) => template.body.includes(`{${name}}`);
+  const order =
+    chat.username && (uses('last_order_total') || uses('last_order_date') || uses('last_order_address'))
+      ? await findLastOrder(chat.username)
+      : null;
+  const operatorName = operatorId && uses('operator_name') ? await findOperatorName(operatorId) : null;
+
+  const firstName = clean(chat.first_name);
+  const lastName = clean(chat.last_name);
+  const rendered = fillTemplate(template.body, {
+    first_name: firstName,
+    last_name: lastName,
+    full_name: [firstName, lastName].filter(Boolean).join(' ') || null,
+    username: clean(chat.username),
+    operator_name: clean(operatorName),
+    last_order_total: order?.total != null ? `${order.total.toLocaleString('ru-RU')} ₽` : null,
+    last_order_date: order?.created_on ?? null,
+    last_order_address: clean(order?.address),
+  });
+  return { status: 200, rendered };
+}
@@ -0,0 +1,162 @@
+/**
+ * In-memory адаптер для тестов и локальной отладки: ничего не отправляет, а запоминает.
+ * Подключается через setChannelAdapter('tg', createFakeAdapter('telegram')).
+ */
+import {
+  ChannelError,
+  type ChannelAdapter,
+  type ChannelCapabilities,
+  type DownloadedFile,
+  type MediaInput,
+  type SentMessage,
+} from './types';
+
+export interface FakeMessage {
+  chatId: number;
+  messageId: number;
+  kind: 'text' | 'photo' | 'document' | 'voice';
+  text: string;
+  url: string | null;
+  fileName: string | null;
+  html: boolean;
+  date: Date;
+  editedAt: Date | null;
+  deleted: boolean;
+}
+
+export interface FakeChannelAdapter extends ChannelAdapter {
+  /** Все «отправленные» сообщения в порядке отправки. */
+  readonly messages: FakeMessage[];
+  /** Файлы для fetchFile по source_ref. */
+  readonly files: Map<string, DownloadedFile>;
+  /** Следующий вызов любого метода завершится этой ошибкой (проверка обработки отказов). */
+  failNext(error?: Error): void;
+  reset(): void;
+}
+
+const FULL_CAPABILITIES: ChannelCapabilities = {
+  html: true,
+  photo: true,
+  document: true,
+  voice: true,
+  edit: true,
+  delete: true,
+  maxTextLength: 4096,
+  maxCaptionLength: 1024,
+};
+
+export function createFakeAdapter(
+  platform = 'fake',
+  capabilities: Partial<ChannelCapabilities> = {},
+): FakeChannelAdapter {
+  const messages: FakeMessage[] = [];
+  const files = new Map<string, DownloadedFile>();
+  const caps: ChannelCapabilities = { ...FULL_CAPABILITIES, ...capabilities };
+  let nextId = 1;
+  let pendingError: Error | null = null;
+
+  const guard = (capability?: keyof ChannelCapabilities) => {
+    if (pendingError) {
+      const error = pendingError;
+      pendingError = null;
+      throw error;
+    }
+    if (capability && !caps[capability]) {
+      throw new ChannelError(platform, `${capability} is not supported`);
+    }
+  };
+
+  const record = (
+    chatId: number,
+    kind: FakeMessage['kind'],
+    text: string,
+    media: MediaInput | null,
+    html = false,
+  ): SentMessage => {
+    if (text.length > (kind === 'text' ? caps.maxTextLength : caps.maxCaptionLength)) {
+      throw new ChannelError(platform, 'message is too long');
+    }
+    const message: FakeMessage = {
+      chatId,
+      messageId: nextId++,
+      kind,
+      text,
+      url: media?.url ?? null,
+      fileName: media?.fileName ?? null,
+      html: html && caps.html,
+      date: new Date(),
+      editedAt: null,
+      deleted: false,
+    };
+    messages.push(message);
+    return { messageId: message.messageId, date: message.date };
+  };
+
+  const find = (chatId: number, messageId: number): FakeMessage => {
+    const message = messages.find((m) => m.chatId === chatId && m.messageId === messageId && !m.deleted);
+    if (!message) {
+      throw new ChannelError(platform, 'message not found');
+    }
+    return message;
+  };
+
+  return {
+    platform,
+    capabilities: caps,
+    messages,
+    files,
+
+    async sendText(chatId, text, options) {
+      guard();
+      return record(chatId, 'text', text, null, options?.html);
+    },
+
+    async sendPhoto(chatId, photo, options) {
+      guard('photo');
+      return record(chatId, 'photo', photo.caption ?? '', photo, options?.html);
+    },
+
+    async sendDocument(chatId, document, options) {
+      guard('document');
+      return record(chatId, 'document', document.caption ?? '', document, options?.html);
+    },
+
+    async sendVoice(chatId, voice, options) {
+      guard('voice');
+      return record(chatId, 'voice', voice.caption ?? '', voice, options?.html);
+    },
+
+    async editText(chatId, messageId, text, options) {
+      guard('edit');
+      const message = find(chatId, messageId);
+      message.text = text;
+      message.html = Boolean(options?.html) && caps.html;
+      message.editedAt = new Date();
+    },
+
+    async deleteMessage(chatId, messageId) {
+      guard('delete');
+      find(chatId, messageId).deleted = true;
+    },
+
+    async fetchFile(sourceRef) {
+      guard();
+      const file = files.get(sourceRef);
+      if (!file) {
+        throw new ChannelError(platform, 'file not found');
+      }
+      return file;
+    },
+
+    failNext(error = new ChannelError(platform, 'fake failure')) {
+      pendingError = error;
+    },
+
+    reset() {
+      messages.length = 0;
+      files.clear();
+      nextId = 1;
+      pendingError = null;
+    },
+  };
+}
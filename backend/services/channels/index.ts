@@ -0,0 +1,38 @@
+/**
+ * Реестр адаптеров каналов: по коду платформы из chats.platform возвращает ChannelAdapter.
+ * Коды нормализуются (telegram → tg, вк → vk), поэтому подходят любые варианты из БД.
+ */
+import { normalizePlatform } from '../../utils/platform';
+import { telegramAdapter } from './telegram.adapter';
+import { vkAdapter } from './vk.adapter';
+import type { ChannelAdapter } from './types';
+
+export * from './types';
+export { createFakeAdapter, type FakeChannelAdapter, type FakeMessage } from './fake.adapter';
+
+const adapters = new Map<string, ChannelAdapter>([
+  ['tg', telegramAdapter],
+  ['vk', vkAdapter],
+]);
+
+/** Адаптер платформы; null — платформа не поддерживается. */
+export function getChannelAdapter(platform: unknown): ChannelAdapter | null {
+  return adapters.get(normalizePlatform(platform)) ?? null;
+}
+
+/**
+ * Подменяет адаптер платформы (например, на createFakeAdapter в тестах).
+ * Возвращает функцию, которая восстанавливает прежний адаптер.
+ */
+export function setChannelAdapter(platform: string, adapter: ChannelAdapter): () => void {
+  const key = normalizePlatform(platform);
+  const previous = adapters.get(key);
+  adapters.set(key, adapter);
+  return () => {
+    if (previous) {
+      adapters.set(key, previous);
+    } else {
+      adapters.delete(key);
+    }
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Адаптер Telegram Bot API. Вложение по URL Telegram скачивает сам; файл из хранилища
+ * (MediaInput.data) уходит multipart-запросом.
+ */
+import { telegramApiUrl, telegramBotToken, telegramFileUrl } from '../../config/platforms';
+import type { TelegramApiResponse, TelegramMessage } from '../../types/telegram';
+import {
+  ChannelError,
+  downloadFile,
+  fileNameFromUrl,
+  mediaBlob,
+  type ChannelAdapter,
+  type MediaInput,
+  type SendOptions,
+  type SentMessage,
+} from './types';
+
+const PLATFORM = 'telegram';
+
+const requireToken = (): string => {
+  const token = telegramBotToken();
+  if (!token) {
+    throw new ChannelError(PLATFORM, 'TELEGRAM_BOT_TOKEN is not set');
+  }
+  return token;
+};
+
+async function call<T>(method: string, body: Record<string, unknown> | FormData): Promise<T> {
+  const isForm = body instanceof FormData;
+  const res = await fetch(telegramApiUrl(requireToken(), method), {
+    method: 'POST',
+    headers: isForm ? undefined : { 'Content-Type': 'application/json' },
+    body: isForm ? body : JSON.stringify(body),
+  });
+  const data = (await res.json()) as TelegramApiResponse<T>;
+  if (!data.ok || data.result === undefined) {
+    throw new ChannelError(PLATFORM, data.description || `${method} failed`, data.error_code ?? null);
+  }
+  return data.result;
+}
+
+const parseMode = (options?: SendOptions) => (options?.html ? 'HTML' : undefined);
+
+const sentMessage = (message: TelegramMessage): SentMessage => ({
+  messageId: message.message_id,
+  date: new Date(message.date * 1000),
+});
+
+/**
+ * sendPhoto / sendDocument / sendVoice: по URL — JSON, с данными — multipart с файлом в поле field.
+ */
+async function sendMedia(
+  method: string,
+  field: 'photo' | 'document' | 'voice',
+  chatId: number,
+  media: MediaInput,
+  options?: SendOptions,
+): Promise<SentMessage> {
+  const params = { chat_id: chatId, caption: media.caption || undefined, parse_mode: parseMode(options) };
+
+  if (!media.data) {
+    return sentMessage(await call<TelegramMessage>(method, { ...params, [field]: media.url }));
+  }
+
+  const form = new FormData();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      form.append(key, String(value));
+    }
+  }
+  form.append(field, await mediaBlob(PLATFORM, media), media.fileName || fileNameFromUrl(media.url, field));
+  return sentMessage(await call<TelegramMessage>(method, form));
+}
+
+export const telegramAdapter: ChannelAdapter = {
+  platform: PLATFORM,
+  capabilities: {
+    html: true,
+    photo: true,
+    document: true,
+    voice: true,
+    edit: true,
+    delete: true,
+    maxTextLength: 4096,
+    maxCaptionLength: 1024,
+  },
+
+  async sendText(chatId, text, options) {
+    const message = await call<TelegramMessage>('sendMessage', {
+      chat_id: chatId,
+      text,
+      parse_mode: parseMode(options),
+      disable_web_page_preview: true,
+    });
+    return sentMessage(message);
+  },
+
+  sendPhoto(chatId, photo, options) {
+    return sendMedia('sendPhoto', 'photo', chatId, photo, options);
+  },
+
+  sendDocument(chatId, document, options) {
+    return sendMedia('sendDocument', 'document', chatId, document, options);
+  },
+
+  sendVoice(chatId, voice, options) {
+    return sendMedia('sendVoice', 'voice', chatId, voice, options);
+  },
+
+  async editText(chatId, messageId, text, options) {
+    await call<unknown>('editMessageText', {
+      chat_id: chatId,
+      message_id: messageId,
+      text,
+      parse_mode: parseMode(options),
+      disable_web_page_preview: true,
+    });
+  },
+
+  async deleteMessage(chatId, messageId) {
+    await call<boolean>('deleteMessage', { chat_id: chatId, message_id: messageId });
+  },
+
+  /** source_ref — file_id: getFile даёт путь, файл отдаётся с `${TELEGRAM_API_URL}/file/bot<token>/<path>`. */
+  async fetchFile(fileId) {
+    const file = await call<{ file_path?: string }>('getFile', { file_id: fileId });
+    if (!file.file_path) {
+      throw new ChannelError(PLATFORM, 'File is not available for download');
+    }
+    return downloadFile(PLATFORM, telegramFileUrl(requireToken(), file.file_path));
+  },
+};
@@ -0,0 +1,113 @@
+/**
+ * Общий контракт отправки в мессенджеры. Операторские ответы и рассылки работают только
+ * через ChannelAdapter и не знают деталей Bot API или VK API.
+ */
+
+/** Что платформа умеет. Вызывающий код проверяет флаги, прежде чем звать необязательные операции. */
+export interface ChannelCapabilities {
+  /** Текст можно размечать HTML (<b>, <i>, <a>). Иначе отправляется как есть. */
+  html: boolean;
+  photo: boolean;
+  document: boolean;
+  /** Голосовое сообщение (OGG/Opus). */
+  voice: boolean;
+  edit: boolean;
+  delete: boolean;
+  /** Максимальная длина текста одного сообщения. */
+  maxTextLength: number;
+  /** Максимальная длина подписи к вложению. */
+  maxCaptionLength: number;
+}
+
+export interface SendOptions {
+  /** Текст или подпись размечены HTML (учитывается, только если capabilities.html). */
+  html?: boolean;
+}
+
+/**
+ * Вложение: содержимое файла (data) или публичный URL, который платформа скачает сама
+ * (или адаптер скачает и загрузит за неё).
+ */
+export interface MediaInput {
+  url?: string;
+  data?: Buffer;
+  mimeType?: string;
+  caption?: string;
+  /** Имя файла; по умолчанию — последний сегмент URL. */
+  fileName?: string;
+}
+
+/** Файл, скачанный из канала по ссылке из входящего сообщения. */
+export interface DownloadedFile {
+  data: Buffer;
+  mimeType: string | null;
+}
+
+export interface SentMessage {
+  /** ID сообщения в канале (messages.external_id); null — платформа его не вернула. */
+  messageId: number | null;
+  date: Date;
+}
+
+export interface ChannelAdapter {
+  /** Код платформы, как в chats.platform. */
+  readonly platform: string;
+  readonly capabilities: ChannelCapabilities;
+  sendText(chatId: number, text: string, options?: SendOptions): Promise<SentMessage>;
+  sendPhoto(chatId: number, photo: MediaInput, options?: SendOptions): Promise<SentMessage>;
+  sendDocument(chatId: number, document: MediaInput, options?: SendOptions): Promise<SentMessage>;
+  sendVoice(chatId: number, voice: MediaInput, options?: SendOptions): Promise<SentMessage>;
+  editText(chatId: number, messageId: number, text: string, options?: SendOptions): Promise<void>;
+  deleteMessage(chatId: number, messageId: number): Promise<void>;
+  /** Скачивает файл входящего вложения по source_ref (Telegram file_id, URL во VK). */
+  fetchFile(sourceRef: string): Promise<DownloadedFile>;
+}
+
+/** Отказ платформы или отсутствие настроек. code — код ошибки API, если он есть. */
+export class ChannelError extends Error {
+  constructor(
+    readonly platform: string,
+    message: string,
+    readonly code: number | null = null,
+  ) {
+    super(message);
+    this.name = 'ChannelError';
+  }
+}
+
+/** Имя файла из URL — для документов без явного fileName. */
+export const fileNameFromUrl = (url: string | undefined, fallback: string): string => {
+  if (!url) {
+    return fallback;
+  }
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+    return name || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/** Содержимое вложения как Blob для multipart-загрузки: переданные данные или файл по URL. */
+export async function mediaBlob(platform: string, media: MediaInput): Promise<Blob> {
+  if (media.data) {
+    return new Blob([new Uint8Array(media.data)], { type: media.mimeType || 'application/octet-stream' });
+  }
+  if (!media.url) {
+    throw new ChannelError(platform, 'Attachment has neither data nor url');
+  }
+  const res = await fetch(media.url);
+  if (!res.ok) {
+    throw new ChannelError(platform, `Cannot download ${media.url}: HTTP ${res.status}`);
+  }
+  return res.blob();
+}
+
+/** Скачивает файл по прямой ссылке. */
+export async function downloadFile(platform: string, url: string): Promise<DownloadedFile> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new ChannelError(platform, `Cannot download file: HTTP ${res.status}`);
+  }
+  return { data: Buffer.from(await res.arrayBuffer()), mimeType: res.headers.get('content-type') };
+}
@@ -0,0 +1,161 @@
+/**
+ * Адаптер VK API для сообщества (messages.*).
+ * VK не принимает вложения ссылкой: файл (из хранилища или скачанный по URL) загружается на сервер VK
+ * (getMessagesUploadServer → upload → save), в сообщение уходит строка attachment.
+ * Входящие вложения VK отдаёт прямыми ссылками — source_ref и есть URL файла.
+ * Разметки нет — текст отправляется как есть.
+ */
+import { VK_API_VERSION, vkApiUrl, vkToken } from '../../config/platforms';
+import type { VkApiResponse } from '../../types/vk';
+import {
+  ChannelError,
+  downloadFile,
+  fileNameFromUrl,
+  mediaBlob,
+  type ChannelAdapter,
+  type MediaInput,
+  type SentMessage,
+} from './types';
+
+const PLATFORM = 'vk';
+
+interface VkUploadServer {
+  upload_url: string;
+}
+
+interface VkSavedFile {
+  id: number;
+  owner_id: number;
+  access_key?: string;
+}
+
+async function call<T>(method: string, params: Record<string, string>): Promise<T> {
+  const token = vkToken();
+  if (!token) {
+    throw new ChannelError(PLATFORM, 'VK_TOKEN is not set');
+  }
+
+  const body = new URLSearchParams({ v: VK_API_VERSION, access_token: token, ...params });
+  const res = await fetch(vkApiUrl(method), { method: 'POST', body });
+  const data = (await res.json()) as VkApiResponse<T>;
+  if (data.error || data.response === undefined) {
+    throw new ChannelError(PLATFORM, data.error?.error_msg || `${method} failed`, data.error?.error_code ?? null);
+  }
+  return data.response;
+}
+
+/** random_id обязателен: по нему VK отсекает повторную отправку того же запроса. */
+const randomId = (): string => String(Math.floor(Math.random() * 2 ** 31));
+
+const attachmentId = (type: 'photo' | 'doc', file: VkSavedFile): string =>
+  `${type}${file.owner_id}_${file.id}${file.access_key ? `_${file.access_key}` : ''}`;
+
+/** Отправляет файл на upload_url VK, возвращает JSON ответа сервера загрузки. */
+async function uploadFile<T>(uploadUrl: string, field: string, media: MediaInput, fallbackName: string): Promise<T> {
+  const form = new FormData();
+  form.append(field, await mediaBlob(PLATFORM, media), media.fileName || fileNameFromUrl(media.url, fallbackName));
+
+  const res = await fetch(uploadUrl, { method: 'POST', body: form });
+  return (await res.json()) as T;
+}
+
+async function uploadPhoto(peerId: number, media: MediaInput): Promise<string> {
+  const { upload_url } = await call<VkUploadServer>('photos.getMessagesUploadServer', { peer_id: String(peerId) });
+  const uploaded = await uploadFile<{ server?: number; photo?: string; hash?: string }>(
+    upload_url,
+    'photo',
+    media,
+    'photo.jpg',
+  );
+  if (!uploaded.photo || uploaded.photo === '[]') {
+    throw new ChannelError(PLATFORM, 'Photo upload failed');
+  }
+  const [photo] = await call<VkSavedFile[]>('photos.saveMessagesPhoto', {
+    server: String(uploaded.server),
+    photo: uploaded.photo,
+    hash: String(uploaded.hash),
+  });
+  return attachmentId('photo', photo);
+}
+
+/** Документ или голосовое (type = audio_message, файл OGG/Opus): в обоих случаях attachment — doc. */
+async function uploadDocument(peerId: number, media: MediaInput, type: 'doc' | 'audio_message'): Promise<string> {
+  const { upload_url } = await call<VkUploadServer>('docs.getMessagesUploadServer', {
+    peer_id: String(peerId),
+    type,
+  });
+  const fallbackName = type === 'doc' ? 'file' : 'voice.ogg';
+  const uploaded = await uploadFile<{ file?: string; error?: string }>(upload_url, 'file', media, fallbackName);
+  if (!uploaded.file) {
+    throw new ChannelError(PLATFORM, uploaded.error || 'Document upload failed');
+  }
+  const saved = await call<{ type: string; doc?: VkSavedFile; audio_message?: VkSavedFile }>('docs.save', {
+    file: uploaded.file,
+    title: media.fileName || fileNameFromUrl(media.url, fallbackName),
+  });
+  const file = saved.doc ?? saved.audio_message;
+  if (!file) {
+    throw new ChannelError(PLATFORM, 'docs.save returned no file');
+  }
+  return attachmentId('doc', file);
+}
+
+async function send(peerId: number, text: string, attachment?: string): Promise<SentMessage> {
+  const messageId = await call<number>('messages.send', {
+    peer_id: String(peerId),
+    random_id: randomId(),
+    message: text,
+    ...(attachment ? { attachment } : {}),
+  });
+  return { messageId, date: new Date() };
+}
+
+export const vkAdapter: ChannelAdapter = {
+  platform: PLATFORM,
+  capabilities: {
+    html: false,
+    photo: true,
+    document: true,
+    voice: true,
+    edit: true,
+    delete: true,
+    maxTextLength: 4096,
+    maxCaptionLength: 4096,
+  },
+
+  sendText(chatId, text) {
+    return send(chatId, text);
+  },
+
+  async sendPhoto(chatId, photo) {
+    return send(chatId, photo.caption ?? '', await uploadPhoto(chatId, photo));
+  },
+
+  async sendDocument(chatId, document) {
+    return send(chatId, document.caption ?? '', await uploadDocument(chatId, document, 'doc'));
+  },
+
+  async sendVoice(chatId, voice) {
+    return send(chatId, voice.caption ?? '', await uploadDocument(chatId, voice, 'audio_message'));
+  },
+
+  async editText(chatId, messageId, text) {
+    await call<number>('messages.edit', {
+      peer_id: String(chatId),
+      message_id: String(messageId),
+      message: text,
+    });
+  },
+
+  async deleteMessage(chatId, messageId) {
+    await call<unknown>('messages.delete', {
+      peer_id: String(chatId),
+      message_ids: String(messageId),
+      delete_for_all: '1',
+    });
+  },
+
+  fetchFile(url) {
+    return downloadFile(PLATFORM, url);
+  },
+};
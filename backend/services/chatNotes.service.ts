@@ -0,0 +1,107 @@
+/**
+ * Внутренние заметки по чату (chat_notes): «аллергия на орехи», «жаловался 12.03» и т. п.
+ *
+ * Заметки хранятся отдельно от messages и никуда не отправляются — их видят только операторы.
+ * У заметки есть автор и время; править её может автор, удалять — автор или руководитель
+ * (проверка прав — в контроллере).
+ */
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import type { ChatRecord } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+export const NOTE_MAX_LENGTH = 2000;
+
+export interface ChatNote {
+  id: number;
+  chat_id: number;
+  author_id: string | null;
+  /** Имя автора (или email); null — аккаунт удалён. */
+  author_name: string | null;
+  body: string;
+  created_at: string | Date;
+  updated_at: string | Date;
+}
+
+export type ChatWithNotesCount = ChatRecord & { notes_count: number };
+
+/** Выборка заметок из CTE или таблицы `source` (алиас n) с именем автора. */
+const notesSql = (source: string): string => `
+  SELECT n.id, n.chat_id, n.author_id, COALESCE(a.full_name, a.email) AS author_name,
+         n.body, n.created_at, n.updated_at
+  FROM ${source} n
+  LEFT JOIN accounts a ON a.id = n.author_id
+`;
+
+/** Заметки чата, новые сверху. */
+export async function listChatNotes(chatId: number): Promise<ChatNote[]> {
+  const { rows } = await db.query<ChatNote>(
+    `${notesSql('chat_notes')} WHERE n.chat_id = $1 ORDER BY n.created_at DESC, n.id DESC`,
+    [chatId],
+  );
+  return rows;
+}
+
+export async function findChatNote(chatId: number, noteId: number): Promise<ChatNote | null> {
+  const { rows } = await db.query<ChatNote>(`${notesSql('chat_notes')} WHERE n.chat_id = $1 AND n.id = $2`, [
+    chatId,
+    noteId,
+  ]);
+  return rows[0] ?? null;
+}
+
+/** Добавляет заметку. null — такого чата нет. */
+export async function createChatNote(
+  chatId: number,
+  authorId: string | null,
+  body: string,
+): Promise<ChatNote | null> {
+  const { rows } = await db.query<ChatNote>(
+    `
+      WITH inserted AS (
+        INSERT INTO chat_notes (chat_id, author_id, body)
+        SELECT chat_id, $2, $3 FROM chats WHERE chat_id = $1
+        RETURNING *
+      )
+      ${notesSql('inserted')}
+    `,
+    [chatId, authorId, body],
+  );
+  return rows[0] ?? null;
+}
+
+export async function updateChatNote(chatId: number, noteId: number, body: string): Promise<ChatNote | null> {
+  const { rows } = await db.query<ChatNote>(
+    `
+      WITH updated AS (
+        UPDATE chat_notes SET body = $3, updated_at = NOW()
+        WHERE chat_id = $1 AND id = $2
+        RETURNING *
+      )
+      ${notesSql('updated')}
+    `,
+    [chatId, noteId, body],
+  );
+  return rows[0] ?? null;
+}
+
+export async function deleteChatNote(chatId: number, noteId: number): Promise<boolean> {
+  const { rowCount } = await db.query('DELETE FROM chat_notes WHERE chat_id = $1 AND id = $2', [chatId, noteId]);
+  return rowCount > 0;
+}
+
+/** Карточка чата со счётчиком заметок — для значка в списке и SSE. null — чата нет. */
+export async function findChatWithNotesCount(chatId: number): Promise<ChatWithNotesCount | null> {
+  const { rows } = await db.query<ChatWithNotesCount>(
+    `
+      SELECT c.chat_id, c.username, c.first_name, c.last_name, c.platform,
+             (SELECT COUNT(*)::int FROM chat_notes n WHERE n.chat_id = c.chat_id) AS notes_count
+      FROM chats c
+      WHERE c.chat_id = $1
+    `,
+    [chatId],
+  );
+  return rows[0] ?? null;
+}
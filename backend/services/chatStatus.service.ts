@@ -0,0 +1,150 @@
+/**
+ * Жизненный цикл переписки (chats.status):
+ * - open — ждёт оператора (новый чат или гость написал снова);
+ * - pending — оператор ждёт ответа гостя или отложил чат;
+ * - resolved — вопрос решён: сохраняются время, причина и кто решил.
+ *
+ * Как устроено:
+ * - Статус меняет оператор (setChatStatus); каждый переход пишется в chat_status_history —
+ *   по ней потом считаются KPI поддержки (время до решения, повторные обращения).
+ * - Новое входящее сообщение гостя возвращает отложенный или решённый чат в open (reopenChat):
+ *   его вызывают приём из каналов (inbound.service) и POST /messages/raw. Поля последнего решения
+ *   при этом не стираются — история переходов остаётся полной.
+ */
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+import type { ChatRecord } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+export const CHAT_STATUSES = ['open', 'pending', 'resolved'] as const;
+
+export type ChatStatus = (typeof CHAT_STATUSES)[number];
+
+export const RESOLUTION_REASON_MAX_LENGTH = 500;
+
+export interface ChatStatusFields {
+  status: ChatStatus;
+  status_changed_at: string | Date;
+  /** Последнее решение: когда, почему и кем (сохраняется и после повторного открытия). */
+  resolved_at: string | Date | null;
+  resolution_reason: string | null;
+  resolved_by: string | null;
+}
+
+export type ChatWithStatus = ChatRecord & ChatStatusFields;
+
+export type ChatStatusResult =
+  | { status: 200; before: ChatWithStatus; after: ChatWithStatus; changed: boolean }
+  | { status: 404; error: string };
+
+export interface StatusChange {
+  reason?: string | null;
+  /** Аккаунт, сменивший статус; null — система. */
+  actorId?: string | null;
+}
+
+const CHAT_WITH_STATUS_COLUMNS =
+  'chat_id, username, first_name, last_name, platform, status, status_changed_at, resolved_at, resolution_reason, resolved_by';
+
+export const isChatStatus = (value: unknown): value is ChatStatus =>
+  (CHAT_STATUSES as readonly unknown[]).includes(value);
+
+export async function findChatWithStatus(
+  chatId: number,
+  client: Pool | PoolClient = db,
+): Promise<ChatWithStatus | null> {
+  const { rows } = await client.query<ChatWithStatus>(
+    `SELECT ${CHAT_WITH_STATUS_COLUMNS} FROM chats WHERE chat_id = $1`,
+    [chatId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Меняет статус чата. Повторная установка того же статуса ничего не меняет (changed: false) —
+ * кроме resolved с новой причиной: она обновляется.
+ */
+export async function setChatStatus(
+  chatId: number,
+  status: ChatStatus,
+  { reason = null, actorId = null }: StatusChange = {},
+): Promise<ChatStatusResult> {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query<ChatWithStatus>(
+      `SELECT ${CHAT_WITH_STATUS_COLUMNS} FROM chats WHERE chat_id = $1 FOR UPDATE`,
+      [chatId],
+    );
+    const before = rows[0];
+    if (!before) {
+      await client.query('ROLLBACK');
+      return { status: 404, error: 'Not found' };
+    }
+    const sameReason = (before.resolution_reason ?? null) === (reason ?? null);
+    if (before.status === status && (status !== 'resolved' || sameReason)) {
+      await client.query('ROLLBACK');
+      return { status: 200, before, after: before, changed: false };
+    }
+
+    const { rows: updated } = await client.query<ChatWithStatus>(
+      `
+        UPDATE chats SET
+          status = $2,
+          status_changed_at = CASE WHEN status = $2 THEN status_changed_at ELSE NOW() END,
+          resolved_at       = CASE WHEN $2 = 'resolved' THEN NOW() ELSE resolved_at END,
+          resolution_reason = CASE WHEN $2 = 'resolved' THEN $3 ELSE resolution_reason END,
+          resolved_by       = CASE WHEN $2 = 'resolved' THEN $4::uuid ELSE resolved_by END
+        WHERE chat_id = $1
+        RETURNING ${CHAT_WITH_STATUS_COLUMNS}
+      `,
+      [chatId, status, reason, actorId],
+    );
+    await client.query(
+      `
+        INSERT INTO chat_status_history (chat_id, from_status, to_status, reason, actor_id)
+        VALUES ($1, $2, $3, $4, $5)
+      `,
+      [chatId, before.status, status, reason, actorId],
+    );
+    await client.query('COMMIT');
+    return { status: 200, before, after: updated[0], changed: true };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Возвращает чат в open после нового входящего от гостя. null — чат и так открыт (или его нет).
+ * Можно вызывать внутри транзакции приёма сообщения, передав её клиента.
+ */
+export async function reopenChat(
+  chatId: number,
+  client: Pool | PoolClient = db,
+): Promise<ChatWithStatus | null> {
+  const { rows } = await client.query<ChatWithStatus>(
+    `
+      WITH prev AS (
+        SELECT chat_id, status FROM chats WHERE chat_id = $1 AND status <> 'open' FOR UPDATE
+      ),
+      reopened AS (
+        UPDATE chats c SET status = 'open', status_changed_at = NOW()
+        FROM prev
+        WHERE c.chat_id = prev.chat_id
+        RETURNING c.*, prev.status AS from_status
+      ),
+      history AS (
+        INSERT INTO chat_status_history (chat_id, from_status, to_status)
+        SELECT chat_id, from_status, 'open' FROM reopened
+      )
+      SELECT ${CHAT_WITH_STATUS_COLUMNS} FROM reopened
+    `,
+    [chatId],
+  );
+  return rows[0] ?? null;
+}
@@ -0,0 +1,524 @@
+/**
+ * Единый профиль гостя (customers): чаты в Telegram и VK, заказы и брони одного человека.
+ *
+ * Как сводятся записи:
+ * - Ключи сопоставления считаются в БД (миграция 0014): customer_phone_key — телефон,
+ *   приведённый к 7XXXXXXXXXX; customer_username_key — username вместе с платформой.
+ * - Связывание идёт при записи (linkCustomer): входящее сообщение или правка чата, создание
+ *   и правка заказа или брони. Чат получает профиль (существующий — по совпадению username,
+ *   иначе новый), заказ и бронь — существующий профиль по телефону или username; затем профиль
+ *   забирает ещё не привязанные заказы, брони и чаты с теми же ключами — и так, пока находятся
+ *   новые. Через телефон из заказа к профилю подтягиваются записи с других платформ.
+ *   Чтение профиля (findChatCustomer, findCustomerProfile) ничего не меняет.
+ * - Записи, созданные до миграции 0014, сопоставляет разовая команда `npm run customers:backfill`
+ *   (backfillCustomers) — по тем же правилам.
+ * - Автоматика трогает только записи без профиля, поэтому ручные исправления (объединение,
+ *   разделение) она не откатывает.
+ */
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+
+const db = pool as unknown as Pool;
+
+/** Ключ pg_advisory_xact_lock: связывание, объединение и разделение профилей идут по одному. */
+const CUSTOMERS_LOCK_KEY = 'customers_linking';
+
+/** Предел кругов поиска новых записей за одно связывание. */
+const MAX_LINK_ROUNDS = 5;
+
+/** Сколько последних заказов отдаётся в профиле. */
+const RECENT_ORDERS_LIMIT = 5;
+
+export interface CustomerChat {
+  chat_id: number;
+  platform: string | null;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export interface CustomerOrder {
+  id: number;
+  order_type: string | null;
+  date: string | null;
+  total: number | null;
+  address: string | null;
+  platform: string | null;
+  created_at: string | Date;
+}
+
+export interface CustomerReservation {
+  id: number;
+  date: string | null;
+  time: string | null;
+  guests: number | null;
+  address: string | null;
+  created_at: string | Date;
+}
+
+export interface CustomerProfile {
+  id: number;
+  display_name: string | null;
+  created_at: string | Date;
+  updated_at: string | Date;
+  /** Платформы, где гость писал или оформлял заказы: telegram / vk. */
+  platforms: string[];
+  /** Нормализованные телефоны из заказов и броней. */
+  phones: string[];
+  chats: CustomerChat[];
+  orders_count: number;
+  total_spent: number;
+  last_order_at: string | Date | null;
+  reservations_count: number;
+  last_reservation: CustomerReservation | null;
+  recent_orders: CustomerOrder[];
+}
+
+/** Записи, которые отделяются в новый профиль. */
+export interface CustomerSplitInput {
+  chatIds: number[];
+  orderIds: number[];
+  reservationIds: number[];
+}
+
+export type CustomerMergeResult =
+  | { status: 200; before: { target: CustomerProfile; source: CustomerProfile }; after: CustomerProfile }
+  | { status: 400 | 404; error: string };
+
+export type CustomerSplitResult =
+  | { status: 200; before: CustomerProfile; source: CustomerProfile; created: CustomerProfile }
+  | { status: 400 | 404; error: string };
+
+type Queryable = Pool | PoolClient;
+
+/** Платформа записи в том же виде, что и в customer_username_key. */
+const platformSql = (column: string): string =>
+  `CASE WHEN lower(${column}) IN ('vk', 'vkontakte') THEN 'vk' ELSE 'telegram' END`;
+
+const PROFILE_SQL = `
+  SELECT
+    c.id, c.display_name, c.created_at, c.updated_at,
+    ARRAY(
+      SELECT DISTINCT ${platformSql('p.platform')}
+      FROM (
+        SELECT platform FROM chats WHERE customer_id = c.id
+        UNION ALL SELECT platform FROM orders WHERE customer_id = c.id
+        UNION ALL SELECT platform FROM reservations WHERE customer_id = c.id
+      ) p
+      WHERE p.platform IS NOT NULL
+      ORDER BY 1
+    ) AS platforms,
+    ARRAY(
+      SELECT DISTINCT customer_phone_key(p.phone)
+      FROM (
+        SELECT phone FROM orders WHERE customer_id = c.id
+        UNION ALL SELECT phone FROM reservations WHERE customer_id = c.id
+      ) p
+      WHERE customer_phone_key(p.phone) IS NOT NULL
+      ORDER BY 1
+    ) AS phones,
+    COALESCE((
+      SELECT json_agg(json_build_object(
+        'chat_id', ch.chat_id, 'platform', ch.platform, 'username', ch.username,
+        'first_name', ch.first_name, 'last_name', ch.last_name
+      ) ORDER BY ch.chat_id)
+      FROM chats ch
+      WHERE ch.customer_id = c.id
+    ), '[]'::json) AS chats,
+    (SELECT COUNT(*)::int FROM orders o WHERE o.customer_id = c.id) AS orders_count,
+    (SELECT COALESCE(SUM(o.total), 0)::int FROM orders o WHERE o.customer_id = c.id) AS total_spent,
+    (SELECT MAX(o.created_at) FROM orders o WHERE o.customer_id = c.id) AS last_order_at,
+    (SELECT COUNT(*)::int FROM reservations r WHERE r.customer_id = c.id) AS reservations_count,
+    (
+      SELECT row_to_json(r)
+      FROM (
+        SELECT id, date, time, guests, address, created_at
+        FROM reservations
+        WHERE customer_id = c.id
+        ORDER BY date DESC NULLS LAST, time DESC NULLS LAST, id DESC
+        LIMIT 1
+      ) r
+    ) AS last_reservation,
+    COALESCE((
+      SELECT json_agg(o)
+      FROM (
+        SELECT id, order_type, date, total, address, platform, created_at
+        FROM orders
+        WHERE customer_id = c.id
+        ORDER BY created_at DESC, id DESC
+        LIMIT ${RECENT_ORDERS_LIMIT}
+      ) o
+    ), '[]'::json) AS recent_orders
+  FROM customers c
+  WHERE c.id = $1
+`;
+
+export async function findCustomerProfile(customerId: number, client: Queryable = db): Promise<CustomerProfile | null> {
+  const { rows } = await client.query<CustomerProfile>(PROFILE_SQL, [customerId]);
+  return rows[0] ?? null;
+}
+
+/** Выполняет fn в транзакции под общей блокировкой профилей. */
+async function withCustomersLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [CUSTOMERS_LOCK_KEY]);
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Привязывает к профилю свободные записи с его телефонами и username. Каждый круг может
+ * принести новые ключи (телефон из только что привязанного заказа), поэтому круги
+ * повторяются, пока что-то находится.
+ */
+async function absorbUnlinked(client: PoolClient, customerId: number): Promise<void> {
+  for (let round = 0; round < MAX_LINK_ROUNDS; round += 1) {
+    const { rows } = await client.query<{ linked: number }>(
+      `
+        WITH keys AS (
+          SELECT customer_phone_key(phone) AS phone_key, customer_username_key(platform, tg_username) AS username_key
+          FROM orders WHERE customer_id = $1
+          UNION
+          SELECT customer_phone_key(phone), customer_username_key(platform, tg_username)
+          FROM reservations WHERE customer_id = $1
+          UNION
+          SELECT NULL, customer_username_key(platform, username)
+          FROM chats WHERE customer_id = $1
+        ),
+        linked_orders AS (
+          UPDATE orders SET customer_id = $1
+          WHERE customer_id IS NULL
+            AND (customer_phone_key(phone) IN (SELECT phone_key FROM keys)
+              OR customer_username_key(platform, tg_username) IN (SELECT username_key FROM keys))
+          RETURNING 1
+        ),
+        linked_reservations AS (
+          UPDATE reservations SET customer_id = $1
+          WHERE customer_id IS NULL
+            AND (customer_phone_key(phone) IN (SELECT phone_key FROM keys)
+              OR customer_username_key(platform, tg_username) IN (SELECT username_key FROM keys))
+          RETURNING 1
+        ),
+        linked_chats AS (
+          UPDATE chats SET customer_id = $1
+          WHERE customer_id IS NULL
+            AND customer_username_key(platform, username) IN (SELECT username_key FROM keys)
+          RETURNING 1
+        )
+        SELECT ((SELECT COUNT(*) FROM linked_orders)
+          + (SELECT COUNT(*) FROM linked_reservations)
+          + (SELECT COUNT(*) FROM linked_chats))::int AS linked
+      `,
+      [customerId],
+    );
+    if (!rows[0]?.linked) {
+      return;
+    }
+  }
+}
+
+/** Заполняет пустое имя профиля: имя из чата, затем из заказов и броней, затем username. */
+async function fillDisplayName(client: PoolClient, customerId: number): Promise<void> {
+  await client.query(
+    `
+      UPDATE customers SET display_name = COALESCE(
+        (SELECT NULLIF(btrim(concat_ws(' ', first_name, last_name)), '')
+         FROM chats WHERE customer_id = $1
+         ORDER BY NULLIF(btrim(concat_ws(' ', first_name, last_name)), '') NULLS LAST, chat_id
+         LIMIT 1),
+        (SELECT NULLIF(btrim(name), '') FROM orders WHERE customer_id = $1
+         ORDER BY NULLIF(btrim(name), '') NULLS LAST, created_at DESC LIMIT 1),
+        (SELECT NULLIF(btrim(name), '') FROM reservations WHERE customer_id = $1
+         ORDER BY NULLIF(btrim(name), '') NULLS LAST, created_at DESC LIMIT 1),
+        (SELECT username FROM chats WHERE customer_id = $1 AND username IS NOT NULL ORDER BY chat_id LIMIT 1)
+      ), updated_at = NOW()
+      WHERE id = $1 AND display_name IS NULL
+    `,
+    [customerId],
+  );
+}
+
+/** Запись, которую автоматика привязывает к профилю: чат, заказ или бронь. */
+export type CustomerRecordKind = 'chat' | 'order' | 'reservation';
+
+/** Таблица записи и SQL-выражения её ключей сопоставления. */
+interface RecordSource {
+  table: string;
+  idColumn: string;
+  phoneKey: string;
+  usernameKey: string;
+}
+
+const RECORD_SOURCES: Record<CustomerRecordKind, RecordSource> = {
+  chat: {
+    table: 'chats',
+    idColumn: 'chat_id',
+    phoneKey: 'NULL::text',
+    usernameKey: 'customer_username_key(platform, username)',
+  },
+  order: {
+    table: 'orders',
+    idColumn: 'id',
+    phoneKey: 'customer_phone_key(phone)',
+    usernameKey: 'customer_username_key(platform, tg_username)',
+  },
+  reservation: {
+    table: 'reservations',
+    idColumn: 'id',
+    phoneKey: 'customer_phone_key(phone)',
+    usernameKey: 'customer_username_key(platform, tg_username)',
+  },
+};
+
+/**
+ * Привязывает запись к профилю и даёт профилю подобрать свободные записи с теми же ключами.
+ * Запись без профиля получает профиль первого клиента с тем же телефоном или username на той же
+ * платформе; если такого нет, новый профиль заводится только для чата — заказ или бронь
+ * останутся свободными, пока их не подберёт профиль чата. У уже привязанной записи профиль
+ * не меняется (ручные исправления не откатываются), но её профиль подбирает новые совпадения.
+ * Возвращает id профиля; null — записи нет или профиль ей не нашёлся.
+ */
+export async function linkCustomer(kind: CustomerRecordKind, recordId: number): Promise<number | null> {
+  const source = RECORD_SOURCES[kind];
+  return withCustomersLock(async (client) => {
+    const { rows: recordRows } = await client.query<{
+      customer_id: number | null;
+      phone_key: string | null;
+      username_key: string | null;
+    }>(
+      `
+        SELECT customer_id, ${source.phoneKey} AS phone_key, ${source.usernameKey} AS username_key
+        FROM ${source.table} WHERE ${source.idColumn} = $1
+        FOR UPDATE
+      `,
+      [recordId],
+    );
+    const record = recordRows[0];
+    if (!record) {
+      return null;
+    }
+
+    let id = record.customer_id;
+    if (id == null && (record.phone_key || record.username_key)) {
+      const { rows } = await client.query<{ customer_id: number }>(
+        `
+          SELECT customer_id FROM (
+            SELECT customer_id FROM chats
+            WHERE customer_id IS NOT NULL AND customer_username_key(platform, username) = $2
+            UNION ALL
+            SELECT customer_id FROM orders
+            WHERE customer_id IS NOT NULL
+              AND (customer_phone_key(phone) = $1 OR customer_username_key(platform, tg_username) = $2)
+            UNION ALL
+            SELECT customer_id FROM reservations
+            WHERE customer_id IS NOT NULL
+              AND (customer_phone_key(phone) = $1 OR customer_username_key(platform, tg_username) = $2)
+          ) m
+          ORDER BY customer_id
+          LIMIT 1
+        `,
+        [record.phone_key, record.username_key],
+      );
+      id = rows[0]?.customer_id ?? null;
+    }
+    if (id == null && kind === 'chat') {
+      const { rows } = await client.query<{ id: number }>('INSERT INTO customers DEFAULT VALUES RETURNING id');
+      id = rows[0].id;
+    }
+    if (id == null) {
+      return null;
+    }
+    if (record.customer_id == null) {
+      await client.query(`UPDATE ${source.table} SET customer_id = $2 WHERE ${source.idColumn} = $1`, [
+        recordId,
+        id,
+      ]);
+    }
+
+    await absorbUnlinked(client, id);
+    await fillDisplayName(client, id);
+    return id;
+  });
+}
+
+/**
+ * linkCustomer для путей записи (приём сообщений, заказы, брони): сбой сопоставления
+ * логируется и не мешает сохранить саму запись.
+ */
+export async function tryLinkCustomer(kind: CustomerRecordKind, recordId: number): Promise<number | null> {
+  try {
+    return await linkCustomer(kind, recordId);
+  } catch (error) {
+    console.error(`Customer linking failed for ${kind} ${recordId}:`, error);
+    return null;
+  }
+}
+
+/** Итог backfillCustomers: сколько записей каждого вида получили профиль. */
+export type CustomerBackfillResult = Record<CustomerRecordKind, number>;
+
+/** Сколько записей без профиля выбирается за один запрос при backfillCustomers. */
+const BACKFILL_BATCH_SIZE = 500;
+
+async function countUnlinked(source: RecordSource): Promise<number> {
+  const { rows } = await db.query<{ total: number }>(
+    `SELECT COUNT(*)::int AS total FROM ${source.table} WHERE customer_id IS NULL`,
+  );
+  return rows[0]?.total ?? 0;
+}
+
+/**
+ * Разовое сопоставление записей, созданных до появления профилей (или пропущенных из-за сбоя):
+ * прогоняет через linkCustomer все чаты без профиля, затем заказы и брони — по тем же правилам,
+ * что и при записи. Чаты идут первыми: только они заводят новые профили, к которым потом
+ * подбираются заказы и брони. Повторный запуск безопасен — трогаются только записи без профиля.
+ */
+export async function backfillCustomers(): Promise<CustomerBackfillResult> {
+  const kinds: CustomerRecordKind[] = ['chat', 'order', 'reservation'];
+  const before = await Promise.all(kinds.map((kind) => countUnlinked(RECORD_SOURCES[kind])));
+
+  for (const kind of kinds) {
+    const source = RECORD_SOURCES[kind];
+    let cursor: number | null = null;
+    for (;;) {
+      const { rows }: { rows: { id: number }[] } = await db.query<{ id: number }>(
+        `
+          SELECT ${source.idColumn} AS id FROM ${source.table}
+          WHERE customer_id IS NULL AND ($1::bigint IS NULL OR ${source.idColumn} > $1)
+          ORDER BY ${source.idColumn}
+          LIMIT ${BACKFILL_BATCH_SIZE}
+        `,
+        [cursor],
+      );
+      if (!rows.length) {
+        break;
+      }
+      for (const row of rows) {
+        await linkCustomer(kind, Number(row.id));
+      }
+      cursor = Number(rows[rows.length - 1].id);
+    }
+  }
+
+  const after = await Promise.all(kinds.map((kind) => countUnlinked(RECORD_SOURCES[kind])));
+  return {
+    chat: before[0] - after[0],
+    order: before[1] - after[1],
+    reservation: before[2] - after[2],
+  };
+}
+
+/**
+ * Профиль гостя чата — только чтение. chat: false — такого чата нет; profile: null — чат
+ * ещё не привязан (привязка идёт при записи: входящее сообщение, правка чата).
+ */
+export async function findChatCustomer(
+  chatId: number,
+): Promise<{ chat: false } | { chat: true; profile: CustomerProfile | null }> {
+  const { rows } = await db.query<{ customer_id: number | null }>('SELECT customer_id FROM chats WHERE chat_id = $1', [
+    chatId,
+  ]);
+  if (!rows[0]) {
+    return { chat: false };
+  }
+  const customerId = rows[0].customer_id;
+  return { chat: true, profile: customerId == null ? null : await findCustomerProfile(customerId) };
+}
+
+/**
+ * Объединяет профиль sourceId в targetId: все чаты, заказы и брони переходят к targetId,
+ * sourceId удаляется. Имя остаётся у targetId (если было).
+ */
+export async function mergeCustomers(targetId: number, sourceId: number): Promise<CustomerMergeResult> {
+  if (targetId === sourceId) {
+    return { status: 400, error: 'Cannot merge a customer into itself' };
+  }
+  return withCustomersLock(async (client): Promise<CustomerMergeResult> => {
+    const target = await findCustomerProfile(targetId, client);
+    const source = await findCustomerProfile(sourceId, client);
+    if (!target || !source) {
+      return { status: 404, error: 'Not found' };
+    }
+
+    await client.query('UPDATE chats SET customer_id = $1 WHERE customer_id = $2', [targetId, sourceId]);
+    await client.query('UPDATE orders SET customer_id = $1 WHERE customer_id = $2', [targetId, sourceId]);
+    await client.query('UPDATE reservations SET customer_id = $1 WHERE customer_id = $2', [targetId, sourceId]);
+    await client.query(
+      `
+        UPDATE customers
+        SET display_name = COALESCE(display_name, $2), updated_at = NOW()
+        WHERE id = $1
+      `,
+      [targetId, source.display_name],
+    );
+    await client.query('DELETE FROM customers WHERE id = $1', [sourceId]);
+
+    const after = (await findCustomerProfile(targetId, client)) ?? target;
+    return { status: 200, before: { target, source }, after };
+  });
+}
+
+/**
+ * Отделяет записи профиля в новый профиль — когда автоматика свела разных людей
+ * (общий телефон семьи, совпавший ник). Все перечисленные записи должны принадлежать профилю.
+ */
+export async function splitCustomer(customerId: number, input: CustomerSplitInput): Promise<CustomerSplitResult> {
+  const chatIds = [...new Set(input.chatIds)];
+  const orderIds = [...new Set(input.orderIds)];
+  const reservationIds = [...new Set(input.reservationIds)];
+
+  return withCustomersLock(async (client): Promise<CustomerSplitResult> => {
+    const before = await findCustomerProfile(customerId, client);
+    if (!before) {
+      return { status: 404, error: 'Not found' };
+    }
+
+    const { rows: ownedRows } = await client.query<{ owned: number }>(
+      `
+        SELECT ((SELECT COUNT(*) FROM chats WHERE customer_id = $1 AND chat_id = ANY($2))
+          + (SELECT COUNT(*) FROM orders WHERE customer_id = $1 AND id = ANY($3))
+          + (SELECT COUNT(*) FROM reservations WHERE customer_id = $1 AND id = ANY($4)))::int AS owned
+      `,
+      [customerId, chatIds, orderIds, reservationIds],
+    );
+    if (ownedRows[0]?.owned !== chatIds.length + orderIds.length + reservationIds.length) {
+      return { status: 400, error: 'All records must belong to the customer' };
+    }
+
+    const { rows } = await client.query<{ id: number }>('INSERT INTO customers DEFAULT VALUES RETURNING id');
+    const createdId = rows[0].id;
+    await client.query('UPDATE chats SET customer_id = $1 WHERE customer_id = $2 AND chat_id = ANY($3)', [
+      createdId,
+      customerId,
+      chatIds,
+    ]);
+    await client.query('UPDATE orders SET customer_id = $1 WHERE customer_id = $2 AND id = ANY($3)', [
+      createdId,
+      customerId,
+      orderIds,
+    ]);
+    await client.query('UPDATE reservations SET customer_id = $1 WHERE customer_id = $2 AND id = ANY($3)', [
+      createdId,
+      customerId,
+      reservationIds,
+    ]);
+    await fillDisplayName(client, createdId);
+
+    const source = (await findCustomerProfile(customerId, client)) ?? before;
+    const created = await findCustomerProfile(createdId, client);
+    if (!created) {
+      throw new Error('Created customer not found');
+    }
+    return { status: 200, before, source, created };
+  });
+}
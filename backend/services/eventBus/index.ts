@@ -0,0 +1,32 @@
+/**
+ * Активная шина событий. EVENT_BUS=postgres — LISTEN/NOTIFY (несколько экземпляров бэкенда
+ * или отдельный воркер npm run ingest), иначе — в памяти процесса.
+ */
+import type { Pool } from 'pg';
+
+import pool from '../../db';
+import { createMemoryBus } from './memory.bus';
+import { createPostgresBus } from './postgres.bus';
+import type { EventBus } from './types';
+
+export type { BusEvent, BusListener, EventBus } from './types';
+
+let bus: EventBus | null = null;
+
+export function getEventBus(): EventBus {
+  if (!bus) {
+    const driver = (process.env.EVENT_BUS ?? '').trim().toLowerCase();
+    bus = driver === 'postgres' ? createPostgresBus(pool as unknown as Pool) : createMemoryBus();
+  }
+  return bus;
+}
+
+/** Подменяет шину (тесты, другой драйвер). */
+export function setEventBus(next: EventBus): void {
+  bus = next;
+}
+
+/** Дожидается отправки опубликованных событий и закрывает соединения шины (при остановке процесса). */
+export async function closeEventBus(): Promise<void> {
+  await bus?.close();
+}
@@ -0,0 +1,31 @@
+/**
+ * Шина в памяти процесса: события видят только SSE-клиенты этого же экземпляра.
+ * Подходит для одного процесса бэкенда (без реплик и без отдельного воркера npm run ingest).
+ */
+import type { BusListener, EventBus } from './types';
+
+export function createMemoryBus(): EventBus {
+  const listeners = new Set<BusListener>();
+  // Стартуем с текущего времени в мс, а не с нуля: после перезапуска id продолжают расти,
+  // и старый Last-Event-ID клиента не совпадёт с id новых событий.
+  let lastId = Date.now();
+
+  return {
+    async publish(topic, data) {
+      lastId += 1;
+      const event = { id: lastId, topic, data };
+      for (const listener of [...listeners]) listener(event);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async close() {
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Шина на Postgres LISTEN/NOTIFY: все экземпляры бэкенда (и воркер npm run ingest) публикуют
+ * в один канал и слушают его, поэтому оператор на реплике A видит сообщение, принятое репликой B.
+ *
+ * - id события — из последовательности event_ids, одинаковый на всех экземплярах:
+ *   клиент с Last-Event-ID может переподключиться к любой реплике. id выдаётся до фиксации,
+ *   поэтому уведомления приходят не обязательно по возрастанию id — порядок задаёт приход
+ *   (он одинаков у всех слушателей), см. replay в utils/events.
+ * - NOTIFY ограничен 8000 байт. Большие данные (строка с длинным текстом, вложения) кладём
+ *   в event_payloads, а в уведомлении отправляем только id события; получатель дочитывает их из таблицы.
+ * - Публикации и разбор уведомлений выполняются строго по очереди — порядок событий сохраняется
+ *   (например, create сообщения не обгонит его update).
+ * - Для LISTEN держим отдельное соединение из пула. После его обрыва переподключаемся с паузой
+ *   от 1 до 30 с и сообщаем подписчикам onGap: пока соединения не было, события могли потеряться.
+ */
+import type { Notification, Pool, PoolClient } from 'pg';
+
+import type { BusEvent, BusListener, EventBus } from './types';
+
+const CHANNEL = 'sse_events';
+
+/** Предел размера data в уведомлении: остаток от 8000 байт NOTIFY — на id и topic. */
+const NOTIFY_DATA_MAX_BYTES = 7000;
+
+/** Сколько хранить большие данные: за это время их успевают дочитать все экземпляры. */
+const PAYLOAD_RETENTION = '1 hour';
+
+const RECONNECT_MIN_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+/** Уведомление: data нет — её нужно прочитать из event_payloads по id. */
+interface NotifyPayload {
+  id: number;
+  topic: string;
+  data?: unknown;
+}
+
+export function createPostgresBus(db: Pool): EventBus {
+  const listeners = new Set<BusListener>();
+  const gapListeners = new Set<() => void>();
+
+  let publishQueue: Promise<void> = Promise.resolve();
+  let receiveQueue: Promise<void> = Promise.resolve();
+
+  let listenClient: PoolClient | null = null;
+  let connecting = false;
+  let closed = false;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = async (topic: string, data: unknown): Promise<void> => {
+    const json = JSON.stringify(data ?? {});
+    if (Buffer.byteLength(json) <= NOTIFY_DATA_MAX_BYTES) {
+      await db.query(
+        `SELECT pg_notify($1, json_build_object('id', nextval('event_ids'), 'topic', $2::text, 'data', $3::json)::text)`,
+        [CHANNEL, topic, json],
+      );
+      return;
+    }
+
+    // Уведомление отправится при фиксации — вместе со строкой, так что получатель её уже увидит
+    await db.query(
+      `
+        WITH e AS (
+          INSERT INTO event_payloads (id, topic, data)
+          VALUES (nextval('event_ids'), $2, $3::jsonb)
+          RETURNING id, topic
+        )
+        SELECT pg_notify($1, json_build_object('id', e.id, 'topic', e.topic)::text) FROM e
+      `,
+      [CHANNEL, topic, json],
+    );
+    await db.query(`DELETE FROM event_payloads WHERE created_at < NOW() - interval '${PAYLOAD_RETENTION}'`);
+  };
+
+  const emit = (event: BusEvent): void => {
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[event-bus] listener failed:', error);
+      }
+    }
+  };
+
+  const receive = async (message: Notification): Promise<void> => {
+    if (message.channel !== CHANNEL || !message.payload) return;
+
+    let payload: NotifyPayload;
+    try {
+      payload = JSON.parse(message.payload) as NotifyPayload;
+    } catch {
+      console.warn('[event-bus] malformed notification:', message.payload.slice(0, 200));
+      return;
+    }
+
+    if (payload.data !== undefined) {
+      emit({ id: Number(payload.id), topic: payload.topic, data: payload.data });
+      return;
+    }
+    const { rows } = await db.query<{ data: unknown }>('SELECT data FROM event_payloads WHERE id = $1', [
+      payload.id,
+    ]);
+    if (!rows[0]) {
+      console.warn(`[event-bus] payload of event ${payload.id} is gone`);
+      return;
+    }
+    emit({ id: Number(payload.id), topic: payload.topic, data: rows[0].data });
+  };
+
+  const onNotification = (message: Notification): void => {
+    receiveQueue = receiveQueue
+      .then(() => receive(message))
+      .catch((error) => console.error('[event-bus] receive failed:', error));
+  };
+
+  const scheduleReconnect = (): void => {
+    if (closed || reconnectTimer) return;
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_MIN_MS * 2 ** attempt);
+    attempt += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      void listen();
+    }, delay);
+  };
+
+  const dropClient = (client: PoolClient, error?: Error): void => {
+    if (listenClient !== client) return;
+    listenClient = null;
+    client.removeListener('notification', onNotification);
+    client.release(error ?? true);
+    scheduleReconnect();
+  };
+
+  async function listen(): Promise<void> {
+    if (closed || listenClient || connecting) return;
+    connecting = true;
+    let client: PoolClient;
+    try {
+      client = await db.connect();
+    } catch (error) {
+      console.error('[event-bus] connect failed:', error instanceof Error ? error.message : error);
+      connecting = false;
+      scheduleReconnect();
+      return;
+    }
+    connecting = false;
+
+    const own = client;
+    listenClient = own;
+    own.on('notification', onNotification);
+    own.on('error', (error: Error) => {
+      console.error('[event-bus] LISTEN connection lost:', error.message);
+      dropClient(own, error);
+    });
+    own.on('end', () => dropClient(own));
+
+    try {
+      await own.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      console.error('[event-bus] LISTEN failed:', error instanceof Error ? error.message : error);
+      dropClient(own, error instanceof Error ? error : undefined);
+      return;
+    }
+
+    // Переподключились после обрыва: всё, что публиковалось в промежутке, до нас не дошло
+    if (attempt > 0) {
+      attempt = 0;
+      for (const onGap of [...gapListeners]) onGap();
+    }
+  }
+
+  return {
+    publish(topic, data) {
+      const sent = publishQueue.then(() => send(topic, data));
+      // Сбой одной публикации не должен останавливать очередь
+      publishQueue = sent.catch(() => undefined);
+      return sent;
+    },
+
+    subscribe(listener, onGap) {
+      listeners.add(listener);
+      if (onGap) gapListeners.add(onGap);
+      void listen();
+      return () => {
+        listeners.delete(listener);
+        if (onGap) gapListeners.delete(onGap);
+      };
+    },
+
+    async close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      await publishQueue;
+      const client = listenClient;
+      listenClient = null;
+      if (client) {
+        client.removeListener('notification', onNotification);
+        await client.query(`UNLISTEN ${CHANNEL}`).catch(() => undefined);
+        client.release();
+      }
+      listeners.clear();
+      gapListeners.clear();
+    },
+  };
+}
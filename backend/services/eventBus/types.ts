@@ -0,0 +1,28 @@
+/**
+ * Шина событий за broadcast() (utils/events): доставляет события всем экземплярам бэкенда,
+ * у которых есть SSE-подписчики. Драйвер выбирается переменной EVENT_BUS (см. index.ts).
+ */
+
+/** Событие шины. id сквозной для всех экземпляров одной шины — это id события SSE. */
+export interface BusEvent {
+  id: number;
+  topic: string;
+  data: unknown;
+}
+
+export type BusListener = (event: BusEvent) => void;
+
+export interface EventBus {
+  /**
+   * Публикует событие. События одного процесса доставляются в порядке публикации;
+   * ошибка публикации (например, БД недоступна) — в отклонённом промисе.
+   */
+  publish(topic: string, data: unknown): Promise<void>;
+  /**
+   * Подписка на события всех экземпляров. onGap — часть событий могла потеряться
+   * (обрыв соединения шины): подписчикам стоит перечитать данные. Возвращает отписку.
+   */
+  subscribe(listener: BusListener, onGap?: () => void): () => void;
+  /** Дожидается отправки опубликованного и освобождает соединения. */
+  close(): Promise<void>;
+}
@@ -0,0 +1,113 @@
+/**
+ * Проверки готовности сервиса (readiness) для оркестратора и мониторинга.
+ *
+ * Как устроено:
+ * - database: пробный запрос с таймаутом (задержка в мс) и счётчики пула соединений;
+ * - migrations: все ли миграции из db/migrations применены;
+ * - telegram / vk: заданы ли токены каналов. Отсутствие токена одного канала — штатная
+ *   конфигурация (not_configured), но без единого канала панели нечем отправлять сообщения.
+ * - Сервис не готов (degraded), если упала база, есть неприменённые миграции или нет ни одного канала.
+ */
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import { getPending } from '../db/migrator';
+import { telegramBotToken, vkToken } from '../config/platforms';
+
+const db = pool as unknown as Pool;
+
+/** Дольше этого пробный запрос не ждём: зависшая база — тоже «не готов». */
+const DB_PROBE_TIMEOUT_MS = Number(process.env.HEALTH_DB_TIMEOUT_MS ?? 2000);
+
+export type ComponentStatus = 'ok' | 'down' | 'not_configured';
+
+export interface DatabaseCheck {
+  status: ComponentStatus;
+  latencyMs: number | null;
+  pool: { total: number; idle: number; waiting: number };
+  error?: string;
+}
+
+export interface MigrationsCheck {
+  status: ComponentStatus;
+  pending: string[];
+  error?: string;
+}
+
+export interface ChannelCheck {
+  status: ComponentStatus;
+}
+
+export interface ReadinessReport {
+  status: 'ok' | 'degraded';
+  uptimeSec: number;
+  checks: {
+    database: DatabaseCheck;
+    migrations: MigrationsCheck;
+    telegram: ChannelCheck;
+    vk: ChannelCheck;
+  };
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`timed out after ${ms} ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error: unknown) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+async function checkDatabase(): Promise<DatabaseCheck> {
+  const poolStats = () => ({ total: db.totalCount, idle: db.idleCount, waiting: db.waitingCount });
+  const startedAt = process.hrtime.bigint();
+  try {
+    await withTimeout(db.query('SELECT 1'), DB_PROBE_TIMEOUT_MS);
+    const latencyMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+    return { status: 'ok', latencyMs: Math.round(latencyMs * 10) / 10, pool: poolStats() };
+  } catch (error) {
+    return { status: 'down', latencyMs: null, pool: poolStats(), error: errorMessage(error) };
+  }
+}
+
+async function checkMigrations(): Promise<MigrationsCheck> {
+  try {
+    const pending = await withTimeout(getPending(), DB_PROBE_TIMEOUT_MS);
+    return {
+      status: pending.length ? 'down' : 'ok',
+      pending: pending.map((migration) => `${migration.version}_${migration.name}`),
+    };
+  } catch (error) {
+    return { status: 'down', pending: [], error: errorMessage(error) };
+  }
+}
+
+const checkChannel = (token: string | undefined): ChannelCheck => ({
+  status: token?.trim() ? 'ok' : 'not_configured',
+});
+
+/**
+ * Собирает отчёт по всем компонентам. Проверки базы и миграций идут параллельно.
+ */
+export async function getReadiness(): Promise<ReadinessReport> {
+  const [database, migrations] = await Promise.all([checkDatabase(), checkMigrations()]);
+  const telegram = checkChannel(telegramBotToken());
+  const vk = checkChannel(vkToken());
+
+  const hasChannel = telegram.status === 'ok' || vk.status === 'ok';
+  const ready = database.status === 'ok' && migrations.status === 'ok' && hasChannel;
+
+  return {
+    status: ready ? 'ok' : 'degraded',
+    uptimeSec: Math.round(process.uptime()),
+    checks: { database, migrations, telegram, vk },
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Приём входящих сообщений гостей из внешних каналов (не зависит от конкретного мессенджера).
+ * Сюда же попадают ответы сообщества, написанные в интерфейсе самой платформы (fromMe).
+ *
+ * Как устроено:
+ * - Адаптер канала (например, telegramUpdates.service) разбирает апдейт в InboundMessage.
+ * - Здесь в одной транзакции обновляется карточка чата и сохраняется сообщение; SSE-события
+ *   `chats` и `messages` уходят только после COMMIT.
+ * - Чат ищется по (platform, external_chat_id): id в разных каналах могут совпасть, поэтому
+ *   внутренний chat_id нового чата берётся из id в канале, только если он свободен (миграция 0016).
+ *   Платформа сравнивается через chat_platform_key (миграция 0018): старые чаты с 'tg' или без
+ *   платформы — те же, что входящие 'telegram'.
+ * - Повторная доставка того же сообщения (каналы ретраят при ошибках и таймаутах) распознаётся
+ *   по (chat_id, external_id) и ничего не меняет.
+ * - Правка сообщения обновляет текст и edited_at; если исходное сообщение мы пропустили,
+ *   правка сохраняется как новое.
+ * - Вложения сохраняются ссылками канала вместе с новым сообщением (см. attachments.service).
+ * - Новое входящее от гостя возвращает отложенный или решённый чат в open (chatStatus.service) —
+ *   в той же транзакции, а в свободном чате запускает автоназначение оператора (assignment.service);
+ *   сбой автоназначения не мешает приёму сообщения.
+ * - Новый чат, чат без профиля гостя или с изменившимся профилем в канале сопоставляется
+ *   с профилем гостя (customers.service) после COMMIT; сбой сопоставления тоже не мешает приёму.
+ */
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+import { broadcast } from '../utils/events';
+import { tryAutoAssignChat } from './assignment.service';
+import { insertInboundAttachments, withAttachments, type InboundAttachment } from './attachments.service';
+import { reopenChat, type ChatWithStatus } from './chatStatus.service';
+import { tryLinkCustomer } from './customers.service';
+import type { ChatRecord, MessageRecord } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+const MESSAGE_COLUMNS = 'id, chat_id, from_me, text, date, external_id, edited_at, status, error';
+
+export interface InboundProfile {
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export interface InboundMessage {
+  platform: string;
+  /** ID чата в канале (chat.id Telegram, peer_id VK) — не chat_id панели. */
+  externalChatId: number;
+  /** ID сообщения в канале: по нему распознаются дубли и правки. */
+  externalId: number;
+  /** Ответ сообщества/бота, отправленный не из панели (например, из интерфейса VK). */
+  fromMe: boolean;
+  text: string;
+  date: Date;
+  /** Время правки; null — новое сообщение. */
+  editedAt: Date | null;
+  attachments: InboundAttachment[];
+  profile: InboundProfile;
+}
+
+export type IngestResult = 'created' | 'updated' | 'duplicate';
+
+interface UpsertedChat {
+  chatId: number;
+  /** Строка чата, только если что-то изменилось. */
+  changed: ChatRecord | null;
+  /** У чата уже есть профиль гостя (chats.customer_id). */
+  linked: boolean;
+}
+
+/**
+ * Создаёт чат или обновляет профиль: пустые поля из канала не затирают уже известные.
+ * Новый чат получает chat_id, равный id в канале, если такой chat_id ещё не занят чатом
+ * другой платформы, иначе — из chats_internal_id_seq.
+ */
+async function upsertChat(client: PoolClient, message: InboundMessage): Promise<UpsertedChat> {
+  const { rows } = await client.query<ChatRecord & { linked: boolean }>(
+    `
+    INSERT INTO chats (chat_id, external_chat_id, username, first_name, last_name, platform)
+    VALUES (
+      CASE WHEN EXISTS (SELECT 1 FROM chats WHERE chat_id = $1) THEN nextval('chats_internal_id_seq') ELSE $1 END,
+      $1, $2, $3, $4, $5
+    )
+    ON CONFLICT (chat_platform_key(platform), external_chat_id) DO UPDATE SET
+      username   = COALESCE(EXCLUDED.username, chats.username),
+      first_name = COALESCE(EXCLUDED.first_name, chats.first_name),
+      last_name  = COALESCE(EXCLUDED.last_name, chats.last_name)
+    WHERE (chats.username, chats.first_name, chats.last_name)
+      IS DISTINCT FROM (
+        COALESCE(EXCLUDED.username, chats.username),
+        COALESCE(EXCLUDED.first_name, chats.first_name),
+        COALESCE(EXCLUDED.last_name, chats.last_name)
+      )
+    RETURNING chat_id, username, first_name, last_name, platform, customer_id IS NOT NULL AS linked
+    `,
+    [
+      message.externalChatId,
+      message.profile.username,
+      message.profile.first_name,
+      message.profile.last_name,
+      message.platform,
+    ],
+  );
+  if (rows[0]) {
+    const { linked, ...changed } = rows[0];
+    return { chatId: Number(changed.chat_id), changed, linked };
+  }
+
+  const existing = await client.query<{ chat_id: number; linked: boolean }>(
+    `SELECT chat_id, customer_id IS NOT NULL AS linked FROM chats
+     WHERE chat_platform_key(platform) = chat_platform_key($1) AND external_chat_id = $2`,
+    [message.platform, message.externalChatId],
+  );
+  return { chatId: Number(existing.rows[0].chat_id), changed: null, linked: existing.rows[0].linked };
+}
+
+async function insertMessage(client: PoolClient, chatId: number, message: InboundMessage): Promise<MessageRecord | null> {
+  const { rows } = await client.query<MessageRecord>(
+    `
+    INSERT INTO messages (chat_id, from_me, text, date, external_id, edited_at)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (chat_id, external_id) WHERE external_id IS NOT NULL DO NOTHING
+    RETURNING ${MESSAGE_COLUMNS}
+    `,
+    [chatId, message.fromMe, message.text, message.date, message.externalId, message.editedAt],
+  );
+  const row = rows[0];
+  if (!row) {
+    return null;
+  }
+  return { ...row, attachments: await insertInboundAttachments(client, row.id, message.attachments) };
+}
+
+async function applyEdit(client: PoolClient, chatId: number, message: InboundMessage): Promise<MessageRecord | null> {
+  const { rows } = await client.query<MessageRecord>(
+    `
+    UPDATE messages SET text = $3, edited_at = $4
+    WHERE chat_id = $1 AND external_id = $2
+      AND (edited_at IS NULL OR edited_at < $4)
+    RETURNING ${MESSAGE_COLUMNS}
+    `,
+    [chatId, message.externalId, message.text, message.editedAt],
+  );
+  return rows[0] ?? null;
+}
+
+/** Есть ли уже сообщение с этим external_id (правка пришла повторно или устарела). */
+async function hasMessage(client: PoolClient, chatId: number, message: InboundMessage): Promise<boolean> {
+  const { rows } = await client.query<{ id: number }>(
+    'SELECT id FROM messages WHERE chat_id = $1 AND external_id = $2',
+    [chatId, message.externalId],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Сохраняет входящее сообщение и оповещает клиентов панели.
+ */
+export async function ingestInboundMessage(message: InboundMessage): Promise<IngestResult> {
+  const client = await db.connect();
+  let chatId = 0;
+  let chat: ChatRecord | null = null;
+  let linked = true;
+  let reopened: ChatWithStatus | null = null;
+  let row: MessageRecord | null = null;
+  let result: IngestResult = 'duplicate';
+
+  try {
+    await client.query('BEGIN');
+    ({ chatId, changed: chat, linked } = await upsertChat(client, message));
+
+    if (!message.editedAt) {
+      row = await insertMessage(client, chatId, message);
+      result = row ? 'created' : 'duplicate';
+    } else {
+      row = await applyEdit(client, chatId, message);
+      if (row) {
+        result = 'updated';
+      } else if (!(await hasMessage(client, chatId, message))) {
+        row = await insertMessage(client, chatId, message);
+        result = row ? 'created' : 'duplicate';
+      }
+    }
+    if (result === 'created' && !message.fromMe) {
+      reopened = await reopenChat(chatId, client);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (result === 'updated' && row) {
+    [row] = await withAttachments([row]);
+  }
+  if (chat) {
+    broadcast('chats', { action: 'upsert', row: chat });
+  }
+  if (reopened) {
+    broadcast('chats', { action: 'update', row: reopened });
+  }
+  if (row) {
+    broadcast('messages', { action: result === 'updated' ? 'update' : 'create', row });
+  }
+  if (chat || !linked) {
+    await tryLinkCustomer('chat', chatId);
+  }
+  if (result === 'created' && !message.fromMe) {
+    const assigned = await tryAutoAssignChat(chatId);
+    if (assigned) {
+      broadcast('chats', { action: 'update', row: assigned });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,229 @@
+/**
+ * Приём сообщений long polling'ом — для установок, где нельзя открыть публичный HTTPS-адрес под вебхуки.
+ * Запускается отдельным процессом: `npm run ingest` (см. ingest.ts).
+ *
+ * Как устроено:
+ * - Telegram: getUpdates с долгим ожиданием; апдейты идут в handleTelegramUpdate — тот же путь,
+ *   что у /api/webhooks/telegram. offset сохраняется после каждого обработанного апдейта.
+ * - VK: Bots Long Poll (groups.getLongPollServer + a_check); события идут в handleVkCallback,
+ *   как у /api/integrations/vk/callback, повторы отсекаются по event_id. ts сохраняется после пачки.
+ * - Позиции лежат в ingest_offsets: после перезапуска воркер продолжает с того же места.
+ * - Ошибка сети, API или БД → пауза (1 с, 2 с, … до 1 мин) и повтор с сохранённой позиции.
+ * - Остановка через AbortSignal: текущий запрос прерывается, пауза обрывается, цикл завершается.
+ */
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import { VK_API_VERSION, telegramApiUrl, telegramBotToken, vkApiUrl, vkToken } from '../config/platforms';
+import { handleTelegramUpdate } from './telegramUpdates.service';
+import { handleVkCallback } from './vkCallback.service';
+import type { TelegramApiResponse, TelegramUpdate } from '../types/telegram';
+import type { VkApiResponse, VkLongPollResponse, VkLongPollServer } from '../types/vk';
+
+const db = pool as unknown as Pool;
+
+/** Сколько секунд платформа держит запрос, если новых событий нет. */
+const POLL_WAIT_SEC = Number(process.env.INGEST_POLL_WAIT_SEC) || 25;
+
+/** Запас сверх ожидания платформы: дольше ответа не ждём и считаем запрос зависшим. */
+const REQUEST_TIMEOUT_MARGIN_MS = 10_000;
+
+const BACKOFF_MIN_MS = 1_000;
+const BACKOFF_MAX_MS = 60_000;
+
+export const TELEGRAM_SOURCE = 'telegram';
+export const VK_SOURCE = 'vk';
+
+/** Один цикл опроса канала: запрос, обработка событий, сохранение позиции. */
+type PollStep = (signal: AbortSignal) => Promise<void>;
+
+export interface IngestChannel {
+  /** Ключ в ingest_offsets и префикс в логах. */
+  source: string;
+  step: PollStep;
+}
+
+/** Ошибка API с подсказкой, сколько подождать (Telegram 429 → parameters.retry_after). */
+class PollingError extends Error {
+  constructor(message: string, readonly retryAfterMs = 0) {
+    super(message);
+  }
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+async function loadOffset(source: string): Promise<string | null> {
+  const { rows } = await db.query<{ value: string }>('SELECT value FROM ingest_offsets WHERE source = $1', [source]);
+  return rows[0]?.value ?? null;
+}
+
+async function saveOffset(source: string, value: string): Promise<void> {
+  await db.query(
+    `
+    INSERT INTO ingest_offsets (source, value) VALUES ($1, $2)
+    ON CONFLICT (source) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()
+    `,
+    [source, value],
+  );
+}
+
+async function clearOffset(source: string): Promise<void> {
+  await db.query('DELETE FROM ingest_offsets WHERE source = $1', [source]);
+}
+
+/** Пауза, которую обрывает остановка воркера. */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+
+async function fetchJson<T>(url: string | URL, init: RequestInit, signal: AbortSignal): Promise<T> {
+  const timeout = AbortSignal.timeout(POLL_WAIT_SEC * 1000 + REQUEST_TIMEOUT_MARGIN_MS);
+  const res = await fetch(url, { ...init, signal: AbortSignal.any([signal, timeout]) });
+  return (await res.json()) as T;
+}
+
+/**
+ * Telegram getUpdates. Не работает, пока у бота установлен вебхук (409 Conflict) —
+ * в этом режиме вебхук нужно снять (deleteWebhook).
+ */
+function telegramStep(token: string): PollStep {
+  return async (signal) => {
+    const offset = await loadOffset(TELEGRAM_SOURCE);
+    const data = await fetchJson<TelegramApiResponse<TelegramUpdate[]>>(
+      telegramApiUrl(token, 'getUpdates'),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          offset: offset === null ? undefined : Number(offset),
+          timeout: POLL_WAIT_SEC,
+          allowed_updates: ['message', 'edited_message'],
+        }),
+      },
+      signal,
+    );
+    if (!data.ok) {
+      const retryAfterMs = (data.parameters?.retry_after ?? 0) * 1000;
+      throw new PollingError(data.description || `getUpdates failed (${data.error_code ?? 'no code'})`, retryAfterMs);
+    }
+
+    for (const update of data.result ?? []) {
+      if (signal.aborted) {
+        return;
+      }
+      await handleTelegramUpdate(update);
+      await saveOffset(TELEGRAM_SOURCE, String(update.update_id + 1));
+    }
+  };
+}
+
+/**
+ * VK Bots Long Poll. key и адрес сервера живут в памяти; ts — в ingest_offsets,
+ * поэтому после перезапуска берётся новый key, но чтение продолжается с сохранённого ts.
+ */
+function vkStep(token: string, groupId: string): PollStep {
+  let server: VkLongPollServer | null = null;
+
+  return async (signal) => {
+    if (!server) {
+      const data = await fetchJson<VkApiResponse<VkLongPollServer>>(
+        vkApiUrl('groups.getLongPollServer'),
+        { method: 'POST', body: new URLSearchParams({ v: VK_API_VERSION, access_token: token, group_id: groupId }) },
+        signal,
+      );
+      if (!data.response) {
+        throw new PollingError(data.error?.error_msg || 'groups.getLongPollServer failed');
+      }
+      const saved = await loadOffset(VK_SOURCE);
+      server = { ...data.response, ts: saved ?? String(data.response.ts) };
+    }
+
+    const url = new URL(server.server);
+    url.searchParams.set('act', 'a_check');
+    url.searchParams.set('key', server.key);
+    url.searchParams.set('ts', server.ts);
+    url.searchParams.set('wait', String(POLL_WAIT_SEC));
+    const data = await fetchJson<VkLongPollResponse>(url, { method: 'GET' }, signal);
+
+    if (data.failed === 1 && data.ts !== undefined) {
+      console.warn(`[ingest:${VK_SOURCE}] event history expired, continuing from ts ${data.ts}`);
+      server.ts = String(data.ts);
+      await saveOffset(VK_SOURCE, server.ts);
+      return;
+    }
+    if (data.failed) {
+      // 2 — истёк key (ts ещё годится), 3 — сервер забыл и ts: начинаем с его текущей позиции.
+      if (data.failed === 3) {
+        await clearOffset(VK_SOURCE);
+      }
+      server = null;
+      return;
+    }
+
+    for (const update of data.updates ?? []) {
+      if (signal.aborted) {
+        return;
+      }
+      await handleVkCallback(update);
+    }
+    if (data.ts !== undefined) {
+      server.ts = String(data.ts);
+      await saveOffset(VK_SOURCE, server.ts);
+    }
+  };
+}
+
+/**
+ * Каналы, для которых заданы учётные данные: Telegram — TELEGRAM_BOT_TOKEN, VK — VK_TOKEN и VK_GROUP_ID.
+ */
+export function configuredChannels(): IngestChannel[] {
+  const channels: IngestChannel[] = [];
+  const telegramToken = telegramBotToken();
+  const vkGroupToken = vkToken();
+  const vkGroupId = process.env.VK_GROUP_ID;
+
+  if (telegramToken) {
+    channels.push({ source: TELEGRAM_SOURCE, step: telegramStep(telegramToken) });
+  }
+  if (vkGroupToken && vkGroupId) {
+    channels.push({ source: VK_SOURCE, step: vkStep(vkGroupToken, vkGroupId.trim()) });
+  }
+  return channels;
+}
+
+/**
+ * Крутит опрос канала до остановки. Ошибки не выходят наружу: пишутся в лог, после паузы цикл повторяется.
+ */
+export async function runChannel({ source, step }: IngestChannel, signal: AbortSignal): Promise<void> {
+  let failures = 0;
+  console.log(`[ingest:${source}] polling started`);
+
+  while (!signal.aborted) {
+    try {
+      await step(signal);
+      failures = 0;
+    } catch (error) {
+      if (signal.aborted) {
+        break;
+      }
+      const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_MIN_MS * 2 ** failures);
+      const delay = Math.max(backoff, error instanceof PollingError ? error.retryAfterMs : 0);
+      failures += 1;
+      console.error(`[ingest:${source}] ${errorMessage(error)}; retry in ${Math.round(delay / 1000)} s`);
+      await sleep(delay, signal);
+    }
+  }
+
+  console.log(`[ingest:${source}] polling stopped`);
+}
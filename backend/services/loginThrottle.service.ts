@@ -0,0 +1,154 @@
+/**
+ * Защита входа от перебора: счётчики неудачных попыток по email и по IP,
+ * экспоненциальная задержка и временная блокировка.
+ *
+ * Как устроено:
+ * - Каждая неудача (неверный пароль или код 2FA) увеличивает счётчики в login_attempts.
+ *   Счётчик обнуляется, если с прошлой неудачи прошло больше FAILURE_WINDOW_SECONDS.
+ * - Начиная с порога, ключ блокируется на base · 2^(сверх порога) секунд, но не дольше часа.
+ *   Пока блокировка действует, пароль даже не проверяется — перебор не продвигается.
+ * - Порог по IP выше, чем по email: за одним NAT может работать целый офис.
+ * - Каждая блокировка пишется в lockout_events — администратор видит её в разделе аккаунтов.
+ */
+import type { Pool } from 'pg';
+
+import pool from '../db';
+
+const db = pool as unknown as Pool;
+
+export type ThrottleScope = 'email' | 'ip';
+
+interface ScopePolicy {
+  /** Сколько неудач подряд допускается без блокировки. */
+  threshold: number;
+  /** Длительность первой блокировки, секунды; каждая следующая вдвое дольше. */
+  baseLockSeconds: number;
+}
+
+const POLICIES: Record<ThrottleScope, ScopePolicy> = {
+  email: { threshold: 5, baseLockSeconds: 30 },
+  ip: { threshold: 20, baseLockSeconds: 60 },
+};
+
+const MAX_LOCK_SECONDS = 60 * 60;
+const FAILURE_WINDOW_SECONDS = 60 * 60;
+
+export interface ThrottleKeys {
+  email: string | null;
+  ip: string | null;
+}
+
+export interface LockoutEvent {
+  id: string;
+  scope: ThrottleScope;
+  key: string;
+  failures: number;
+  locked_until: Date | string;
+  created_at: Date | string;
+}
+
+const keysToCheck = (keys: ThrottleKeys): Array<[ThrottleScope, string]> =>
+  (['email', 'ip'] as const)
+    .map((scope) => [scope, keys[scope]] as [ThrottleScope, string | null])
+    .filter((entry): entry is [ThrottleScope, string] => Boolean(entry[1]));
+
+const lockSecondsFor = (scope: ThrottleScope, failures: number): number => {
+  const { threshold, baseLockSeconds } = POLICIES[scope];
+  if (failures < threshold) {
+    return 0;
+  }
+  return Math.min(baseLockSeconds * 2 ** (failures - threshold), MAX_LOCK_SECONDS);
+};
+
+/**
+ * Сколько секунд осталось ждать (максимум по email и IP) или 0, если вход разрешён.
+ */
+export async function getRetryAfter(keys: ThrottleKeys): Promise<number> {
+  const entries = keysToCheck(keys);
+  if (!entries.length) {
+    return 0;
+  }
+
+  const { rows } = await db.query<{ seconds: string | null }>(
+    `
+    SELECT CEIL(MAX(EXTRACT(EPOCH FROM locked_until - NOW()))) AS seconds
+    FROM login_attempts
+    WHERE (scope, key) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+      AND locked_until > NOW()
+    `,
+    [entries.map(([scope]) => scope), entries.map(([, key]) => key)],
+  );
+  return Math.max(Number(rows[0]?.seconds ?? 0), 0);
+}
+
+/**
+ * Учитывает неудачную попытку. Возвращает, на сколько секунд вход теперь заблокирован (0 — не заблокирован).
+ */
+export async function registerFailure(keys: ThrottleKeys): Promise<number> {
+  let retryAfter = 0;
+
+  for (const [scope, key] of keysToCheck(keys)) {
+    const { rows } = await db.query<{ failures: number }>(
+      `
+      INSERT INTO login_attempts (scope, key, failures, last_failure_at)
+      VALUES ($1, $2, 1, NOW())
+      ON CONFLICT (scope, key) DO UPDATE SET
+        failures = CASE
+          WHEN login_attempts.last_failure_at < NOW() - make_interval(secs => $3) THEN 1
+          ELSE login_attempts.failures + 1
+        END,
+        last_failure_at = NOW()
+      RETURNING failures
+      `,
+      [scope, key, FAILURE_WINDOW_SECONDS],
+    );
+    const failures = rows[0]?.failures ?? 1;
+    const lockSeconds = lockSecondsFor(scope, failures);
+    if (!lockSeconds) {
+      continue;
+    }
+
+    await db.query(
+      `
+      UPDATE login_attempts SET locked_until = NOW() + make_interval(secs => $3)
+      WHERE scope = $1 AND key = $2
+      `,
+      [scope, key, lockSeconds],
+    );
+    await db.query(
+      `
+      INSERT INTO lockout_events (scope, key, failures, locked_until)
+      VALUES ($1, $2, $3, NOW() + make_interval(secs => $4))
+      `,
+      [scope, key, failures, lockSeconds],
+    );
+    console.warn(`[login] ${scope} locked for ${lockSeconds}s after ${failures} failures:`, key);
+    retryAfter = Math.max(retryAfter, lockSeconds);
+  }
+
+  return retryAfter;
+}
+
+/**
+ * Успешный вход обнуляет счётчик email. Счётчик IP не трогаем: иначе злоумышленник,
+ * знающий пароль одного аккаунта, мог бы сбрасывать его и перебирать остальные.
+ */
+export async function clearFailures(email: string): Promise<void> {
+  await db.query(`DELETE FROM login_attempts WHERE scope = 'email' AND key = $1`, [email]);
+}
+
+/**
+ * Последние блокировки для администратора, новые сверху.
+ */
+export async function listLockoutEvents(limit = 100): Promise<LockoutEvent[]> {
+  const { rows } = await db.query<LockoutEvent>(
+    `
+    SELECT id, scope, key, failures, locked_until, created_at
+    FROM lockout_events
+    ORDER BY created_at DESC
+    LIMIT $1
+    `,
+    [limit],
+  );
+  return rows;
+}
@@ -1,46 +1,199 @@
-
 // Отправка операторского сообщения конкретному чату и запись факта отправки в БД.
 
-const { normalizePlatform } = require('../utils/platform');
 const pool = require('../db');
-const { sendTelegramMessage } = require('./telegram.service');
-const { sendVkMessage } = require('./vk.service');
+const { broadcast } = require('../utils/events');
+const { getChannelAdapter } = require('./channels');
+const {
+  findMessageUpload,
+  findUnsentUpload,
+  linkUpload,
+  sendUpload,
+  withAttachments,
+} = require('./attachments.service');
 
-/**
- * Отправляет текст от оператора в заданный чат.
- * 1) Находит платформу по chat_id.
- * 2) Отправляет через соответствующий адаптер.
- * 3) Логирует сообщение в таблицу messages с меткой времени доставки.
- */
-exports.sendOperatorMessage = async ({ chatId, text }) => {
-  // 1) Найти чат и платформу
+const MESSAGE_COLUMNS = 'id, chat_id, from_me, text, date, external_id, edited_at, status, error';
+
+/** Длина текста ошибки платформы, которую храним в messages.error. */
+const ERROR_MAX_LENGTH = 500;
+
+async function findChat(chatId) {
   const chatRow = await pool.query(
-    'SELECT chat_id, platform FROM chats WHERE chat_id = $1 LIMIT 1',
+    'SELECT chat_id, external_chat_id, platform FROM chats WHERE chat_id = $1 LIMIT 1',
     [chatId],
   );
-  if (!chatRow.rowCount) {
+  return chatRow.rows[0] ?? null;
+}
+
+/** Записывает статус доставки; после успешной отправки — ещё ID и время сообщения в канале. */
+async function setStatus(client, id, fields) {
+  const { rows } = await client.query(
+    `
+      UPDATE messages
+      SET status = $2, error = $3, external_id = COALESCE($4, external_id), date = COALESCE($5, date)
+      WHERE id = $1
+      RETURNING ${MESSAGE_COLUMNS}
+    `,
+    [id, fields.status, fields.error ?? null, fields.externalId ?? null, fields.date ?? null],
+  );
+  return rows[0];
+}
+
+/**
+ * Вызывает платформу для уже сохранённого сообщения и фиксирует итог: sent с ID и временем канала
+ * или failed с текстом ошибки. Ошибка платформы не бросается — она становится статусом.
+ * Если VK успел прислать эхо (message_reply) раньше, чем мы записали ID, эхо-строка удаляется.
+ * message передаётся вместе с attachments — они сохраняются в обновлённой строке для клиентов.
+ * Адресат в канале — chat.external_chat_id, а не chat_id панели.
+ */
+async function deliver(adapter, chat, message, upload) {
+  const peerId = Number(chat.external_chat_id);
+  const withFiles = (row) => ({ ...row, attachments: message.attachments ?? [] });
+
+  let sent;
+  try {
+    sent = upload
+      ? await sendUpload(adapter, peerId, upload, message.text, { html: true })
+      : await adapter.sendText(peerId, message.text, { html: true });
+  } catch (error) {
+    console.error('Send error:', error);
+    const text = error instanceof Error ? error.message : String(error);
+    const row = withFiles(
+      await setStatus(pool, message.id, { status: 'failed', error: text.slice(0, ERROR_MAX_LENGTH) }),
+    );
+    broadcast('messages', { action: 'update', row });
+    return row;
+  }
+
+  const client = await pool.connect();
+  let row;
+  let echoes = [];
+  try {
+    await client.query('BEGIN');
+    const echo = await client.query(
+      'DELETE FROM messages WHERE chat_id = $1 AND external_id = $2 AND id <> $3 RETURNING id',
+      [message.chat_id, sent.messageId, message.id],
+    );
+    echoes = echo.rows.map((r) => r.id);
+    row = withFiles(
+      await setStatus(client, message.id, { status: 'sent', externalId: sent.messageId, date: sent.date }),
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  for (const id of echoes) {
+    broadcast('messages', { action: 'delete', id });
+  }
+  broadcast('messages', { action: 'update', row });
+  return row;
+}
+
+/** Итог отправки: 200 — отправлено, 502 — платформа отказала (сообщение сохранено как failed). */
+const deliveryResult = (row) =>
+  row.status === 'sent'
+    ? { status: 200, data: row }
+    : { status: 502, error: 'Upstream send failed', data: row };
+
+/**
+ * Отправляет текст от оператора в заданный чат (и вложение, если передан attachmentId —
+ * только загруженное этим же аккаунтом, accountId).
+ * 1) Находит платформу по chat_id, проверяет загрузку и длину подписи
+ *    (вложение уходит одним сообщением с текстом в подписи — лимит capabilities.maxCaptionLength).
+ * 2) Сохраняет сообщение со статусом pending (с привязанной загрузкой) и оповещает клиентов;
+ *    если загрузку уже привязал другой запрос — откатывает сообщение и отвечает 400.
+ * 3) Отправляет через адаптер канала (services/channels) и обновляет статус: sent или failed.
+ */
+exports.sendOperatorMessage = async ({ chatId, text, attachmentId, accountId }) => {
+  // 1) Найти чат и платформу
+  const chat = await findChat(chatId);
+  if (!chat) {
     return { status: 404, error: 'Chat not found' };
   }
-  const platform = normalizePlatform(chatRow.rows[0].platform);
+  const adapter = getChannelAdapter(chat.platform);
+  if (!adapter) {
+    return { status: 400, error: `Unsupported platform: ${chat.platform}` };
+  }
+
+  const body = String(text ?? '');
+  const upload = attachmentId ? await findUnsentUpload(Number(attachmentId), accountId ?? null) : null;
+  if (attachmentId && !upload) {
+    return { status: 400, error: 'Attachment not found or already sent' };
+  }
+  if (upload && body.length > adapter.capabilities.maxCaptionLength) {
+    return {
+      status: 400,
+      error: `Caption is too long (max ${adapter.capabilities.maxCaptionLength} characters)`,
+    };
+  }
 
-  // 2) Отправить
-  let isoDate;
-  if (platform === 'telegram' || platform === 'tg') {
-    isoDate = await sendTelegramMessage(chatId, String(text));
-  } else if (platform === 'vk') {
-    isoDate = await sendVkMessage(chatId, String(text));
-  } else {
-    return { status: 400, error: `Unsupported platform: ${platform}` };
+  // 2) Сохранить как pending
+  const client = await pool.connect();
+  let pending;
+  try {
+    await client.query('BEGIN');
+    const ins = await client.query(
+      `
+        INSERT INTO messages (chat_id, from_me, text, date, status)
+        VALUES ($1, true, $2, NOW(), 'pending')
+        RETURNING ${MESSAGE_COLUMNS}
+      `,
+      [chatId, body],
+    );
+    const attachments = upload ? await linkUpload(client, upload.id, ins.rows[0].id, accountId) : [];
+    if (upload && !attachments.length) {
+      // Загрузку успел отправить параллельный запрос — сообщение без файла не сохраняем.
+      await client.query('ROLLBACK');
+      return { status: 400, error: 'Attachment not found or already sent' };
+    }
+    await client.query('COMMIT');
+    pending = { ...ins.rows[0], attachments };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
+  broadcast('messages', { action: 'create', row: pending });
+
+  // 3) Отправить и зафиксировать итог
+  return deliveryResult(await deliver(adapter, chat, pending, upload));
+};
 
-  // 3) Сохранить в БД
-  const ins = await pool.query(
+/**
+ * Повторная отправка сообщения со статусом failed: тот же текст и вложение, та же строка в messages.
+ * 404 — сообщения нет, 409 — оно не в статусе failed (уже отправлено или отправляется).
+ */
+exports.retryOperatorMessage = async (messageId) => {
+  const { rows } = await pool.query(
     `
-      INSERT INTO messages (chat_id, from_me, text, date)
-      VALUES ($1, true, $2, $3)
-      RETURNING id, chat_id, from_me, text, date
+      UPDATE messages SET status = 'pending', error = NULL
+      WHERE id = $1 AND from_me = true AND status = 'failed'
+      RETURNING ${MESSAGE_COLUMNS}
     `,
-    [chatId, text, isoDate],
+    [messageId],
   );
-  return { status: 200, data: ins.rows[0] };
+  if (!rows[0]) {
+    const exists = await pool.query('SELECT 1 FROM messages WHERE id = $1', [messageId]);
+    return exists.rowCount
+      ? { status: 409, error: 'Message is not in failed state' }
+      : { status: 404, error: 'Message not found' };
+  }
+  const [message] = await withAttachments(rows);
+  broadcast('messages', { action: 'update', row: message });
+
+  const chat = await findChat(message.chat_id);
+  const adapter = chat && getChannelAdapter(chat.platform);
+  if (!adapter) {
+    const error = 'Chat or platform is unavailable';
+    const row = { ...(await setStatus(pool, message.id, { status: 'failed', error })), attachments: message.attachments };
+    broadcast('messages', { action: 'update', row });
+    return { status: 400, error };
+  }
+
+  const upload = await findMessageUpload(message.id);
+  return deliveryResult(await deliver(adapter, chat, message, upload));
 };
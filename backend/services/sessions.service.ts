@@ -0,0 +1,235 @@
+/**
+ * Сервис сеансов: refresh-токены с ротацией и отзывом.
+ *
+ * Как устроено:
+ * - На каждый вход создаётся строка в sessions; access-токен (JWT) несёт её id в claim `sid`,
+ *   поэтому отзыв сеанса действует сразу, а не по истечении токена.
+ * - Refresh-токен — случайная строка, в БД лежит только её SHA-256. При каждом обновлении
+ *   выдаётся новый токен, а хеш предыдущего запоминается: повторное предъявление старого
+ *   токена означает утечку, и сеанс отзывается целиком.
+ * - Исключение — первые REFRESH_REUSE_GRACE_SECONDS после ротации: так бывает, когда вкладки
+ *   одного браузера обновляют токен наперегонки. Старый токен тогда даёт новый access-токен
+ *   без ротации, а новый refresh-токен вкладка берёт из общего localStorage.
+ * - Отзыв последнего действующего сеанса снимает с аккаунта отметку «на линии»
+ *   (assignment.service): чаты не назначаются тому, кто вышел.
+ */
+import { createHash, randomBytes } from 'crypto';
+import type { Request } from 'express';
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import { goOfflineWithoutSessions } from './assignment.service';
+
+const db = pool as unknown as Pool;
+
+/**
+ * Срок жизни refresh-токена (и сеанса без активности), дни. Переопределяется REFRESH_TTL_DAYS.
+ */
+const REFRESH_TTL_DAYS = (() => {
+  const parsed = Number(process.env.REFRESH_TTL_DAYS);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 30;
+})();
+
+/** Сколько секунд после ротации предыдущий refresh-токен ещё принимается, а не считается кражей. */
+const REFRESH_REUSE_GRACE_SECONDS = 20;
+
+export interface SessionMeta {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+export interface SessionRecord {
+  id: string;
+  account_id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: Date | string;
+  last_used_at: Date | string;
+  expires_at: Date | string;
+}
+
+export interface IssuedSession {
+  session: SessionRecord;
+  refreshToken: string;
+}
+
+/**
+ * Результат ротации: новый токен (null — предъявлен предыдущий токен в окне после ротации,
+ * действующий refresh-токен не меняется), либо причина отказа (для логов; клиенту всегда 401).
+ */
+export type RotateResult =
+  | { ok: true; session: SessionRecord; refreshToken: string | null }
+  | { ok: false; reason: 'unknown' | 'expired' | 'revoked' | 'reused' };
+
+/**
+ * Устройство и адрес клиента — их видит пользователь в списке сеансов.
+ * За обратным прокси req.ip корректен только при включённом trust proxy.
+ */
+export const sessionMetaFrom = (
+  req: Pick<Request, 'get' | 'ip' | 'socket'>,
+): SessionMeta => ({
+  userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+  ip: req.ip ?? req.socket?.remoteAddress ?? null,
+});
+
+const SESSION_COLUMNS = 'id, account_id, user_agent, ip, created_at, last_used_at, expires_at';
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = (): string => randomBytes(32).toString('base64url');
+
+const expiresAt = (): Date => new Date(Date.now() + REFRESH_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Открывает сеанс при входе.
+ */
+export async function createSession(accountId: string, meta: SessionMeta): Promise<IssuedSession> {
+  const refreshToken = newRefreshToken();
+  const { rows } = await db.query<SessionRecord>(
+    `
+    INSERT INTO sessions (account_id, refresh_token_hash, user_agent, ip, expires_at)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING ${SESSION_COLUMNS}
+    `,
+    [accountId, hashToken(refreshToken), meta.userAgent, meta.ip, expiresAt()],
+  );
+  return { session: rows[0], refreshToken };
+}
+
+/**
+ * Меняет refresh-токен на новый. Срок сеанса продлевается при каждом успешном обновлении.
+ */
+export async function rotateSession(refreshToken: string, meta: SessionMeta): Promise<RotateResult> {
+  const presented = hashToken(refreshToken);
+  const next = newRefreshToken();
+
+  const { rows } = await db.query<SessionRecord>(
+    `
+    UPDATE sessions SET
+      previous_token_hash = refresh_token_hash,
+      refresh_token_hash  = $2,
+      user_agent          = COALESCE($3, user_agent),
+      ip                  = COALESCE($4, ip),
+      last_used_at        = NOW(),
+      rotated_at          = NOW(),
+      expires_at          = $5
+    WHERE refresh_token_hash = $1
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+    RETURNING ${SESSION_COLUMNS}
+    `,
+    [presented, hashToken(next), meta.userAgent, meta.ip, expiresAt()],
+  );
+  if (rows[0]) {
+    return { ok: true, session: rows[0], refreshToken: next };
+  }
+
+  // Только что ротированный токен: параллельное обновление из другой вкладки, а не кража.
+  const { rows: graced } = await db.query<SessionRecord>(
+    `
+    UPDATE sessions SET last_used_at = NOW()
+    WHERE previous_token_hash = $1
+      AND rotated_at > NOW() - make_interval(secs => $2)
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+    RETURNING ${SESSION_COLUMNS}
+    `,
+    [presented, REFRESH_REUSE_GRACE_SECONDS],
+  );
+  if (graced[0]) {
+    return { ok: true, session: graced[0], refreshToken: null };
+  }
+
+  // Токен не подошёл: выясняем почему. Старый (уже ротированный) токен — признак кражи.
+  const { rows: reused } = await db.query<{ id: string; account_id: string }>(
+    `
+    UPDATE sessions SET revoked_at = COALESCE(revoked_at, NOW())
+    WHERE previous_token_hash = $1
+    RETURNING id, account_id
+    `,
+    [presented],
+  );
+  if (reused[0]) {
+    console.warn('[sessions] refresh token reuse, session revoked:', reused[0].id);
+    await goOfflineWithoutSessions(reused[0].account_id);
+    return { ok: false, reason: 'reused' };
+  }
+
+  const { rows: known } = await db.query<{ revoked_at: Date | null }>(
+    'SELECT revoked_at FROM sessions WHERE refresh_token_hash = $1',
+    [presented],
+  );
+  if (!known[0]) {
+    return { ok: false, reason: 'unknown' };
+  }
+  return { ok: false, reason: known[0].revoked_at ? 'revoked' : 'expired' };
+}
+
+/**
+ * Активные сеансы аккаунта, последние использованные сверху.
+ */
+export async function listSessions(accountId: string): Promise<SessionRecord[]> {
+  const { rows } = await db.query<SessionRecord>(
+    `
+    SELECT ${SESSION_COLUMNS} FROM sessions
+    WHERE account_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+    ORDER BY last_used_at DESC
+    `,
+    [accountId],
+  );
+  return rows;
+}
+
+/**
+ * Отзывает один сеанс аккаунта. Возвращает false, если такого активного сеанса нет.
+ */
+export async function revokeSession(accountId: string, sessionId: string): Promise<boolean> {
+  const result = await db.query(
+    `
+    UPDATE sessions SET revoked_at = NOW()
+    WHERE id = $1 AND account_id = $2 AND revoked_at IS NULL
+    `,
+    [sessionId, accountId],
+  );
+  if (result.rowCount === 0) {
+    return false;
+  }
+  await goOfflineWithoutSessions(accountId);
+  return true;
+}
+
+/**
+ * Отзывает сеанс по refresh-токену (выход без действующего access-токена).
+ */
+export async function revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+  const { rows } = await db.query<{ account_id: string }>(
+    `
+    UPDATE sessions SET revoked_at = NOW()
+    WHERE refresh_token_hash = $1 AND revoked_at IS NULL
+    RETURNING account_id
+    `,
+    [hashToken(refreshToken)],
+  );
+  if (!rows[0]) {
+    return false;
+  }
+  await goOfflineWithoutSessions(rows[0].account_id);
+  return true;
+}
+
+/**
+ * Отзывает все сеансы аккаунта, кроме exceptSessionId (если передан). Возвращает их число.
+ */
+export async function revokeAllSessions(accountId: string, exceptSessionId?: string): Promise<number> {
+  const result = await db.query(
+    `
+    UPDATE sessions SET revoked_at = NOW()
+    WHERE account_id = $1 AND revoked_at IS NULL AND ($2::uuid IS NULL OR id <> $2::uuid)
+    `,
+    [accountId, exceptSessionId ?? null],
+  );
+  if (result.rowCount > 0) {
+    await goOfflineWithoutSessions(accountId);
+  }
+  return result.rowCount;
+}
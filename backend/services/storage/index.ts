@@ -0,0 +1,23 @@
+/**
+ * Активное хранилище вложений. Сейчас — локальный диск (UPLOAD_DIR).
+ */
+import path from 'path';
+
+import { createLocalStorage } from './local.storage';
+import type { FileStorage } from './types';
+
+export type { FileStorage } from './types';
+
+let storage: FileStorage | null = null;
+
+export function getFileStorage(): FileStorage {
+  if (!storage) {
+    storage = createLocalStorage(process.env.UPLOAD_DIR || path.resolve(process.cwd(), 'uploads'));
+  }
+  return storage;
+}
+
+/** Подменяет хранилище (тесты, другое хранилище). */
+export function setFileStorage(next: FileStorage): void {
+  storage = next;
+}
@@ -0,0 +1,44 @@
+/**
+ * Хранилище на локальном диске: файлы лежат в UPLOAD_DIR (по умолчанию ./uploads от рабочего каталога).
+ * Ключ — относительный путь вида 2026/10/<uuid>.jpg; выход за пределы каталога запрещён.
+ */
+import { createReadStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+
+import type { FileStorage } from './types';
+
+export function createLocalStorage(root: string): FileStorage {
+  const baseDir = path.resolve(root);
+
+  const resolve = (key: string): string => {
+    const filePath = path.resolve(baseDir, key);
+    if (!filePath.startsWith(baseDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async read(key) {
+      const filePath = resolve(key);
+      await stat(filePath);
+      return createReadStream(filePath) as Readable;
+    },
+
+    readBuffer(key) {
+      return readFile(resolve(key));
+    },
+
+    async remove(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
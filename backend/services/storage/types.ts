@@ -0,0 +1,16 @@
+/**
+ * Хранилище файлов вложений. Сервисы работают только с этим интерфейсом, поэтому локальный диск
+ * можно заменить на S3-совместимое хранилище, не трогая загрузку и отправку.
+ */
+import type { Readable } from 'stream';
+
+export interface FileStorage {
+  /** Сохраняет файл под ключом (перезаписывает существующий). */
+  put(key: string, data: Buffer): Promise<void>;
+  /** Поток содержимого; ошибка, если файла нет. */
+  read(key: string): Promise<Readable>;
+  /** Полное содержимое — для отправки в канал. */
+  readBuffer(key: string): Promise<Buffer>;
+  /** Удаляет файл; отсутствие файла не ошибка. */
+  remove(key: string): Promise<void>;
+}
@@ -0,0 +1,119 @@
+/**
+ * Теги чатов: общая библиотека тегов (tags) и связь многие-ко-многим с чатами (chat_tags).
+ *
+ * Как устроено:
+ * - Отдельного создания тегов нет: оператор вешает тег на чат по имени, и новый тег заводится
+ *   сам. Имя уникально без учёта регистра — «VIP» и «vip» один тег, остаётся первое написание.
+ * - Теги внутренние: гостю они не видны. Кроме фильтра списка чатов, ими сегментируют рассылки
+ *   (broadcast.service, filters.tags).
+ */
+import type { Pool, PoolClient } from 'pg';
+
+import pool from '../db';
+import type { ChatRecord } from '../types/models';
+
+const db = pool as unknown as Pool;
+
+export const TAG_NAME_MAX_LENGTH = 40;
+
+export interface Tag {
+  id: number;
+  name: string;
+}
+
+export interface TagWithUsage extends Tag {
+  /** Сколько чатов помечено тегом. */
+  chats: number;
+}
+
+export type ChatWithTags = ChatRecord & { tags: Tag[] };
+
+export type ChatTagResult =
+  | { status: 200; before: ChatWithTags; after: ChatWithTags; changed: boolean }
+  | { status: 404; error: string };
+
+/** Подзапрос с тегами чата в виде JSON-массива [{ id, name }]; chatRef — SQL-выражение с chat_id. */
+export const chatTagsSql = (chatRef: string): string => `
+  COALESCE((
+    SELECT json_agg(json_build_object('id', t.id, 'name', t.name) ORDER BY lower(t.name))
+    FROM chat_tags ct
+    JOIN tags t ON t.id = ct.tag_id
+    WHERE ct.chat_id = ${chatRef}
+  ), '[]'::json)
+`;
+
+export async function listTags(): Promise<TagWithUsage[]> {
+  const { rows } = await db.query<TagWithUsage>(`
+    SELECT t.id, t.name, COUNT(ct.chat_id)::int AS chats
+    FROM tags t
+    LEFT JOIN chat_tags ct ON ct.tag_id = t.id
+    GROUP BY t.id
+    ORDER BY lower(t.name)
+  `);
+  return rows;
+}
+
+export async function findChatWithTags(
+  chatId: number,
+  client: Pool | PoolClient = db,
+): Promise<ChatWithTags | null> {
+  const { rows } = await client.query<ChatWithTags>(
+    `
+      SELECT c.chat_id, c.username, c.first_name, c.last_name, c.platform, ${chatTagsSql('c.chat_id')} AS tags
+      FROM chats c
+      WHERE c.chat_id = $1
+    `,
+    [chatId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Вешает тег на чат, заводя тег с таким именем, если его ещё нет. Повторно тот же тег
+ * не добавляется (changed: false).
+ */
+export async function addChatTag(chatId: number, name: string, actorId: string | null): Promise<ChatTagResult> {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    const before = await findChatWithTags(chatId, client);
+    if (!before) {
+      await client.query('ROLLBACK');
+      return { status: 404, error: 'Not found' };
+    }
+    const { rows: tagRows } = await client.query<Tag>(
+      `
+        INSERT INTO tags (name) VALUES ($1)
+        ON CONFLICT (lower(name)) DO UPDATE SET name = tags.name
+        RETURNING id, name
+      `,
+      [name],
+    );
+    const { rowCount } = await client.query(
+      `
+        INSERT INTO chat_tags (chat_id, tag_id, created_by) VALUES ($1, $2, $3)
+        ON CONFLICT DO NOTHING
+      `,
+      [chatId, tagRows[0].id, actorId],
+    );
+    const after = (await findChatWithTags(chatId, client)) ?? before;
+    await client.query('COMMIT');
+    return { status: 200, before, after, changed: rowCount > 0 };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/** Снимает тег с чата. Сам тег остаётся в библиотеке. */
+export async function removeChatTag(chatId: number, tagId: number): Promise<ChatTagResult> {
+  const before = await findChatWithTags(chatId);
+  if (!before) {
+    return { status: 404, error: 'Not found' };
+  }
+  const { rowCount } = await db.query('DELETE FROM chat_tags WHERE chat_id = $1 AND tag_id = $2', [chatId, tagId]);
+  const after = (await findChatWithTags(chatId)) ?? before;
+  return { status: 200, before, after, changed: rowCount > 0 };
+}
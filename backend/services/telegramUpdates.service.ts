@@ -0,0 +1,141 @@
+/**
+ * Входящие апдейты Telegram Bot API: разбор в InboundMessage и проверка секрета вебхука.
+ *
+ * Как устроено:
+ * - parseTelegramUpdate — чистая функция без обращений к сети и БД: её удобно проверять
+ *   записанными апдейтами из backend/fixtures/telegram.
+ * - Берём только личные чаты с гостями: группы, каналы и сообщения от ботов пропускаем.
+ * - Фото, документы, голосовые и аудио сохраняются вложениями (ссылка — file_id, файл скачивается
+ *   при первом просмотре), текст — подпись. Прочие медиа (стикер, видео, геопозиция) —
+ *   пометкой о типе, чтобы оператор видел, что гость что-то прислал.
+ * - Секрет вебхука задаётся в setWebhook (secret_token) и приходит в X-Telegram-Bot-Api-Secret-Token.
+ */
+import { timingSafeEqual } from 'crypto';
+
+import { ingestInboundMessage, type InboundMessage, type IngestResult } from './inbound.service';
+import type { InboundAttachment } from './attachments.service';
+import type { TelegramMessage, TelegramUpdate } from '../types/telegram';
+
+export const TELEGRAM_PLATFORM = 'telegram';
+
+/** Пометки для сообщений без текста и подписи. */
+const MEDIA_LABELS: Array<[keyof TelegramMessage, string]> = [
+  ['photo', '[фото]'],
+  ['sticker', '[стикер]'],
+  ['voice', '[голосовое сообщение]'],
+  ['audio', '[аудио]'],
+  ['video', '[видео]'],
+  ['video_note', '[видеосообщение]'],
+  ['document', '[файл]'],
+  ['location', '[геопозиция]'],
+  ['contact', '[контакт]'],
+];
+
+const messageAttachments = (message: TelegramMessage): InboundAttachment[] => {
+  const id = message.message_id;
+  const attachments: InboundAttachment[] = [];
+  const photo = message.photo?.[message.photo.length - 1];
+  if (photo) {
+    attachments.push({
+      kind: 'photo',
+      fileName: `photo_${id}.jpg`,
+      mimeType: 'image/jpeg',
+      sizeBytes: photo.file_size ?? null,
+      sourceRef: photo.file_id,
+    });
+  }
+  if (message.voice) {
+    attachments.push({
+      kind: 'voice',
+      fileName: `voice_${id}.ogg`,
+      mimeType: message.voice.mime_type ?? 'audio/ogg',
+      sizeBytes: message.voice.file_size ?? null,
+      sourceRef: message.voice.file_id,
+    });
+  }
+  for (const [file, fallbackName, fallbackType] of [
+    [message.document, `document_${id}`, 'application/octet-stream'],
+    [message.audio, `audio_${id}.mp3`, 'audio/mpeg'],
+  ] as const) {
+    if (file) {
+      attachments.push({
+        kind: 'document',
+        fileName: file.file_name ?? fallbackName,
+        mimeType: file.mime_type ?? fallbackType,
+        sizeBytes: file.file_size ?? null,
+        sourceRef: file.file_id,
+      });
+    }
+  }
+  return attachments;
+};
+
+const messageText = (message: TelegramMessage, hasAttachments: boolean): string => {
+  const text = message.text ?? message.caption;
+  if (text?.trim()) {
+    return text;
+  }
+  if (hasAttachments) {
+    return '';
+  }
+  return MEDIA_LABELS.find(([field]) => message[field] !== undefined)?.[1] ?? '[сообщение без текста]';
+};
+
+const isTelegramUpdate = (value: unknown): value is TelegramUpdate =>
+  typeof value === 'object' && value !== null && typeof (value as TelegramUpdate).update_id === 'number';
+
+/**
+ * Апдейт → входящее сообщение. null — апдейт нам не нужен (не сообщение, не личный чат, бот).
+ */
+export function parseTelegramUpdate(update: unknown): InboundMessage | null {
+  if (!isTelegramUpdate(update)) {
+    return null;
+  }
+
+  const message = update.message ?? update.edited_message;
+  if (!message || message.chat?.type !== 'private' || message.from?.is_bot) {
+    return null;
+  }
+
+  const author = message.from ?? message.chat;
+  const attachments = messageAttachments(message);
+  return {
+    platform: TELEGRAM_PLATFORM,
+    externalChatId: message.chat.id,
+    externalId: message.message_id,
+    fromMe: false,
+    text: messageText(message, attachments.length > 0),
+    date: new Date(message.date * 1000),
+    editedAt: update.edited_message ? new Date((message.edit_date ?? message.date) * 1000) : null,
+    attachments,
+    profile: {
+      username: author.username ?? null,
+      first_name: author.first_name ?? null,
+      last_name: author.last_name ?? null,
+    },
+  };
+}
+
+/**
+ * Разбирает апдейт и сохраняет сообщение. 'ignored' — апдейт не содержит входящего сообщения гостя.
+ */
+export async function handleTelegramUpdate(update: unknown): Promise<IngestResult | 'ignored'> {
+  const message = parseTelegramUpdate(update);
+  return message ? ingestInboundMessage(message) : 'ignored';
+}
+
+/** Секрет вебхука задан в окружении. Без него приём апдейтов выключен. */
+export const isTelegramWebhookConfigured = (): boolean => Boolean(process.env.TELEGRAM_WEBHOOK_SECRET);
+
+/**
+ * Сверяет заголовок X-Telegram-Bot-Api-Secret-Token с TELEGRAM_WEBHOOK_SECRET за постоянное время.
+ */
+export function isValidTelegramSecret(header: string | undefined): boolean {
+  const expected = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!expected || !header) {
+    return false;
+  }
+  const a = Buffer.from(header);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,220 @@
+/**
+ * Сервис двухфакторной аутентификации (TOTP + одноразовые коды восстановления).
+ *
+ * Как устроено:
+ * - Подключение в два шага: startEnrollment кладёт новый секрет в accounts.totp_secret,
+ *   а 2FA включается (totp_enabled_at) только после того, как пользователь ввёл код из приложения.
+ * - Принятый шаг TOTP запоминается в totp_last_step: перехваченный код нельзя использовать повторно.
+ * - Коды восстановления одноразовые, в БД лежит только их SHA-256.
+ * - Обязательность 2FA задаётся по ролям (таблица role_security) администратором.
+ */
+import { createHash, randomBytes } from 'crypto';
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import { base32Encode, generateTotpSecret, otpauthUri, verifyTotp } from '../utils/totp';
+import { ROLES, type Role } from '../utils/permissions';
+
+const db = pool as unknown as Pool;
+
+/** Название сервиса, которое увидит пользователь в приложении-аутентификаторе. */
+const TOTP_ISSUER = process.env.TOTP_ISSUER?.trim() || 'NM.LAB';
+
+const RECOVERY_CODES_COUNT = 10;
+
+export interface TwoFactorState {
+  enabled: boolean;
+  /** 2FA обязательна для роли пользователя (политика администратора). */
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+export interface EnrollmentStart {
+  secret: string;
+  otpauthUri: string;
+}
+
+export type RolePolicies = Record<Role, boolean>;
+
+const hashRecoveryCode = (code: string): string =>
+  createHash('sha256').update(code.toUpperCase().replace(/[\s-]/g, '')).digest('hex');
+
+/** Код вида ABCD-EFGH: 40 бит случайности, легко переписать с бумаги. */
+const newRecoveryCode = (): string => {
+  const raw = base32Encode(randomBytes(5));
+  return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+};
+
+/**
+ * Текущее состояние 2FA для профиля.
+ */
+export async function getTwoFactorState(accountId: string): Promise<TwoFactorState | null> {
+  const { rows } = await db.query<{ enabled: boolean; required: boolean; codes_left: string }>(
+    `
+    SELECT a.totp_enabled_at IS NOT NULL AS enabled,
+           COALESCE(rs.require_2fa, FALSE) AS required,
+           (SELECT COUNT(*) FROM recovery_codes rc
+             WHERE rc.account_id = a.id AND rc.used_at IS NULL) AS codes_left
+    FROM accounts a
+    LEFT JOIN role_security rs ON rs.role = a.role
+    WHERE a.id = $1
+    `,
+    [accountId],
+  );
+  const row = rows[0];
+  if (!row) {
+    return null;
+  }
+  return { enabled: row.enabled, required: row.required, recoveryCodesLeft: Number(row.codes_left) };
+}
+
+/**
+ * Шаг 1 подключения: новый секрет и otpauth URI. null — 2FA уже включена (сначала её нужно отключить).
+ */
+export async function startEnrollment(accountId: string, email: string): Promise<EnrollmentStart | null> {
+  const secret = generateTotpSecret();
+  const { rowCount } = await db.query(
+    `
+    UPDATE accounts SET totp_secret = $2, totp_last_step = NULL
+    WHERE id = $1 AND totp_enabled_at IS NULL
+    `,
+    [accountId, secret],
+  );
+  if (!rowCount) {
+    return null;
+  }
+  return { secret, otpauthUri: otpauthUri(TOTP_ISSUER, email, secret) };
+}
+
+/**
+ * Перевыпускает коды восстановления; старые перестают действовать. Возвращает новые коды в открытом виде.
+ */
+export async function regenerateRecoveryCodes(accountId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODES_COUNT }, newRecoveryCode);
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM recovery_codes WHERE account_id = $1', [accountId]);
+    await client.query(
+      `
+      INSERT INTO recovery_codes (account_id, code_hash)
+      SELECT $1, unnest($2::text[])
+      `,
+      [accountId, codes.map(hashRecoveryCode)],
+    );
+    await client.query('COMMIT');
+    return codes;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Шаг 2 подключения: проверяет код из приложения и включает 2FA.
+ * Возвращает коды восстановления или null, если код неверен / подключение не начато.
+ */
+export async function confirmEnrollment(accountId: string, code: string): Promise<string[] | null> {
+  const { rows } = await db.query<{ totp_secret: string | null }>(
+    'SELECT totp_secret FROM accounts WHERE id = $1 AND totp_enabled_at IS NULL',
+    [accountId],
+  );
+  const secret = rows[0]?.totp_secret;
+  if (!secret) {
+    return null;
+  }
+
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    return null;
+  }
+
+  const { rowCount } = await db.query(
+    `
+    UPDATE accounts SET totp_enabled_at = NOW(), totp_last_step = $2
+    WHERE id = $1 AND totp_enabled_at IS NULL AND totp_secret = $3
+    `,
+    [accountId, step, secret],
+  );
+  if (!rowCount) {
+    return null;
+  }
+  return regenerateRecoveryCodes(accountId);
+}
+
+/**
+ * Отключает 2FA и удаляет коды восстановления. Возвращает false, если 2FA и так не была включена.
+ */
+export async function disableTwoFactor(accountId: string): Promise<boolean> {
+  const { rowCount } = await db.query(
+    `
+    UPDATE accounts SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+    WHERE id = $1 AND totp_secret IS NOT NULL
+    `,
+    [accountId],
+  );
+  await db.query('DELETE FROM recovery_codes WHERE account_id = $1', [accountId]);
+  return rowCount > 0;
+}
+
+/**
+ * Второй шаг входа: принимает код из приложения или неиспользованный код восстановления.
+ * Оба варианта «гасятся» атомарно, поэтому параллельные попытки с одним кодом не пройдут.
+ */
+export async function verifySecondFactor(accountId: string, code: string): Promise<boolean> {
+  const { rows } = await db.query<{ totp_secret: string | null }>(
+    'SELECT totp_secret FROM accounts WHERE id = $1 AND totp_enabled_at IS NOT NULL',
+    [accountId],
+  );
+  const secret = rows[0]?.totp_secret;
+  if (!secret) {
+    return false;
+  }
+
+  const step = verifyTotp(secret, code);
+  if (step !== null) {
+    const { rowCount } = await db.query(
+      `
+      UPDATE accounts SET totp_last_step = $2
+      WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)
+      `,
+      [accountId, step],
+    );
+    return rowCount > 0;
+  }
+
+  const { rowCount } = await db.query(
+    `
+    UPDATE recovery_codes SET used_at = NOW()
+    WHERE account_id = $1 AND code_hash = $2 AND used_at IS NULL
+    `,
+    [accountId, hashRecoveryCode(code)],
+  );
+  return rowCount > 0;
+}
+
+/**
+ * Для каких ролей 2FA обязательна. Роли без строки в role_security — необязательна.
+ */
+export async function listRolePolicies(): Promise<RolePolicies> {
+  const { rows } = await db.query<{ role: Role; require_2fa: boolean }>(
+    'SELECT role, require_2fa FROM role_security',
+  );
+  const policies = Object.fromEntries(ROLES.map((role) => [role, false])) as RolePolicies;
+  for (const row of rows) {
+    policies[row.role] = row.require_2fa;
+  }
+  return policies;
+}
+
+export async function setRolePolicy(role: Role, required: boolean): Promise<void> {
+  await db.query(
+    `
+    INSERT INTO role_security (role, require_2fa) VALUES ($1, $2)
+    ON CONFLICT (role) DO UPDATE SET require_2fa = EXCLUDED.require_2fa
+    `,
+    [role, required],
+  );
+}
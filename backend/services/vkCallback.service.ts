@@ -0,0 +1,266 @@
+/**
+ * Входящие события VK Callback API для сообщества: подтверждение сервера, секрет и сообщения.
+ *
+ * Как устроено:
+ * - parseVkMessageEvent — чистая функция: message_new / message_reply / message_edit → InboundMessage
+ *   без профиля. Её удобно проверять записанными событиями из backend/fixtures/vk.
+ * - Берём только личные диалоги (peer_id < 2e9): беседы сообщества панель не ведёт.
+ * - message_reply — ответ сообщества. Сообщения, отправленные из панели, уже сохранены с тем же
+ *   external_id (ID из messages.send), поэтому эхо дублей не создаёт; ответы из интерфейса VK сохраняются.
+ * - VK повторяет событие, пока не получит «ok»: event_id фиксируем в vk_callback_events до обработки
+ *   и снимаем, если обработка упала, — тогда повтор обработается заново.
+ * - Фото, документы и голосовые сохраняются вложениями со ссылкой на файл VK (скачивается при первом
+ *   просмотре); остальные вложения — пометкой о типе, если у сообщения нет текста.
+ * - Имя гостя в событии не приходит: для нового чата запрашиваем users.get (если задан VK_TOKEN).
+ */
+import { timingSafeEqual } from 'crypto';
+import type { Pool } from 'pg';
+
+import pool from '../db';
+import { VK_API_VERSION, vkApiUrl, vkToken } from '../config/platforms';
+import {
+  ingestInboundMessage,
+  type InboundMessage,
+  type InboundProfile,
+  type IngestResult,
+} from './inbound.service';
+import type { InboundAttachment } from './attachments.service';
+import type { VkAttachment, VkCallbackBody, VkMessage, VkUser } from '../types/vk';
+
+const db = pool as unknown as Pool;
+
+export const VK_PLATFORM = 'vk';
+
+/** peer_id бесед начинается с 2e9; меньше — личный диалог с пользователем. */
+const GROUP_CHAT_PEER_START = 2_000_000_000;
+
+/** Сколько дней помним обработанные event_id: VK ретраит событие не дольше нескольких часов. */
+const EVENT_RETENTION_DAYS = 3;
+
+const MESSAGE_EVENTS = new Set(['message_new', 'message_reply', 'message_edit']);
+
+/** Пометки для сообщений без текста — по типу первого вложения. */
+const ATTACHMENT_LABELS: Record<string, string> = {
+  photo: '[фото]',
+  sticker: '[стикер]',
+  audio_message: '[голосовое сообщение]',
+  audio: '[аудио]',
+  video: '[видео]',
+  doc: '[файл]',
+  link: '[ссылка]',
+  wall: '[запись со стены]',
+  market: '[товар]',
+  graffiti: '[граффити]',
+  gift: '[подарок]',
+};
+
+export type VkCallbackResult = IngestResult | 'ignored';
+
+/** Расширение документа VK → MIME; неизвестные отдаются как application/octet-stream. */
+const DOC_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  txt: 'text/plain',
+  zip: 'application/zip',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+};
+
+const toAttachment = (attachment: VkAttachment, messageId: number): InboundAttachment | null => {
+  const { photo, doc, audio_message: voice } = attachment;
+  if (attachment.type === 'photo' && photo?.sizes.length) {
+    const largest = photo.sizes.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+    return {
+      kind: 'photo',
+      fileName: `photo_${messageId}_${photo.id}.jpg`,
+      mimeType: 'image/jpeg',
+      sizeBytes: null,
+      sourceRef: largest.url,
+    };
+  }
+  if (attachment.type === 'doc' && doc?.url) {
+    const ext = doc.ext?.toLowerCase() ?? '';
+    return {
+      kind: 'document',
+      fileName: ext && !doc.title.toLowerCase().endsWith(`.${ext}`) ? `${doc.title}.${ext}` : doc.title,
+      mimeType: DOC_MIME_TYPES[ext] ?? 'application/octet-stream',
+      sizeBytes: doc.size ?? null,
+      sourceRef: doc.url,
+    };
+  }
+  if (attachment.type === 'audio_message' && voice?.link_ogg) {
+    return {
+      kind: 'voice',
+      fileName: `voice_${messageId}_${voice.id}.ogg`,
+      mimeType: 'audio/ogg',
+      sizeBytes: null,
+      sourceRef: voice.link_ogg,
+    };
+  }
+  return null;
+};
+
+const messageAttachments = (message: VkMessage): InboundAttachment[] =>
+  (message.attachments ?? [])
+    .map((attachment) => toAttachment(attachment, message.id))
+    .filter((attachment): attachment is InboundAttachment => attachment !== null);
+
+const messageText = (message: VkMessage, hasAttachments: boolean): string => {
+  if (message.text?.trim()) {
+    return message.text;
+  }
+  if (hasAttachments) {
+    return '';
+  }
+  const type = message.attachments?.[0]?.type;
+  return (type && ATTACHMENT_LABELS[type]) || '[сообщение без текста]';
+};
+
+export const isVkCallbackBody = (value: unknown): value is VkCallbackBody =>
+  typeof value === 'object' && value !== null && typeof (value as VkCallbackBody).type === 'string';
+
+/** message_new кладёт сообщение в object.message, остальные события — прямо в object. */
+const messageFrom = (body: VkCallbackBody): VkMessage | null => {
+  const object = body.object;
+  if (!object) {
+    return null;
+  }
+  const message = 'message' in object && object.message ? object.message : (object as VkMessage);
+  return typeof message.peer_id === 'number' ? message : null;
+};
+
+/**
+ * Событие → сообщение без профиля гостя. null — событие не о сообщении личного диалога.
+ */
+export function parseVkMessageEvent(body: unknown): Omit<InboundMessage, 'profile'> | null {
+  if (!isVkCallbackBody(body) || !MESSAGE_EVENTS.has(body.type)) {
+    return null;
+  }
+
+  const message = messageFrom(body);
+  if (!message || !message.id || message.peer_id <= 0 || message.peer_id >= GROUP_CHAT_PEER_START) {
+    return null;
+  }
+
+  const isEdit = body.type === 'message_edit';
+  const attachments = messageAttachments(message);
+  return {
+    platform: VK_PLATFORM,
+    externalChatId: message.peer_id,
+    externalId: message.id,
+    fromMe: body.type === 'message_reply' || message.out === 1,
+    text: messageText(message, attachments.length > 0),
+    date: new Date(message.date * 1000),
+    editedAt: isEdit ? new Date((message.update_time ?? message.date) * 1000) : null,
+    attachments,
+  };
+}
+
+const EMPTY_PROFILE: InboundProfile = { username: null, first_name: null, last_name: null };
+
+/**
+ * Профиль гостя для чата, который мы ещё не знаем по имени. Ошибка VK не мешает сохранить сообщение.
+ */
+async function loadProfile(userId: number): Promise<InboundProfile> {
+  const { rows } = await db.query<{ known: boolean }>(
+    `SELECT (first_name IS NOT NULL OR username IS NOT NULL) AS known
+     FROM chats WHERE chat_platform_key(platform) = chat_platform_key($1) AND external_chat_id = $2`,
+    [VK_PLATFORM, userId],
+  );
+  const token = vkToken();
+  if (rows[0]?.known || !token) {
+    return EMPTY_PROFILE;
+  }
+
+  try {
+    const params = new URLSearchParams({
+      v: VK_API_VERSION,
+      access_token: token,
+      user_ids: String(userId),
+      fields: 'screen_name',
+    });
+    const res = await fetch(vkApiUrl('users.get'), { method: 'POST', body: params });
+    const data = (await res.json()) as { response?: VkUser[]; error?: { error_msg?: string } };
+    const user = data.response?.[0];
+    if (!user) {
+      throw new Error(data.error?.error_msg || 'empty users.get response');
+    }
+    return {
+      username: user.screen_name ?? null,
+      first_name: user.first_name ?? null,
+      last_name: user.last_name ?? null,
+    };
+  } catch (error) {
+    console.warn('[vk] users.get failed for', userId, error instanceof Error ? error.message : error);
+    return EMPTY_PROFILE;
+  }
+}
+
+/** Помечает событие как принятое. false — это повтор уже обработанного события. */
+async function claimEvent(eventId: string, type: string): Promise<boolean> {
+  await db.query(
+    `DELETE FROM vk_callback_events WHERE received_at < NOW() - make_interval(days => $1)`,
+    [EVENT_RETENTION_DAYS],
+  );
+  const { rows } = await db.query<{ event_id: string }>(
+    `
+    INSERT INTO vk_callback_events (event_id, type) VALUES ($1, $2)
+    ON CONFLICT (event_id) DO NOTHING
+    RETURNING event_id
+    `,
+    [eventId, type],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Обрабатывает событие с сообщением. 'duplicate' — событие или сообщение уже были обработаны,
+ * 'ignored' — событие не о сообщении личного диалога.
+ */
+export async function handleVkCallback(body: VkCallbackBody): Promise<VkCallbackResult> {
+  const parsed = parseVkMessageEvent(body);
+  if (!parsed) {
+    return 'ignored';
+  }
+
+  const eventId = body.event_id;
+  if (eventId && !(await claimEvent(eventId, body.type))) {
+    return 'duplicate';
+  }
+
+  try {
+    const profile = parsed.fromMe ? EMPTY_PROFILE : await loadProfile(parsed.externalChatId);
+    return await ingestInboundMessage({ ...parsed, profile });
+  } catch (error) {
+    if (eventId) {
+      await db.query('DELETE FROM vk_callback_events WHERE event_id = $1', [eventId]);
+    }
+    throw error;
+  }
+}
+
+/** Приём событий включён: заданы секрет и строка подтверждения сервера. */
+export const isVkCallbackConfigured = (): boolean =>
+  Boolean(process.env.VK_CALLBACK_SECRET && process.env.VK_CONFIRMATION_CODE);
+
+/** Событие от нашего сообщества (если VK_GROUP_ID задан). */
+export const isExpectedVkGroup = (groupId: unknown): boolean => {
+  const expected = process.env.VK_GROUP_ID;
+  return !expected || String(groupId) === expected.trim();
+};
+
+/**
+ * Сверяет поле secret события с VK_CALLBACK_SECRET за постоянное время.
+ */
+export function isValidVkSecret(secret: unknown): boolean {
+  const expected = process.env.VK_CALLBACK_SECRET;
+  if (!expected || typeof secret !== 'string') {
+    return false;
+  }
+  const a = Buffer.from(secret);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
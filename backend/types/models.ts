@@ -38,6 +38,29 @@ export interface MessageRecord {
   from_me: boolean;
   text: string;
   date: string | Date | null;
+  /** ID сообщения во внешнем канале (Telegram message_id); null — создано в панели или импортом. */
+  external_id?: string | null;
+  edited_at?: string | Date | null;
+  /** Статус доставки исходящего: pending — отправляется, failed — платформа отказала (текст в error). */
+  status?: MessageStatus;
+  error?: string | null;
+  attachments?: AttachmentRecord[];
+}
+
+export type MessageStatus = 'pending' | 'sent' | 'failed';
+
+export type AttachmentKind = 'photo' | 'document' | 'voice';
+
+/** Вложение сообщения. Содержимое отдаёт GET /api/attachments/:id/file. */
+export interface AttachmentRecord {
+  id: number;
+  /** null — файл загружен оператором, но ещё не отправлен. */
+  message_id: number | null;
+  kind: AttachmentKind;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number | null;
+  created_at: string | Date;
 }
 
 export interface ChatRecord {
@@ -9,12 +9,24 @@ declare module 'pg' {
     values?: Params;
   }
 
+  /** Уведомление NOTIFY, пришедшее соединению с LISTEN. */
+  export interface Notification {
+    processId: number;
+    channel: string;
+    payload?: string;
+  }
+
   export interface PoolClient {
     query<Row = unknown, Params extends ReadonlyArray<unknown> = ReadonlyArray<unknown>>(
       queryText: string | QueryConfig<Params>,
       values?: Params,
     ): Promise<QueryResult<Row>>;
-    release(err?: Error): void;
+    /** err (или true) — соединение сломано: пул закрывает его, а не возвращает в оборот. */
+    release(err?: Error | boolean): void;
+    on(event: 'notification', listener: (message: Notification) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+    on(event: 'end', listener: () => void): this;
+    removeListener(event: 'notification', listener: (message: Notification) => void): this;
   }
 
   export interface Pool {
@@ -24,6 +36,9 @@ declare module 'pg' {
     ): Promise<QueryResult<Row>>;
     end(): Promise<void>;
     connect(): Promise<PoolClient>;
+    readonly totalCount: number;
+    readonly idleCount: number;
+    readonly waitingCount: number;
   }
 
   export const Pool: {
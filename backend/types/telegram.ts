@@ -0,0 +1,74 @@
+/**
+ * Минимальные типы Telegram Bot API (https://core.telegram.org/bots/api#update) —
+ * только поля, которые читает приём входящих сообщений.
+ */
+
+export interface TelegramUser {
+  id: number;
+  is_bot?: boolean;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: 'private' | 'group' | 'supergroup' | 'channel';
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+  title?: string;
+}
+
+/** Размер фото: в массиве photo от меньшего к большему. */
+export interface TelegramPhotoSize {
+  file_id: string;
+  file_unique_id: string;
+  width: number;
+  height: number;
+  file_size?: number;
+}
+
+/** document / voice / audio — общие поля файла. */
+export interface TelegramFile {
+  file_id: string;
+  file_unique_id: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+  duration?: number;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  date: number;
+  edit_date?: number;
+  chat: TelegramChat;
+  from?: TelegramUser;
+  text?: string;
+  caption?: string;
+  photo?: TelegramPhotoSize[];
+  sticker?: unknown;
+  voice?: TelegramFile;
+  audio?: TelegramFile;
+  video?: unknown;
+  video_note?: unknown;
+  document?: TelegramFile;
+  location?: unknown;
+  contact?: unknown;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  edited_message?: TelegramMessage;
+}
+
+/** Ответ Bot API: result при ok, иначе description и error_code. */
+export interface TelegramApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+  parameters?: { retry_after?: number };
+}
@@ -0,0 +1,76 @@
+/**
+ * Минимальные типы VK Callback API (https://dev.vk.com/ru/api/callback/getting-started) —
+ * только поля, которые читает приём сообщений сообщества.
+ */
+
+export interface VkPhotoSize {
+  type: string;
+  width: number;
+  height: number;
+  url: string;
+}
+
+/**
+ * Вложение сообщения: объект лежит в поле с именем типа. Описаны только те, что сохраняются файлами.
+ */
+export interface VkAttachment {
+  type: string;
+  photo?: { id: number; sizes: VkPhotoSize[] };
+  doc?: { id: number; title: string; ext: string; size: number; url: string };
+  audio_message?: { id: number; duration: number; link_ogg: string; link_mp3?: string };
+}
+
+export interface VkMessage {
+  id: number;
+  date: number;
+  /** Время правки (для message_edit). */
+  update_time?: number;
+  peer_id: number;
+  from_id: number;
+  /** 1 — исходящее сообщение сообщества. */
+  out?: 0 | 1;
+  text: string;
+  conversation_message_id?: number;
+  attachments?: VkAttachment[];
+}
+
+export type VkCallbackType = 'confirmation' | 'message_new' | 'message_reply' | 'message_edit' | (string & {});
+
+export interface VkCallbackBody {
+  type: VkCallbackType;
+  group_id: number;
+  event_id?: string;
+  secret?: string;
+  /** message_new: { message, client_info }; message_reply / message_edit: сам объект сообщения. */
+  object?: { message?: VkMessage } | VkMessage;
+}
+
+export interface VkUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  screen_name?: string;
+}
+
+/** Ответ метода VK API: response при успехе, иначе error. */
+export interface VkApiResponse<T> {
+  response?: T;
+  error?: { error_code: number; error_msg: string };
+}
+
+/** groups.getLongPollServer. */
+export interface VkLongPollServer {
+  key: string;
+  server: string;
+  ts: string;
+}
+
+/**
+ * Ответ Bots Long Poll: updates в том же формате, что события Callback API (без secret).
+ * failed: 1 — история устарела (берём новый ts), 2 — истёк key, 3 — потеряна вся информация.
+ */
+export interface VkLongPollResponse {
+  ts?: string;
+  updates?: VkCallbackBody[];
+  failed?: 1 | 2 | 3;
+}
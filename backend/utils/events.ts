@@ -1,122 +1,218 @@
 /**
  * Мини-брокер Server-Sent Events: управляет подписчиками и отправляет события
  * в реальном времени для разных разделов админ-панели.
+ *
+ * - У каждого события есть id (поле `id:` SSE). Последние события хранятся в кольцевом буфере
+ *   в порядке прихода из шины: клиент, переподключаясь с Last-Event-ID, получает всё, что пришло
+ *   после этого события. Сравнивать id числами нельзя: с EVENT_BUS=postgres id выдаётся до COMMIT,
+ *   и событие с меньшим id может прийти позже.
+ * - Топики соединения ограничены правами роли: без messages:read не придут сообщения и т.д.
+ * - broadcast() не пишет в соединения сам, а публикует в шину событий (services/eventBus):
+ *   с EVENT_BUS=postgres событие доходит до SSE-клиентов всех экземпляров бэкенда.
  */
 import type { Request, Response } from "express";
 
+import { getEventBus, type BusEvent } from "../services/eventBus";
+import { hasPermission, type Permission } from "./permissions";
+
+export const ALL_TOPIC = "all";
+
+/**
+ * Право, без которого топик не отдаётся. Топикам не из списка достаточно events:read.
+ */
+const TOPIC_PERMISSIONS: Record<string, Permission> = {
+  chats: "chats:read",
+  messages: "messages:read",
+  orders: "orders:read",
+  reservations: "reserves:read",
+};
+
 /**
- * Храним подписчиков в карте: ключ — название топика, значение — набор HTTP-ответов.
+ * Сколько последних событий хранить для повтора после переподключения.
  */
-const subscribers = new Map<string, Set<Response>>();
+const REPLAY_SIZE = Math.max(0, Number(process.env.SSE_REPLAY_SIZE) || 1000);
 
-export const ALL_TOPIC = "all";
+const PING_INTERVAL_MS = 25_000;
+
+interface StoredEvent {
+  id: number;
+  topic: string;
+  frame: string;
+}
+
+interface Subscriber {
+  res: Response;
+  topics: ReadonlySet<string>;
+  role: unknown;
+}
+
+const subscribers = new Set<Subscriber>();
 
 /**
- * Регистрирует подписчика для указанного топика.
+ * Id последнего по времени прихода события из шины (id выдаёт шина). 0 — событий ещё не было:
+ * любой Last-Event-ID клиента тогда не найдётся в истории и получит reset.
  */
-const addSubscriber = (topic: string, res: Response): void => {
-  const set = subscribers.get(topic);
-  if (set) {
-    set.add(res);
+let lastEventId = 0;
+
+/** Кольцевой буфер последних событий: head — место следующей записи. */
+const history: StoredEvent[] = [];
+let historyHead = 0;
+
+const remember = (event: StoredEvent): void => {
+  if (REPLAY_SIZE === 0) return;
+  if (history.length < REPLAY_SIZE) {
+    history.push(event);
     return;
   }
-  subscribers.set(topic, new Set([res]));
+  history[historyHead] = event;
+  historyHead = (historyHead + 1) % REPLAY_SIZE;
+};
+
+/** События буфера от старых к новым. */
+const historyInOrder = (): StoredEvent[] =>
+  history.length < REPLAY_SIZE
+    ? history
+    : [...history.slice(historyHead), ...history.slice(0, historyHead)];
+
+const canReadTopic = (role: unknown, topic: string): boolean => {
+  const permission = TOPIC_PERMISSIONS[topic];
+  return !permission || hasPermission(role, permission);
+};
+
+const wants = (sub: Subscriber, topic: string): boolean =>
+  (sub.topics.has(topic) || sub.topics.has(ALL_TOPIC)) && canReadTopic(sub.role, topic);
+
+const formatEvent = (topic: string, data: unknown, id?: number): string =>
+  (id === undefined ? "" : `id: ${id}\n`) +
+  `event: ${topic}\n` +
+  `data: ${JSON.stringify(data ?? {})}\n\n`;
+
+const write = (res: Response, frame: string): void => {
+  try {
+    res.write(frame);
+  } catch {
+    // соединение разорвано — пропускаем, подписчика уберёт обработчик close
+  }
 };
 
 /**
- * Удаляет подписчика и чистит карту, когда слушателей больше нет.
+ * Событие из шины: запоминаем для повтора и отправляем слушателям топика (и общего канала ALL),
+ * у которых хватает прав.
  */
-const removeSubscriber = (topic: string, res: Response): void => {
-  const set = subscribers.get(topic);
-  if (!set) return;
-  set.delete(res);
-  if (set.size === 0) {
-    subscribers.delete(topic);
+const deliver = ({ id, topic, data }: BusEvent): void => {
+  lastEventId = id;
+  const event: StoredEvent = { id, topic, frame: formatEvent(topic, data, id) };
+  remember(event);
+
+  for (const sub of subscribers) {
+    if (wants(sub, topic)) write(sub.res, event.frame);
   }
 };
 
 /**
- * Отправляет событие всем слушателям конкретного топика и общему каналу ALL.
+ * Шина потеряла часть событий: повторять нечего — клиенты получают reset и перечитывают данные.
+ */
+const resetAll = (): void => {
+  history.length = 0;
+  historyHead = 0;
+  const frame = formatEvent("reset", { lastEventId });
+  for (const sub of subscribers) write(sub.res, frame);
+};
+
+let listening = false;
+
+/**
+ * Подписывает процесс на шину событий. Вызывается при старте HTTP-сервера, чтобы буфер повтора
+ * наполнялся ещё до первого клиента, и на всякий случай при подключении клиента.
+ * Процессы без SSE (воркер npm run ingest) только публикуют и не подписываются.
+ */
+export const listenEvents = (): void => {
+  if (listening) return;
+  listening = true;
+  getEventBus().subscribe(deliver, resetAll);
+};
+
+/**
+ * Публикует событие топика для SSE-клиентов (всех экземпляров — при EVENT_BUS=postgres).
+ * Не ждёт доставки: ошибка шины логируется и не ломает вызывающую операцию.
  */
 export const broadcast = (topic: string, data: unknown): void => {
-  const line =
-    `event: ${topic}
-` +
-    `data: ${JSON.stringify(data ?? {})}
-
-`;
-
-  const direct = subscribers.get(topic);
-  if (direct) {
-    for (const res of direct) {
-      try {
-        res.write(line);
-      } catch {
-        // соединение разорвано — пропускаем
-      }
-    }
-  }
+  getEventBus()
+    .publish(topic, data)
+    .catch((error: unknown) => console.error("Event publish failed:", error));
+};
 
-  const all = subscribers.get(ALL_TOPIC);
-  if (all) {
-    for (const res of all) {
-      try {
-        res.write(line);
-      } catch {
-        // соединение разорвано — пропускаем
-      }
-    }
+/**
+ * Id последнего полученного клиентом события: заголовок Last-Event-ID (его шлёт EventSource при
+ * автоматическом переподключении) или ?lastEventId= (новое соединение с новым билетом).
+ */
+const readLastEventId = (req: Request): number | null => {
+  const raw = req.get("Last-Event-ID") ?? req.query.lastEventId;
+  const id = Number(typeof raw === "string" ? raw.trim() : NaN);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * Досылает события, пришедшие после события since. Если since в буфере нет (вытеснено или
+ * неизвестный id), отправляет reset: клиент должен перечитать данные целиком.
+ */
+const replay = (sub: Subscriber, since: number): void => {
+  if (since === lastEventId) return;
+  const events = historyInOrder();
+  const position = events.findIndex((event) => event.id === since);
+  if (position === -1) {
+    write(sub.res, formatEvent("reset", { lastEventId }));
+    return;
+  }
+  for (const event of events.slice(position + 1)) {
+    if (wants(sub, event.topic)) write(sub.res, event.frame);
   }
 };
 
 /**
  * SSE-эндпоинт: регистрирует клиента и периодически отправляет ping,
  * чтобы не засыпало соединение. При закрытии убирает подписчика.
+ * Запрошенные топики, на которые у роли нет права, отбрасываются; если не осталось ни одного — 403.
  */
 export const sseHandler = (req: Request, res: Response): void => {
-  res.set({
-    "Content-Type": "text/event-stream",
-    "Cache-Control": "no-cache, no-transform",
-    Connection: "keep-alive",
-    "X-Accel-Buffering": "no",
-  });
-  res.flushHeaders?.();
-
-  const topicsParam = String(req.query.topics ?? ALL_TOPIC).trim();
-  const topics = topicsParam
+  const role = req.user?.role;
+  const requested = String(req.query.topics ?? ALL_TOPIC)
     .split(",")
     .map((t) => t.trim())
     .filter((t) => t.length > 0);
+  if (requested.length === 0) {
+    requested.push(ALL_TOPIC);
+  }
 
+  const topics = requested.filter((topic) => topic === ALL_TOPIC || canReadTopic(role, topic));
   if (topics.length === 0) {
-    topics.push(ALL_TOPIC);
+    res.status(403).json({ error: "Forbidden" });
+    return;
   }
 
-  for (const topic of topics) addSubscriber(topic, res);
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders?.();
 
-  res.write(`event: ready
-`);
-  res.write(`data: ${JSON.stringify({ topics })}
+  listenEvents();
+  const sub: Subscriber = { res, topics: new Set(topics), role };
 
-`);
+  write(res, formatEvent("ready", { topics, lastEventId }));
+  const since = readLastEventId(req);
+  if (since !== null) replay(sub, since);
+  subscribers.add(sub);
 
   const ping = setInterval(() => {
-    try {
-      res.write(
-        `event: ping
-` +
-          `data: ${Date.now()}
-
-`
-      );
-    } catch {
-      // если запись не удалась, ждём очистки onClose
-    }
-  }, 25_000);
+    write(res, formatEvent("ping", Date.now()));
+  }, PING_INTERVAL_MS);
 
   const onClose = (): void => {
     clearInterval(ping);
-    for (const topic of topics) removeSubscriber(topic, res);
+    subscribers.delete(sub);
     try {
       res.end();
     } catch {
@@ -5,13 +5,14 @@
 import jwt from 'jsonwebtoken';
 
 /**
- * Структура полезной нагрузки нашего токена (минимум id, опционально email/role).
+ * Структура полезной нагрузки нашего токена (минимум id, опционально email/role и sid — id сеанса).
  * Наследуемся от JwtPayload, чтобы совместить собственные поля и стандартные (exp, iat и т.д.).
  */
 export interface AuthTokenPayload extends jwt.JwtPayload {
   id: string | number;
   email?: string;
   role?: string;
+  sid?: string;
   [key: string]: unknown;
 }
 
@@ -21,29 +22,83 @@ export interface AuthTokenPayload extends jwt.JwtPayload {
 const SECRET: jwt.Secret = process.env.JWT_SECRET ?? 'dev_secret';
 
 /**
- * Время жизни токена: либо строковое обозначение ("7d"), либо число секунд.
+ * Время жизни access-токена: либо строковое обозначение ("15m"), либо число секунд.
+ * Токен короткоживущий — длинную сессию держит refresh-токен (services/sessions.service.ts).
  */
-const EXPIRES_IN_RAW = process.env.JWT_EXPIRES;
-const EXPIRES_IN_VALUE =
-  EXPIRES_IN_RAW && EXPIRES_IN_RAW.trim().length > 0
-    ? (Number.isNaN(Number(EXPIRES_IN_RAW)) ? EXPIRES_IN_RAW : Number(EXPIRES_IN_RAW))
-    : undefined;
+const DEFAULT_EXPIRES_IN = '15m';
+const EXPIRES_IN_RAW = process.env.JWT_EXPIRES?.trim() || DEFAULT_EXPIRES_IN;
+const EXPIRES_IN_VALUE = Number.isNaN(Number(EXPIRES_IN_RAW)) ? EXPIRES_IN_RAW : Number(EXPIRES_IN_RAW);
 
-const SIGN_OPTIONS: jwt.SignOptions | undefined =
-  typeof EXPIRES_IN_VALUE === 'number' || typeof EXPIRES_IN_VALUE === 'string'
-    ? { expiresIn: EXPIRES_IN_VALUE as jwt.SignOptions['expiresIn'] }
-    : undefined;
+const SIGN_OPTIONS: jwt.SignOptions = {
+  expiresIn: EXPIRES_IN_VALUE as jwt.SignOptions['expiresIn'],
+};
 
 /**
  * Подписывает payload в JWT и возвращает строку-токен.
  */
 export const sign = (payload: AuthTokenPayload): string => {
-  return SIGN_OPTIONS ? jwt.sign(payload, SECRET, SIGN_OPTIONS) : jwt.sign(payload, SECRET);
+  return jwt.sign(payload, SECRET, SIGN_OPTIONS);
 };
 
 /**
  * Проверяет и декодирует токен. В случае ошибки библиотека бросит исключение (например, TokenExpiredError).
+ * Промежуточный токен входа (см. signChallenge) access-токеном не считается.
  */
 export const verify = (token: string): AuthTokenPayload => {
-  return jwt.verify(token, SECRET) as AuthTokenPayload;
+  const payload = jwt.verify(token, SECRET) as AuthTokenPayload;
+  if (payload.purpose !== undefined) {
+    throw new jwt.JsonWebTokenError('unexpected token purpose');
+  }
+  return payload;
+};
+
+const CHALLENGE_PURPOSE = '2fa';
+
+/**
+ * Промежуточный токен входа: пароль уже проверен, осталось ввести код второго фактора.
+ * Живёт 5 минут и годится только для POST /auth/login/2fa.
+ */
+export const signChallenge = (accountId: string): string => {
+  return jwt.sign({ id: accountId, purpose: CHALLENGE_PURPOSE }, SECRET, { expiresIn: '5m' });
+};
+
+/**
+ * Возвращает id аккаунта из промежуточного токена или null, если токен неверен/истёк.
+ */
+export const verifyChallenge = (token: string): string | null => {
+  try {
+    const payload = jwt.verify(token, SECRET) as jwt.JwtPayload;
+    return payload.purpose === CHALLENGE_PURPOSE && payload.id ? String(payload.id) : null;
+  } catch {
+    return null;
+  }
+};
+
+const STREAM_TICKET_PURPOSE = 'sse';
+
+/** Время жизни билета потока событий, секунды. */
+export const STREAM_TICKET_TTL_SEC = 60;
+
+/**
+ * Короткий билет для GET /api/events?ticket=…: EventSource не умеет передавать заголовок Authorization.
+ * Несёт id аккаунта и sid сеанса — при подключении сеанс проверяется так же, как для access-токена.
+ */
+export const signStreamTicket = (payload: Pick<AuthTokenPayload, 'id' | 'sid'>): string => {
+  return jwt.sign({ id: payload.id, sid: payload.sid, purpose: STREAM_TICKET_PURPOSE }, SECRET, {
+    expiresIn: STREAM_TICKET_TTL_SEC,
+  });
+};
+
+/**
+ * Возвращает payload билета потока или null, если билет неверен/истёк.
+ */
+export const verifyStreamTicket = (token: string): AuthTokenPayload | null => {
+  try {
+    const payload = jwt.verify(token, SECRET) as AuthTokenPayload;
+    return payload.purpose === STREAM_TICKET_PURPOSE && payload.id
+      ? { id: payload.id, sid: payload.sid }
+      : null;
+  } catch {
+    return null;
+  }
 };
@@ -0,0 +1,43 @@
+/**
+ * Хелперы паролей аккаунтов: хеширование, проверка минимальных требований и генерация временных паролей.
+ */
+import { randomBytes } from 'crypto';
+
+import bcrypt from 'bcryptjs';
+
+/**
+ * 10 раундов — тот же баланс безопасности и скорости, что и в utils/make-hash.js.
+ */
+const BCRYPT_ROUNDS = 10;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * bcrypt учитывает только первые 72 байта — более длинный «хвост» молча отбрасывался бы.
+ */
+const MAX_PASSWORD_BYTES = 72;
+
+export const hashPassword = (password: string): Promise<string> => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+/**
+ * Минимальная сложность: не короче MIN_PASSWORD_LENGTH, есть буква и цифра, не длиннее лимита bcrypt.
+ * Возвращает текст ошибки для пользователя или null, если пароль подходит.
+ */
+export const validatePassword = (password: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (Buffer.byteLength(password, 'utf8') > MAX_PASSWORD_BYTES) {
+    return `password must be at most ${MAX_PASSWORD_BYTES} bytes`;
+  }
+  if (!/\p{L}/u.test(password) || !/\d/.test(password)) {
+    return 'password must contain letters and digits';
+  }
+  return null;
+};
+
+/**
+ * Временный пароль для приглашения/сброса: 12 символов base64url (72 бита энтропии).
+ * Показывается администратору один раз — в БД хранится только хеш.
+ */
+export const generatePassword = (): string => randomBytes(9).toString('base64url');
@@ -0,0 +1,94 @@
+/**
+ * Ролевая модель: роли аккаунтов (accounts.role) и права, которые они дают.
+ * Единственный источник правды — и для middleware requirePermission, и для списка прав в /auth/me.
+ */
+
+export const ROLES = ['admin', 'manager', 'operator', 'analyst'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Права в формате `<ресурс>:<действие>`. Ресурсы совпадают с доменными роутерами /api/*.
+ */
+export const PERMISSIONS = [
+  'chats:read',
+  'chats:write',
+  'chats:delete',
+  'chats:assign',
+  'messages:read',
+  'messages:send',
+  'messages:write',
+  'messages:delete',
+  'orders:read',
+  'orders:write',
+  'orders:delete',
+  'reserves:read',
+  'reserves:write',
+  'reserves:delete',
+  'broadcasts:send',
+  'canned:read',
+  'canned:write',
+  'customers:read',
+  'customers:write',
+  'stats:read',
+  'events:read',
+  'accounts:manage',
+  'audit:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Матрица ролей:
+ * - admin — всё, включая управление аккаунтами и журнал аудита;
+ * - manager — полный доступ к данным, но не к аккаунтам и аудиту;
+ * - operator ведёт переписку и оформляет заказы/брони, но не удаляет данные, не запускает рассылки,
+ *   не распределяет чаты между другими (взять чат себе может), не правит шаблоны ответов
+ *   и не объединяет/разделяет профили гостей (видит их);
+ * - analyst видит только статистику.
+ */
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  manager: PERMISSIONS.filter(
+    (permission) => permission !== 'accounts:manage' && permission !== 'audit:read',
+  ),
+  operator: [
+    'chats:read',
+    'chats:write',
+    'messages:read',
+    'messages:send',
+    'orders:read',
+    'orders:write',
+    'reserves:read',
+    'reserves:write',
+    'canned:read',
+    'customers:read',
+    'stats:read',
+    'events:read',
+  ],
+  analyst: ['stats:read'],
+};
+
+/**
+ * Приводит значение из БД/токена к известной роли; неизвестная роль — null (никаких прав).
+ */
+export const normalizeRole = (value: unknown): Role | null => {
+  const s = String(value ?? '').trim().toLowerCase();
+  return (ROLES as readonly string[]).includes(s) ? (s as Role) : null;
+};
+
+/**
+ * Список прав роли (копия — вызывающий код может её менять).
+ */
+export const permissionsFor = (role: unknown): Permission[] => {
+  const normalized = normalizeRole(role);
+  return normalized ? [...ROLE_PERMISSIONS[normalized]] : [];
+};
+
+/**
+ * Есть ли у роли конкретное право.
+ */
+export const hasPermission = (role: unknown, permission: Permission): boolean => {
+  const normalized = normalizeRole(role);
+  return normalized ? ROLE_PERMISSIONS[normalized].includes(permission) : false;
+};
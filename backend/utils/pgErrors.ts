@@ -0,0 +1,16 @@
+/**
+ * Коды ошибок PostgreSQL, которые контроллеры разбирают явно (остальные уходят в 500).
+ */
+
+/** Нарушение уникальности: занятый email, shortcut и т. п. */
+export const PG_UNIQUE_VIOLATION = '23505';
+
+/** Значение не приводится к типу колонки (например, id не uuid). */
+export const PG_INVALID_TEXT = '22P02';
+
+interface PgError {
+  code?: string;
+}
+
+/** Код ошибки драйвера pg; undefined — ошибка не из PostgreSQL. */
+export const pgCode = (error: unknown): string | undefined => (error as PgError | null)?.code;
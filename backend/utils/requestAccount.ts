@@ -0,0 +1,5 @@
+/**
+ * id аккаунта из access-токена запроса (req.user, см. middlewares/auth); null — запрос без аккаунта.
+ */
+export const accountId = (req: { user?: { id?: unknown } | null }): string | null =>
+  req.user?.id != null ? String(req.user.id) : null;
@@ -0,0 +1,109 @@
+/**
+ * TOTP (RFC 6238) поверх HOTP (RFC 4226): HMAC-SHA1, 6 цифр, шаг 30 секунд —
+ * параметры по умолчанию, которые понимают Google Authenticator, 1Password, Яндекс Ключ и др.
+ * Реализовано на node:crypto, без сторонних зависимостей.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Сколько соседних шагов принимаем (±1 = ±30 секунд) — на случай расхождения часов телефона.
+ */
+const DRIFT_STEPS = 1;
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return out;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Новый секрет: 160 бит (длина выхода SHA-1, как советует RFC 4226) в base32.
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/** Номер 30-секундного шага для момента времени. */
+export const totpStep = (at: number = Date.now()): number =>
+  Math.floor(at / 1000 / TOTP_PERIOD_SECONDS);
+
+/** HOTP-код для шага (RFC 4226, dynamic truncation). */
+export const totpCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Проверяет код и возвращает шаг, которому он соответствует, или null.
+ * Шаг нужен вызывающему, чтобы не принять тот же код повторно (защита от replay).
+ */
+export const verifyTotp = (secret: string, code: string, at: number = Date.now()): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = totpStep(at);
+  for (let delta = -DRIFT_STEPS; delta <= DRIFT_STEPS; delta += 1) {
+    const expected = totpCode(secret, current + delta);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return current + delta;
+    }
+  }
+  return null;
+};
+
+/**
+ * otpauth:// URI для приложения-аутентификатора (формат Key Uri Format от Google).
+ * Из него же фронтенд может нарисовать QR-код.
+ */
+export const otpauthUri = (issuer: string, accountName: string, secret: string): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -28,6 +28,7 @@ import Protected from "./components/Protected";
 
 import AuthProvider from "./context/AuthContext";
 import { useAuth } from "./context/useAuth";
+import { SECTION_PERMISSIONS } from "./context/permissions";
 
 import ChatsPage from "./pages/chats/ChatsPage";
 import AnalyticsPage from "./pages/analytics/AnalyticsPage";
@@ -35,6 +36,7 @@ import BasePage from "./pages/database/DatabasePage";
 import MailingPage from "./pages/mailing/MailingPage";
 import LoginPage from "./pages/login/Login";
 import ProfilePage from "./pages/profile/ProfilePage";
+import AccountsPage from "./pages/accounts/AccountsPage";
 
 /* -------------------------------- Публичный guard --------------------------------
  * Если пользователь уже аутентифицирован — уводим его с /login на основную страницу.
@@ -116,11 +118,48 @@ function AppRoutes(): ReactElement {
           >
             {/* Домашний редирект на основную метрику/дашборд */}
             <Route index element={<Navigate to="/analytics" replace />} />
-            <Route path="chats" element={<ChatsPage />} />
-            <Route path="analytics" element={<AnalyticsPage />} />
-            <Route path="database" element={<BasePage />} />
-            <Route path="mailing" element={<MailingPage />} />
+            {/* Разделы закрыты по правам роли: без доступа — редирект в профиль */}
+            <Route
+              path="chats"
+              element={
+                <Protected anyOf={SECTION_PERMISSIONS.chats}>
+                  <ChatsPage />
+                </Protected>
+              }
+            />
+            <Route
+              path="analytics"
+              element={
+                <Protected anyOf={SECTION_PERMISSIONS.analytics}>
+                  <AnalyticsPage />
+                </Protected>
+              }
+            />
+            <Route
+              path="database"
+              element={
+                <Protected anyOf={SECTION_PERMISSIONS.database}>
+                  <BasePage />
+                </Protected>
+              }
+            />
+            <Route
+              path="mailing"
+              element={
+                <Protected anyOf={SECTION_PERMISSIONS.mailing}>
+                  <MailingPage />
+                </Protected>
+              }
+            />
             <Route path="profile" element={<ProfilePage />} />
+            <Route
+              path="accounts"
+              element={
+                <Protected anyOf={SECTION_PERMISSIONS.accounts}>
+                  <AccountsPage />
+                </Protected>
+              }
+            />
           </Route>
 
           {/* Любой неизвестный маршрут — к логину */}
@@ -2,6 +2,7 @@ import { type ReactElement } from "react";
 import { Navigate, useLocation } from "react-router-dom";
 
 import { useAuth } from "../context/useAuth";
+import type { Permission } from "../context/AuthContext.shared";
 
 /**
  * Компонент-гарда маршрутов (Protected).
@@ -15,7 +16,10 @@ import { useAuth } from "../context/useAuth";
  *    чтобы избежать «моргания» защищённого контента.
  * 2) Если пользователь не авторизован — делаем редирект на `/login` и передаём `state.from`
  *    с исходным маршрутом. Это позволяет после логина вернуть пользователя туда, куда он шёл.
- * 3) Если всё ок — отдаём `children` без изменений.
+ * 3) Если роль требует 2FA, а она не подключена — уводим в профиль: подключить её можно только там,
+ *    остальное API до этого отвечает 403.
+ * 4) Если передан `anyOf` и у роли нет ни одного из прав — уводим в профиль (он доступен всем).
+ * 5) Если всё ок — отдаём `children` без изменений.
  *
  * Нюансы (важные и неочевидные моменты):
  * - `state={{ from: location }}` — ключевая деталь для «возврата» после логина. На странице логина
@@ -30,10 +34,15 @@ import { useAuth } from "../context/useAuth";
 interface ProtectedProps {
   /** Рендер одного дочернего элемента — защищаемый экран/раздел */
   children: ReactElement;
+  /** Права, хотя бы одно из которых нужно для входа в раздел (см. `context/permissions.ts`) */
+  anyOf?: readonly Permission[];
 }
 
-export default function Protected({ children }: Readonly<ProtectedProps>): ReactElement | null {
-  const { user, ready } = useAuth();
+export default function Protected({
+  children,
+  anyOf,
+}: Readonly<ProtectedProps>): ReactElement | null {
+  const { user, ready, can } = useAuth();
   const location = useLocation();
 
   if (!ready) {
@@ -46,6 +55,15 @@ export default function Protected({ children }: Readonly<ProtectedProps>): React
     return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
+  if (user.twoFactorSetupRequired && location.pathname !== "/profile") {
+    return <Navigate to="/profile" replace />;
+  }
+
+  if (anyOf && !anyOf.some(can)) {
+    // Авторизован, но раздел закрыт для роли: сервер всё равно ответит 403
+    return <Navigate to="/profile" replace />;
+  }
+
   // Авторизован: пропускаем к защищённому контенту
   return children;
 }
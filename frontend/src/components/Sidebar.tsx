@@ -2,12 +2,16 @@ import { useCallback, useEffect, useMemo, useState, type ReactElement } from "re
 import { NavLink, useLocation } from "react-router-dom";
 
 import { useAuth } from "../context/useAuth";
+import type { Permission } from "../context/AuthContext.shared";
+import { SECTION_PERMISSIONS } from "../context/permissions";
+import { useUnreadTotals } from "../hooks/useUnreadTotals";
 
 import icChats from "../assets/sidebar/sidebar_chats_normal.svg";
 import icAnalytics from "../assets/sidebar/sidebar_analytics_normal.svg";
 import icDatabase from "../assets/sidebar/sidebar_data_normal.svg";
 import icMailing from "../assets/sidebar/sidebar_mailing_normal.svg";
 import icProfile from "../assets/sidebar/sidebar_profile_normal.svg";
+import icAccounts from "../assets/sidebar/sidebar_settings_normal.svg";
 import accountIcon from "../assets/sidebar/sidebar_account.svg";
 
 /**
@@ -27,6 +31,7 @@ import accountIcon from "../assets/sidebar/sidebar_account.svg";
  * - Фокус/клавиатура остаются предсказуемыми: не блокируем TAB, но уводим шторку за пределы экрана, когда она закрыта.
  *
  * Неочевидное:
+ * - У пункта «Чаты» — бейдж с числом чатов, где есть непрочитанные входящие (useUnreadTotals).
  * - «Бегунок» активного пункта (highlight/thumb) — это абсолютно позиционированный блок,
  *   чей translateY анимируется по индексу текущего маршрута.
  * - Размеры айтемов вынесены в константы, чтобы не плодить «магические числа» и не ломать синхронизацию высот в CSS.
@@ -41,6 +46,7 @@ interface SidebarItem {
   to: string;
   label: string;
   icon: string; // путь к svg (как к статике)
+  anyOf?: readonly Permission[]; // пункт виден, если есть хотя бы одно из прав (нет поля — виден всем)
 }
 
 // Неболтливый дефолтный обработчик, когда onClose не передан
@@ -53,8 +59,9 @@ const BUTTON_HEIGHT = 72 as const; // высота кликабельной об
 const THUMB_RADIUS = 18 as const; // округление бегунка
 
 export default function Sidebar({ open = false, onClose = noop }: SidebarProps): ReactElement {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const location = useLocation();
+  const unread = useUnreadTotals(can("chats:read"));
 
   // Определяем мобильный режим через matchMedia — важно для корректных ARIA-ролей
   const [isMobile, setIsMobile] = useState<boolean>(() => {
@@ -98,16 +105,20 @@ export default function Sidebar({ open = false, onClose = noop }: SidebarProps):
     return () => window.removeEventListener("keydown", onKey);
   }, [open, onClose]);
 
-  // Массив пунктов навигации
+  // Массив пунктов навигации: разделы, на которые у роли нет прав, не показываем вовсе
   const items = useMemo<SidebarItem[]>(
-    () => [
-      { to: "/analytics", label: "Аналитика", icon: icAnalytics },
-      { to: "/chats", label: "Чаты", icon: icChats },
-      { to: "/database", label: "Данные", icon: icDatabase },
-      { to: "/mailing", label: "Рассылка", icon: icMailing },
-      { to: "/profile", label: "Профиль", icon: icProfile },
-    ],
-    []
+    () =>
+      (
+        [
+          { to: "/analytics", label: "Аналитика", icon: icAnalytics, anyOf: SECTION_PERMISSIONS.analytics },
+          { to: "/chats", label: "Чаты", icon: icChats, anyOf: SECTION_PERMISSIONS.chats },
+          { to: "/database", label: "Данные", icon: icDatabase, anyOf: SECTION_PERMISSIONS.database },
+          { to: "/mailing", label: "Рассылка", icon: icMailing, anyOf: SECTION_PERMISSIONS.mailing },
+          { to: "/profile", label: "Профиль", icon: icProfile },
+          { to: "/accounts", label: "Аккаунты", icon: icAccounts, anyOf: SECTION_PERMISSIONS.accounts },
+        ] satisfies SidebarItem[]
+      ).filter((item) => !item.anyOf || item.anyOf.some(can)),
+    [can]
   );
 
   // Определяем активный пункт по текущему pathname
@@ -243,6 +254,15 @@ export default function Sidebar({ open = false, onClose = noop }: SidebarProps):
                       >
                         {item.label}
                       </span>
+                      {item.to === "/chats" && unread && unread.chats > 0 ? (
+                        <span
+                          className="ml-auto mr-2 min-w-[22px] h-[22px] px-1.5 rounded-full bg-[#46d9bc]/80 text-[#0b1533] text-[12px] font-semibold leading-[22px] text-center"
+                          title={`Непрочитанных сообщений: ${unread.messages}`}
+                          aria-label={`Чатов с непрочитанными: ${unread.chats}`}
+                        >
+                          {unread.chats > 99 ? "99+" : unread.chats}
+                        </span>
+                      ) : null}
                     </NavLink>
                   </li>
                 );
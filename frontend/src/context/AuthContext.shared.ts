@@ -21,6 +21,35 @@
 
 import { createContext } from "react";
 
+/**
+ * Права, которые бэкенд выдаёт роли (`backend/utils/permissions.ts`), формат `<ресурс>:<действие>`.
+ * Список приходит с `/auth/me` и служит только для UI: реальную проверку делает сервер.
+ */
+export type Permission =
+  | "chats:read"
+  | "chats:write"
+  | "chats:delete"
+  | "chats:assign"
+  | "messages:read"
+  | "messages:send"
+  | "messages:write"
+  | "messages:delete"
+  | "orders:read"
+  | "orders:write"
+  | "orders:delete"
+  | "reserves:read"
+  | "reserves:write"
+  | "reserves:delete"
+  | "broadcasts:send"
+  | "canned:read"
+  | "canned:write"
+  | "customers:read"
+  | "customers:write"
+  | "stats:read"
+  | "events:read"
+  | "accounts:manage"
+  | "audit:read";
+
 /**
  * Базовая форма пользователя.
  * Подсказка: для UI стоит завести утилиту, которая вернёт "отображаемое имя"
@@ -35,17 +64,45 @@ export interface AuthUser {
   full_name?: string;
   name?: string;
   role?: string;
+  permissions?: Permission[];
   is_active?: boolean | null;
   created_at?: string | number | Date | null;
   last_login_at?: string | number | Date | null;
+  /** Роль требует 2FA, а она не подключена: до подключения доступен только профиль. */
+  twoFactorSetupRequired?: boolean;
   [key: string]: unknown;
 }
 
+/**
+ * Итог первого шага входа: либо пользователь уже вошёл, либо нужен код второго фактора —
+ * тогда `challengeToken` передаётся в `completeTwoFactor` вместе с кодом.
+ */
+export type LoginResult =
+  | { twoFactorRequired: false; user: AuthUser }
+  | { twoFactorRequired: true; challengeToken: string };
+
+/**
+ * Вход временно заблокирован после серии неудачных попыток (HTTP 429).
+ * `retryAfter` — сколько секунд ждать; страница входа показывает обратный отсчёт.
+ */
+export class LoginThrottledError extends Error {
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = "LoginThrottledError";
+    this.retryAfter = retryAfter;
+  }
+}
+
 /**
  * Значение контекста аутентификации.
  * - `ready` — флаг, что инициализация (проверка сессии/токена) завершена.
- * - `login` — асинхронный вход; возвращает актуальные данные пользователя.
+ * - `login` — асинхронный вход; возвращает пользователя или запрос второго фактора.
+ * - `completeTwoFactor` — второй шаг входа: код из приложения или код восстановления.
  * - `logout` — выход и очистка сессии.
+ * - `updateUser` — подменить данные пользователя после правки профиля (без повторного `/auth/me`).
+ * - `can` — есть ли у текущего пользователя право (для скрытия/блокировки действий в UI).
  */
 export type AuthStatus = "initializing" | "logging-in" | "authenticated" | "unauthenticated";
 
@@ -53,8 +110,11 @@ export interface AuthContextValue {
   user: AuthUser | null;
   ready: boolean;
   status: AuthStatus;
-  login: (email: string, password: string) => Promise<AuthUser>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactor: (challengeToken: string, code: string) => Promise<AuthUser>;
   logout: () => void;
+  updateUser: (user: AuthUser) => void;
+  can: (permission: Permission) => boolean;
 }
 
 /**
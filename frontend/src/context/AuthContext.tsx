@@ -27,9 +27,29 @@ import {
 } from "react";
 import type { AxiosError } from "axios";
 
-import api from "../services/api";
-import { AuthContext, type AuthUser, type AuthStatus } from "./AuthContext.shared";
-export type { AuthUser, AuthContextValue, AuthStatus } from "./AuthContext.shared";
+import api, {
+  AUTH_TOKEN_KEY,
+  REFRESH_TOKEN_KEY,
+  UNAUTHORIZED_EVENT,
+  clearAuthTokens,
+  refreshAuthToken,
+  storeAuthTokens,
+} from "../services/api";
+import {
+  AuthContext,
+  LoginThrottledError,
+  type AuthUser,
+  type AuthStatus,
+  type LoginResult,
+  type Permission,
+} from "./AuthContext.shared";
+export type {
+  AuthUser,
+  AuthContextValue,
+  AuthStatus,
+  LoginResult,
+  Permission,
+} from "./AuthContext.shared";
 
 // --- Предзагрузка критичных данных (дешёвая и безопасная) --------------------
 
@@ -84,9 +104,16 @@ interface AuthMeResponse {
 
 interface AuthLoginResponse {
   token: string;
+  refreshToken: string;
   user: AuthUser;
 }
 
+/** Ответ /auth/login для аккаунта с 2FA: пароль верен, нужен код. */
+interface AuthChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
 // --- Провайдер контекста аутентификации --------------------------------------
 
 export default function AuthProvider({ children }: AuthProviderProps): ReactElement {
@@ -96,7 +123,8 @@ export default function AuthProvider({ children }: AuthProviderProps): ReactElem
 
   /**
    * Первичная инициализация:
-   * 1) пробуем получить текущую сессию (`/auth/me`);
+   * 1) пробуем получить текущую сессию (`/auth/me`); если access-токен уже истёк,
+   *    один раз обновляем его refresh-токеном и спрашиваем снова;
    * 2) если пользователь есть — подгружаем критичные данные до `ready=true`;
    * 3) в любом случае выставляем `ready=true`, чтобы UI мог отобразить состояние.
    *
@@ -109,9 +137,13 @@ export default function AuthProvider({ children }: AuthProviderProps): ReactElem
     (async () => {
       setStatus("initializing");
       try {
-        const { data } = await api.get<AuthMeResponse>("/auth/me", {
-          signal: controller.signal,
-        });
+        const fetchMe = () =>
+          api.get<AuthMeResponse>("/auth/me", { signal: controller.signal });
+
+        let { data } = await fetchMe();
+        if (!data.user && localStorage.getItem(REFRESH_TOKEN_KEY) && (await refreshAuthToken())) {
+          ({ data } = await fetchMe());
+        }
 
         const nextUser = data.user ?? null;
         setUser(nextUser);
@@ -142,46 +174,90 @@ export default function AuthProvider({ children }: AuthProviderProps): ReactElem
   }, []);
 
   /**
-   * Вход: сохраняем токен, актуализируем пользователя, ждем критичные данные.
+   * Общая часть обоих шагов входа: сохраняем токены, актуализируем пользователя, ждем критичные данные.
+   * Если сервер запросил второй фактор — возвращаем challenge, статус остаётся «не авторизован».
    * Ошибка — бросаем человеко-понятное сообщение (без деталей бэкенда).
   */
-  const login = useCallback(async (email: string, password: string): Promise<AuthUser> => {
-    setReady(false);
-    setStatus("logging-in");
-    let succeeded = false;
-    try {
-      const { data } = await api.post<AuthLoginResponse>("/auth/login", { email, password });
-
-      // Если выполняется в браузере — сохраняем токен.
-      if (typeof window !== "undefined") {
-        localStorage.setItem("auth_token", data.token);
+  const runLogin = useCallback(
+    async (
+      request: () => Promise<AuthLoginResponse | AuthChallengeResponse>
+    ): Promise<LoginResult> => {
+      setReady(false);
+      setStatus("logging-in");
+      let nextStatus: AuthStatus = "unauthenticated";
+      try {
+        const data = await request();
+        if ("twoFactorRequired" in data) {
+          return { twoFactorRequired: true, challengeToken: data.challengeToken };
+        }
+
+        // Сохраняем пару токенов: access для запросов, refresh — для его обновления.
+        storeAuthTokens(data);
+
+        setUser(data.user);
+        await preloadCriticalData();
+        nextStatus = "authenticated";
+        return { twoFactorRequired: false, user: data.user };
+      } catch (e) {
+        const err = e as AxiosError<{ error?: string; retryAfter?: number }>;
+        if (err.response?.status === 429) {
+          const retryAfter =
+            Number(err.response.data?.retryAfter ?? err.response.headers["retry-after"]) || 60;
+          throw new LoginThrottledError("Слишком много попыток входа.", retryAfter);
+        }
+        const message =
+          err.response?.data?.error ?? "Не удалось авторизоваться, попробуйте ещё раз.";
+        throw new Error(message);
+      } finally {
+        setReady(true);
+        setStatus(nextStatus);
       }
+    },
+    []
+  );
 
-      setUser(data.user);
-      await preloadCriticalData();
-      succeeded = true;
-      return data.user;
-    } catch (e) {
-      setStatus("unauthenticated");
-      const err = e as AxiosError<{ error?: string }>;
-      const message =
-        err.response?.data?.error ?? "Не удалось авторизоваться, попробуйте ещё раз.";
-      throw new Error(message);
-    } finally {
-      setReady(true);
-      if (succeeded) {
-        setStatus("authenticated");
+  /** Вход по email и паролю (первый шаг). */
+  const login = useCallback(
+    (email: string, password: string): Promise<LoginResult> =>
+      runLogin(async () => {
+        const { data } = await api.post<AuthLoginResponse | AuthChallengeResponse>("/auth/login", {
+          email,
+          password,
+        });
+        return data;
+      }),
+    [runLogin]
+  );
+
+  /** Второй шаг входа для аккаунтов с 2FA. */
+  const completeTwoFactor = useCallback(
+    async (challengeToken: string, code: string): Promise<AuthUser> => {
+      const result = await runLogin(async () => {
+        const { data } = await api.post<AuthLoginResponse>("/auth/login/2fa", {
+          challengeToken,
+          code,
+        });
+        return data;
+      });
+      if (result.twoFactorRequired) {
+        throw new Error("Не удалось авторизоваться, попробуйте ещё раз.");
       }
-    }
-  }, []);
+      return result.user;
+    },
+    [runLogin]
+  );
 
   /**
-   * Выход: чистим токен и локальное состояние пользователя.
-   * Подсказка: если у API есть endpoint `/auth/logout`, можно вызвать его здесь.
+   * Выход: завершаем сеанс на сервере, чистим токены и локальное состояние пользователя.
+   * Запрос не ждём — выход на клиенте не должен зависеть от сети.
    */
   const logout = useCallback((): void => {
     if (typeof window !== "undefined") {
-      localStorage.removeItem("auth_token");
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (refreshToken) {
+        void api.post("/auth/logout", { refreshToken }).catch(() => undefined);
+      }
+      clearAuthTokens();
     }
 
     if (logoutTimer) {
@@ -200,10 +276,44 @@ export default function AuthProvider({ children }: AuthProviderProps): ReactElem
     }, 220);
   }, []);
 
+  /**
+   * Бэкенд ответил 401 на защищённый запрос (токен истёк или отозван) —
+   * выходим, чтобы `Protected` отправил пользователя на страницу входа.
+   */
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const handleUnauthorized = (): void => {
+      if (!localStorage.getItem(AUTH_TOKEN_KEY)) return;
+      logout();
+    };
+
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => {
+      window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    };
+  }, [logout]);
+
+  /**
+   * Обновляем пользователя после успешной правки профиля — сайдбар и страницы увидят новое имя.
+   */
+  const updateUser = useCallback((next: AuthUser): void => {
+    setUser(next);
+  }, []);
+
+  /**
+   * Проверка права по списку, который бэкенд вернул вместе с пользователем.
+   * Нет пользователя или списка — нет прав.
+   */
+  const can = useCallback(
+    (permission: Permission): boolean => user?.permissions?.includes(permission) ?? false,
+    [user]
+  );
+
   // Мемоизируем значение контекста, чтобы подписчики не ререндерились без причины.
   const value = useMemo(
-    () => ({ user, ready, status, login, logout }),
-    [user, ready, status, login, logout]
+    () => ({ user, ready, status, login, completeTwoFactor, logout, updateUser, can }),
+    [user, ready, status, login, completeTwoFactor, logout, updateUser, can]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
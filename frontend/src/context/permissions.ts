@@ -0,0 +1,21 @@
+/**
+ * Какие права открывают разделы приложения.
+ *
+ * Зачем отдельный модуль:
+ * - Сайдбар и гарды маршрутов в `App.tsx` читают одну и ту же таблицу — пункт меню
+ *   не может «разойтись» с тем, пустит ли роутер на страницу.
+ * - Раздел доступен, если есть хотя бы одно из перечисленных прав.
+ */
+
+import type { Permission } from "./AuthContext.shared";
+
+export type Section = "analytics" | "chats" | "database" | "mailing" | "accounts";
+
+export const SECTION_PERMISSIONS: Readonly<Record<Section, readonly Permission[]>> = {
+  analytics: ["stats:read"],
+  chats: ["chats:read"],
+  // «Данные» открыты, если доступна хотя бы одна из вкладок.
+  database: ["chats:read", "messages:read", "orders:read", "reserves:read"],
+  mailing: ["broadcasts:send"],
+  accounts: ["accounts:manage"],
+};
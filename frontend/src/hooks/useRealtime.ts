@@ -0,0 +1,47 @@
+/**
+ * Хуки живых обновлений поверх общего клиента services/realtime.
+ *
+ * - useRealtime(topics, onEvent, options) — подписка компонента на топики SSE на время монтирования.
+ *   Обработчики можно передавать inline: храним последние версии в ref, переподписка не нужна.
+ *   options.onResync вызывается, когда сервер не смог дослать пропущенные события, — перечитайте данные.
+ * - useRealtimeState() — состояние соединения (для индикатора «переподключение…»).
+ */
+
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+
+import realtime, { type RealtimeEvent, type RealtimeState } from '@/services/realtime'
+
+export interface UseRealtimeOptions {
+  /** false — не подписываться (например, API не настроен). */
+  enabled?: boolean
+  onResync?: () => void
+}
+
+export function useRealtime<T = unknown>(
+  topics: string | readonly string[],
+  onEvent: (event: RealtimeEvent<T>) => void,
+  { enabled = true, onResync }: UseRealtimeOptions = {}
+): void {
+  const handlerRef = useRef(onEvent)
+  const resyncRef = useRef(onResync)
+  useEffect(() => {
+    handlerRef.current = onEvent
+    resyncRef.current = onResync
+  }, [onEvent, onResync])
+
+  // Ключ-строка: массив топиков, созданный inline, не должен вызывать переподписку на каждый рендер
+  const key = (typeof topics === 'string' ? [topics] : [...topics]).join(',')
+
+  useEffect(() => {
+    if (!enabled || !key) return
+    return realtime.subscribe(
+      key.split(','),
+      (event) => handlerRef.current(event as RealtimeEvent<T>),
+      () => resyncRef.current?.()
+    )
+  }, [enabled, key])
+}
+
+export function useRealtimeState(): RealtimeState {
+  return useSyncExternalStore(realtime.onStateChange, realtime.getState, realtime.getState)
+}
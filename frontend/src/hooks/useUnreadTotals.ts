@@ -0,0 +1,95 @@
+/**
+ * Итоги непрочитанного в чатах для бейджа в навигации (GET /chats/unread).
+ *
+ * - Состояние общее для приложения: Sidebar показывает число, ChatsPage после отметки прочтения
+ *   вызывает refreshUnreadTotals() — бейдж обновляется без собственного опроса.
+ * - Новые входящие (SSE-топик messages) и удаление чатов обновляют итоги с задержкой
+ *   REFRESH_DEBOUNCE_MS, чтобы пачка сообщений дала один запрос.
+ */
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react'
+
+import { authFetch } from '@/services/api'
+import type { RealtimeEvent, RealtimeRowEvent } from '@/services/realtime'
+import { useRealtime } from './useRealtime'
+
+const API_BASE = (import.meta.env.VITE_API_URL as string | undefined) ?? ''
+
+const REFRESH_DEBOUNCE_MS = 1_000
+
+export interface UnreadTotals {
+  /** Чатов с непрочитанными входящими */
+  chats: number
+  /** Непрочитанных входящих всего */
+  messages: number
+}
+
+let totals: UnreadTotals | null = null
+const listeners = new Set<() => void>()
+let inflight: AbortController | null = null
+
+const setTotals = (next: UnreadTotals | null): void => {
+  totals = next
+  for (const listener of listeners) listener()
+}
+
+const subscribe = (listener: () => void): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const getTotals = (): UnreadTotals | null => totals
+
+/** Перезапрашивает итоги; параллельный предыдущий запрос отменяется. */
+export async function refreshUnreadTotals(): Promise<void> {
+  if (!API_BASE) return
+  inflight?.abort()
+  const controller = new AbortController()
+  inflight = controller
+  try {
+    const res = await authFetch(`${API_BASE}/chats/unread`, { signal: controller.signal })
+    if (!res.ok) return
+    setTotals((await res.json()) as UnreadTotals)
+  } catch (e) {
+    if ((e as DOMException).name !== 'AbortError') console.warn('[unread] refresh failed:', e)
+  } finally {
+    if (inflight === controller) inflight = null
+  }
+}
+
+export function useUnreadTotals(enabled = true): UnreadTotals | null {
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const scheduleRefresh = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      void refreshUnreadTotals()
+    }, REFRESH_DEBOUNCE_MS)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    void refreshUnreadTotals()
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+    }
+  }, [enabled])
+
+  const onEvent = useCallback(
+    ({ topic, data }: RealtimeEvent<RealtimeRowEvent<{ from_me?: boolean }>>) => {
+      // Свои ответы непрочитанного не добавляют; удаление меняет итоги в любом случае
+      if (data.action === 'delete' || (topic === 'messages' && data.action === 'create' && !data.row?.from_me)) {
+        scheduleRefresh()
+      }
+    },
+    [scheduleRefresh]
+  )
+
+  useRealtime(['messages', 'chats'], onEvent, { enabled, onResync: scheduleRefresh })
+
+  const value = useSyncExternalStore(subscribe, getTotals, getTotals)
+  return enabled ? value : null
+}
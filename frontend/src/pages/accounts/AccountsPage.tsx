@@ -0,0 +1,215 @@
+/**
+ * Управление аккаунтами сотрудников (раздел рядом с профилем, только для администратора).
+ *
+ * Что это:
+ * - Приглашение нового сотрудника, смена роли, отключение/включение, сброс пароля и 2FA.
+ * - Политика: для каких ролей двухфакторная аутентификация обязательна.
+ * - Журнал блокировок входа: видно, по какому email или IP подбирали пароль.
+ * - Временный пароль, выданный сервером, показывается один раз в отдельной плашке — его нужно
+ *   передать сотруднику; в БД хранится только хеш.
+ *
+ * Почему так:
+ * - Все ограничения (например, нельзя отключить последнего активного админа) проверяет бэкенд,
+ *   экран лишь показывает его ответ в блоке ошибки с role="alert".
+ */
+
+import { type ReactElement } from "react";
+
+import { useAuth } from "../../context/useAuth";
+import { fmtDateTime as fmt } from "../profile/utils/format";
+import InviteForm from "./components/InviteForm";
+import { useAccounts } from "./hooks/useAccounts";
+import { ACCOUNT_ROLES, ROLE_LABELS, type AccountRole } from "./api";
+
+export default function AccountsPage(): ReactElement {
+  const { user: me } = useAuth();
+  const {
+    items,
+    loading,
+    err,
+    issued,
+    dismissIssued,
+    invite,
+    update,
+    resetPassword,
+    twoFactorPolicy,
+    lockouts,
+    setRequireTwoFactor,
+    resetTwoFactor,
+  } = useAccounts();
+
+  return (
+    <main className="flex-1 pb-6 pt-12 space-y-4">
+      <article className="bg-[#0f1a3a]/70 backdrop-blur-2xl rounded-2xl shadow p-6 space-y-4">
+        <header>
+          <h1 className="text-xl font-semibold">Аккаунты</h1>
+          <p className="text-white/40 text-body">
+            Пригласите сотрудника и выберите роль. Пароль можно не указывать — сервер выдаст временный.
+          </p>
+        </header>
+
+        <InviteForm onInvite={invite} />
+
+        {/* Временный пароль: показываем один раз, пока администратор не закроет плашку */}
+        {issued && (
+          <div
+            className="flex flex-wrap items-center justify-between gap-3 rounded-xl bg-emerald-900/40 px-4 py-3"
+            role="status"
+          >
+            <span className="text-white/80">
+              Временный пароль для {issued.email}:{" "}
+              <code className="font-mono text-emerald-300 select-all">{issued.password}</code>
+            </span>
+            <button type="button" onClick={dismissIssued} className="underline text-white/60">
+              Скрыть
+            </button>
+          </div>
+        )}
+
+        {twoFactorPolicy && (
+          <fieldset className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <legend className="text-white/60 mb-1">Обязательная 2FA для ролей</legend>
+            {ACCOUNT_ROLES.map((r) => (
+              <label key={r} className="inline-flex items-center gap-2 text-white/80">
+                <input
+                  type="checkbox"
+                  checked={twoFactorPolicy[r]}
+                  onChange={(e) => void setRequireTwoFactor(r, e.target.checked)}
+                />
+                {ROLE_LABELS[r]}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {err && (
+          <div className="text-body text-red-400" role="alert">
+            {err}
+          </div>
+        )}
+      </article>
+
+      <section className="rounded-xl bg-surface overflow-x-auto" aria-busy={loading}>
+        <table className="w-full text-body">
+          <thead className="bg-[#0f1b44]/70 text-white/70">
+            <tr>
+              <th className="text-left px-3 py-2 font-semibold">Сотрудник</th>
+              <th className="text-left px-3 py-2 font-semibold">Роль</th>
+              <th className="text-left px-3 py-2 font-semibold">Статус</th>
+              <th className="text-left px-3 py-2 font-semibold">Последний вход</th>
+              <th className="text-right px-3 py-2 font-semibold">Действия</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {items.length === 0 && !loading ? (
+              <tr>
+                <td colSpan={5} className="text-center p-[10%] text-white/30">
+                  Пусто
+                </td>
+              </tr>
+            ) : (
+              items.map((account) => {
+                const isMe = String(account.id) === String(me?.id ?? "");
+                const active = account.is_active !== false;
+
+                return (
+                  <tr key={account.id} className="text-white/60">
+                    <td className="px-3 py-2">
+                      <div className="text-white/80">
+                        {account.fullName || "Без имени"}
+                        {isMe && <span className="text-white/40"> (вы)</span>}
+                      </div>
+                      <div className="text-white/40">{account.email}</div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <label className="sr-only" htmlFor={`role-${account.id}`}>
+                        Роль {account.email}
+                      </label>
+                      <select
+                        id={`role-${account.id}`}
+                        value={account.role ?? ""}
+                        onChange={(e) => update(account.id, { role: e.target.value as AccountRole })}
+                        className="bg-[#0b1533] border border-slate-700 rounded-xl px-2 py-1 text-slate-100"
+                      >
+                        {ACCOUNT_ROLES.map((r) => (
+                          <option key={r} value={r}>
+                            {ROLE_LABELS[r]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">{active ? "Активен" : "Отключён"}</td>
+                    <td className="px-3 py-2">{fmt(account.last_login_at)}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => update(account.id, { is_active: !active })}
+                        className={[
+                          "px-2 py-1 rounded text-white mr-1.5",
+                          active ? "bg-rose-700 hover:bg-rose-600" : "bg-sky-700 hover:bg-sky-600",
+                        ].join(" ")}
+                      >
+                        {active ? "Отключить" : "Включить"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (confirm(`Сбросить пароль для ${account.email}?`)) {
+                            void resetPassword(account);
+                          }
+                        }}
+                        className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white"
+                      >
+                        Сбросить пароль
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (confirm(`Отключить 2FA для ${account.email}? Сеансы сотрудника будут завершены.`)) {
+                            void resetTwoFactor(account);
+                          }
+                        }}
+                        className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white ml-1.5"
+                      >
+                        Сбросить 2FA
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </section>
+
+      {lockouts.length > 0 && (
+        <section className="rounded-xl bg-surface overflow-x-auto" aria-label="Блокировки входа">
+          <h2 className="px-3 pt-3 font-semibold text-white/80">Блокировки входа</h2>
+          <table className="w-full text-body">
+            <thead className="text-white/70">
+              <tr>
+                <th className="text-left px-3 py-2 font-semibold">Когда</th>
+                <th className="text-left px-3 py-2 font-semibold">Email / IP</th>
+                <th className="text-left px-3 py-2 font-semibold">Неудачных попыток</th>
+                <th className="text-left px-3 py-2 font-semibold">Заблокирован до</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {lockouts.map((event) => (
+                <tr key={event.id} className="text-white/60">
+                  <td className="px-3 py-2">{fmt(event.created_at)}</td>
+                  <td className="px-3 py-2">
+                    <span className="text-white/40">{event.scope === "ip" ? "IP " : ""}</span>
+                    {event.key}
+                  </td>
+                  <td className="px-3 py-2">{event.failures}</td>
+                  <td className="px-3 py-2">{fmt(event.locked_until)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,101 @@
+import api from '@/services/api'
+import type { AuthUser } from '@/context/AuthContext'
+
+/**
+ * API управления аккаунтами (`/accounts`, только для роли с правом `accounts:manage`).
+ *
+ * Что делает:
+ * - Тонкие типизированные обёртки над axios-инстансом (токен и 401 обрабатываются там).
+ * - Ошибки не глушим: экран показывает текст `{ error }` от бэкенда (например, «последний админ»).
+ */
+
+export type AccountRole = 'admin' | 'manager' | 'operator' | 'analyst'
+
+/** Роли в порядке «от большего доступа к меньшему» — так их и показываем в селектах. */
+export const ACCOUNT_ROLES: readonly AccountRole[] = ['admin', 'manager', 'operator', 'analyst']
+
+export const ROLE_LABELS: Readonly<Record<AccountRole, string>> = {
+  admin: 'Администратор',
+  manager: 'Менеджер',
+  operator: 'Оператор',
+  analyst: 'Аналитик',
+}
+
+export type Account = AuthUser & { id: string }
+
+export interface InviteAccountInput {
+  email: string
+  fullName?: string
+  role: AccountRole
+  /** Пусто — сервер сгенерирует временный пароль и вернёт его один раз. */
+  password?: string
+}
+
+export interface AccountUpdateInput {
+  fullName?: string
+  role?: AccountRole
+  is_active?: boolean
+}
+
+/** Ответ приглашения/сброса: временный пароль приходит, только если его сгенерировал сервер. */
+export interface AccountWithPassword {
+  user: Account
+  temporaryPassword?: string
+}
+
+export async function listAccounts(signal?: AbortSignal): Promise<Account[]> {
+  const { data } = await api.get<{ items: Account[] }>('/accounts', { signal })
+  return data.items ?? []
+}
+
+export async function inviteAccount(input: InviteAccountInput): Promise<AccountWithPassword> {
+  const { data } = await api.post<AccountWithPassword>('/accounts', input)
+  return data
+}
+
+export async function updateAccount(id: string, patch: AccountUpdateInput): Promise<Account> {
+  const { data } = await api.patch<Account>(`/accounts/${encodeURIComponent(id)}`, patch)
+  return data
+}
+
+export async function resetAccountPassword(id: string): Promise<AccountWithPassword> {
+  const { data } = await api.post<AccountWithPassword>(
+    `/accounts/${encodeURIComponent(id)}/reset-password`,
+    {},
+  )
+  return data
+}
+
+/** Для каких ролей 2FA обязательна. */
+export type TwoFactorPolicy = Readonly<Record<AccountRole, boolean>>
+
+export async function getTwoFactorPolicy(signal?: AbortSignal): Promise<TwoFactorPolicy> {
+  const { data } = await api.get<TwoFactorPolicy>('/accounts/2fa-policy', { signal })
+  return data
+}
+
+export async function setTwoFactorPolicy(role: AccountRole, required: boolean): Promise<TwoFactorPolicy> {
+  const { data } = await api.put<TwoFactorPolicy>('/accounts/2fa-policy', { role, required })
+  return data
+}
+
+/** Отключает 2FA сотрудника (потерян телефон и коды восстановления); сеансы сотрудника завершаются. */
+export async function resetAccountTwoFactor(id: string): Promise<Account> {
+  const { data } = await api.post<Account>(`/accounts/${encodeURIComponent(id)}/reset-2fa`, {})
+  return data
+}
+
+/** Блокировка входа после серии неудачных попыток: по email или по IP. */
+export interface LockoutEvent {
+  id: string
+  scope: 'email' | 'ip'
+  key: string
+  failures: number
+  locked_until: string
+  created_at: string
+}
+
+export async function listLockouts(signal?: AbortSignal): Promise<LockoutEvent[]> {
+  const { data } = await api.get<{ items: LockoutEvent[] }>('/accounts/lockouts', { signal })
+  return data.items ?? []
+}
@@ -0,0 +1,94 @@
+import { useState, type FormEvent, type ReactElement } from "react";
+
+import Input from "@/components/Input";
+import Button from "@/components/Button";
+import { ACCOUNT_ROLES, ROLE_LABELS, type AccountRole, type InviteAccountInput } from "../api";
+
+/**
+ * Форма приглашения сотрудника.
+ *
+ * - Пароль можно не заполнять: сервер сгенерирует временный и вернёт его один раз.
+ * - После успешной отправки форма очищается; при ошибке — значения остаются для правки.
+ */
+interface InviteFormProps {
+  onInvite: (input: InviteAccountInput) => Promise<boolean>;
+}
+
+export default function InviteForm({ onInvite }: InviteFormProps): ReactElement {
+  const [email, setEmail] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [role, setRole] = useState<AccountRole>("operator");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (!email.trim() || busy) return;
+
+    setBusy(true);
+    const ok = await onInvite({
+      email: email.trim(),
+      fullName: fullName.trim() || undefined,
+      role,
+      password: password || undefined,
+    });
+    setBusy(false);
+
+    if (ok) {
+      setEmail("");
+      setFullName("");
+      setPassword("");
+    }
+  };
+
+  return (
+    <form
+      onSubmit={onSubmit}
+      className="grid gap-3 md:grid-cols-[1fr_1fr_auto_1fr_auto] items-center"
+      aria-label="Приглашение сотрудника"
+    >
+      <Input
+        label="Email"
+        type="email"
+        name="invite-email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+        autoComplete="off"
+      />
+      <Input
+        label="Имя"
+        name="invite-name"
+        value={fullName}
+        onChange={(e) => setFullName(e.target.value)}
+        autoComplete="off"
+      />
+      <label className="sr-only" htmlFor="invite-role">
+        Роль
+      </label>
+      <select
+        id="invite-role"
+        value={role}
+        onChange={(e) => setRole(e.target.value as AccountRole)}
+        className="bg-[#0b1533] border border-slate-700 rounded-xl px-3 py-3 text-slate-100"
+      >
+        {ACCOUNT_ROLES.map((r) => (
+          <option key={r} value={r}>
+            {ROLE_LABELS[r]}
+          </option>
+        ))}
+      </select>
+      <Input
+        label="Пароль (необязательно)"
+        type="password"
+        name="invite-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        autoComplete="new-password"
+      />
+      <Button type="submit" size="md" loading={busy} disabled={!email.trim() || busy} className="md:w-auto">
+        Пригласить
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Хук useAccounts — состояние экрана управления аккаунтами.
+ *
+ * Что делает:
+ * - Загружает список при маунте (с отменой через AbortController), держит `loading`/`err`.
+ * - Оборачивает действия (приглашение, роль, активность, сброс пароля) и обновляет строку списка
+ *   по ответу сервера — без повторной загрузки всего списка.
+ * - Временный пароль, который сервер показывает один раз, кладёт в `issued` — экран выводит его администратору.
+ * - Держит политику обязательной 2FA по ролям, сброс 2FA сотрудника и журнал блокировок входа.
+ *
+ * Почему так:
+ * - Ошибки бэкенда (`{ error }`) показываем как есть: запрет на отключение последнего админа
+ *   проверяет сервер, и пользователю важно увидеть именно его причину.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { isAxiosError } from 'axios'
+
+import {
+  getTwoFactorPolicy,
+  inviteAccount,
+  listAccounts,
+  listLockouts,
+  resetAccountPassword,
+  resetAccountTwoFactor,
+  setTwoFactorPolicy,
+  updateAccount,
+  type Account,
+  type AccountRole,
+  type AccountUpdateInput,
+  type InviteAccountInput,
+  type LockoutEvent,
+  type TwoFactorPolicy,
+} from '../api'
+
+/** Выданный пароль: кому и какой. Показываем до явного закрытия. */
+export interface IssuedPassword {
+  email: string
+  password: string
+}
+
+interface UseAccountsReturn {
+  items: Account[]
+  loading: boolean
+  err: string
+  issued: IssuedPassword | null
+  dismissIssued: () => void
+  refresh: () => Promise<void>
+  invite: (input: InviteAccountInput) => Promise<boolean>
+  update: (id: string, patch: AccountUpdateInput) => Promise<void>
+  resetPassword: (account: Account) => Promise<void>
+  twoFactorPolicy: TwoFactorPolicy | null
+  lockouts: LockoutEvent[]
+  setRequireTwoFactor: (role: AccountRole, required: boolean) => Promise<void>
+  resetTwoFactor: (account: Account) => Promise<void>
+}
+
+/** Достаём человекочитаемую причину ошибки: сначала `{ error }` от API, затем message. */
+function errorMessage(error: unknown, fallback: string): string {
+  if (isAxiosError<{ error?: string }>(error)) {
+    return error.response?.data?.error ?? error.message ?? fallback
+  }
+  return error instanceof Error ? error.message : fallback
+}
+
+export function useAccounts(): UseAccountsReturn {
+  const [items, setItems] = useState<Account[]>([])
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState('')
+  const [issued, setIssued] = useState<IssuedPassword | null>(null)
+  const [twoFactorPolicy, setPolicy] = useState<TwoFactorPolicy | null>(null)
+  const [lockouts, setLockouts] = useState<LockoutEvent[]>([])
+
+  const load = useCallback(async (signal?: AbortSignal): Promise<void> => {
+    setLoading(true)
+    setErr('')
+    try {
+      const [accounts, policy, lockoutEvents] = await Promise.all([
+        listAccounts(signal),
+        getTwoFactorPolicy(signal),
+        listLockouts(signal),
+      ])
+      setItems(accounts)
+      setPolicy(policy)
+      setLockouts(lockoutEvents)
+    } catch (error) {
+      if (signal?.aborted) return
+      setErr(errorMessage(error, 'Не удалось загрузить аккаунты'))
+    } finally {
+      if (!signal?.aborted) setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const ac = new AbortController()
+    void load(ac.signal)
+    return () => ac.abort()
+  }, [load])
+
+  const replaceItem = useCallback((next: Account): void => {
+    setItems((prev) => prev.map((item) => (item.id === next.id ? next : item)))
+  }, [])
+
+  const invite = useCallback(async (input: InviteAccountInput): Promise<boolean> => {
+    setErr('')
+    try {
+      const { user, temporaryPassword } = await inviteAccount(input)
+      setItems((prev) => [user, ...prev])
+      if (temporaryPassword) {
+        setIssued({ email: user.email ?? input.email, password: temporaryPassword })
+      }
+      return true
+    } catch (error) {
+      setErr(errorMessage(error, 'Не удалось пригласить сотрудника'))
+      return false
+    }
+  }, [])
+
+  const update = useCallback(
+    async (id: string, patch: AccountUpdateInput): Promise<void> => {
+      setErr('')
+      try {
+        replaceItem(await updateAccount(id, patch))
+      } catch (error) {
+        setErr(errorMessage(error, 'Не удалось сохранить изменения'))
+      }
+    },
+    [replaceItem],
+  )
+
+  const resetPassword = useCallback(
+    async (account: Account): Promise<void> => {
+      setErr('')
+      try {
+        const { user, temporaryPassword } = await resetAccountPassword(account.id)
+        replaceItem(user)
+        if (temporaryPassword) {
+          setIssued({ email: user.email ?? account.email ?? '', password: temporaryPassword })
+        }
+      } catch (error) {
+        setErr(errorMessage(error, 'Не удалось сбросить пароль'))
+      }
+    },
+    [replaceItem],
+  )
+
+  const setRequireTwoFactor = useCallback(
+    async (role: AccountRole, required: boolean): Promise<void> => {
+      setErr('')
+      try {
+        setPolicy(await setTwoFactorPolicy(role, required))
+      } catch (error) {
+        setErr(errorMessage(error, 'Не удалось сохранить политику 2FA'))
+      }
+    },
+    [],
+  )
+
+  const resetTwoFactor = useCallback(
+    async (account: Account): Promise<void> => {
+      setErr('')
+      try {
+        replaceItem(await resetAccountTwoFactor(account.id))
+      } catch (error) {
+        setErr(errorMessage(error, 'Не удалось сбросить 2FA'))
+      }
+    },
+    [replaceItem],
+  )
+
+  const dismissIssued = useCallback(() => setIssued(null), [])
+  const refresh = useCallback(() => load(), [load])
+
+  return {
+    items,
+    loading,
+    err,
+    issued,
+    dismissIssued,
+    refresh,
+    invite,
+    update,
+    resetPassword,
+    twoFactorPolicy,
+    lockouts,
+    setRequireTwoFactor,
+    resetTwoFactor,
+  }
+}
@@ -12,9 +12,11 @@
  * - setState вызывается только когда компонент «живой» (см. флаг mounted); это безопасный паттерн
  *   на случай медленных запросов без AbortController.
  * - Строгая типизация входных данных и трансформаций (в т.ч. защитные преобразования).
+ * - Новые/изменённые заказы и брони приходят по SSE (топики orders, reservations): карточки, график
+ *   и списки перезагружаются тихо, без индикаторов загрузки поверх уже показанных данных.
  */
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { PRESETS } from "./constants";
 import { fmtISO, addDays } from "./utils/date";
@@ -35,6 +37,8 @@ import SmoothChart, { type ChartDatum } from "./components/SmoothChart";
 import ListTable from "./components/ListTable";
 import OrdersPieChart from "./components/PieChart";
 
+import { useRealtime } from "@/hooks/useRealtime";
+
 import ordersIcon from "../../assets/icons/analytics/orders-icon.svg";
 import reservationsIcon from "../../assets/icons/analytics/reservations-icon.svg";
 import sumIcon from "../../assets/icons/analytics/sum-icon.svg";
@@ -126,6 +130,8 @@ const TYPED_PRESETS = PRESETS as readonly RangePreset[];
 // Значения по умолчанию для фильтров/диапазона.
 const DEFAULT_TAB: Tab = "orders";
 const DEFAULT_PRESET_KEY = "all";
+/** Пауза перед перезагрузкой по событиям SSE: пачка новых заказов даёт один набор запросов. */
+const LIVE_REFRESH_DEBOUNCE_MS = 1000;
 
 export default function AnalyticsPage() {
   // --- Маппинг хайлайтов API → UI-данные. Здесь инкапсулируем «грязь» API. ---
@@ -182,15 +188,40 @@ export default function AnalyticsPage() {
     setTo(fmtISO(today));
   }, [preset]);
 
+  // --- Живые обновления: пачка событий SSE даёт одну перезагрузку данных ---
+  const [refreshKey, setRefreshKey] = useState(0);
+  /** true — текущая перезагрузка вызвана событием SSE: индикаторы загрузки не показываем. */
+  const liveRefreshRef = useRef(false);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const onLiveEvent = useCallback(() => {
+    if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    refreshTimerRef.current = setTimeout(() => {
+      refreshTimerRef.current = null;
+      liveRefreshRef.current = true;
+      setRefreshKey((k) => k + 1);
+    }, LIVE_REFRESH_DEBOUNCE_MS);
+  }, []);
+
+  useEffect(
+    () => () => {
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    },
+    []
+  );
+
+  useRealtime(["orders", "reservations"], onLiveEvent, { onResync: onLiveEvent });
+
   // --- Линейный график ---
   const [chartLoading, setChartLoading] = useState<boolean>(true);
   const [chartData, setChartData] = useState<ChartApiPoint[]>([]);
 
   useEffect(() => {
     let mounted = true;
+    const silent = liveRefreshRef.current;
     (async () => {
       try {
-        setChartLoading(true);
+        if (!silent) setChartLoading(true);
         const data = await fetchChart(activeTab, { from, to, preset });
         if (!mounted) return;
         setChartData(Array.isArray(data) ? data : []);
@@ -203,14 +234,15 @@ export default function AnalyticsPage() {
     return () => {
       mounted = false;
     };
-  }, [activeTab, from, to, preset]);
+  }, [activeTab, from, to, preset, refreshKey]);
 
   // --- Сводные показатели (карточки) ---
   useEffect(() => {
     let mounted = true;
+    const silent = liveRefreshRef.current;
     (async () => {
       try {
-        setStats((s) => ({ ...s, loading: true }));
+        if (!silent) setStats((s) => ({ ...s, loading: true }));
         const s = await fetchGlobalStats();
         if (mounted) setStats({ ...(s as GlobalStats), loading: false });
       } catch {
@@ -220,7 +252,7 @@ export default function AnalyticsPage() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [refreshKey]);
 
   // --- Pie chart: популярные категории + хайлайты ---
   const [pieData, setPieData] = useState<CategorySlice[]>([]);
@@ -229,9 +261,10 @@ export default function AnalyticsPage() {
 
   useEffect(() => {
     let mounted = true;
+    const silent = liveRefreshRef.current;
     (async () => {
       try {
-        setPieLoading(true);
+        if (!silent) setPieLoading(true);
         const [items, highlightsData] = await Promise.all([
           fetchItemsByCategory({
             level: "category",
@@ -257,7 +290,7 @@ export default function AnalyticsPage() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [refreshKey]);
 
   // --- Трансформация данных для графика (из API → в UI-friendly формат) ---
   const days = useMemo<ChartDatum[]>(() => {
@@ -312,7 +345,12 @@ export default function AnalyticsPage() {
     return () => {
       mounted = false;
     };
-  }, [from, to]);
+  }, [from, to, refreshKey]);
+
+  // Эффекты выше уже прочитали флаг тихой перезагрузки — следующая загрузка снова с индикаторами
+  useEffect(() => {
+    liveRefreshRef.current = false;
+  }, [refreshKey]);
 
   // ---------- Хелперы дат/времени (устойчивые к «грязному» вводу) ----------
 
@@ -1,4 +1,4 @@
-import api from "../../services/api";
+import api, { authFetch } from "../../services/api";
 
 /**
  * Модуль API-хелперов для дэшборда/аналитики.
@@ -105,7 +105,7 @@ async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
     throw new Error("VITE_API_URL не задан. Проверьте конфиг окружения.");
   }
 
-  const response = await fetch(url, init);
+  const response = await authFetch(url, init);
 
   if (!response.ok) {
     // Берём текст, если сервер прислал понятную ошибку
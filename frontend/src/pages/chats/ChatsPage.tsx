@@ -3,7 +3,18 @@
  *
  * Зачем это нужно:
  * - Слева показываем каталожный список диалогов с локальным поиском и «псевдо-пагинацией» по пресетам.
- * - Справа — активный чат и лента сообщений с отправкой.
+ * - Справа — активный чат и лента сообщений с отправкой. Неотправленные сообщения сервер сохраняет
+ *   со статусом failed — они остаются в ленте с кнопкой «Повторить».
+ * - Новые сообщения гостей, смена статусов и изменения диалогов приходят по SSE (топики messages, chats).
+ * - У диалогов — счётчик непрочитанного (unread_count) и признак «ждёт ответа» (awaiting_reply);
+ *   открытый чат MessagePane отмечает прочитанным сам. Фильтр «Без ответа» запрашивает у сервера
+ *   только чаты, где последнее сообщение — от гостя.
+ * - Вкладки «Мои / Без оператора / Все» фильтруют по ответственному (assigned_to). Сервер отдаёт
+ *   уже отфильтрованный список, а по SSE-событиям `chats` тот же фильтр применяется на клиенте —
+ *   чат, который забрал коллега, сразу уходит из «Без оператора». В шапке чата — взять себе,
+ *   освободить и (для руководителя) назначить; переключатель «На линии» включает автоназначение.
+ * - Статус переписки (open / pending / resolved) меняется кнопками в шапке чата и фильтруется в списке
+ *   так же — сервером и на клиенте. Новое сообщение гостя сервер сам возвращает в open.
  *
  * На что обратить внимание:
  * - Аккуратная работа с AbortController в fetch, чтобы не гонять лишние запросы и не ловить race conditions.
@@ -25,11 +36,41 @@ import {
   type ReactElement,
 } from "react";
 
+import { authFetch } from "../../services/api";
 import SearchBar from "../../components/SearchBar";
 import ChatList from "./components/ChatList";
 import MessagePane from "./components/MessagePane";
 import { getDialogTimestamp, matchesLocal } from "./utils/chatUtils";
-import { RangePresets } from "@/components/Button";
+import AssignmentControl from "./components/AssignmentControl";
+import StatusControl from "./components/StatusControl";
+import ChatInfoPanel from "./components/ChatInfoPanel";
+import CustomerCard, { type CustomerMergeOption } from "./components/CustomerCard";
+import { useChatCustomer } from "./hooks/useChatCustomer";
+import { useChatNotes } from "./hooks/useChatNotes";
+import {
+  changeChatAssignee,
+  changeChatTags,
+  fetchCannedResponses,
+  fetchOperators,
+  fetchTags,
+  markChatRead,
+  renderCannedResponse,
+  setOnlineStatus,
+  updateChatStatus,
+  uploadAttachment,
+  type CannedResponse,
+  type ChatStatus,
+  type ChatTag,
+  type Operator,
+  type TagWithUsage,
+} from "./api";
+import type { MessageAttachment } from "./components/AttachmentView";
+import type { MessageDeliveryStatus } from "./components/MessageBubble";
+import { RangePresets, SegmentedToggle } from "@/components/Button";
+import { useAuth } from "@/context/useAuth";
+import { useRealtime } from "@/hooks/useRealtime";
+import { refreshUnreadTotals } from "@/hooks/useUnreadTotals";
+import type { RealtimeEvent, RealtimeRowEvent } from "@/services/realtime";
 
 // Универсальный тип идентификатора — иногда приходит числом, иногда строкой.
 type ID = string | number;
@@ -49,6 +90,28 @@ interface ApiDialogsArray {
   [key: string]: unknown;
 }
 
+/** Вкладки списка по ответственному: мои, свободные, все. */
+type AssignedTab = "mine" | "none" | "all";
+
+const ASSIGNED_TABS: Array<{ value: AssignedTab; label: string }> = [
+  { value: "mine", label: "Мои" },
+  { value: "none", label: "Без оператора" },
+  { value: "all", label: "Все" },
+];
+
+/** Фильтр списка по статусу переписки. */
+type StatusFilter = "all" | ChatStatus;
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "all", label: "Все статусы" },
+  { value: "open", label: "Открытые" },
+  { value: "pending", label: "Ожидают" },
+  { value: "resolved", label: "Решённые" },
+];
+
+/** Значение параметра assigned для GET /chats. */
+const ASSIGNED_QUERY: Record<AssignedTab, string> = { mine: "me", none: "none", all: "" };
+
 /** Сообщение в ленте. Поля начинаются как минимально необходимые. */
 interface Message {
   id: ID;
@@ -57,6 +120,9 @@ interface Message {
   text?: string;
   date?: string;
   is_bot?: boolean;
+  attachments?: MessageAttachment[];
+  status?: MessageDeliveryStatus;
+  error?: string | null;
   _pending?: boolean;
   _clientOrder: number; // локальный порядок (число), чтобы не дёргать сортировку на каждое обновление
   [key: string]: unknown;
@@ -72,11 +138,58 @@ const idEq = (a: ID | null | undefined, b: ID | null | undefined): boolean =>
 const toPositiveNumber = (n: unknown): number =>
   Number.isFinite(Number(n)) && Number(n) > 0 ? Number(n) : 0;
 
+/** Ответ POST /messages: сообщение или ошибка; при отказе платформы в message — сохранённая строка со status = failed. */
+type SendResponse = (Partial<Message> & { error?: string; message?: Partial<Message> }) | null;
+
+/**
+ * Вставляет сообщение (из SSE или ответа сервера) или сливает его с уже показанным с тем же id.
+ * Порядок в ленте — по дате сообщения.
+ */
+const upsertMessage = (list: Message[], row: Partial<Message>): Message[] => {
+  if (list.some((m) => idEq(m.id, row.id))) {
+    return list.map((m) => (idEq(m.id, row.id) ? { ...m, ...row, id: m.id } : m));
+  }
+  const ts = Date.parse(String(row.date ?? ""));
+  return [
+    ...list,
+    {
+      ...row,
+      id: row.id as ID,
+      chat_id: row.chat_id as ID,
+      _clientOrder: Number.isFinite(ts) ? ts : Date.now(),
+    },
+  ];
+};
+
+/** Попадает ли диалог во вкладку (нужно для чатов, пришедших или изменившихся по SSE). */
+const matchesAssignedTab = (d: Dialog, tab: AssignedTab, myId: ID | null | undefined): boolean => {
+  if (tab === "all") return true;
+  const assignee = d.assigned_to as ID | null | undefined;
+  return tab === "none" ? assignee == null : assignee != null && idEq(assignee, myId);
+};
+
+/** Есть ли у чата тег tagId (пустой фильтр — любой чат). */
+const matchesTag = (d: Dialog, tagId: string): boolean =>
+  !tagId || (Array.isArray(d.tags) && (d.tags as ChatTag[]).some((t) => String(t.id) === tagId));
+
+/** Подпись чата в списке для объединения профилей: имя или username и платформа. */
+const dialogLabel = (d: Dialog): string => {
+  const name = [d.first_name, d.last_name].filter((v) => typeof v === "string" && v.trim()).join(" ");
+  const title = name || (typeof d.username === "string" && d.username ? `@${d.username}` : `ID ${d.chat_id}`);
+  return `${title} · ${d.platform === "vk" ? "VK" : "Telegram"}`;
+};
+
 /** Ничего не делающий callback — понятнее, чем пустая стрелка inline. */
 const noop = () => {};
 
 /** Главный компонент страницы. */
 export default function ChatsPage(): ReactElement {
+  const { user, can } = useAuth();
+  const myId = user?.id ?? null;
+  const canTake = can("messages:send");
+  const canAssign = can("chats:assign");
+  const canUseQuickReplies = can("canned:read");
+
   // --- Состояния представления и данных
   const [dialogs, setDialogs] = useState<Dialog[]>([]);
   const [selectedId, setSelectedId] = useState<ID | null>(null);
@@ -92,6 +205,28 @@ export default function ChatsPage(): ReactElement {
   const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
 
+  // Только чаты, ждущие ответа (последнее сообщение — от гостя)
+  const [onlyUnanswered, setOnlyUnanswered] = useState(false);
+
+  // Вкладка по ответственному; операторы — для назначения и отметки «На линии»
+  const [assignedTab, setAssignedTab] = useState<AssignedTab>("all");
+  const [operators, setOperators] = useState<Operator[]>([]);
+  const [assignBusy, setAssignBusy] = useState(false);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [statusBusy, setStatusBusy] = useState(false);
+
+  // Теги: фильтр списка (id тега или "" — все), библиотека тегов для подсказок
+  const [tagFilter, setTagFilter] = useState("");
+  const [allTags, setAllTags] = useState<TagWithUsage[]>([]);
+  const [tagsBusy, setTagsBusy] = useState(false);
+
+  // Шаблоны ответов (палитра «/» в MessagePane)
+  const [quickReplies, setQuickReplies] = useState<CannedResponse[]>([]);
+
+  // Увеличивается, когда поток событий потерял часть обновлений: диалоги и лента перечитываются
+  const [reloadKey, setReloadKey] = useState(0);
+
   // В продакшене удобнее, когда отсутствие переменной окружения — явная ошибка.
   // Здесь мягко дефолтимся в пустую строку, но в бою лучше кинуть invariant/ошибку и показать заглушку.
   const API = (import.meta.env.VITE_API_URL as string | undefined) ?? "";
@@ -118,8 +253,15 @@ export default function ChatsPage(): ReactElement {
   );
 
   const locallyFiltered = useMemo(
-    () => sortedDialogs.filter((d) => matchesLocal(d, searchInput)),
-    [sortedDialogs, searchInput]
+    () =>
+      sortedDialogs.filter(
+        (d) =>
+          matchesLocal(d, searchInput) &&
+          matchesAssignedTab(d, assignedTab, myId) &&
+          (statusFilter === "all" || (d.status ?? "open") === statusFilter) &&
+          matchesTag(d, tagFilter)
+      ),
+    [sortedDialogs, searchInput, assignedTab, myId, statusFilter, tagFilter]
   );
 
   const displayedDialogs = useMemo(() => {
@@ -153,8 +295,12 @@ export default function ChatsPage(): ReactElement {
       setLoading(true);
       try {
         // TODO (улучшение): перейти на серверную пагинацию.
-        const res = await fetch(
-          `${API}/chats?limit=10000&offset=0&q=${encodeURIComponent(searchQuery)}`,
+        const res = await authFetch(
+          `${API}/chats?limit=10000&offset=0&q=${encodeURIComponent(searchQuery)}` +
+            (onlyUnanswered ? "&unanswered=true" : "") +
+            (ASSIGNED_QUERY[assignedTab] ? `&assigned=${ASSIGNED_QUERY[assignedTab]}` : "") +
+            (statusFilter !== "all" ? `&status=${statusFilter}` : "") +
+            (tagFilter ? `&tag=${encodeURIComponent(tagFilter)}` : ""),
           { signal: controller.signal }
         );
 
@@ -203,7 +349,43 @@ export default function ChatsPage(): ReactElement {
     })();
 
     return () => controller.abort();
-  }, [searchQuery, API]);
+  }, [searchQuery, onlyUnanswered, assignedTab, statusFilter, tagFilter, API, reloadKey]);
+
+  // --- Операторы: кому назначать чаты и стоит ли текущий пользователь на линии
+  const loadOperators = useCallback(async () => {
+    if (!API) return;
+    try {
+      setOperators(await fetchOperators());
+    } catch (e) {
+      console.warn("Не удалось загрузить операторов:", e);
+    }
+  }, [API]);
+
+  useEffect(() => {
+    void loadOperators();
+  }, [loadOperators, reloadKey]);
+
+  // --- Библиотека тегов: подсказки в панели чата и фильтр списка
+  const loadTags = useCallback(async () => {
+    if (!API) return;
+    try {
+      setAllTags(await fetchTags());
+    } catch (e) {
+      console.warn("Не удалось загрузить теги:", e);
+    }
+  }, [API]);
+
+  useEffect(() => {
+    void loadTags();
+  }, [loadTags, reloadKey]);
+
+  // --- Шаблоны ответов для палитры «/» в поле ввода
+  useEffect(() => {
+    if (!API || !canUseQuickReplies) return;
+    fetchCannedResponses()
+      .then(setQuickReplies)
+      .catch((e) => console.warn("Не удалось загрузить шаблоны ответов:", e));
+  }, [API, canUseQuickReplies, reloadKey]);
 
   // --- Авто-выбор первого диалога на десктопе
   useEffect(() => {
@@ -211,8 +393,8 @@ export default function ChatsPage(): ReactElement {
     if (!isMdUp) return;
     if (selectedId && sortedDialogs.some((d) => idEq(d.chat_id, selectedId))) return;
 
-    setSelectedId(sortedDialogs[0].chat_id);
-  }, [sortedDialogs, selectedId, isMdUp]);
+    setSelectedId((locallyFiltered[0] ?? sortedDialogs[0]).chat_id);
+  }, [sortedDialogs, locallyFiltered, selectedId, isMdUp]);
 
   // --- Загрузка сообщений выбранного диалога
   useEffect(() => {
@@ -221,7 +403,7 @@ export default function ChatsPage(): ReactElement {
     const controller = new AbortController();
     setLoadingMessages(true);
 
-    fetch(`${API}/messages?chatId=${encodeURIComponent(String(selectedId))}`, {
+    authFetch(`${API}/messages?chatId=${encodeURIComponent(String(selectedId))}`, {
       signal: controller.signal,
     })
       .then(async (res) => {
@@ -265,15 +447,49 @@ export default function ChatsPage(): ReactElement {
       .finally(() => setLoadingMessages(false));
 
     return () => controller.abort();
-  }, [selectedId, API]);
+  }, [selectedId, API, reloadKey]);
+
+  // --- Отправка сообщения с файлом: без оптимистичного пузыря — показываем, когда канал принял файл
+  const sendWithAttachment = useCallback(
+    async (text: string, file: File) => {
+      if (!selectedId) return;
+
+      try {
+        const attachment = await uploadAttachment(file);
+        const res = await authFetch(`${API}/messages`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ chatId: selectedId, text, attachmentId: attachment.id }),
+        });
+
+        const body = (await res.json().catch(() => null)) as SendResponse;
+        // Отказ платформы: сообщение сохранено как failed — показываем его с кнопкой «Повторить»
+        const data = res.ok ? body : body?.message;
+
+        if (!data || data.id == null) {
+          alert((body && body.error) || "Не удалось отправить файл");
+          return;
+        }
+
+        setMessages((prev) => upsertMessage(prev, { ...data, chat_id: data.chat_id ?? selectedId, from_me: true }));
+      } catch (e) {
+        alert((e as Error).message || "Не удалось отправить файл (нет соединения).");
+      }
+    },
+    [API, selectedId]
+  );
 
   // --- Отправка сообщения
   const handleSend = useCallback(
-    async (text: string) => {
+    async (text: string, file?: File | null) => {
       if (!API) {
         alert("Конфигурация API не задана.");
         return;
       }
+      if (file) {
+        await sendWithAttachment(text.trim(), file);
+        return;
+      }
       if (!selectedId || !text || !text.trim()) return;
 
       const now = Date.now();
@@ -294,20 +510,29 @@ export default function ChatsPage(): ReactElement {
       setMessages((prev) => [...prev, tempMsg]);
 
       try {
-        const res = await fetch(`${API}/messages`, {
+        const res = await authFetch(`${API}/messages`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ chatId: selectedId, text: payload }),
         });
 
         if (!res.ok) {
+          const errBody = (await res.json().catch(() => null)) as SendResponse;
+          const failed = errBody?.message;
+
+          if (failed && failed.id != null) {
+            // Платформа отказала, но сообщение сохранено как failed — оставляем его с кнопкой «Повторить»
+            setMessages((prev) =>
+              upsertMessage(
+                prev.filter((m) => !idEq(m.id, tempId)),
+                { ...failed, _pending: false }
+              )
+            );
+            return;
+          }
+
           // Откатываем оптимистичный апдейт
           setMessages((prev) => prev.filter((m) => !idEq(m.id, tempId)));
-
-          const errBody = (await res.json().catch(() => null)) as
-            | { error?: string }
-            | null;
-
           alert((errBody && errBody.error) || "Не удалось отправить сообщение");
           return;
         }
@@ -320,19 +545,18 @@ export default function ChatsPage(): ReactElement {
           return;
         }
 
-        // Сливаем серверный ответ в оптимистичное сообщение
+        // Заменяем оптимистичное сообщение серверным (SSE мог уже добавить его по id — тогда сливаем)
         setMessages((prev) =>
-          prev.map((m) =>
-            idEq(m.id, tempId)
-              ? {
-                  ...m,
-                  id: (data.id as ID) ?? m.id,
-                  chat_id: (data.chat_id as ID) ?? m.chat_id,
-                  from_me: true,
-                  text: (data.text as string) ?? m.text,
-                  _pending: false,
-                }
-              : m
+          upsertMessage(
+            prev.filter((m) => !idEq(m.id, tempId)),
+            {
+              ...data,
+              chat_id: data.chat_id ?? selectedId,
+              from_me: true,
+              status: data.status ?? "sent",
+              error: null,
+              _pending: false,
+            }
           )
         );
       } catch {
@@ -340,9 +564,217 @@ export default function ChatsPage(): ReactElement {
         alert("Не удалось отправить сообщение (нет соединения).");
       }
     },
+    [API, selectedId, sendWithAttachment]
+  );
+
+  // --- Живые обновления ленты: новые сообщения, смена статуса доставки, удаление
+  const handleMessageEvent = useCallback(
+    ({ data }: RealtimeEvent<RealtimeRowEvent<Message>>) => {
+      if (data.action === "delete") {
+        setMessages((prev) => prev.filter((m) => !idEq(m.id, data.id)));
+        return;
+      }
+      const row = data.row;
+      if (!row) return;
+
+      // Диалог с новым сообщением поднимается наверх списка; входящее добавляет непрочитанное
+      // (открытый чат MessagePane тут же отметит прочитанным)
+      if (data.action === "create") {
+        setDialogs((prev) =>
+          prev.map((d) =>
+            idEq(d.chat_id, row.chat_id)
+              ? {
+                  ...d,
+                  last_ts: row.date ?? d.last_ts,
+                  awaiting_reply: !row.from_me,
+                  unread_count: row.from_me ? d.unread_count : (Number(d.unread_count) || 0) + 1,
+                }
+              : d
+          )
+        );
+      }
+      if (!idEq(row.chat_id, selectedId)) return;
+
+      setMessages((prev) => {
+        if (data.action !== "create") {
+          // Обновления незагруженных (старых) сообщений в ленту не добавляем
+          return prev.some((m) => idEq(m.id, row.id)) ? upsertMessage(prev, row) : prev;
+        }
+        // Своё сообщение, отправленное из этой вкладки: заменяем оптимистичный черновик, а не дублируем
+        const draft = row.from_me
+          ? prev.find((m) => m._pending && String(m.id).startsWith("tmp-") && m.text === row.text)
+          : undefined;
+        return upsertMessage(draft ? prev.filter((m) => m !== draft) : prev, row);
+      });
+    },
+    [selectedId]
+  );
+
+  // --- Живые обновления списка диалогов: новые гости, смена имени, удаление
+  const handleChatEvent = useCallback(({ data }: RealtimeEvent<RealtimeRowEvent<Dialog>>) => {
+    if (data.action === "delete") {
+      setDialogs((prev) => prev.filter((d) => !idEq(d.chat_id, data.chat_id)));
+      return;
+    }
+    const row = data.row;
+    if (!row) return;
+    setDialogs((prev) =>
+      prev.some((d) => idEq(d.chat_id, row.chat_id))
+        ? prev.map((d) => (idEq(d.chat_id, row.chat_id) ? { ...d, ...row } : d))
+        : [{ ...row, last_ts: new Date().toISOString() }, ...prev]
+    );
+  }, []);
+
+  // --- Отметка прочтения открытого чата (вызывает MessagePane, когда лента на экране)
+  const handleRead = useCallback(
+    async (lastMessageId: ID) => {
+      if (!API || !selectedId) return;
+      const chatId = selectedId;
+      const dlg = dialogs.find((d) => idEq(d.chat_id, chatId));
+      // Сервер хранит позицию чтения; без непрочитанного лишний запрос не нужен
+      if (dlg && !(Number(dlg.unread_count) > 0)) return;
+      try {
+        const result = await markChatRead(chatId, lastMessageId);
+        setDialogs((prev) =>
+          prev.map((d) => (idEq(d.chat_id, chatId) ? { ...d, unread_count: result.unread_count } : d))
+        );
+        void refreshUnreadTotals();
+      } catch (e) {
+        console.warn("Не удалось отметить чат прочитанным:", e);
+      }
+    },
+    [API, selectedId, dialogs]
+  );
+
+  // --- Ответственный за открытый чат: взять себе, освободить, назначить
+  const handleAssignment = useCallback(
+    async (change: Parameters<typeof changeChatAssignee>[1]) => {
+      if (!API || !selectedId) return;
+      const chatId = selectedId;
+      setAssignBusy(true);
+      try {
+        const row = await changeChatAssignee(chatId, change);
+        setDialogs((prev) => prev.map((d) => (idEq(d.chat_id, chatId) ? { ...d, ...row, chat_id: d.chat_id } : d)));
+        void loadOperators();
+      } catch (e) {
+        alert((e as Error).message || "Не удалось изменить ответственного");
+      } finally {
+        setAssignBusy(false);
+      }
+    },
+    [API, selectedId, loadOperators]
+  );
+
+  // --- Статус переписки открытого чата
+  const handleStatusChange = useCallback(
+    async (status: ChatStatus, reason?: string | null) => {
+      if (!API || !selectedId) return;
+      const chatId = selectedId;
+      setStatusBusy(true);
+      try {
+        const row = await updateChatStatus(chatId, status, reason);
+        setDialogs((prev) => prev.map((d) => (idEq(d.chat_id, chatId) ? { ...d, ...row, chat_id: d.chat_id } : d)));
+      } catch (e) {
+        alert((e as Error).message || "Не удалось изменить статус чата");
+      } finally {
+        setStatusBusy(false);
+      }
+    },
     [API, selectedId]
   );
 
+  // --- Теги открытого чата; новый тег пополняет библиотеку
+  const handleTagChange = useCallback(
+    async (change: { type: "add"; name: string } | { type: "remove"; tagId: number }) => {
+      if (!API || !selectedId) return;
+      const chatId = selectedId;
+      setTagsBusy(true);
+      try {
+        const row = await changeChatTags(chatId, change);
+        setDialogs((prev) => prev.map((d) => (idEq(d.chat_id, chatId) ? { ...d, ...row, chat_id: d.chat_id } : d)));
+        void loadTags();
+      } catch (e) {
+        alert((e as Error).message || "Не удалось изменить теги чата");
+      } finally {
+        setTagsBusy(false);
+      }
+    },
+    [API, selectedId, loadTags]
+  );
+
+  // Заметки открытого чата: перечитываются, когда по SSE меняется notes_count
+  const notesCount = Number(selectedDlg?.notes_count) || 0;
+  const chatNotes = useChatNotes(selectedId, notesCount);
+
+  // Профиль гостя открытого чата: карточка над тегами и заметками
+  const canReadCustomers = can("customers:read");
+  const chatCustomer = useChatCustomer(canReadCustomers ? selectedId : null);
+  const mergeOptions = useMemo<CustomerMergeOption[]>(
+    () =>
+      dialogs
+        .filter((d) => !idEq(d.chat_id, selectedId))
+        .map((d) => ({ chat_id: d.chat_id, label: dialogLabel(d) })),
+    [dialogs, selectedId]
+  );
+
+  // --- Подстановка переменных шаблона для открытого чата
+  const renderQuickReply = useCallback(
+    (item: CannedResponse) => {
+      if (!selectedId) return Promise.resolve({ text: item.body, missing: [] });
+      return renderCannedResponse(item.id, selectedId);
+    },
+    [selectedId]
+  );
+
+  const me = useMemo(() => operators.find((op) => idEq(op.id, myId)) ?? null, [operators, myId]);
+
+  const handleToggleOnline = useCallback(async () => {
+    if (!me) return;
+    try {
+      const online = await setOnlineStatus(!me.is_online);
+      setOperators((prev) => prev.map((op) => (op.id === me.id ? { ...op, is_online: online } : op)));
+    } catch {
+      alert("Не удалось изменить статус «На линии»");
+    }
+  }, [me]);
+
+  const reload = useCallback(() => setReloadKey((k) => k + 1), []);
+  useRealtime("messages", handleMessageEvent, { enabled: Boolean(API), onResync: reload });
+  useRealtime("chats", handleChatEvent, { enabled: Boolean(API), onResync: reload });
+
+  // --- Повтор отправки сообщения со статусом failed
+  const handleRetry = useCallback(
+    async (message: { id?: unknown }) => {
+      const id = message.id as ID | undefined;
+      if (!API || id == null) return;
+
+      const patch = (fields: Partial<Message>) =>
+        setMessages((prev) => prev.map((m) => (idEq(m.id, id) ? { ...m, ...fields } : m)));
+
+      patch({ status: "pending", error: null });
+
+      try {
+        const res = await authFetch(`${API}/messages/${encodeURIComponent(String(id))}/retry`, {
+          method: "POST",
+        });
+        const body = (await res.json().catch(() => null)) as SendResponse;
+        const row = res.ok ? body : body?.message;
+
+        if (row && row.id != null) {
+          patch({ ...row, id: row.id as ID });
+          return;
+        }
+
+        patch({ status: "failed" });
+        alert((body && body.error) || "Не удалось повторить отправку");
+      } catch {
+        patch({ status: "failed" });
+        alert("Не удалось повторить отправку (нет соединения).");
+      }
+    },
+    [API]
+  );
+
   // --- Пресеты количества отображаемых диалогов
   const presets = useMemo(() => {
     const candidates = [20, 50, 100, 200, 500];
@@ -369,6 +801,135 @@ export default function ChatsPage(): ReactElement {
   const shownCount = displayedDialogs.length;
   const filteredCount = locallyFiltered.length;
 
+  // Вкладки по ответственному и «На линии» — общие для десктопной и мобильной раскладки
+  const assignmentTabs = (
+    <div className="px-5 mt-3 flex items-center gap-3">
+      <SegmentedToggle
+        items={ASSIGNED_TABS}
+        activeValue={assignedTab}
+        onChange={(v) => setAssignedTab(v as AssignedTab)}
+        size="sm"
+      />
+      <select
+        value={statusFilter}
+        onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+        aria-label="Статус переписки"
+        className="bg-transparent border border-white/10 rounded-full px-2 py-0.5 text-body text-white/50"
+      >
+        {STATUS_FILTERS.map((f) => (
+          <option key={f.value} value={f.value}>
+            {f.label}
+          </option>
+        ))}
+      </select>
+      {allTags.length ? (
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          aria-label="Тег"
+          className="max-w-[140px] bg-transparent border border-white/10 rounded-full px-2 py-0.5 text-body text-white/50"
+        >
+          <option value="">Все теги</option>
+          {allTags.map((t) => (
+            <option key={t.id} value={String(t.id)}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {canTake && me ? (
+        <button
+          type="button"
+          aria-pressed={me.is_online}
+          onClick={() => void handleToggleOnline()}
+          className={[
+            "ml-auto text-body px-2 py-0.5 rounded-full border transition-colors",
+            me.is_online
+              ? "border-[#46d9bc]/60 text-[#46d9bc]/90 bg-[#46d9bc]/10"
+              : "border-white/10 text-white/40 hover:text-white/60",
+          ].join(" ")}
+          title="Автоназначение отдаёт новые чаты только операторам на линии"
+        >
+          {me.is_online ? "На линии" : "Не на линии"}
+        </button>
+      ) : null}
+    </div>
+  );
+
+  const headerActions = selectedDlg ? (
+    <div className="ml-auto flex items-center gap-3 flex-wrap justify-end">
+      {can("chats:write") ? (
+        <StatusControl
+          dlg={selectedDlg}
+          busy={statusBusy}
+          onChange={(status, reason) => void handleStatusChange(status, reason)}
+        />
+      ) : null}
+      <AssignmentControl
+        dlg={selectedDlg}
+        currentUserId={myId}
+        canTake={canTake}
+        canAssign={canAssign}
+        operators={operators}
+        busy={assignBusy}
+        onTake={() => void handleAssignment({ type: "take" })}
+        onRelease={() => void handleAssignment({ type: "unassign" })}
+        onAssign={(accountId) => void handleAssignment({ type: "assign", accountId })}
+      />
+    </div>
+  ) : null;
+
+  // Боковая панель MessagePane: теги и внутренние заметки открытого чата
+  const sidePanel = selectedDlg ? (
+    <div className="flex flex-col gap-5">
+      {canReadCustomers ? (
+        <CustomerCard
+          customer={chatCustomer.customer}
+          loading={chatCustomer.loading}
+          error={chatCustomer.error}
+          currentChatId={selectedId}
+          canEdit={can("customers:write")}
+          mergeOptions={mergeOptions}
+          onMergeWithChat={chatCustomer.mergeWithChat}
+          onSplit={chatCustomer.split}
+        />
+      ) : null}
+      <ChatInfoPanel
+        dlg={selectedDlg}
+        allTags={allTags}
+        notes={chatNotes.notes}
+        notesLoading={chatNotes.loading}
+        currentUserId={myId}
+        canEdit={can("chats:write")}
+        canDeleteAny={can("chats:delete")}
+        tagsBusy={tagsBusy}
+        onAddTag={(name) => void handleTagChange({ type: "add", name })}
+        onRemoveTag={(tagId) => void handleTagChange({ type: "remove", tagId })}
+        onSaveNote={chatNotes.save}
+        onDeleteNote={chatNotes.remove}
+      />
+    </div>
+  ) : null;
+  const notesLabel = notesCount ? `Заметки · ${notesCount}` : "Заметки";
+  const sidePanelLabel = canReadCustomers ? (notesCount ? `Гость · заметок: ${notesCount}` : "Гость") : notesLabel;
+
+  // Переключатель «Без ответа» — общий для десктопной и мобильной раскладки
+  const unansweredToggle = (
+    <button
+      type="button"
+      aria-pressed={onlyUnanswered}
+      onClick={() => setOnlyUnanswered((v) => !v)}
+      className={[
+        "ml-3 px-2 py-0.5 rounded-full border transition-colors",
+        onlyUnanswered
+          ? "border-[#46d9bc]/60 text-[#46d9bc]/90 bg-[#46d9bc]/10"
+          : "border-white/10 text-white/40 hover:text-white/60",
+      ].join(" ")}
+    >
+      Без ответа
+    </button>
+  );
+
   return (
     <div className="flex h-full relative min-h-0 overflow-hidden md:pt-14 lg:py-8">
       {isMdUp ? (
@@ -398,8 +959,11 @@ export default function ChatsPage(): ReactElement {
               {searchInput ? (
                 <span className="text-white/50"> (всего: {totalCount})</span>
               ) : null}
+              {unansweredToggle}
             </div>
 
+            {assignmentTabs}
+
             <div className="mt-2 flex-1 min-h-0 flex flex-col overflow-hidden">
               <div className="pt-4 px-6">
                 <div className="flex flex-wrap gap-2 mb-3">
@@ -421,6 +985,7 @@ export default function ChatsPage(): ReactElement {
                     dialogs={displayedDialogs}
                     selectedId={selectedId}
                     onSelect={handleSelectChat}
+                    currentUserId={myId}
                   />
                 )}
               </div>
@@ -434,7 +999,14 @@ export default function ChatsPage(): ReactElement {
               messages={messages}
               loading={loadingMessages}
               onSend={handleSend}
+              onRetry={handleRetry}
+              onRead={handleRead}
               onBack={noop}
+              headerActions={headerActions}
+              quickReplies={quickReplies}
+              renderQuickReply={renderQuickReply}
+              sidePanel={sidePanel}
+              sidePanelLabel={sidePanelLabel}
             />
           </div>
         </>
@@ -460,8 +1032,11 @@ export default function ChatsPage(): ReactElement {
                   {searchInput ? (
                     <span className="text-white/50"> (всего: {totalCount})</span>
                   ) : null}
+                  {unansweredToggle}
                 </div>
 
+                {assignmentTabs}
+
                 <div className="rounded-3xl flex-1 min-h-0 flex flex-col overflow-hidden">
                   <div className="pt-4 px-6">
                     <div className="flex flex-wrap gap-2 mb-3">
@@ -483,6 +1058,7 @@ export default function ChatsPage(): ReactElement {
                         dialogs={displayedDialogs}
                         selectedId={selectedId}
                         onSelect={handleSelectChat}
+                        currentUserId={myId}
                       />
                     )}
                   </div>
@@ -497,7 +1073,14 @@ export default function ChatsPage(): ReactElement {
                 messages={messages}
                 loading={loadingMessages}
                 onSend={handleSend}
+                onRetry={handleRetry}
+                onRead={handleRead}
                 onBack={handleBackToChats}
+                headerActions={headerActions}
+                quickReplies={quickReplies}
+                renderQuickReply={renderQuickReply}
+                sidePanel={sidePanel}
+                sidePanelLabel={sidePanelLabel}
               />
             </div>
           )}
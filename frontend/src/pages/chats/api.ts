@@ -1,4 +1,6 @@
-﻿import type { DialogLike } from "./utils/chatUtils";
+﻿import { authFetch } from "../../services/api";
+import type { DialogLike } from "./utils/chatUtils";
+import type { MessageAttachment } from "./components/AttachmentView";
 
 const API_BASE = import.meta.env.VITE_API_URL;
 
@@ -18,6 +20,10 @@ export interface ChatMessage {
   text?: string;
   date?: string | number | Date;
   is_bot?: boolean | 0 | 1 | "0" | "1" | null;
+  attachments?: MessageAttachment[];
+  /** Статус доставки исходящего: pending / sent / failed (текст ошибки — в error) */
+  status?: "pending" | "sent" | "failed";
+  error?: string | null;
   _clientOrder?: number;
   [key: string]: unknown;
 }
@@ -39,7 +45,7 @@ export async function fetchDialogs(search: string): Promise<{ items: ChatDialog[
     url.searchParams.set("q", search.trim());
   }
 
-  const res = await fetch(url.toString());
+  const res = await authFetch(url.toString());
   if (!res.ok) {
     throw new Error(`Failed to load dialogs: ${res.status}`);
   }
@@ -71,7 +77,7 @@ export async function fetchMessages(chatId: number | string): Promise<ChatMessag
   const url = new URL(`${API_BASE}/messages`);
   url.searchParams.set("chatId", String(chatId));
 
-  const res = await fetch(url.toString());
+  const res = await authFetch(url.toString());
   if (!res.ok) {
     throw new Error(`Failed to load messages: ${res.status}`);
   }
@@ -92,16 +98,33 @@ export async function fetchMessages(chatId: number | string): Promise<ChatMessag
   });
 }
 
+/**
+ * Загружает файл перед отправкой (POST /attachments); id из ответа передаётся в sendMessage.
+ */
+export async function uploadAttachment(file: File): Promise<MessageAttachment> {
+  const form = new FormData();
+  form.append("file", file);
+
+  const res = await authFetch(`${API_BASE}/attachments`, { method: "POST", body: form });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? "Не удалось загрузить файл");
+  }
+  return (await res.json()) as MessageAttachment;
+}
+
 export interface SendMessagePayload {
   chatId: string | number;
   text: string;
+  /** Загрузка из uploadAttachment; текст тогда уходит подписью и может быть пустым */
+  attachmentId?: string | number | null;
 }
 
-export async function sendMessage({ chatId, text }: SendMessagePayload): Promise<ChatMessage> {
-  const res = await fetch(`${API_BASE}/messages`, {
+export async function sendMessage({ chatId, text, attachmentId = null }: SendMessagePayload): Promise<ChatMessage> {
+  const res = await authFetch(`${API_BASE}/messages`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ chatId, text }),
+    body: JSON.stringify({ chatId, text, attachmentId }),
   });
 
   if (!res.ok) {
@@ -115,3 +138,348 @@ export async function sendMessage({ chatId, text }: SendMessagePayload): Promise
   }
   return data;
 }
+
+export interface MarkReadResult {
+  chat_id: number;
+  last_read_message_id: number;
+  /** Сколько непрочитанных входящих осталось (пришли после messageId) */
+  unread_count: number;
+}
+
+/**
+ * Отмечает чат прочитанным текущим аккаунтом — до messageId или до последнего сообщения чата.
+ */
+export async function markChatRead(chatId: string | number, messageId?: string | number | null): Promise<MarkReadResult> {
+  const res = await authFetch(`${API_BASE}/chats/${encodeURIComponent(String(chatId))}/read`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message_id: messageId ?? null }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to mark chat read: ${res.status}`);
+  }
+  return (await res.json()) as MarkReadResult;
+}
+
+/** Оператор, которому можно назначить чат (GET /operators). */
+export interface Operator {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: string;
+  /** «На линии»: автоназначение отдаёт новые чаты только таким операторам */
+  is_online: boolean;
+  /** Назначенные чаты, ждущие ответа */
+  open_chats: number;
+}
+
+export async function fetchOperators(): Promise<Operator[]> {
+  const res = await authFetch(`${API_BASE}/operators`);
+  if (!res.ok) {
+    throw new Error(`Failed to load operators: ${res.status}`);
+  }
+  const json = (await res.json().catch(() => ({}))) as { items?: Operator[] };
+  return Array.isArray(json.items) ? json.items : [];
+}
+
+/**
+ * Ставит или снимает отметку «на линии» у текущего аккаунта.
+ */
+export async function setOnlineStatus(online: boolean): Promise<boolean> {
+  const res = await authFetch(`${API_BASE}/operators/me/online`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ online }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to update online status: ${res.status}`);
+  }
+  return ((await res.json()) as { online: boolean }).online;
+}
+
+/**
+ * Меняет ответственного за чат:
+ * - take — взять себе (в том числе перехватить у другого оператора);
+ * - unassign — освободить;
+ * - assign — назначить accountId (нужно право chats:assign).
+ * Возвращает строку чата с assigned_to и assignee_name.
+ */
+export async function changeChatAssignee(
+  chatId: string | number,
+  change: { type: "take" } | { type: "unassign" } | { type: "assign"; accountId: string | null }
+): Promise<ChatDialog> {
+  const res = await authFetch(`${API_BASE}/chats/${encodeURIComponent(String(chatId))}/${change.type}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: change.type === "assign" ? JSON.stringify({ account_id: change.accountId }) : undefined,
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? "Не удалось изменить ответственного");
+  }
+  return (await res.json()) as ChatDialog;
+}
+
+/** Статус переписки: open — ждёт оператора, pending — ждём гостя, resolved — решено. */
+export type ChatStatus = "open" | "pending" | "resolved";
+
+/**
+ * Меняет статус переписки; reason сохраняется только для resolved.
+ * Новое сообщение гостя сервер сам возвращает в open.
+ */
+export async function updateChatStatus(
+  chatId: string | number,
+  status: ChatStatus,
+  reason?: string | null
+): Promise<ChatDialog> {
+  const res = await authFetch(`${API_BASE}/chats/${encodeURIComponent(String(chatId))}/status`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status, reason: reason ?? null }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? "Не удалось изменить статус чата");
+  }
+  return (await res.json()) as ChatDialog;
+}
+
+/** Шаблон ответа (GET /canned-responses): вызывается в поле ввода командой «/shortcut». */
+export interface CannedResponse {
+  id: number;
+  shortcut: string;
+  title: string;
+  /** Текст с переменными вида {first_name}, {last_order_total} */
+  body: string;
+  category: string | null;
+}
+
+/** Текст шаблона для чата; missing — переменные, для которых не нашлось данных. */
+export interface RenderedCannedResponse {
+  text: string;
+  missing: string[];
+}
+
+export async function fetchCannedResponses(): Promise<CannedResponse[]> {
+  const res = await authFetch(`${API_BASE}/canned-responses`);
+  if (!res.ok) {
+    throw new Error(`Failed to load canned responses: ${res.status}`);
+  }
+  const json = (await res.json().catch(() => ({}))) as { items?: CannedResponse[] };
+  return Array.isArray(json.items) ? json.items : [];
+}
+
+/**
+ * Подставляет в шаблон данные чата (имя гостя, последний заказ) и оператора — на сервере.
+ */
+export async function renderCannedResponse(
+  id: number,
+  chatId: string | number
+): Promise<RenderedCannedResponse> {
+  const res = await authFetch(`${API_BASE}/canned-responses/${id}/render`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ chat_id: Number(chatId) }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? "Не удалось подставить шаблон");
+  }
+  return (await res.json()) as RenderedCannedResponse;
+}
+
+/** Внутренний тег чата: виден только операторам, по тегам фильтруются список и рассылки. */
+export interface ChatTag {
+  id: number;
+  name: string;
+}
+
+export interface TagWithUsage extends ChatTag {
+  /** Сколько чатов помечено тегом */
+  chats: number;
+}
+
+export async function fetchTags(): Promise<TagWithUsage[]> {
+  const res = await authFetch(`${API_BASE}/tags`);
+  if (!res.ok) {
+    throw new Error(`Failed to load tags: ${res.status}`);
+  }
+  const json = (await res.json().catch(() => ({}))) as { items?: TagWithUsage[] };
+  return Array.isArray(json.items) ? json.items : [];
+}
+
+/**
+ * Вешает тег на чат по имени (нового тега с таким именем ещё нет — сервер его создаст)
+ * или снимает по id. Возвращает чат с актуальным списком tags.
+ */
+export async function changeChatTags(
+  chatId: string | number,
+  change: { type: "add"; name: string } | { type: "remove"; tagId: number }
+): Promise<ChatDialog> {
+  const base = `${API_BASE}/chats/${encodeURIComponent(String(chatId))}/tags`;
+  const res =
+    change.type === "add"
+      ? await authFetch(base, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: change.name }),
+        })
+      : await authFetch(`${base}/${change.tagId}`, { method: "DELETE" });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? "Не удалось изменить теги чата");
+  }
+  return (await res.json()) as ChatDialog;
+}
+
+/** Внутренняя заметка по чату: гостю не отправляется. */
+export interface ChatNote {
+  id: number;
+  chat_id: number;
+  author_id: string | null;
+  author_name: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const notesUrl = (chatId: string | number, noteId?: number) =>
+  `${API_BASE}/chats/${encodeURIComponent(String(chatId))}/notes${noteId != null ? `/${noteId}` : ""}`;
+
+/** Заметки чата, новые сверху. */
+export async function fetchChatNotes(chatId: string | number, signal?: AbortSignal): Promise<ChatNote[]> {
+  const res = await authFetch(notesUrl(chatId), { signal });
+  if (!res.ok) {
+    throw new Error(`Failed to load notes: ${res.status}`);
+  }
+  const json = (await res.json().catch(() => ({}))) as { items?: ChatNote[] };
+  return Array.isArray(json.items) ? json.items : [];
+}
+
+/**
+ * Добавляет заметку (noteId не задан) или правит свою (noteId задан).
+ */
+export async function saveChatNote(chatId: string | number, body: string, noteId?: number): Promise<ChatNote> {
+  const res = await authFetch(notesUrl(chatId, noteId), {
+    method: noteId != null ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ body }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? "Не удалось сохранить заметку");
+  }
+  return (await res.json()) as ChatNote;
+}
+
+export async function deleteChatNote(chatId: string | number, noteId: number): Promise<void> {
+  const res = await authFetch(notesUrl(chatId, noteId), { method: "DELETE" });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? "Не удалось удалить заметку");
+  }
+}
+
+/** Чат, привязанный к профилю гостя. */
+export interface CustomerChat {
+  chat_id: number;
+  platform: string | null;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+/**
+ * Единый профиль гостя: чаты во всех мессенджерах, заказы и брони одного человека.
+ * Записи сводятся по телефону и username; ошибки исправляются объединением и разделением.
+ */
+export interface CustomerProfile {
+  id: number;
+  display_name: string | null;
+  /** telegram / vk */
+  platforms: string[];
+  /** Телефоны в виде 7XXXXXXXXXX */
+  phones: string[];
+  chats: CustomerChat[];
+  orders_count: number;
+  total_spent: number;
+  last_order_at: string | null;
+  reservations_count: number;
+  last_reservation: {
+    id: number;
+    date: string | null;
+    time: string | null;
+    guests: number | null;
+    address: string | null;
+  } | null;
+  recent_orders: Array<{
+    id: number;
+    order_type: string | null;
+    date: string | null;
+    total: number | null;
+    created_at: string;
+  }>;
+}
+
+/** Записи профиля, которые отделяются в новый профиль. */
+export interface CustomerSplitPayload {
+  chat_ids?: number[];
+  order_ids?: number[];
+  reservation_ids?: number[];
+}
+
+async function customerRequest<T>(url: string, init: RequestInit, fallback: string): Promise<T> {
+  const res = await authFetch(url, init);
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err?.error ?? fallback);
+  }
+  return (await res.json()) as T;
+}
+
+/** Профиль гостя чата; null — чат ещё не сопоставлен с профилем (это делает сервер при записи). */
+export async function fetchChatCustomer(
+  chatId: string | number,
+  signal?: AbortSignal
+): Promise<CustomerProfile | null> {
+  return customerRequest<CustomerProfile | null>(
+    `${API_BASE}/chats/${encodeURIComponent(String(chatId))}/customer`,
+    { signal },
+    "Не удалось загрузить профиль гостя"
+  );
+}
+
+/**
+ * Вливает в targetId профиль source_id или профиль гостя чата chat_id (чат без профиля сервер
+ * сначала сопоставит); возвращает объединённый профиль.
+ */
+export async function mergeCustomers(
+  targetId: number,
+  source: { source_id: number } | { chat_id: string | number }
+): Promise<CustomerProfile> {
+  return customerRequest<CustomerProfile>(
+    `${API_BASE}/customers/${targetId}/merge`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(source),
+    },
+    "Не удалось объединить профили"
+  );
+}
+
+/** Отделяет записи в новый профиль; возвращает оба профиля. */
+export async function splitCustomer(
+  customerId: number,
+  payload: CustomerSplitPayload
+): Promise<{ source: CustomerProfile; created: CustomerProfile }> {
+  return customerRequest<{ source: CustomerProfile; created: CustomerProfile }>(
+    `${API_BASE}/customers/${customerId}/split`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    },
+    "Не удалось разделить профиль"
+  );
+}
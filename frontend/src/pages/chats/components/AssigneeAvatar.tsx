@@ -0,0 +1,53 @@
+/**
+ * Аватар ответственного оператора: кружок с инициалами.
+ *
+ * - Цвет фона стабилен для одного оператора (считается из id), чтобы в длинном списке
+ *   чатов «свои» и «чужие» различались с первого взгляда.
+ * - Полное имя — в title и aria-label: инициалы сами по себе неоднозначны.
+ */
+
+import { type JSX } from "react";
+
+interface AssigneeAvatarProps {
+  /** id аккаунта — источник цвета */
+  id: string;
+  /** Имя или email оператора */
+  name?: string | null;
+  /** Выделить, если это текущий пользователь */
+  mine?: boolean;
+  className?: string;
+}
+
+const PALETTE = ["#46d9bc", "#7aa2ff", "#f2a65a", "#d77bf0", "#f06b7b", "#9bd45c"];
+
+const initialsOf = (name: string): string => {
+  const words = name.replace(/@.*$/, "").split(/[\s._-]+/).filter(Boolean);
+  const letters = words.length > 1 ? words[0][0] + words[1][0] : (words[0] ?? "?").slice(0, 2);
+  return letters.toUpperCase();
+};
+
+const colorOf = (id: string): string => {
+  let hash = 0;
+  for (const ch of id) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return PALETTE[Math.abs(hash) % PALETTE.length];
+};
+
+const AssigneeAvatar = ({ id, name, mine = false, className = "" }: AssigneeAvatarProps): JSX.Element => {
+  const label = (name ?? "").trim() || "Оператор";
+  return (
+    <span
+      title={mine ? `${label} (вы)` : label}
+      aria-label={`Ответственный: ${label}`}
+      className={[
+        "inline-flex items-center justify-center rounded-full shrink-0 w-6 h-6 text-[10px] font-semibold text-[#0b1533]",
+        mine ? "ring-2 ring-white/60" : "",
+        className,
+      ].join(" ")}
+      style={{ backgroundColor: colorOf(id) }}
+    >
+      {initialsOf(label)}
+    </span>
+  );
+};
+
+export default AssigneeAvatar;
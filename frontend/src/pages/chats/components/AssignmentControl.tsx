@@ -0,0 +1,101 @@
+/**
+ * Ответственный за чат — блок в шапке MessagePane.
+ *
+ * Что показывает:
+ * - Аватар и имя ответственного или «Свободен».
+ * - «Взять себе» — для свободного чата, «Перехватить» — для чужого (нужно право messages:send).
+ * - «Освободить» — свой чат, а чужой — только руководителю (chats:assign).
+ * - Руководителю — список операторов для назначения; у каждого видно, на линии ли он и сколько
+ *   его чатов ждут ответа.
+ *
+ * Сам компонент запросов не делает: действия уходят наверх в ChatsPage.
+ */
+
+import { type ChangeEvent, type JSX } from "react";
+
+import AssigneeAvatar from "./AssigneeAvatar";
+import type { ChatDialog } from "./ChatListItem";
+import type { Operator } from "../api";
+
+interface AssignmentControlProps {
+  dlg: ChatDialog;
+  currentUserId?: string | number | null;
+  /** Может брать чаты себе (messages:send) */
+  canTake: boolean;
+  /** Может назначать других и освобождать чужие чаты (chats:assign) */
+  canAssign: boolean;
+  operators: Operator[];
+  /** Запрос в процессе — кнопки неактивны */
+  busy?: boolean;
+  onTake: () => void;
+  onRelease: () => void;
+  onAssign: (accountId: string | null) => void;
+}
+
+const operatorLabel = (op: Operator): string => {
+  const name = (op.full_name ?? "").trim() || op.email;
+  return `${op.is_online ? "● " : "○ "}${name} (${op.open_chats})`;
+};
+
+const buttonClass =
+  "px-2 py-0.5 rounded-full border border-white/10 text-white/50 hover:text-white/70 disabled:opacity-40 transition-colors";
+
+export default function AssignmentControl({
+  dlg,
+  currentUserId,
+  canTake,
+  canAssign,
+  operators,
+  busy = false,
+  onTake,
+  onRelease,
+  onAssign,
+}: AssignmentControlProps): JSX.Element {
+  const assignedTo = dlg.assigned_to ?? null;
+  const mine = assignedTo != null && currentUserId != null && String(currentUserId) === assignedTo;
+
+  const handleSelect = (event: ChangeEvent<HTMLSelectElement>) => {
+    onAssign(event.target.value || null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 shrink-0 text-body">
+      {assignedTo ? (
+        <AssigneeAvatar id={assignedTo} name={dlg.assignee_name} mine={mine} />
+      ) : (
+        <span className="text-white/30">Свободен</span>
+      )}
+
+      {canAssign && operators.length ? (
+        <select
+          value={assignedTo ?? ""}
+          onChange={handleSelect}
+          disabled={busy}
+          aria-label="Ответственный оператор"
+          className="max-w-[180px] bg-transparent border border-white/10 rounded-full px-2 py-0.5 text-white/50"
+        >
+          <option value="">— без оператора —</option>
+          {operators.map((op) => (
+            <option key={op.id} value={op.id}>
+              {operatorLabel(op)}
+            </option>
+          ))}
+        </select>
+      ) : assignedTo && !mine ? (
+        <span className="text-white/40 truncate max-w-[140px]">{dlg.assignee_name}</span>
+      ) : null}
+
+      {canTake && !mine ? (
+        <button type="button" disabled={busy} onClick={onTake} className={buttonClass}>
+          {assignedTo ? "Перехватить" : "Взять себе"}
+        </button>
+      ) : null}
+
+      {assignedTo && (mine || canAssign) ? (
+        <button type="button" disabled={busy} onClick={onRelease} className={buttonClass}>
+          Освободить
+        </button>
+      ) : null}
+    </div>
+  );
+}
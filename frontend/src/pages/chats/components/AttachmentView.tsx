@@ -0,0 +1,97 @@
+/**
+ * Компонент "AttachmentView" — одно вложение внутри пузыря сообщения.
+ *
+ * - photo — превью картинки; клик открывает оригинал в новой вкладке.
+ * - voice и аудио-документы — встроенный плеер.
+ * - остальное — «чип» с именем и размером файла; файл скачивается только по клику,
+ *   чтобы не тянуть тяжёлые документы при каждом открытии чата.
+ */
+
+import { useState } from "react";
+
+import { downloadAttachment, useAttachmentUrl } from "../hooks/useAttachmentUrl";
+
+export type AttachmentKind = "photo" | "document" | "voice";
+
+export interface MessageAttachment {
+  id: number | string;
+  kind: AttachmentKind;
+  file_name: string;
+  mime_type: string;
+  size_bytes?: number | null;
+}
+
+interface AttachmentViewProps {
+  attachment: MessageAttachment;
+}
+
+/** 1536 → «1.5 КБ»; null — размер неизвестен (файл ещё не скачан из мессенджера). */
+const formatSize = (bytes: number | null | undefined): string | null => {
+  if (!bytes) return null;
+  if (bytes < 1024) return `${bytes} Б`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} МБ`;
+};
+
+function MediaAttachment({ attachment }: AttachmentViewProps) {
+  const { url, failed } = useAttachmentUrl(attachment.id);
+
+  if (failed) {
+    return <div className="text-body opacity-60">Не удалось загрузить «{attachment.file_name}»</div>;
+  }
+  if (!url) {
+    return <div className="text-body opacity-40">Загрузка…</div>;
+  }
+  if (attachment.kind === "photo") {
+    return (
+      <a href={url} target="_blank" rel="noreferrer">
+        <img
+          src={url}
+          alt={attachment.file_name}
+          className="max-w-[260px] max-h-[260px] rounded-xl object-cover"
+        />
+      </a>
+    );
+  }
+  return <audio controls src={url} className="max-w-[260px]" />;
+}
+
+function FileAttachment({ attachment }: AttachmentViewProps) {
+  const [busy, setBusy] = useState(false);
+  const size = formatSize(attachment.size_bytes);
+
+  const onClick = async () => {
+    setBusy(true);
+    try {
+      await downloadAttachment(attachment.id, attachment.file_name);
+    } catch {
+      alert("Не удалось скачать файл");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={busy}
+      className="flex items-center gap-2 max-w-[260px] rounded-xl bg-white/10 px-3 py-2 text-left hover:bg-white/20 disabled:opacity-50"
+    >
+      <span aria-hidden>📄</span>
+      <span className="min-w-0">
+        <span className="block truncate">{attachment.file_name}</span>
+        {size && <span className="block text-[11px] opacity-50">{size}</span>}
+      </span>
+    </button>
+  );
+}
+
+export default function AttachmentView({ attachment }: AttachmentViewProps) {
+  const isMedia =
+    attachment.kind === "photo" ||
+    attachment.kind === "voice" ||
+    attachment.mime_type.startsWith("audio/");
+
+  return isMedia ? <MediaAttachment attachment={attachment} /> : <FileAttachment attachment={attachment} />;
+}
@@ -0,0 +1,219 @@
+/**
+ * Внутренний контекст чата — содержимое боковой панели MessagePane: теги и заметки операторов.
+ *
+ * - Теги: чипы с удалением и поле с подсказками из уже заведённых тегов; новый тег сервер создаст сам.
+ * - Заметки: новые сверху, с автором и временем. Свою заметку можно изменить и удалить,
+ *   чужую — только удалить и только руководителю (chats:delete).
+ * - Ни теги, ни заметки гостю не отправляются — панель это явно подписывает.
+ *
+ * Запросы делает не компонент: действия уходят наверх (ChatsPage / useChatNotes).
+ */
+
+import { useState, type FormEvent, type JSX } from "react";
+
+import type { ChatDialog } from "./ChatListItem";
+import type { ChatNote, TagWithUsage } from "../api";
+
+interface ChatInfoPanelProps {
+  dlg: ChatDialog;
+  /** Все теги — подсказки для поля ввода */
+  allTags: TagWithUsage[];
+  notes: ChatNote[];
+  notesLoading?: boolean;
+  currentUserId?: string | number | null;
+  /** Может менять теги и писать заметки (chats:write) */
+  canEdit: boolean;
+  /** Может удалять чужие заметки (chats:delete) */
+  canDeleteAny: boolean;
+  /** Запрос по тегам в процессе */
+  tagsBusy?: boolean;
+  onAddTag: (name: string) => void;
+  onRemoveTag: (tagId: number) => void;
+  onSaveNote: (body: string, noteId?: number) => Promise<void>;
+  onDeleteNote: (noteId: number) => Promise<void>;
+}
+
+const NOTE_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "2-digit",
+  month: "2-digit",
+  year: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+const formatNoteDate = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toLocaleString("ru-RU", NOTE_DATE_FORMAT);
+};
+
+const linkButtonClass =
+  "bg-transparent p-0 border-0 text-white/30 hover:text-white/60 disabled:opacity-40 transition-colors";
+
+export default function ChatInfoPanel({
+  dlg,
+  allTags,
+  notes,
+  notesLoading = false,
+  currentUserId,
+  canEdit,
+  canDeleteAny,
+  tagsBusy = false,
+  onAddTag,
+  onRemoveTag,
+  onSaveNote,
+  onDeleteNote,
+}: ChatInfoPanelProps): JSX.Element {
+  const [tagInput, setTagInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
+  const [noteBusy, setNoteBusy] = useState(false);
+
+  const tags = dlg.tags ?? [];
+  const suggestions = allTags.filter((t) => !tags.some((own) => own.id === t.id));
+  const isMine = (note: ChatNote) => currentUserId != null && note.author_id === String(currentUserId);
+
+  const submitTag = (event: FormEvent) => {
+    event.preventDefault();
+    const name = tagInput.trim();
+    if (!name) return;
+    onAddTag(name);
+    setTagInput("");
+  };
+
+  /** Общая обёртка для действий с заметками: блокирует кнопки и показывает ошибку сервера. */
+  const runNoteAction = async (action: () => Promise<void>): Promise<boolean> => {
+    setNoteBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (e) {
+      alert((e as Error).message || "Не удалось сохранить заметку");
+      return false;
+    } finally {
+      setNoteBusy(false);
+    }
+  };
+
+  const submitNote = async (event: FormEvent) => {
+    event.preventDefault();
+    const body = noteInput.trim();
+    if (!body) return;
+    if (await runNoteAction(() => onSaveNote(body))) setNoteInput("");
+  };
+
+  const editNote = (note: ChatNote) => {
+    const body = window.prompt("Заметка:", note.body);
+    if (body === null || !body.trim() || body.trim() === note.body) return;
+    void runNoteAction(() => onSaveNote(body.trim(), note.id));
+  };
+
+  const removeNote = (note: ChatNote) => {
+    if (!window.confirm("Удалить заметку?")) return;
+    void runNoteAction(() => onDeleteNote(note.id));
+  };
+
+  return (
+    <div className="flex flex-col gap-5 text-body">
+      <p className="text-white/30">Видно только операторам — гостю не отправляется.</p>
+
+      <section>
+        <h3 className="mb-2 text-white/50">Теги</h3>
+        <div className="flex flex-wrap gap-1.5">
+          {tags.length === 0 ? <span className="text-white/30">Нет тегов</span> : null}
+          {tags.map((tag) => (
+            <span
+              key={tag.id}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/10 text-white/60"
+            >
+              {tag.name}
+              {canEdit ? (
+                <button
+                  type="button"
+                  disabled={tagsBusy}
+                  onClick={() => onRemoveTag(tag.id)}
+                  className={linkButtonClass}
+                  aria-label={`Снять тег ${tag.name}`}
+                >
+                  ×
+                </button>
+              ) : null}
+            </span>
+          ))}
+        </div>
+        {canEdit ? (
+          <form onSubmit={submitTag} className="mt-2">
+            <input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              list="chat-tag-suggestions"
+              maxLength={40}
+              disabled={tagsBusy}
+              placeholder="Добавить тег…"
+              aria-label="Новый тег"
+              className="w-full rounded-full bg-[#484B63] placeholder-white/40 text-white/60 px-3 py-1 focus:outline-none"
+            />
+            <datalist id="chat-tag-suggestions">
+              {suggestions.map((tag) => (
+                <option key={tag.id} value={tag.name} />
+              ))}
+            </datalist>
+          </form>
+        ) : null}
+      </section>
+
+      <section className="min-h-0">
+        <h3 className="mb-2 text-white/50">Заметки</h3>
+        {canEdit ? (
+          <form onSubmit={(e) => void submitNote(e)} className="mb-3 flex flex-col gap-2">
+            <textarea
+              value={noteInput}
+              onChange={(e) => setNoteInput(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              disabled={noteBusy}
+              placeholder="Например: аллергия на орехи"
+              aria-label="Новая заметка"
+              className="resize-none rounded-2xl bg-[#484B63] placeholder-white/40 text-white/60 px-3 py-2 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={noteBusy || !noteInput.trim()}
+              className="self-end px-3 py-0.5 rounded-full border border-white/10 text-white/50 hover:text-white/70 disabled:opacity-40 transition-colors"
+            >
+              Добавить
+            </button>
+          </form>
+        ) : null}
+
+        {notesLoading && notes.length === 0 ? (
+          <div className="text-white/30">Загрузка…</div>
+        ) : notes.length === 0 ? (
+          <div className="text-white/30">Заметок пока нет</div>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {notes.map((note) => (
+              <li key={note.id} className="rounded-2xl bg-white/5 px-3 py-2">
+                <div className="flex items-center gap-2 text-white/30">
+                  <span className="truncate">{note.author_name ?? "Удалённый аккаунт"}</span>
+                  <span className="ml-auto shrink-0">{formatNoteDate(note.created_at)}</span>
+                </div>
+                <div className="mt-1 whitespace-pre-wrap break-words text-white/60">{note.body}</div>
+                {canEdit && (isMine(note) || canDeleteAny) ? (
+                  <div className="mt-1 flex gap-3">
+                    {isMine(note) ? (
+                      <button type="button" disabled={noteBusy} onClick={() => editNote(note)} className={linkButtonClass}>
+                        Изменить
+                      </button>
+                    ) : null}
+                    <button type="button" disabled={noteBusy} onClick={() => removeNote(note)} className={linkButtonClass}>
+                      Удалить
+                    </button>
+                  </div>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
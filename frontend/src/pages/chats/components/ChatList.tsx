@@ -125,6 +125,8 @@ interface ChatListProps {
   selectedId?: string | number | null;
   /** Колбэк выбора диалога */
   onSelect: (chatId: string | number) => void;
+  /** id текущего пользователя — для пометки его чатов */
+  currentUserId?: string | number | null;
 }
 
 /* =========================
@@ -135,6 +137,7 @@ export default function ChatList({
   dialogs,
   selectedId,
   onSelect,
+  currentUserId,
 }: ChatListProps) {
   const MOBILE_QUERY = "(max-width: 920px)";
   const isMobile = useMediaQuery(MOBILE_QUERY);
@@ -180,6 +183,7 @@ export default function ChatList({
               selected={selectedId === dlg.chat_id}
               onSelect={onSelect}
               lastDate={lastDate}
+              currentUserId={currentUserId}
             />
           </AnimatedItem>
         );
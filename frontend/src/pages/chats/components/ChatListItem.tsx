@@ -4,6 +4,10 @@
  * Зачем этот компонент:
  * - Рендерит один item со всей базовой информацией: аватар платформы, ФИО/ник, ID и метку времени.
  * - Поддерживает выделение выбранного диалога и клики по строке.
+ * - Показывает бейдж непрочитанных входящих (unread_count) и выделяет имя, пока они есть.
+ * - Если у чата есть ответственный оператор (assigned_to), рядом с ником — его аватар.
+ * - Отложенные (pending) и решённые (resolved) чаты помечены меткой статуса; решённые приглушены.
+ * - Внутренние теги — мелкими чипами под ником (первые MAX_TAGS, остальные — «+N»).
  *
  * Что важно:
  * - Используем явную типизацию пропсов и возвращаемого значения (без React.FC), чтобы избежать
@@ -19,6 +23,9 @@ import vkLogo from "@/assets/images/social/vk.png";
 import tgLogo from "@/assets/images/social/tg.jpg";
 import { type JSX } from "react";
 
+import AssigneeAvatar from "./AssigneeAvatar";
+import type { ChatTag } from "../api";
+
 export interface ChatDialog {
   chat_id: number | string;
   first_name?: string | null;
@@ -26,6 +33,22 @@ export interface ChatDialog {
   username?: string | null;
   /** Платформа: влияет на логотип/alt. При отсутствии — дефолтимся к "tg". */
   platform?: "vk" | "tg";
+  /** Непрочитанные текущим оператором входящие */
+  unread_count?: number;
+  /** Последнее сообщение — от гостя (чат ждёт ответа) */
+  awaiting_reply?: boolean;
+  /** Ответственный оператор (id аккаунта); null — чат свободен */
+  assigned_to?: string | null;
+  /** Имя или email ответственного */
+  assignee_name?: string | null;
+  /** Статус переписки; open меткой не помечаем */
+  status?: "open" | "pending" | "resolved";
+  /** Причина последнего решения (для подсказки) */
+  resolution_reason?: string | null;
+  /** Внутренние теги (гостю не видны) */
+  tags?: ChatTag[];
+  /** Число внутренних заметок */
+  notes_count?: number;
   /** Дополнительные поля, которые могут прилететь из API (сохраняем расширяемость) */
   [key: string]: unknown;
 }
@@ -39,14 +62,24 @@ interface ChatListItemProps {
   onSelect: (chatId: number | string) => void;
   /** Текстовая метка последней активности/сообщения (форматирование — на стороне родителя) */
   lastDate?: string;
+  /** id текущего пользователя — его чаты помечаются на аватаре ответственного */
+  currentUserId?: string | number | null;
 }
 
+/** Сколько тегов показывать в строке списка */
+const MAX_TAGS = 3;
+
+const STATUS_LABELS: Record<"pending" | "resolved", string> = {
+  pending: "Ожидает",
+  resolved: "Решён",
+};
+
 /** Вспомогательная утилита для конкатенации классов без внешних зависимостей */
 function cn(...classes: Array<string | false | undefined>): string {
   return classes.filter(Boolean).join(" ");
 }
 
-const ChatListItem = ({ dlg, selected, onSelect, lastDate }: ChatListItemProps): JSX.Element => {
+const ChatListItem = ({ dlg, selected, onSelect, lastDate, currentUserId }: ChatListItemProps): JSX.Element => {
   // Безопасно определяем платформу (если поле отсутствует/пустое — используем "tg")
   const platform = (dlg.platform ?? "tg") as "vk" | "tg";
   const platformLogo = platform === "vk" ? vkLogo : tgLogo;
@@ -64,12 +97,17 @@ const ChatListItem = ({ dlg, selected, onSelect, lastDate }: ChatListItemProps):
       return clean ? `@${clean}` : "";
     })()) || `@id${dlg.chat_id}`;
 
+  const unread = Number(dlg.unread_count) || 0;
+  const statusLabel = dlg.status === "pending" || dlg.status === "resolved" ? STATUS_LABELS[dlg.status] : null;
+  const tags = dlg.tags ?? [];
+
   return (
     <div
       className={cn(
         "relative w-full select-none group pl-4",
         // Выбранный — постоянный приглушённый фон; не выбранный — hover/active состояния
         selected ? "bg-white/10" : "hover:bg-white/5 active:bg-black/5",
+        dlg.status === "resolved" && !selected && "opacity-60",
         "transition-colors duration-150 ease-out",
         // Разделитель снизу: псевдоэлемент вместо дополнительного DOM-узла
         "after:content-[''] after:absolute after:left-20 after:right-0 after:bottom-0 after:h-px after:bg-white/10",
@@ -93,16 +131,63 @@ const ChatListItem = ({ dlg, selected, onSelect, lastDate }: ChatListItemProps):
 
         <div className="flex-1 min-w-0">
           <div className="flex items-start gap-3">
-            <div className="font-medium text-white/60 truncate">{fullName}</div>
+            <div className={cn("font-medium truncate", unread > 0 ? "text-white/90" : "text-white/60")}>
+              {fullName}
+            </div>
+            {statusLabel ? (
+              <span
+                className="shrink-0 px-1.5 rounded-full border border-white/10 text-[11px] leading-[18px] text-white/40"
+                title={dlg.status === "resolved" && dlg.resolution_reason ? dlg.resolution_reason : undefined}
+              >
+                {statusLabel}
+              </span>
+            ) : null}
             {lastDate ? (
               <div className="ml-auto text-body text-white/10 shrink-0">{lastDate}</div>
             ) : null}
           </div>
 
-          <div className="text-body text-white/40 truncate">{username}</div>
+          <div className="flex items-center gap-2">
+            <div className="text-body text-white/40 truncate">{username}</div>
+            {dlg.assigned_to ? (
+              <AssigneeAvatar
+                id={dlg.assigned_to}
+                name={dlg.assignee_name}
+                mine={currentUserId != null && String(currentUserId) === dlg.assigned_to}
+                className="ml-auto"
+              />
+            ) : null}
+            {unread > 0 ? (
+              <span
+                className={cn(
+                  "shrink-0 min-w-[20px] h-[20px] px-1.5 rounded-full bg-[#46d9bc]/80 text-[#0b1533] text-[11px] font-semibold leading-[20px] text-center",
+                  !dlg.assigned_to && "ml-auto",
+                )}
+                aria-label={`Непрочитанных: ${unread}`}
+              >
+                {unread > 99 ? "99+" : unread}
+              </span>
+            ) : null}
+          </div>
 
           {/* ID показываем явно: бывает полезно для отладки и ручной навигации */}
           <div className="text-body text-white/20 truncate">ID: {dlg.chat_id}</div>
+
+          {tags.length ? (
+            <div className="mt-1 flex items-center gap-1 min-w-0 overflow-hidden">
+              {tags.slice(0, MAX_TAGS).map((tag) => (
+                <span
+                  key={tag.id}
+                  className="shrink-0 max-w-[96px] truncate px-1.5 rounded-full bg-white/10 text-[11px] leading-[18px] text-white/50"
+                >
+                  {tag.name}
+                </span>
+              ))}
+              {tags.length > MAX_TAGS ? (
+                <span className="shrink-0 text-[11px] text-white/30">+{tags.length - MAX_TAGS}</span>
+              ) : null}
+            </div>
+          ) : null}
         </div>
       </button>
     </div>
@@ -0,0 +1,226 @@
+/**
+ * Карточка гостя — верх боковой панели MessagePane: единый профиль по всем мессенджерам.
+ *
+ * - Сводка: платформы, телефоны, число заказов и сумма за всё время, последний заказ и бронь.
+ * - Связанные чаты из других мессенджеров; чат, сведённый по ошибке, можно отделить.
+ * - Объединение: профиль гостя другого чата вливается в этот (право customers:write).
+ *
+ * Запросы делает не компонент: действия уходят наверх (ChatsPage / useChatCustomer).
+ */
+
+import { useState, type JSX } from "react";
+
+import type { CustomerChat, CustomerProfile, CustomerSplitPayload } from "../api";
+
+export interface CustomerMergeOption {
+  chat_id: string | number;
+  label: string;
+}
+
+interface CustomerCardProps {
+  customer: CustomerProfile | null;
+  loading?: boolean;
+  error?: string | null;
+  currentChatId: string | number | null;
+  /** Может объединять и разделять профили (customers:write) */
+  canEdit: boolean;
+  /** Чаты, с гостем которых можно объединить профиль */
+  mergeOptions: CustomerMergeOption[];
+  onMergeWithChat: (chatId: string | number) => Promise<void>;
+  onSplit: (payload: CustomerSplitPayload) => Promise<void>;
+}
+
+const PLATFORM_TITLES: Record<string, string> = {
+  telegram: "Telegram",
+  vk: "VK",
+};
+
+const formatMoney = (value: number): string => `${value.toLocaleString("ru-RU")} ₽`;
+
+/** 79991234567 → +7 999 123-45-67; прочие номера — как есть. */
+const formatPhone = (value: string): string =>
+  /^7\d{10}$/.test(value)
+    ? `+7 ${value.slice(1, 4)} ${value.slice(4, 7)}-${value.slice(7, 9)}-${value.slice(9)}`
+    : value;
+
+const formatDate = (value: string | null | undefined): string => {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString("ru-RU");
+};
+
+const chatTitle = (chat: CustomerChat): string => {
+  const name = [chat.first_name, chat.last_name].filter(Boolean).join(" ").trim();
+  const platform = PLATFORM_TITLES[chat.platform === "vk" ? "vk" : "telegram"];
+  return `${platform} · ${name || (chat.username ? `@${chat.username}` : `ID ${chat.chat_id}`)}`;
+};
+
+const linkButtonClass =
+  "bg-transparent p-0 border-0 text-white/30 hover:text-white/60 disabled:opacity-40 transition-colors";
+
+export default function CustomerCard({
+  customer,
+  loading = false,
+  error = null,
+  currentChatId,
+  canEdit,
+  mergeOptions,
+  onMergeWithChat,
+  onSplit,
+}: CustomerCardProps): JSX.Element {
+  const [mergeChatId, setMergeChatId] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  /** Общая обёртка для действий с профилем: блокирует кнопки и показывает ошибку сервера. */
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      alert((e as Error).message || "Не удалось изменить профиль гостя");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!customer) {
+    return (
+      <section className="text-body">
+        <h3 className="mb-2 text-white/50">Гость</h3>
+        <div className="text-white/30">{loading ? "Загрузка…" : (error ?? "Профиль гостя ещё не сопоставлен")}</div>
+      </section>
+    );
+  }
+
+  const isCurrent = (chat: CustomerChat) => String(chat.chat_id) === String(currentChatId);
+  const otherChats = customer.chats.filter((chat) => !isCurrent(chat));
+  const linkedIds = new Set(customer.chats.map((chat) => String(chat.chat_id)));
+  const candidates = mergeOptions.filter((option) => !linkedIds.has(String(option.chat_id)));
+  const lastOrder = customer.recent_orders[0];
+  const reservation = customer.last_reservation;
+
+  const mergeSelected = () => {
+    if (!mergeChatId) return;
+    if (!window.confirm("Объединить профили? Заказы, брони и чаты гостя перейдут в этот профиль.")) return;
+    void runAction(async () => {
+      await onMergeWithChat(mergeChatId);
+      setMergeChatId("");
+    });
+  };
+
+  const splitChat = (chat: CustomerChat) => {
+    if (!window.confirm(`Отделить «${chatTitle(chat)}» в отдельный профиль?`)) return;
+    void runAction(() => onSplit({ chat_ids: [chat.chat_id] }));
+  };
+
+  const splitCurrent = () => {
+    if (currentChatId == null) return;
+    if (!window.confirm("Отделить этот чат в отдельный профиль?")) return;
+    void runAction(() => onSplit({ chat_ids: [Number(currentChatId)] }));
+  };
+
+  return (
+    <section className="flex flex-col gap-3 text-body">
+      <div className="flex items-center gap-2">
+        <h3 className="text-white/50 truncate">{customer.display_name || "Гость"}</h3>
+        <div className="ml-auto flex shrink-0 gap-1">
+          {customer.platforms.map((platform) => (
+            <span key={platform} className="px-2 py-0.5 rounded-full bg-white/10 text-white/50">
+              {PLATFORM_TITLES[platform] ?? platform}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {customer.phones.length ? (
+        <div className="text-white/60">{customer.phones.map(formatPhone).join(", ")}</div>
+      ) : null}
+
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-2">
+        <div>
+          <dt className="text-white/30">Заказов</dt>
+          <dd className="text-white/60">{customer.orders_count}</dd>
+        </div>
+        <div>
+          <dt className="text-white/30">Сумма</dt>
+          <dd className="text-white/60">{formatMoney(customer.total_spent)}</dd>
+        </div>
+        <div>
+          <dt className="text-white/30">Последний заказ</dt>
+          <dd className="text-white/60">
+            {lastOrder ? formatDate(lastOrder.date ?? customer.last_order_at) : "—"}
+            {lastOrder?.total != null ? ` · ${formatMoney(lastOrder.total)}` : ""}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-white/30">Последняя бронь</dt>
+          <dd className="text-white/60">
+            {reservation
+              ? `${formatDate(reservation.date)}${reservation.time ? ` ${reservation.time.slice(0, 5)}` : ""}` +
+                (reservation.guests ? ` · ${reservation.guests} гост.` : "")
+              : "—"}
+          </dd>
+        </div>
+      </dl>
+
+      {otherChats.length ? (
+        <div>
+          <div className="mb-1 text-white/30">Другие чаты гостя</div>
+          <ul className="flex flex-col gap-1">
+            {otherChats.map((chat) => (
+              <li key={chat.chat_id} className="flex items-center gap-2 text-white/60">
+                <span className="truncate">{chatTitle(chat)}</span>
+                {canEdit ? (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => splitChat(chat)}
+                    className={`ml-auto shrink-0 ${linkButtonClass}`}
+                  >
+                    Отделить
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {canEdit ? (
+        <div className="flex flex-col gap-2">
+          {candidates.length ? (
+            <div className="flex gap-2">
+              <select
+                value={mergeChatId}
+                onChange={(e) => setMergeChatId(e.target.value)}
+                disabled={busy}
+                aria-label="Чат для объединения"
+                className="min-w-0 flex-1 rounded-full bg-[#484B63] text-white/60 px-3 py-1 focus:outline-none"
+              >
+                <option value="">Объединить с гостем чата…</option>
+                {candidates.map((option) => (
+                  <option key={option.chat_id} value={String(option.chat_id)}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                disabled={busy || !mergeChatId}
+                onClick={mergeSelected}
+                className="shrink-0 px-3 py-0.5 rounded-full border border-white/10 text-white/50 hover:text-white/70 disabled:opacity-40 transition-colors"
+              >
+                Объединить
+              </button>
+            </div>
+          ) : null}
+          {otherChats.length || customer.orders_count || customer.reservations_count ? (
+            <button type="button" disabled={busy} onClick={splitCurrent} className={`self-start ${linkButtonClass}`}>
+              Это другой человек — отделить этот чат
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
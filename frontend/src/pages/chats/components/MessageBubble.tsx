@@ -3,6 +3,7 @@
  * -------------------------
  * Зачем: отрисовывает одно сообщение чата в виде «пузыря» (bubble), с учётом роли отправителя
  * (гость/оператор/бот), аватарки и времени сообщения. Компонент рассчитан на работу в списке.
+ * У своих сообщений показывает статус доставки: «отправляется», «отправлено» или «не отправлено» с кнопкой повтора.
  *
  * ПОДСКАЗКА ДЛЯ ЧИТАТЕЛЯ:
  * Если из API приходят нестабильные по типу поля (string/number/boolean), старайтесь приводить их к нормальной
@@ -11,9 +12,13 @@
 
 import platformIcon from "@/assets/icons/chats/avatar.svg";
 import botAvatar from "@/assets/images/social/tg.jpg";
+import AttachmentView, { type MessageAttachment } from './AttachmentView'
 
 export type MessageBubblePosition = 'single' | 'start' | 'middle' | 'end'
 
+/** Статус доставки исходящего сообщения (поле status с сервера) */
+export type MessageDeliveryStatus = 'pending' | 'sent' | 'failed'
+
 export interface ChatMessage {
   id?: number | string
   _tempId?: number | string
@@ -29,6 +34,13 @@ export interface ChatMessage {
   from_operator?: boolean | number | string
   is_bot?: boolean | number | string
   text?: string
+  status?: MessageDeliveryStatus
+  /** Текст ошибки платформы для status = failed */
+  error?: string | null
+  /** Локальный флаг оптимистичного сообщения, пока сервер не ответил */
+  _pending?: boolean
+  /** Вложения (фото, документы, голосовые); содержимое грузится отдельно по id */
+  attachments?: MessageAttachment[]
   [key: string]: unknown
 }
 
@@ -37,6 +49,8 @@ interface MessageBubbleProps {
   /** Резерв под «склейку» пузырей в одну группу (визуальные хвостики и радиусы) */
   position?: MessageBubblePosition
   className?: string
+  /** Повторить отправку сообщения со статусом failed */
+  onRetry?: (msg: ChatMessage) => void
 }
 
 /** SVG-фоллбек для аватарки бота — встроенный и надёжный (не зависит от сети/CDN) */
@@ -95,6 +109,7 @@ export default function MessageBubble({
   msg,
   position: _position, // пока не используем — зарезервировано под «склейку» пузырей
   className = '',
+  onRetry,
 }: MessageBubbleProps) {
   // Важно: флаг «моё сообщение» приходит из разных источников (boolean/1/'1'/'true')
   const mine = isTruthy(msg?.from_me)
@@ -121,6 +136,15 @@ export default function MessageBubble({
   // Гость — любое входящее, которое не бот
   const isGuest = !mine && !isBot
 
+  const attachments = Array.isArray(msg?.attachments) ? msg.attachments : []
+
+  // Статус доставки: локальный _pending важнее серверного (ответ ещё не пришёл)
+  const status: MessageDeliveryStatus | null = !mine
+    ? null
+    : msg?._pending
+      ? 'pending'
+      : msg?.status ?? null
+
   const date = parseDate(msg?.date)
   const time = formatTimeHHmm(date)
 
@@ -154,13 +178,39 @@ export default function MessageBubble({
 
       <div className="flex justify-start">
         <div className={bubbleCls}>
-          {/* Тело сообщения. whitespace-pre-wrap позволяет сохранять переносы из исходного текста. */}
-          <div className="opacity-80">{msg?.text}</div>
+          {attachments.length > 0 && (
+            <div className="flex flex-col gap-2 mb-1">
+              {attachments.map((attachment) => (
+                <AttachmentView key={String(attachment.id)} attachment={attachment} />
+              ))}
+            </div>
+          )}
 
-          {/* Время показываем только если валидно распарсили */}
-          {time && (
+          {/* Тело сообщения. whitespace-pre-wrap позволяет сохранять переносы из исходного текста.
+              У вложения без подписи текст пустой — не рисуем пустую строку. */}
+          {msg?.text && <div className="opacity-80">{msg.text}</div>}
+
+          {/* Время и статус доставки; время показываем только если валидно распарсили */}
+          {(time || status) && (
             <div className="text-[11px] mt-[-2px] opacity-40 text-right">
               {time}
+              {status === 'pending' && <span className="ml-1" title="Отправляется">🕓</span>}
+              {status === 'sent' && <span className="ml-1" title="Отправлено">✓</span>}
+            </div>
+          )}
+
+          {status === 'failed' && (
+            <div className="flex items-center justify-end gap-2 text-[11px] text-red-300 mb-1">
+              <span title={msg?.error ?? undefined}>Не отправлено</span>
+              {onRetry && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(msg)}
+                  className="bg-transparent p-0 border-0 underline text-red-200 hover:text-white"
+                >
+                  Повторить
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -6,7 +6,15 @@
  * - Умеет подгружать историю при прокрутке вверх (infinite scroll, prefetch на малой высоте).
  * - Держит «липкое дно» (sticky bottom): если пользователь у нижнего края — авто-скроллит новые сообщения вниз.
  * - Корректно восстанавливает позицию после дозагрузки (без «скачка» контента).
- * - Предоставляет поле ввода с отправкой по Enter (Shift+Enter — перенос строки).
+ * - Предоставляет поле ввода с отправкой по Enter (Shift+Enter — перенос строки) и выбором файла
+ *   (скрепка): файл уходит вместе с текстом, текст становится подписью.
+ * - Сообщает onRead, что чат прочитан: когда лента загружена и вкладка видна (и снова — при новых
+ *   сообщениях или возвращении на вкладку).
+ * - В правой части шапки — headerActions (например, блок ответственного оператора) и кнопка
+ *   боковой панели sidePanel (теги и заметки): панель выезжает поверх ленты справа.
+ * - Шаблоны ответов: «/» в начале пустого поля открывает палитру с нечётким поиском по shortcut,
+ *   названию и тексту. Стрелки — выбор, Enter/Tab — вставить, Esc — закрыть. Переменные шаблона
+ *   подставляет сервер (renderQuickReply); если каких-то данных нет, под полем видно, каких.
  *
  * Почему так:
  * - Скролл и вычисления привязаны к requestAnimationFrame, чтобы синхронизироваться с кадром браузера и избежать рывков.
@@ -20,7 +28,9 @@ import {
   useMemo,
   useRef,
   useState,
+  type ChangeEvent,
   type KeyboardEvent,
+  type ReactNode,
   type UIEvent,
 } from "react";
 
@@ -31,6 +41,9 @@ import MessageBubble, {
 import sendIcon from "@/assets/icons/general/send.svg";
 import backIcon from "@/assets/icons/general/back.svg";
 import type { ChatDialog } from "./ChatListItem";
+import QuickReplyPalette from "./QuickReplyPalette";
+import type { CannedResponse, RenderedCannedResponse } from "../api";
+import { fuzzyFilter } from "../utils/fuzzy";
 
 interface MessagePaneProps {
   /** Активный диалог (его id); если null — показываем «Выберите чат» */
@@ -43,10 +56,24 @@ interface MessagePaneProps {
   loading?: boolean;
   /** Дозагрузка истории при прокрутке вверх; вернуть true, если были подгружены новые сообщения */
   onLoadMore?: () => Promise<boolean> | boolean;
-  /** Отправка текста из инпута */
-  onSend?: (text: string) => Promise<void> | void;
+  /** Отправка текста из инпута и выбранного файла (если есть) */
+  onSend?: (text: string, file?: File | null) => Promise<void> | void;
+  /** Повтор отправки сообщения со статусом failed */
+  onRetry?: (message: ChatMessage) => void;
+  /** Чат показан оператору: отметить прочитанным до сообщения lastMessageId */
+  onRead?: (lastMessageId: string | number) => void;
   /** Вернуться к списку диалогов (на мобильных) */
   onBack?: () => void;
+  /** Элементы справа в шапке диалога */
+  headerActions?: ReactNode;
+  /** Содержимое боковой панели; без него кнопки панели в шапке нет */
+  sidePanel?: ReactNode;
+  /** Подпись кнопки панели в шапке (например, «Заметки · 2») */
+  sidePanelLabel?: string;
+  /** Шаблоны ответов для палитры «/»; пусто — палитра не открывается */
+  quickReplies?: CannedResponse[];
+  /** Текст шаблона для текущего чата; без него вставляется шаблон как есть */
+  renderQuickReply?: (item: CannedResponse) => Promise<RenderedCannedResponse>;
 }
 
 /** Порог близости к верхнему краю (px), при котором триггерим догрузку истории */
@@ -55,6 +82,13 @@ const PRELOAD_EDGE = 60 as const;
 const STICKY_EDGE = 80 as const;
 /** Окно в мс для группировки соседних сообщений одной стороны (отправитель/получатель) */
 const GROUP_MS = 5 * 60 * 1000 ;
+/** Типы, которые принимает POST /attachments (фото, голосовое OGG, документы) */
+const ACCEPTED_FILES =
+  "image/jpeg,image/png,image/webp,image/gif,audio/ogg,audio/opus,audio/mpeg,audio/mp4,application/pdf,text/plain,text/csv,application/zip,.doc,.docx,.xls,.xlsx";
+/** Сколько шаблонов показывать в палитре «/» */
+const PALETTE_LIMIT = 8 as const;
+/** Команда палитры: «/» и запрос без пробелов в начале поля */
+const PALETTE_COMMAND = /^\/(\S*)$/;
 
 /**
  * Универсальный парсер даты сообщения.
@@ -99,7 +133,14 @@ export default function MessagePane({
   loading = false,
   onLoadMore,
   onSend,
+  onRetry,
+  onRead,
   onBack,
+  headerActions,
+  sidePanel,
+  sidePanelLabel = "Заметки",
+  quickReplies = [],
+  renderQuickReply,
 }: MessagePaneProps) {
   /** Контейнер скролла — нужен для вычислений положения и программного скролла */
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
@@ -114,6 +155,58 @@ export default function MessagePane({
   /** Локальный ввод текста */
   const [text, setText] = useState("");
 
+  /** Открыта ли боковая панель; остаётся открытой при переходе между чатами */
+  const [sidePanelOpen, setSidePanelOpen] = useState(false);
+
+  /** Выбранный к отправке файл и скрытый input, который открывает кнопка-скрепка */
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  /** Палитра шаблонов: активный пункт, закрыта ли по Esc, идёт ли подстановка */
+  const [paletteIndex, setPaletteIndex] = useState(0);
+  const [paletteDismissed, setPaletteDismissed] = useState(false);
+  const [inserting, setInserting] = useState(false);
+  /** Переменные вставленного шаблона, для которых у сервера не нашлось данных */
+  const [missingVars, setMissingVars] = useState<string[]>([]);
+  /** Текущий чат для асинхронной подстановки: ответ для прошлого чата в поле не попадёт */
+  const selectedIdRef = useRef(selectedId);
+  selectedIdRef.current = selectedId;
+
+  const paletteQuery = PALETTE_COMMAND.exec(text)?.[1] ?? null;
+  const paletteOpen = quickReplies.length > 0 && paletteQuery !== null && !paletteDismissed;
+
+  const paletteItems = useMemo(
+    () =>
+      paletteQuery === null
+        ? []
+        : fuzzyFilter(
+            quickReplies,
+            paletteQuery,
+            (item) => [
+              { value: item.shortcut, weight: 3 },
+              { value: item.title, weight: 2 },
+              { value: item.body, weight: 1 },
+            ],
+            PALETTE_LIMIT
+          ),
+    [quickReplies, paletteQuery]
+  );
+
+  const onTextChange = useCallback((event: ChangeEvent<HTMLTextAreaElement>): void => {
+    const value = event.target.value;
+    setText(value);
+    setPaletteIndex(0);
+    if (!value.startsWith("/")) setPaletteDismissed(false);
+    if (!value) setMissingVars([]);
+  }, []);
+
+  const onFileChange = useCallback((event: ChangeEvent<HTMLInputElement>): void => {
+    setFile(event.target.files?.[0] ?? null);
+    // Сбрасываем value, чтобы повторный выбор того же файла снова вызвал onChange
+    event.target.value = "";
+  }, []);
+
   /**
    * Стабильные вычисления: сортируем входящие messages по (date, id, _clientOrder).
    * Почему именно так:
@@ -137,6 +230,19 @@ export default function MessagePane({
     });
   }, [messages]);
 
+  /**
+   * Последнее сохранённое сообщение этого чата — до него чат прочитан. Черновики (tmp-…) пропускаем,
+   * как и ленту прошлого чата: сразу после переключения она ещё может быть в messages.
+   */
+  const lastMessageId = useMemo(() => {
+    for (let i = sortedMessages.length - 1; i >= 0; i -= 1) {
+      const { id, chat_id: chatId } = sortedMessages[i];
+      if (chatId != null && String(chatId) !== String(selectedId)) return null;
+      if (id != null && Number.isFinite(Number(id))) return id;
+    }
+    return null;
+  }, [sortedMessages, selectedId]);
+
   /** Вычисляем «прилипли ли мы к низу» с допуском STICKY_EDGE */
   const computeAtBottom = useCallback((): boolean => {
     const el = scrollContainerRef.current;
@@ -169,15 +275,33 @@ export default function MessagePane({
 
   /**
    * При смене диалога:
-   * - сбрасываем ввод
+   * - сбрасываем ввод и выбранный файл
    * - подскролливаем к низу (после монтирования контента, через rAF)
    */
   useEffect(() => {
     if (!selectedId) return;
     requestAnimationFrame(scrollToBottom);
     setText("");
+    setFile(null);
+    setMissingVars([]);
+    setPaletteDismissed(false);
   }, [selectedId, scrollToBottom]);
 
+  /**
+   * Отметка прочтения: лента загружена и вкладка на экране. В фоновой вкладке ждём visibilitychange,
+   * чтобы не «прочитать» сообщения, которых оператор не видел.
+   */
+  useEffect(() => {
+    if (!onRead || !selectedId || loading || lastMessageId == null) return;
+
+    const markIfVisible = (): void => {
+      if (document.visibilityState === "visible") onRead(lastMessageId);
+    };
+    markIfVisible();
+    document.addEventListener("visibilitychange", markIfVisible);
+    return () => document.removeEventListener("visibilitychange", markIfVisible);
+  }, [onRead, selectedId, loading, lastMessageId]);
+
   /**
    * Новые сообщения:
    * - если пользователь был у нижнего края (atBottomRef) — мягко скроллим вниз
@@ -226,31 +350,84 @@ export default function MessagePane({
 
   /**
    * Отправка сообщения:
-   * - пустые строки игнорируем
-   * - после отправки очищаем инпут и скроллим вниз
+   * - пустые строки без файла игнорируем
+   * - после отправки очищаем инпут и файл, скроллим вниз
    * Важно: onSend может быть синхронным или асинхронным — мы не блокируем UI.
    */
   const doSend = useCallback((): void => {
     const value = text.trim();
-    if (!value || !selectedId) return;
+    if ((!value && !file) || !selectedId) return;
 
     try {
-      void onSend?.(value);
+      void onSend?.(value, file);
     } finally {
       setText("");
+      setFile(null);
+      setMissingVars([]);
       requestAnimationFrame(scrollToBottom);
     }
-  }, [onSend, scrollToBottom, selectedId, text]);
+  }, [file, onSend, scrollToBottom, selectedId, text]);
 
-  /** Горячая клавиша: Enter — отправка, Shift+Enter — перенос строки */
+  const canSend = Boolean(selectedId) && (Boolean(text.trim()) || Boolean(file));
+
+  /**
+   * Вставка шаблона: текст с подставленными переменными заменяет команду «/…» в поле ввода.
+   * Если сервер не ответил — вставляем шаблон как есть, переменные оператор заполнит сам.
+   */
+  const pickQuickReply = useCallback(
+    async (item: CannedResponse): Promise<void> => {
+      const chatId = selectedIdRef.current;
+      let rendered: RenderedCannedResponse = { text: item.body, missing: [] };
+      if (renderQuickReply) {
+        setInserting(true);
+        try {
+          rendered = await renderQuickReply(item);
+        } catch (error) {
+          console.error(error);
+        } finally {
+          setInserting(false);
+        }
+      }
+      if (selectedIdRef.current !== chatId) return;
+      setText(rendered.text);
+      setMissingVars(rendered.missing);
+      setPaletteIndex(0);
+      textareaRef.current?.focus();
+    },
+    [renderQuickReply]
+  );
+
+  /**
+   * Горячие клавиши: Enter — отправка, Shift+Enter — перенос строки.
+   * При открытой палитре стрелки, Enter/Tab и Esc управляют ею.
+   */
   const onKeyDown = useCallback(
     (event: KeyboardEvent<HTMLTextAreaElement>): void => {
+      if (paletteOpen) {
+        const count = paletteItems.length;
+        if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+          event.preventDefault();
+          if (count) setPaletteIndex((i) => (i + (event.key === "ArrowDown" ? 1 : count - 1)) % count);
+          return;
+        }
+        if (event.key === "Escape") {
+          event.preventDefault();
+          setPaletteDismissed(true);
+          return;
+        }
+        if ((event.key === "Enter" && !event.shiftKey) || event.key === "Tab") {
+          event.preventDefault();
+          const item = paletteItems[paletteIndex];
+          if (item && !inserting) void pickQuickReply(item);
+          return;
+        }
+      }
       if (event.key === "Enter" && !event.shiftKey) {
         event.preventDefault();
         doSend();
       }
     },
-    [doSend]
+    [doSend, inserting, paletteIndex, paletteItems, paletteOpen, pickQuickReply]
   );
 
   if (!selectedId) {
@@ -288,76 +465,161 @@ export default function MessagePane({
                 </div>
               )}
             </div>
+
+            {headerActions}
+
+            {sidePanel ? (
+              <button
+                type="button"
+                aria-pressed={sidePanelOpen}
+                onClick={() => setSidePanelOpen((open) => !open)}
+                className={`${headerActions ? "" : "ml-auto "}shrink-0 px-2 py-0.5 rounded-full border text-body transition-colors ${
+                  sidePanelOpen
+                    ? "border-white/30 text-white/70"
+                    : "border-white/10 text-white/50 hover:text-white/70"
+                }`}
+              >
+                {sidePanelLabel}
+              </button>
+            ) : null}
           </div>
         </div>
       </div>
 
-      {/* Лента сообщений + бесконечная прокрутка вверх */}
-      <div
-        ref={scrollContainerRef}
-        onScroll={handleScroll}
-        className="flex-1 min-h-0 px-4 lg:px-10 overflow-y-auto overflow-x-hidden overscroll-contain [-webkit-overflow-scrolling:touch] min-w-0"
-      >
-        <div className="w-full pt-3 pb-[72px] flex flex-col gap-1">
-          {loading && sortedMessages.length === 0 ? (
-            <div className="text-center text-gray-400 mt-12">
-              Загрузка сообщений...
-            </div>
-          ) : sortedMessages.length === 0 ? (
-            <div className="text-center text-gray-400 mt-12">
-              В этом чате пока нет сообщений
-            </div>
-          ) : (
-            sortedMessages.map((message, index) => {
-              const previous = sortedMessages[index - 1];
-              const next = sortedMessages[index + 1];
-
-              const prevSame =
-                Boolean(previous) &&
-                Boolean(previous?.from_me) === Boolean(message.from_me) &&
-                Math.abs(
-                  parseTimestamp(message.date) -
-                    parseTimestamp(previous?.date)
-                ) < GROUP_MS;
-
-              const nextSame =
-                Boolean(next) &&
-                Boolean(next?.from_me) === Boolean(message.from_me) &&
-                Math.abs(
-                  parseTimestamp(next?.date) -
-                    parseTimestamp(message.date)
-                ) < GROUP_MS;
-
-              let position: MessageBubblePosition = "single";
-              if (prevSame && nextSame) position = "middle";
-              else if (!prevSame && nextSame) position = "start";
-              else if (prevSame && !nextSame) position = "end";
-
-              return (
-                <MessageBubble
-                  key={(
-                    message.id ??
-                    message._tempId ??
-                    `${message.date}-${index}`
-                  ).toString()}
-                  msg={message}
-                  position={position}
-                />
-              );
-            })
-          )}
+      {/* Лента сообщений + бесконечная прокрутка вверх; боковая панель — поверх ленты справа */}
+      <div className="relative flex-1 min-h-0 flex flex-col">
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="flex-1 min-h-0 px-4 lg:px-10 overflow-y-auto overflow-x-hidden overscroll-contain [-webkit-overflow-scrolling:touch] min-w-0"
+        >
+          <div className="w-full pt-3 pb-[72px] flex flex-col gap-1">
+            {loading && sortedMessages.length === 0 ? (
+              <div className="text-center text-gray-400 mt-12">
+                Загрузка сообщений...
+              </div>
+            ) : sortedMessages.length === 0 ? (
+              <div className="text-center text-gray-400 mt-12">
+                В этом чате пока нет сообщений
+              </div>
+            ) : (
+              sortedMessages.map((message, index) => {
+                const previous = sortedMessages[index - 1];
+                const next = sortedMessages[index + 1];
+
+                const prevSame =
+                  Boolean(previous) &&
+                  Boolean(previous?.from_me) === Boolean(message.from_me) &&
+                  Math.abs(
+                    parseTimestamp(message.date) -
+                      parseTimestamp(previous?.date)
+                  ) < GROUP_MS;
+
+                const nextSame =
+                  Boolean(next) &&
+                  Boolean(next?.from_me) === Boolean(message.from_me) &&
+                  Math.abs(
+                    parseTimestamp(next?.date) -
+                      parseTimestamp(message.date)
+                  ) < GROUP_MS;
+
+                let position: MessageBubblePosition = "single";
+                if (prevSame && nextSame) position = "middle";
+                else if (!prevSame && nextSame) position = "start";
+                else if (prevSame && !nextSame) position = "end";
+
+                return (
+                  <MessageBubble
+                    key={(
+                      message.id ??
+                      message._tempId ??
+                      `${message.date}-${index}`
+                    ).toString()}
+                    msg={message}
+                    position={position}
+                    onRetry={onRetry}
+                  />
+                );
+              })
+            )}
+          </div>
         </div>
+
+        {sidePanel && sidePanelOpen ? (
+          <aside className="absolute inset-y-0 right-0 z-30 w-80 max-w-full flex flex-col rounded-l-3xl bg-[#2f3247] shadowCart">
+            <div className="flex items-center justify-between px-4 pt-4 pb-2">
+              <span className="font-medium text-white/50">{sidePanelLabel}</span>
+              <button
+                type="button"
+                onClick={() => setSidePanelOpen(false)}
+                className="bg-transparent p-0 border-0 text-white/40 hover:text-white/70"
+                aria-label="Закрыть панель"
+              >
+                ×
+              </button>
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto px-4 pb-4">{sidePanel}</div>
+          </aside>
+        ) : null}
       </div>
 
       {/* Поле ввода + кнопка отправки (плавающая панель над safe-area) */}
       <div className="absolute px-2 lg:px-8 bottom-6 z-10 w-full mt-8">
+        {file && (
+          <div className="mb-2 ml-4 flex w-fit max-w-full items-center gap-2 rounded-full bg-[#484B63] px-4 py-1 text-body text-white/60">
+            <span className="truncate">{file.name}</span>
+            <button
+              type="button"
+              onClick={() => setFile(null)}
+              className="bg-transparent p-0 border-0 text-white/40 hover:text-white/70"
+              aria-label="Убрать файл"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        {missingVars.length > 0 && (
+          <div className="mb-2 ml-4 text-body text-white/40">
+            Нет данных для: {missingVars.map((name) => `{${name}}`).join(", ")}
+          </div>
+        )}
+
         <div className="relative flex items-center">
+          {paletteOpen && (
+            <QuickReplyPalette
+              items={paletteItems}
+              activeIndex={paletteIndex}
+              busy={inserting}
+              onHover={setPaletteIndex}
+              onPick={(item) => void pickQuickReply(item)}
+            />
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_FILES}
+            onChange={onFileChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!selectedId}
+            className="absolute left-4 top-1/2 -translate-y-1/2 bg-transparent p-0 border-0 shadow-none text-xl text-white/40 hover:text-white/70"
+            aria-label="Прикрепить файл"
+          >
+            📎
+          </button>
+
           <textarea
-            className="flex-1 resize-none rounded-full bg-[#484B63] placeholder-white/50 text-white/50 px-6 py-3 pr-12 text-body leading-[normal] focus:outline-none"
+            ref={textareaRef}
+            className="flex-1 resize-none rounded-full bg-[#484B63] placeholder-white/50 text-white/50 pl-12 pr-12 py-3 text-body leading-[normal] focus:outline-none"
             rows={1}
-            placeholder="Сообщение…"
+            placeholder={quickReplies.length ? "Сообщение… («/» — шаблоны)" : "Сообщение…"}
             value={text}
-            onChange={(e) => setText(e.target.value)}
+            onChange={onTextChange}
             onKeyDown={onKeyDown}
             disabled={!selectedId}
             aria-label="Поле ввода сообщения"
@@ -366,9 +628,9 @@ export default function MessagePane({
           <button
             type="button"
             onClick={doSend}
-            disabled={!selectedId || !text.trim()}
+            disabled={!canSend}
             className={`absolute right-4 top-1/2 -translate-y-1/2 bg-transparent p-0 border-0 shadow-none ring-0 transition ${
-              !selectedId || !text.trim()
+              !canSend
                 ? "cursor-not-allowed opacity-10"
                 : "hover:opacity-50"
             }`}
@@ -0,0 +1,70 @@
+/**
+ * Палитра шаблонов ответов — всплывает над полем ввода, когда оператор набирает «/».
+ *
+ * - Показывает уже отфильтрованный список (поиск и клавиатура — в MessagePane).
+ * - Активный пункт подсвечен и прокручивается в видимую область при навигации стрелками.
+ * - Выбор мышью: onMouseDown с preventDefault, чтобы поле ввода не теряло фокус.
+ */
+
+import { useEffect, useRef, type JSX } from "react";
+
+import type { CannedResponse } from "../api";
+
+interface QuickReplyPaletteProps {
+  items: CannedResponse[];
+  activeIndex: number;
+  /** Идёт подстановка выбранного шаблона */
+  busy?: boolean;
+  onHover: (index: number) => void;
+  onPick: (item: CannedResponse) => void;
+}
+
+export default function QuickReplyPalette({
+  items,
+  activeIndex,
+  busy = false,
+  onHover,
+  onPick,
+}: QuickReplyPaletteProps): JSX.Element {
+  const listRef = useRef<HTMLUListElement | null>(null);
+
+  useEffect(() => {
+    const active = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    active?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 mx-2 rounded-3xl bg-[#2f3247] shadowCart overflow-hidden">
+      {items.length === 0 ? (
+        <div className="px-4 py-3 text-body text-white/30">Шаблоны не найдены</div>
+      ) : (
+        <ul ref={listRef} role="listbox" aria-label="Шаблоны ответов" className="max-h-64 overflow-y-auto py-2">
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => onHover(index)}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                if (!busy) onPick(item);
+              }}
+              className={`px-4 py-2 cursor-pointer text-body ${
+                index === activeIndex ? "bg-white/10" : ""
+              } ${busy ? "opacity-50" : ""}`}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="text-white/70 shrink-0">/{item.shortcut}</span>
+                <span className="text-white/50 truncate">{item.title}</span>
+                {item.category && (
+                  <span className="ml-auto shrink-0 text-white/30">{item.category}</span>
+                )}
+              </div>
+              <div className="text-white/30 truncate">{item.body}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Статус переписки — кнопки в шапке MessagePane.
+ *
+ * - open: «Отложить» (ждём гостя) и «Решить»;
+ * - pending: «Решить» и «Вернуть в работу»;
+ * - resolved: «Открыть заново», причина решения — в подсказке.
+ * При решении спрашиваем причину (можно оставить пустой) — она нужна для отчётов поддержки.
+ * Новое сообщение гостя сервер сам возвращает в open, здесь это просто придёт по SSE.
+ */
+
+import { type JSX } from "react";
+
+import type { ChatDialog } from "./ChatListItem";
+import type { ChatStatus } from "../api";
+
+interface StatusControlProps {
+  dlg: ChatDialog;
+  /** Запрос в процессе — кнопки неактивны */
+  busy?: boolean;
+  onChange: (status: ChatStatus, reason?: string | null) => void;
+}
+
+const buttonClass =
+  "px-2 py-0.5 rounded-full border border-white/10 text-white/50 hover:text-white/70 disabled:opacity-40 transition-colors";
+
+export default function StatusControl({ dlg, busy = false, onChange }: StatusControlProps): JSX.Element {
+  const status: ChatStatus = dlg.status ?? "open";
+
+  const resolve = () => {
+    const reason = window.prompt("Причина решения (необязательно):", "");
+    if (reason === null) return;
+    onChange("resolved", reason.trim() || null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 shrink-0 text-body">
+      {status === "resolved" ? (
+        <>
+          <span className="text-white/30" title={dlg.resolution_reason ?? undefined}>
+            Решён
+          </span>
+          <button type="button" disabled={busy} onClick={() => onChange("open")} className={buttonClass}>
+            Открыть заново
+          </button>
+        </>
+      ) : (
+        <>
+          {status === "open" ? (
+            <button type="button" disabled={busy} onClick={() => onChange("pending")} className={buttonClass}>
+              Отложить
+            </button>
+          ) : (
+            <button type="button" disabled={busy} onClick={() => onChange("open")} className={buttonClass}>
+              Вернуть в работу
+            </button>
+          )}
+          <button type="button" disabled={busy} onClick={resolve} className={buttonClass}>
+            Решить
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Хук useAttachmentUrl — локальный URL содержимого вложения для <img>/<audio>.
+ *
+ * Почему не прямая ссылка на /attachments/:id/file:
+ * - файл отдаётся только с заголовком Authorization, а <img src> его не передаёт,
+ *   поэтому качаем через authFetch и показываем blob через URL.createObjectURL.
+ * - object URL освобождаем при смене id и размонтировании, иначе blob висит в памяти до закрытия вкладки.
+ */
+
+import { useEffect, useState } from 'react'
+
+import { authFetch } from '@/services/api'
+
+const API_BASE = (import.meta.env.VITE_API_URL as string | undefined) ?? ''
+
+/** Содержимое вложения как Blob (для скачивания документов по клику). */
+export async function fetchAttachmentBlob(id: number | string, signal?: AbortSignal): Promise<Blob> {
+  const res = await authFetch(`${API_BASE}/attachments/${encodeURIComponent(String(id))}/file`, { signal })
+  if (!res.ok) {
+    throw new Error(`Failed to load attachment: ${res.status}`)
+  }
+  return res.blob()
+}
+
+/** Скачивает вложение под исходным именем файла. */
+export async function downloadAttachment(id: number | string, fileName: string): Promise<void> {
+  const url = URL.createObjectURL(await fetchAttachmentBlob(id))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Даём браузеру начать загрузку, прежде чем освобождать URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+interface UseAttachmentUrlReturn {
+  url: string | null
+  failed: boolean
+}
+
+export function useAttachmentUrl(id: number | string | null | undefined): UseAttachmentUrlReturn {
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    if (id == null) return
+
+    const controller = new AbortController()
+    let objectUrl: string | null = null
+    setFailed(false)
+
+    fetchAttachmentBlob(id, controller.signal)
+      .then((blob) => {
+        objectUrl = URL.createObjectURL(blob)
+        setUrl(objectUrl)
+      })
+      .catch((e) => {
+        if ((e as DOMException).name !== 'AbortError') setFailed(true)
+      })
+
+    return () => {
+      controller.abort()
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+      setUrl(null)
+    }
+  }, [id])
+
+  return { url, failed }
+}
@@ -0,0 +1,71 @@
+/**
+ * Хук useChatCustomer — профиль гостя открытого чата для карточки в боковой панели.
+ *
+ * - Загружает профиль при смене чата; null — чат ещё не сопоставлен с профилем.
+ * - mergeWithChat вливает в профиль профиль гостя другого чата; split отделяет записи.
+ *   Если отделён сам открытый чат, карточка переключается на его новый профиль.
+ * - Ошибки загрузки — в error, ошибки действий пробрасываются вызывающему.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+
+import {
+  fetchChatCustomer,
+  mergeCustomers,
+  splitCustomer,
+  type CustomerProfile,
+  type CustomerSplitPayload,
+} from '../api'
+
+interface UseChatCustomerReturn {
+  customer: CustomerProfile | null
+  loading: boolean
+  error: string | null
+  mergeWithChat: (otherChatId: string | number) => Promise<void>
+  split: (payload: CustomerSplitPayload) => Promise<void>
+}
+
+export function useChatCustomer(chatId: string | number | null): UseChatCustomerReturn {
+  const [customer, setCustomer] = useState<CustomerProfile | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setCustomer(null)
+    setError(null)
+    if (chatId == null) return
+
+    const controller = new AbortController()
+    setLoading(true)
+    fetchChatCustomer(chatId, controller.signal)
+      .then(setCustomer)
+      .catch((e) => {
+        if ((e as DOMException).name !== 'AbortError') setError((e as Error).message)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [chatId])
+
+  const mergeWithChat = useCallback(
+    async (otherChatId: string | number) => {
+      if (!customer) return
+      setCustomer(await mergeCustomers(customer.id, { chat_id: otherChatId }))
+    },
+    [customer]
+  )
+
+  const split = useCallback(
+    async (payload: CustomerSplitPayload) => {
+      if (!customer) return
+      const { source, created } = await splitCustomer(customer.id, payload)
+      const movedCurrent = chatId != null && (payload.chat_ids ?? []).some((id) => String(id) === String(chatId))
+      setCustomer(movedCurrent ? created : source)
+    },
+    [customer, chatId]
+  )
+
+  return { customer, loading, error, mergeWithChat, split }
+}
@@ -0,0 +1,64 @@
+/**
+ * Хук useChatNotes — внутренние заметки открытого чата для боковой панели.
+ *
+ * - Перечитывает заметки при смене чата и при изменении version: сюда передаётся notes_count
+ *   из строки чата, который приходит по SSE, — так заметка коллеги появляется без перезагрузки.
+ * - save/remove сразу обновляют локальный список; ошибки пробрасываются вызывающему.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+
+import { deleteChatNote, fetchChatNotes, saveChatNote, type ChatNote } from '../api'
+
+interface UseChatNotesReturn {
+  notes: ChatNote[]
+  loading: boolean
+  /** Добавить заметку или (с noteId) изменить свою */
+  save: (body: string, noteId?: number) => Promise<void>
+  remove: (noteId: number) => Promise<void>
+}
+
+export function useChatNotes(chatId: string | number | null, version?: number): UseChatNotesReturn {
+  const [notes, setNotes] = useState<ChatNote[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (chatId == null) {
+      setNotes([])
+      return
+    }
+
+    const controller = new AbortController()
+    setLoading(true)
+    fetchChatNotes(chatId, controller.signal)
+      .then(setNotes)
+      .catch((e) => {
+        if ((e as DOMException).name !== 'AbortError') console.warn('Не удалось загрузить заметки:', e)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [chatId, version])
+
+  const save = useCallback(
+    async (body: string, noteId?: number) => {
+      if (chatId == null) return
+      const note = await saveChatNote(chatId, body, noteId)
+      setNotes((prev) => (noteId != null ? prev.map((n) => (n.id === note.id ? note : n)) : [note, ...prev]))
+    },
+    [chatId]
+  )
+
+  const remove = useCallback(
+    async (noteId: number) => {
+      if (chatId == null) return
+      await deleteChatNote(chatId, noteId)
+      setNotes((prev) => prev.filter((n) => n.id !== noteId))
+    },
+    [chatId]
+  )
+
+  return { notes, loading, save, remove }
+}
@@ -91,8 +91,8 @@ export function getDialogTimestamp(dialog: DialogLike | null | undefined): numbe
   return Number.isFinite(timestamp) ? timestamp : 0;
 }
 
-/** Приватно: безопасно нормализуем любые значения к подстроке для поиска. */
-function normalizeForSearch(value: unknown): string {
+/** Безопасно нормализуем любые значения к подстроке для поиска (общая с fuzzy-поиском шаблонов). */
+export function normalizeForSearch(value: unknown): string {
   if (value == null) return "";
   // Приводим к строке
   const s = String(value);
@@ -0,0 +1,69 @@
+/**
+ * Нечёткий поиск для палитры шаблонов «/» в окне чата.
+ *
+ * Как считается:
+ * - Запрос подходит, если все его символы встречаются в строке по порядку (как в fzf/VS Code):
+ *   «дост» найдёт «доставка», «зд» — «зоны доставки».
+ * - Очки даются за совпадения подряд, в начале слова и в начале строки — так точное
+ *   совпадение по shortcut окажется выше случайного совпадения где-то в тексте.
+ * - Строки нормализуются так же, как в поиске по чатам (normalizeForSearch): регистр и диакритика не важны.
+ */
+
+import { normalizeForSearch } from "./chatUtils";
+
+/** Поле для поиска и его вес: shortcut важнее названия, название важнее текста. */
+export interface FuzzyField {
+  value: string | null | undefined;
+  weight: number;
+}
+
+const WORD_BOUNDARY = /[\s_\-./,:;!?()«»"']/;
+
+/**
+ * Очки совпадения query с text или null, если символы запроса не нашлись по порядку.
+ * Пустой запрос подходит к любой строке с нулём очков.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = normalizeForSearch(query);
+  if (!q) return 0;
+  const t = normalizeForSearch(text);
+
+  let score = 0;
+  let streak = 0;
+  let from = 0;
+  for (const ch of q) {
+    const index = t.indexOf(ch, from);
+    if (index < 0) return null;
+
+    streak = index === from ? streak + 1 : 1;
+    score += streak;
+    if (index === 0) score += 3;
+    else if (WORD_BOUNDARY.test(t[index - 1])) score += 2;
+    from = index + 1;
+  }
+  // Короткие строки при прочих равных выше: совпадение занимает бо́льшую их часть
+  return score - t.length / 100;
+}
+
+/**
+ * Отбирает и сортирует элементы по лучшему из взвешенных полей. Порядок равных сохраняется.
+ */
+export function fuzzyFilter<T>(
+  items: readonly T[],
+  query: string,
+  fields: (item: T) => FuzzyField[],
+  limit = Infinity
+): T[] {
+  const ranked: { item: T; score: number; index: number }[] = [];
+  items.forEach((item, index) => {
+    let best: number | null = null;
+    for (const { value, weight } of fields(item)) {
+      if (!value) continue;
+      const score = fuzzyScore(query, value);
+      if (score != null && (best == null || score * weight > best)) best = score * weight;
+    }
+    if (best != null) ranked.push({ item, score: best, index });
+  });
+  ranked.sort((a, b) => b.score - a.score || a.index - b.index);
+  return ranked.slice(0, limit).map(({ item }) => item);
+}
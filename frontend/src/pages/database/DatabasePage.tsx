@@ -22,7 +22,10 @@
  * - `columns` строятся из активного таба; для неочевидных полей используется `render`.
  * - Валидация платформ задаёт whitelisting через `ALLOWED_PLATFORMS`, чтобы избежать тихих ошибок.
  * - Формы редактирования заполняются по схеме `SCHEMAS[td.tab]`; поля с `readOnly` не отправляем.
- * - Если вы добавляете новые табы или поля — обновите `TAB_TITLES`, `SCHEMAS` и соответствующую
+ * - Вкладки и кнопки действий фильтруются по правам роли (`TAB_RESOURCE` → `<ресурс>:read|write|delete`).
+ * - Вкладка «Аудит» (право `audit:read`) не табличная вкладка useTableData, а отдельная панель AuditPanel
+ *   со своими фильтрами и загрузкой; остальная разметка страницы при ней скрыта.
+ * - Если вы добавляете новые табы или поля — обновите `TAB_TITLES`, `SCHEMAS`, `TAB_RESOURCE` и соответствующую
  *   ветку в `columns`. Для сложного форматирования используйте `render` на колонке, чтобы логика
  *   отображения не утекала в таблицу/карточки.
  */
@@ -37,6 +40,7 @@ import {
   type SetStateAction,
 } from "react";
 import Button, { SegmentedToggle } from "@/components/Button";
+import { useAuth } from "@/context/useAuth";
 
 import { TAB_TITLES, schema as SCHEMAS, type FieldSchema } from "./config/constants";
 import { fmtDate } from "./utils/format";
@@ -47,6 +51,7 @@ import Toolbar, { type SearchState } from "./components/Toolbar";
 import FilterBar, { type DatabaseFilterState } from "./components/FilterBar";
 import MobileCards from "./components/MobileCards";
 import EditorModal from "./components/EditorModal";
+import AuditPanel from "./components/AuditPanel";
 
 import { saveRow as apiSaveRow, deleteRow as apiDeleteRow } from "./api/databaseApi";
 import useTableData from "./hooks/useTableData";
@@ -59,6 +64,17 @@ const ALLOWED_PLATFORMS = ["telegram", "vk"] as const satisfies Readonly<Platfor
 
 type Tab = keyof typeof TAB_TITLES;
 
+/** Значение переключателя для вкладки журнала аудита. */
+const AUDIT_VIEW = "audit";
+
+/** Вкладка → ресурс бэкенда, по которому проверяются права (брони живут в /api/reserves). */
+const TAB_RESOURCE = {
+  chats: "chats",
+  messages: "messages",
+  orders: "orders",
+  reservations: "reserves",
+} as const satisfies Record<Tab, string>;
+
 // Поле схемы, т.к. точные типы схем неизвестны, используем "узкую" структуру.
 // Базовый ряд в таблице: динамичный набор ключей, но строковые ключи гарантированы.
 type RowData = Record<string, unknown> & {
@@ -144,8 +160,42 @@ type Column<T extends RowData = RowData> = {
 };
 
 export default function DatabasePage() {
+  const { can } = useAuth();
+
+  // Вкладки, которые роль может читать; стартуем с первой доступной, чтобы не ловить 403.
+  const allowedTabs = useMemo(
+    () => (Object.keys(TAB_TITLES) as Tab[]).filter((t) => can(`${TAB_RESOURCE[t]}:read`)),
+    [can]
+  );
+
   // Приводим к нашему узкому интерфейсу.
-  const td = useTableData("chats") as unknown as TableDataHook;
+  const td = useTableData(allowedTabs[0] ?? "chats") as unknown as TableDataHook;
+
+  const canWrite = can(`${TAB_RESOURCE[td.tab]}:write`);
+  const canDelete = can(`${TAB_RESOURCE[td.tab]}:delete`);
+
+  const canReadAudit = can("audit:read");
+  const [auditOpen, setAuditOpen] = useState(false);
+
+  const tabItems = useMemo(() => {
+    const items = td.tabs
+      .filter((t) => allowedTabs.includes(t))
+      .map((t) => ({ value: t as string, label: TAB_TITLES[t] as string }));
+    if (canReadAudit) items.push({ value: AUDIT_VIEW, label: "Аудит" });
+    return items;
+  }, [allowedTabs, canReadAudit, td.tabs]);
+
+  const onSwitchTab = useCallback(
+    (value: string) => {
+      if (value === AUDIT_VIEW) {
+        setAuditOpen(true);
+        return;
+      }
+      setAuditOpen(false);
+      td.switchTab(value as Tab);
+    },
+    [td]
+  );
 
   const [editorOpen, setEditorOpen] = useState(false);
   const [editorMode, setEditorMode] = useState<EditorMode>("add");
@@ -384,214 +434,226 @@ export default function DatabasePage() {
       {/* Переключение табов (адаптивный размер) */}
       <div className="overflow-x-auto" role="tablist" aria-label="Разделы данных">
         <SegmentedToggle
-          items={td.tabs.map((t) => ({ value: t, label: TAB_TITLES[t] }))}
-          activeValue={td.tab}
-          onChange={(value) => td.switchTab(value as Tab)}
+          items={tabItems}
+          activeValue={auditOpen ? AUDIT_VIEW : td.tab}
+          onChange={onSwitchTab}
           size={isCompact ? "sm" : "md"}
           className="max-[442px]:w-full"
         />
       </div>
 
-      {/* Поиск / счетчики / состояние загрузки */}
-      <Toolbar
-        q={td.q}
-        setQ={td.setQ}
-        onSearch={onSubmitSearch}
-        onClear={onClearSearch}
-        total={td.total}
-        loading={td.loading}
-      />
-
-      {/* Кнопка показа фильтров на мобильных для некоторых табов */}
-      {["orders", "reservations"].includes(td.tab) && (
-        <div className="md:hidden">
-          <button
-            onClick={() => td.setFiltersOpen((v) => !v)}
-            className="w-full rounded-xl px-3 py-2 bg-black/20 backdrop-blur-xl text-white"
-            type="button"
-            aria-expanded={td.filtersOpen}
-            aria-controls="filters-panel"
+      {auditOpen ? (
+        <AuditPanel />
+      ) : (
+        <>
+          {/* Поиск / счетчики / состояние загрузки */}
+          <Toolbar
+            q={td.q}
+            setQ={td.setQ}
+            onSearch={onSubmitSearch}
+            onClear={onClearSearch}
+            total={td.total}
+            loading={td.loading}
+          />
+
+          {/* Кнопка показа фильтров на мобильных для некоторых табов */}
+          {["orders", "reservations"].includes(td.tab) && (
+            <div className="md:hidden">
+              <button
+                onClick={() => td.setFiltersOpen((v) => !v)}
+                className="w-full rounded-xl px-3 py-2 bg-black/20 backdrop-blur-xl text-white"
+                type="button"
+                aria-expanded={td.filtersOpen}
+                aria-controls="filters-panel"
+              >
+                {td.filtersOpen ? "Скрыть фильтры" : "Показать фильтры"}
+              </button>
+            </div>
+          )}
+
+          {/* Панель фильтров */}
+          <FilterBar
+            tab={td.tab}
+            filters={td.filtersDraft}
+            setFilters={td.setFiltersDraft}
+            onApply={td.applyFilters}
+            onReset={td.resetFilters}
+            mobileOpen={td.filtersOpen}
+          />
+
+          {/* Создание записи — только если роль может писать в текущую вкладку */}
+          {canWrite && (
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => openEditor("add")}
+                variant="primary"
+                size="sm"
+                className="w-full md:w-auto px-4"
+                aria-label="Добавить новую запись"
+              >
+              Добавить
+              </Button>
+            </div>
+          )}
+
+          {/* Мобильные карточки */}
+          <div
+            className="md:hidden"
+            id={`panel-${td.tab}`}
+            role="tabpanel"
+            aria-labelledby={`tab-${td.tab}`}
           >
-            {td.filtersOpen ? "Скрыть фильтры" : "Показать фильтры"}
-          </button>
-        </div>
-      )}
-
-      {/* Панель фильтров */}
-      <FilterBar
-        tab={td.tab}
-        filters={td.filtersDraft}
-        setFilters={td.setFiltersDraft}
-        onApply={td.applyFilters}
-        onReset={td.resetFilters}
-        mobileOpen={td.filtersOpen}
-      />
-
-      {/* Создание записи */}
-      <div className="flex justify-end">
-        <Button
-          type="button"
-          onClick={() => openEditor("add")}
-          variant="primary"
-          size="sm"
-          className="w-full md:w-auto px-4"
-          aria-label="Добавить новую запись"
-        >
-        Добавить
-        </Button>
-      </div>
-
-      {/* Мобильные карточки */}
-      <div
-        className="md:hidden"
-        id={`panel-${td.tab}`}
-        role="tabpanel"
-        aria-labelledby={`tab-${td.tab}`}
-      >
-        <MobileCards
-          rows={td.rows}
-          columns={columns}
-          tab={td.tab}
-          onEdit={(r: RowData) => openEditor("edit", r)}
-          onDelete={deleteRow}
-          page={td.page}
-          pageSize={td.pageSize}
-          loading={td.loading}
-        />
-      </div>
-
-      {/* Таблица для десктопа */}
-      <div className="hidden md:block rounded-xl bg-surface">
-        <table className="w-full table-fixed text-body z-10">
-          <thead className="bg-[#0f1b44]/70 text-white/70">
-            <tr>
-              <th className="text-left px-3 py-2 font-semibold min-w-0 whitespace-normal break-words">#</th>
-              {columns.map((c) => (
-                <th
-                  key={c.key}
-                  className="text-left px-3 py-2 font-semibold min-w-0 whitespace-normal break-words"
-                  scope="col"
-                >
-                  {c.title}
-                </th>
-              ))}
-              <th className="text-right px-3 py-2 font-semibold min-w-0 whitespace-normal break-words">Действия</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-slate-800">
-            {td.rows.length === 0 && !td.loading ? (
-              <tr>
-                <td
-                  colSpan={1 + columns.length + 1}
-                  className="text-center p-[10%] text-white/30"
-                >
-                  Пусто
-                </td>
-              </tr>
-            ) : (
-              td.rows.map((r, idx) => {
-                const rowKey = r.id ?? r.chat_id ?? `${td.tab}-${idx}`;
-                return (
-                  <tr key={String(rowKey)} className="group text-white/50 hover:bg-[#0c173a]">
-                    <td className="px-3 py-2 min-w-0 whitespace-normal break-words group-hover:text-[#17e1b1]">
-                      {(td.page - 1) * td.pageSize + idx + 1}
-                    </td>
-                    {columns.map((c) => (
-                      <td
-                        key={c.key}
-                        className="px-3 py-2 min-w-0 whitespace-normal break-words group-hover:text-[#17e1b1]"
-                      >
-                        {c.render ? c.render(r[c.key], r) : (r[c.key] ?? "—") as ReactNode}
-                      </td>
-                    ))}
-                    <td className="px-3 py-2 text-right">
-                      <button
-                        onClick={() => openEditor("edit", r)}
-                        className="px-2 py-1 rounded bg-sky-700 hover:bg-sky-600 text-white mr-1.5 mb-2"
-                        type="button"
-                        aria-label="Изменить запись"
-                      >
-                        Изм.
-                      </button>
-                      <button
-                        onClick={() => deleteRow(r)}
-                        className="px-2 py-1 rounded bg-rose-700 hover:bg-rose-600 text-white"
-                        type="button"
-                        aria-label="Удалить запись"
-                      >
-                        Удал.
-                      </button>
+            <MobileCards
+              rows={td.rows}
+              columns={columns}
+              tab={td.tab}
+              onEdit={canWrite ? (r: RowData) => openEditor("edit", r) : undefined}
+              onDelete={canDelete ? deleteRow : undefined}
+              page={td.page}
+              pageSize={td.pageSize}
+              loading={td.loading}
+            />
+          </div>
+
+          {/* Таблица для десктопа */}
+          <div className="hidden md:block rounded-xl bg-surface">
+            <table className="w-full table-fixed text-body z-10">
+              <thead className="bg-[#0f1b44]/70 text-white/70">
+                <tr>
+                  <th className="text-left px-3 py-2 font-semibold min-w-0 whitespace-normal break-words">#</th>
+                  {columns.map((c) => (
+                    <th
+                      key={c.key}
+                      className="text-left px-3 py-2 font-semibold min-w-0 whitespace-normal break-words"
+                      scope="col"
+                    >
+                      {c.title}
+                    </th>
+                  ))}
+                  <th className="text-right px-3 py-2 font-semibold min-w-0 whitespace-normal break-words">Действия</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {td.rows.length === 0 && !td.loading ? (
+                  <tr>
+                    <td
+                      colSpan={1 + columns.length + 1}
+                      className="text-center p-[10%] text-white/30"
+                    >
+                      Пусто
                     </td>
                   </tr>
-                );
-              })
-            )}
-          </tbody>
-        </table>
-      </div>
-
-      {/* Пагинация и размер страницы */}
-      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
-        <div className="flex items-center gap-2">
-          <span className="text-body text-slate-500">На странице:</span>
-          <label className="sr-only" htmlFor="page-size-select">Размер страницы</label>
-          <select
-            id="page-size-select"
-            value={td.pageSize}
-            onChange={(e) => {
-              td.setPageSize(Number(e.target.value));
-              td.setPage(1);
-            }}
-            className="bg-[#0b1533] border border-slate-700 rounded-xl px-2 py-1 text-slate-100"
-          >
-            {[25, 50, 100, 200, 500].map((n) => (
-              <option key={n} value={n}>
-                {n}
-              </option>
-            ))}
-          </select>
-        </div>
-
-        <div className="flex items-center gap-2">
-          <Button
-            type="button"
-            onClick={() => td.setPage((p) => Math.max(1, p - 1))}
-            disabled={td.page <= 1 || td.loading}
-            variant="accent"
-            size="sm"
-            className="px-4"
-            aria-label="Назад"
-          >
-            Назад
-          </Button>
-          <span className="text-body text-slate-500" aria-live="polite">
-            стр. {td.page} / {td.pages}
-          </span>
-          <Button
-            type="button"
-            onClick={() => td.setPage((p) => Math.min(td.pages, p + 1))}
-            disabled={td.page >= td.pages || td.loading}
-            variant="accent"
-            size="sm"
-            className="px-4"
-            aria-label="Вперёд"
-          >
-            Вперёд
-          </Button>
-        </div>
-      </div>
-
-      {/* Модальное окно-редактор */}
-      <EditorModal
-        open={editorOpen}
-        mode={editorMode}
-        tab={td.tab}
-        schema={SCHEMAS[td.tab]}
-        form={form}
-        setForm={setForm}
-        onClose={() => setEditorOpen(false)}
-        onSave={saveEditor}
-      />
+                ) : (
+                  td.rows.map((r, idx) => {
+                    const rowKey = r.id ?? r.chat_id ?? `${td.tab}-${idx}`;
+                    return (
+                      <tr key={String(rowKey)} className="group text-white/50 hover:bg-[#0c173a]">
+                        <td className="px-3 py-2 min-w-0 whitespace-normal break-words group-hover:text-[#17e1b1]">
+                          {(td.page - 1) * td.pageSize + idx + 1}
+                        </td>
+                        {columns.map((c) => (
+                          <td
+                            key={c.key}
+                            className="px-3 py-2 min-w-0 whitespace-normal break-words group-hover:text-[#17e1b1]"
+                          >
+                            {c.render ? c.render(r[c.key], r) : (r[c.key] ?? "—") as ReactNode}
+                          </td>
+                        ))}
+                        <td className="px-3 py-2 text-right">
+                          {canWrite && (
+                            <button
+                              onClick={() => openEditor("edit", r)}
+                              className="px-2 py-1 rounded bg-sky-700 hover:bg-sky-600 text-white mr-1.5 mb-2"
+                              type="button"
+                              aria-label="Изменить запись"
+                            >
+                              Изм.
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              onClick={() => deleteRow(r)}
+                              className="px-2 py-1 rounded bg-rose-700 hover:bg-rose-600 text-white"
+                              type="button"
+                              aria-label="Удалить запись"
+                            >
+                              Удал.
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Пагинация и размер страницы */}
+          <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-body text-slate-500">На странице:</span>
+              <label className="sr-only" htmlFor="page-size-select">Размер страницы</label>
+              <select
+                id="page-size-select"
+                value={td.pageSize}
+                onChange={(e) => {
+                  td.setPageSize(Number(e.target.value));
+                  td.setPage(1);
+                }}
+                className="bg-[#0b1533] border border-slate-700 rounded-xl px-2 py-1 text-slate-100"
+              >
+                {[25, 50, 100, 200, 500].map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                onClick={() => td.setPage((p) => Math.max(1, p - 1))}
+                disabled={td.page <= 1 || td.loading}
+                variant="accent"
+                size="sm"
+                className="px-4"
+                aria-label="Назад"
+              >
+                Назад
+              </Button>
+              <span className="text-body text-slate-500" aria-live="polite">
+                стр. {td.page} / {td.pages}
+              </span>
+              <Button
+                type="button"
+                onClick={() => td.setPage((p) => Math.min(td.pages, p + 1))}
+                disabled={td.page >= td.pages || td.loading}
+                variant="accent"
+                size="sm"
+                className="px-4"
+                aria-label="Вперёд"
+              >
+                Вперёд
+              </Button>
+            </div>
+          </div>
+
+          {/* Модальное окно-редактор */}
+          <EditorModal
+            open={editorOpen}
+            mode={editorMode}
+            tab={td.tab}
+            schema={SCHEMAS[td.tab]}
+            form={form}
+            setForm={setForm}
+            onClose={() => setEditorOpen(false)}
+            onSave={saveEditor}
+          />
+        </>
+      )}
     </div>
   );
 }
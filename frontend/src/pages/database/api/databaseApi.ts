@@ -1,6 +1,6 @@
 /**
  * Утилиты для построения URL, загрузки, сохранения и удаления строк в разделах
- * “чаты / сообщения / заказы / бронирования”.
+ * “чаты / сообщения / заказы / бронирования”, а также загрузки журнала аудита.
  *
  * Зачем это нужно:
  * - Централизуем всю работу со списками и CRUD-операциями: одна точка входа → меньше дублирования.
@@ -17,6 +17,8 @@
  * - Ошибки сетевых операций развёрнутые: статус + тело ответа (если есть), чтобы проще дебажить запросы.
  */
 
+import { authFetch } from "../../../services/api";
+
 const API_BASE = import.meta.env.VITE_API_URL?.toString().replace(/\/+$/, "");
 if (!API_BASE) {
   throw new Error("VITE_API_URL is not defined");
@@ -153,7 +155,7 @@ export async function loadRows<
 ): Promise<LoadRowsResult<TItem>> {
   const url = buildListUrl(tab, rest);
 
-  const response = await fetch(url, {
+  const response = await authFetch(url, {
     signal,
     cache: "no-store",
   });
@@ -232,7 +234,7 @@ export async function saveRow(
       assertNever(tab);
   }
 
-  const response = await fetch(url, {
+  const response = await authFetch(url, {
     method,
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(body),
@@ -273,10 +275,90 @@ export async function deleteRow(
       assertNever(tab);
   }
 
-  const response = await fetch(url, { method: "DELETE", signal });
+  const response = await authFetch(url, { method: "DELETE", signal });
 
   if (!response.ok) {
     const text = await response.text().catch(() => "");
     throw new Error(`Delete error (${response.status}): ${text || response.statusText}`);
   }
 }
+
+// ---- Журнал аудита (вкладка «Аудит», право audit:read) ----
+
+export const AUDIT_ENTITIES = [
+  "chat",
+  "message",
+  "order",
+  "reservation",
+  "broadcast",
+  "canned_response",
+  "chat_note",
+  "customer",
+] as const;
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "send"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/** Запись журнала: для update в before/after лежат только изменившиеся поля. */
+export interface AuditRecord {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity: AuditEntity;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  created_at: string;
+}
+
+/** Фильтры журнала; даты — ISO `YYYY-MM-DD`, обе границы включительно. */
+export interface AuditFilters {
+  entity?: AuditEntity | "";
+  action?: AuditAction | "";
+  actor?: string;
+  entity_id?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+/** Следующий день для ISO-даты: сервер трактует `to` как исключающую границу. */
+function nextDay(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + 1);
+  return date.toISOString();
+}
+
+/**
+ * Загрузка страницы журнала аудита. Границы дат считаются в часовом поясе браузера.
+ */
+export async function loadAudit(
+  { page, pageSize, filters = {} }: { page: number; pageSize: number; filters?: AuditFilters },
+  { signal }: SaveOptions = {}
+): Promise<LoadRowsResult<AuditRecord>> {
+  const params = new URLSearchParams({
+    limit: String(pageSize),
+    offset: String(Math.max(0, page - 1) * pageSize),
+  });
+  setIfPresent(params, "entity", filters.entity);
+  setIfPresent(params, "action", filters.action);
+  setIfPresent(params, "actor", filters.actor?.trim());
+  setIfPresent(params, "entity_id", filters.entity_id?.trim());
+  if (filters.date_from) params.set("from", new Date(`${filters.date_from}T00:00:00`).toISOString());
+  if (filters.date_to) params.set("to", nextDay(filters.date_to));
+
+  const response = await authFetch(`${API_BASE}/audit?${params.toString()}`, {
+    signal,
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as { items?: AuditRecord[]; total?: number };
+  const total = Number(response.headers.get("X-Total-Count") ?? data.total ?? 0);
+  return { items: Array.isArray(data.items) ? data.items : [], total };
+}
@@ -0,0 +1,300 @@
+/**
+ * Вкладка «Аудит»: кто, когда и с какого IP менял данные.
+ *
+ * Зачем нужна:
+ * - Разбор инцидентов: кто удалил чат, поменял сумму заказа или запустил рассылку.
+ *
+ * Что внутри:
+ * - Фильтры по сущности, действию, автору (подстрока email), ID записи и периоду.
+ *   Как и в FilterBar, фильтры применяются по кнопке, а не на каждый ввод.
+ * - Колонка «Изменения»: для update — только изменившиеся поля «было → стало»,
+ *   для create/send — новые значения, для delete — удалённая запись.
+ * - Записи без автора сделаны системой (например, входящий webhook).
+ */
+
+import { useEffect, useState, type ChangeEvent, type ReactElement } from "react";
+import Button from "@/components/Button";
+import DateField from "@/components/DateField";
+
+import Badge from "./Badge";
+import { fmtDate } from "../utils/format";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITIES,
+  loadAudit,
+  type AuditAction,
+  type AuditEntity,
+  type AuditFilters,
+  type AuditRecord,
+} from "../api/databaseApi";
+
+const ENTITY_TITLES: Record<AuditEntity, string> = {
+  chat: "Чат",
+  message: "Сообщение",
+  order: "Заказ",
+  reservation: "Бронь",
+  broadcast: "Рассылка",
+  canned_response: "Шаблон ответа",
+  chat_note: "Заметка",
+  customer: "Профиль гостя",
+};
+
+const ACTION_TITLES: Record<AuditAction, string> = {
+  create: "Создание",
+  update: "Изменение",
+  delete: "Удаление",
+  send: "Отправка",
+};
+
+const PAGE_SIZE = 50;
+
+// Тот же визуал полей, что и в FilterBar.
+const INPUT_CLASS =
+  "rounded-xl bg-[#09102a] px-3 py-2 placeholder-white/30 text-white/50 outline-none";
+
+type SyntheticDateEvent = { target: { value: string | undefined } };
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/** Изменения записи списком «поле: было → стало». */
+function Changes({ record }: { record: AuditRecord }): ReactElement {
+  const before = record.before ?? {};
+  const after = record.after ?? {};
+  const keys = Object.keys(record.after ?? record.before ?? {});
+
+  if (!keys.length) {
+    return <span>—</span>;
+  }
+
+  return (
+    <ul className="space-y-0.5 break-words">
+      {keys.map((key) => (
+        <li key={key}>
+          <span className="text-white/30">{key}: </span>
+          {record.action === "update" ? (
+            <>
+              <span className="line-through text-rose-300/70">{formatValue(before[key])}</span>
+              {" → "}
+              <span className="text-emerald-300/80">{formatValue(after[key])}</span>
+            </>
+          ) : (
+            formatValue(record.action === "delete" ? before[key] : after[key])
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function AuditPanel(): ReactElement {
+  const [draft, setDraft] = useState<AuditFilters>({});
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [page, setPage] = useState(1);
+  const [rows, setRows] = useState<AuditRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError("");
+    loadAudit({ page, pageSize: PAGE_SIZE, filters }, { signal: controller.signal })
+      .then(({ items, total: count }) => {
+        setRows(items);
+        setTotal(count);
+      })
+      .catch((e: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(e instanceof Error ? e.message : "Не удалось загрузить журнал");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [filters, page]);
+
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const handleChange =
+    <K extends keyof AuditFilters>(key: K) =>
+    (event: ChangeEvent<HTMLInputElement | HTMLSelectElement> | SyntheticDateEvent) => {
+      setDraft((prev) => ({ ...prev, [key]: event.target.value ?? undefined }));
+    };
+
+  const apply = () => {
+    setPage(1);
+    setFilters({ ...draft });
+  };
+
+  const reset = () => {
+    setDraft({});
+    setPage(1);
+    setFilters({});
+  };
+
+  return (
+    <div className="space-y-4" id="panel-audit" role="tabpanel" aria-label="Журнал аудита">
+      <div className="relative z-20 border border-white/5 rounded-xl bg-[#0b1533]/70 backdrop-blur-xl p-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="flex flex-col gap-1 text-body">
+            <span className="text-body text-white/20">Сущность</span>
+            <select className={INPUT_CLASS} value={draft.entity ?? ""} onChange={handleChange("entity")}>
+              <option value="">— любая —</option>
+              {AUDIT_ENTITIES.map((entity) => (
+                <option key={entity} value={entity}>
+                  {ENTITY_TITLES[entity]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-body">
+            <span className="text-body text-white/20">Действие</span>
+            <select className={INPUT_CLASS} value={draft.action ?? ""} onChange={handleChange("action")}>
+              <option value="">— любое —</option>
+              {AUDIT_ACTIONS.map((action) => (
+                <option key={action} value={action}>
+                  {ACTION_TITLES[action]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-body">
+            <span className="text-body text-white/20">Кто (email)</span>
+            <input
+              className={INPUT_CLASS}
+              value={draft.actor ?? ""}
+              onChange={handleChange("actor")}
+              placeholder="admin@…"
+              autoComplete="off"
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-body">
+            <span className="text-body text-white/20">ID записи</span>
+            <input
+              className={INPUT_CLASS}
+              value={draft.entity_id ?? ""}
+              onChange={handleChange("entity_id")}
+              autoComplete="off"
+            />
+          </label>
+
+          <DateField
+            label="С даты"
+            value={draft.date_from ?? ""}
+            onChange={handleChange("date_from")}
+            max={draft.date_to || undefined}
+            className="w-[220px]"
+          />
+
+          <DateField
+            label="По дату"
+            value={draft.date_to ?? ""}
+            onChange={handleChange("date_to")}
+            min={draft.date_from || undefined}
+            className="w-[220px]"
+          />
+        </div>
+
+        <div className="mt-3 md:mt-4 flex flex-col md:flex-row md:justify-end gap-2">
+          <Button type="button" onClick={reset} variant="accent" size="sm">
+            Сбросить фильтры
+          </Button>
+          <Button type="button" onClick={apply} variant="accent" size="sm">
+            Применить
+          </Button>
+        </div>
+      </div>
+
+      <div className="text-body text-slate-500" aria-live="polite">
+        {loading ? "Загрузка…" : `Записей: ${total}`}
+      </div>
+
+      {error && (
+        <p className="text-body text-rose-300" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="rounded-xl bg-surface overflow-x-auto">
+        <table className="w-full text-body">
+          <thead className="bg-[#0f1b44]/70 text-white/70">
+            <tr>
+              <th className="text-left px-3 py-2 font-semibold" scope="col">Когда</th>
+              <th className="text-left px-3 py-2 font-semibold" scope="col">Кто</th>
+              <th className="text-left px-3 py-2 font-semibold" scope="col">Действие</th>
+              <th className="text-left px-3 py-2 font-semibold" scope="col">Запись</th>
+              <th className="text-left px-3 py-2 font-semibold" scope="col">Изменения</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {rows.length === 0 && !loading ? (
+              <tr>
+                <td colSpan={5} className="text-center p-[10%] text-white/30">
+                  Пусто
+                </td>
+              </tr>
+            ) : (
+              rows.map((record) => (
+                <tr key={record.id} className="text-white/50 align-top">
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {fmtDate(record.created_at, { includeTime: true })}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div>{record.actor_email ?? "система"}</div>
+                    {record.ip && <div className="text-white/30">{record.ip}</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <Badge>{ACTION_TITLES[record.action] ?? record.action}</Badge>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {ENTITY_TITLES[record.entity] ?? record.entity}
+                    {record.entity_id && <span className="text-white/30"> #{record.entity_id}</span>}
+                  </td>
+                  <td className="px-3 py-2 max-w-md">
+                    <Changes record={record} />
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button
+          type="button"
+          onClick={() => setPage((p) => Math.max(1, p - 1))}
+          disabled={page <= 1 || loading}
+          variant="accent"
+          size="sm"
+          className="px-4"
+          aria-label="Назад"
+        >
+          Назад
+        </Button>
+        <span className="text-body text-slate-500">
+          стр. {page} / {pages}
+        </span>
+        <Button
+          type="button"
+          onClick={() => setPage((p) => Math.min(pages, p + 1))}
+          disabled={page >= pages || loading}
+          variant="accent"
+          size="sm"
+          className="px-4"
+          aria-label="Вперёд"
+        >
+          Вперёд
+        </Button>
+      </div>
+    </div>
+  );
+}
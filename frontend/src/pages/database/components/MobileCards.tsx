@@ -39,8 +39,9 @@ type MobileCardsProps<Row extends RowData = RowData> = {
   columns: ReadonlyArray<MobileColumn<Row>>;
   /** Идентификатор текущей вкладки/раздела — участвует в генерации ключей. */
   tab: string;
-  onEdit: (row: Row) => void;
-  onDelete: (row: Row) => void;
+  /** Обработчики действий; если не передан — кнопка не показывается (нет права у роли). */
+  onEdit?: (row: Row) => void;
+  onDelete?: (row: Row) => void;
   /** Номер страницы (1-based). */
   page: number;
   /** Размер страницы (количество элементов на страницу). */
@@ -105,24 +106,28 @@ export default function MobileCards<Row extends RowData = RowData>({
 
               {/* CTA-кнопки: короткие подписи + aria-label для доступности. */}
               <div className="flex gap-2">
-                <button
-                  type="button"
-                  onClick={() => onEdit(row)}
-                  className="px-2 py-1 rounded bg-sky-700 hover:bg-sky-600 text-white text-body"
-                  aria-label="Изменить запись"
-                  title="Изменить"
-                >
-                  Изм.
-                </button>
-                <button
-                  type="button"
-                  onClick={() => onDelete(row)}
-                  className="px-2 py-1 rounded bg-rose-700 hover:bg-rose-600 text-white text-body"
-                  aria-label="Удалить запись"
-                  title="Удалить"
-                >
-                  Удал.
-                </button>
+                {onEdit && (
+                  <button
+                    type="button"
+                    onClick={() => onEdit(row)}
+                    className="px-2 py-1 rounded bg-sky-700 hover:bg-sky-600 text-white text-body"
+                    aria-label="Изменить запись"
+                    title="Изменить"
+                  >
+                    Изм.
+                  </button>
+                )}
+                {onDelete && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(row)}
+                    className="px-2 py-1 rounded bg-rose-700 hover:bg-rose-600 text-white text-body"
+                    aria-label="Удалить запись"
+                    title="Удалить"
+                  >
+                    Удал.
+                  </button>
+                )}
               </div>
             </header>
 
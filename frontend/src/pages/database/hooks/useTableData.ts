@@ -13,14 +13,30 @@
  *   “Применить/Сбросить” с предсказуемым поведением.
  * - Загрузка: `AbortController` отменяет прежний запрос при смене зависимости (вкладка/страница/фильтры/поиск),
  *   что предотвращает “гонки” и лишние setState — современная рекомендация для запросов в React 18+.
+ * - Живые обновления: подписка на SSE-топик текущей вкладки. update/delete применяем к строкам страницы
+ *   на месте; create (и upsert неизвестной строки) — тихая перезагрузка страницы, ведь новая строка
+ *   может попасть под фильтры и сортировку где угодно.
  */
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { loadRows, type ListFilters } from "../api/databaseApi";
+import { useRealtime } from "@/hooks/useRealtime";
+import type { RealtimeEvent, RealtimeRowEvent } from "@/services/realtime";
 
 /** Контролируемый перечень вкладок (тип выводится из значений, исключаем расхождения). */
 const TABS = ["chats", "messages", "orders", "reservations"] as const;
 type Tab = (typeof TABS)[number];
 
+/** SSE-топик и ключ строки для каждой вкладки (чаты ключуются chat_id, остальное — id). */
+const REALTIME: Record<Tab, { topic: string; key: "id" | "chat_id" }> = {
+  chats: { topic: "chats", key: "chat_id" },
+  messages: { topic: "messages", key: "id" },
+  orders: { topic: "orders", key: "id" },
+  reservations: { topic: "reservations", key: "id" },
+};
+
+/** Пауза перед тихой перезагрузкой: пачка событий (например, рассылка) даёт один запрос. */
+const REFRESH_DEBOUNCE_MS = 400;
+
 export type Query = { input: string; value: string };
 type Filters = ListFilters;
 
@@ -93,8 +109,9 @@ export default function useTableData<T = unknown>(initialTab: Tab = "chats") {
    * так что функцию можно вызывать вручную (см. refetch).
    */
   const fetchData = useCallback(
-    async (signal?: AbortSignal): Promise<void> => {
-      setLoading(true);
+    async (signal?: AbortSignal, silent = false): Promise<void> => {
+      // Тихая загрузка (по событию SSE) не мигает индикатором поверх уже показанных строк
+      if (!silent) setLoading(true);
       try {
         const { items, total: totalCount } = await loadRows<T, Filters>(tab, {
           page,
@@ -149,6 +166,66 @@ export default function useTableData<T = unknown>(initialTab: Tab = "chats") {
     await fetchData();
   }, [fetchData]);
 
+  /**
+   * Живые обновления текущей вкладки (см. шапку файла).
+   */
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(
+    () => () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    },
+    [],
+  );
+
+  const scheduleRefresh = useCallback(() => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => {
+      refreshTimer.current = null;
+      void fetchData(undefined, true);
+    }, REFRESH_DEBOUNCE_MS);
+  }, [fetchData]);
+
+  const { topic, key } = REALTIME[tab];
+
+  // Последние показанные строки — чтобы решить по событию, есть ли строка на странице, вне setState
+  const rowsRef = useRef(rows);
+  useEffect(() => {
+    rowsRef.current = rows;
+  }, [rows]);
+
+  const onRealtime = useCallback(
+    ({ data }: RealtimeEvent<RealtimeRowEvent>) => {
+      const sameRow = (row: T, id: unknown) =>
+        String((row as Record<string, unknown>)[key] ?? "") === String(id ?? "");
+
+      if (data.action === "delete") {
+        const id = key === "chat_id" ? data.chat_id : data.id;
+        if (!rowsRef.current.some((r) => sameRow(r, id))) return;
+        setRows((prev) => prev.filter((r) => !sameRow(r, id)));
+        setTotal((t) => Math.max(0, t - 1));
+        return;
+      }
+
+      const row = data.row;
+      if (data.action === "create" || !row) {
+        scheduleRefresh();
+        return;
+      }
+
+      const id = row[key];
+      if (!rowsRef.current.some((r) => sameRow(r, id))) {
+        // Новая строка (upsert) может попасть на страницу; обновление чужой страницы нас не касается
+        if (data.action === "upsert") scheduleRefresh();
+        return;
+      }
+      // Сливаем, а не заменяем: в табличных строках есть поля из JOIN (например, имя гостя у сообщения)
+      setRows((prev) => prev.map((r) => (sameRow(r, id) ? ({ ...r, ...row } as T) : r)));
+    },
+    [key, scheduleRefresh],
+  );
+
+  useRealtime(topic, onRealtime, { onResync: scheduleRefresh });
+
   return {
     // данные для UI
     tabs,
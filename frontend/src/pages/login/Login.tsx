@@ -10,10 +10,14 @@
  * – Обработчик отправки формы пишет на современный TS (исключаем `any`, работаем через `unknown` и узкое приведение).
  * – Используем нативные подсказки автобраузера (`autoComplete`) для email/пароля: это повышает DX/UX и security-гигиену.
  * – Ошибки показываются через `aria-live`/`role="alert"` — экранные дикторы будут корректно их озвучивать.
+ * – Для аккаунтов с 2FA вход в два шага: после пароля форма просит код из приложения
+ *   (или код восстановления); challenge-токен живёт на сервере 5 минут.
+ * – После серии неудач сервер временно блокирует вход (429): вместо общей ошибки показываем
+ *   обратный отсчёт и не даём отправить форму, пока блокировка не истечёт.
  */
 
 import { AnimatePresence } from "framer-motion";
-import { useState, useCallback, ChangeEvent, FormEvent } from "react";
+import { useState, useCallback, useEffect, ChangeEvent, FormEvent } from "react";
 import { useNavigate } from "react-router-dom";
 
 import Button from "../../components/Button";
@@ -21,19 +25,45 @@ import Input from "../../components/Input";
 import Loader from "../../components/Loader";
 import VantaBg from "../../components/VantaBg";
 import { useAuth } from "../../context/useAuth";
+import { LoginThrottledError } from "../../context/AuthContext.shared";
+
+/** 75 → «1:15». */
+const formatWait = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
 
 export default function LoginPage() {
-  const { login } = useAuth();
+  const { login, completeTwoFactor } = useAuth();
   const navigate = useNavigate();
 
   // Контролируемые поля: типизация значений помогает IDE и исключает случайные типы.
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
+  // Второй шаг входа: challenge-токен от сервера и введённый код.
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+
   // UI-состояния: понятные названия и строгая типизация строк ошибок.
   const [err, setErr] = useState("");
   const [loading, setLoading] = useState(false);
 
+  // Блокировка после перебора: момент окончания и оставшиеся секунды для отсчёта.
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [waitSeconds, setWaitSeconds] = useState(0);
+
+  useEffect(() => {
+    if (lockedUntil === null) return;
+
+    const tick = (): void => {
+      const left = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+      setWaitSeconds(left);
+      if (left === 0) setLockedUntil(null);
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
   // Подсказка: чистим ошибку при изменении инпутов, чтобы не “залипала” при следующем вводе.
   const handleEmailChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     if (err) setErr("");
@@ -45,6 +75,18 @@ export default function LoginPage() {
     setPassword(e.target.value);
   }, [err]);
 
+  const handleCodeChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    if (err) setErr("");
+    setCode(e.target.value);
+  }, [err]);
+
+  // Возврат к паролю: challenge мог истечь или вход начат не под тем аккаунтом.
+  const handleBack = useCallback(() => {
+    setChallengeToken(null);
+    setCode("");
+    setErr("");
+  }, []);
+
   // Современный обработчик отправки формы:
   // – Без `any` в ошибках: принимаем `unknown`, затем аккуратно сужаем тип.
   // – `finally` гарантирует снятие спиннера; при успешном логине сразу уходим на /analytics.
@@ -55,9 +97,24 @@ export default function LoginPage() {
       setLoading(true);
 
       try {
-        await login(email.trim(), password);
+        if (challengeToken) {
+          await completeTwoFactor(challengeToken, code.trim());
+          navigate("/analytics");
+          return;
+        }
+
+        const result = await login(email.trim(), password);
+        if (result.twoFactorRequired) {
+          setChallengeToken(result.challengeToken);
+          return;
+        }
         navigate("/analytics");
       } catch (error: unknown) {
+        if (error instanceof LoginThrottledError) {
+          setLockedUntil(Date.now() + error.retryAfter * 1000);
+          return;
+        }
+
         // Внешние клиенты/SDK часто кладут полезное сообщение в response.data.error.
         let message = "Произошла неизвестная ошибка. Попробуйте ещё раз.";
         if (error instanceof Error && error.message) {
@@ -77,7 +134,7 @@ export default function LoginPage() {
         setLoading(false);
       }
     },
-    [email, password, login, navigate]
+    [email, password, challengeToken, code, login, completeTwoFactor, navigate]
   );
 
   return (
@@ -117,38 +174,74 @@ export default function LoginPage() {
           </div>
         )}
 
+        {waitSeconds > 0 && (
+          <div className="text-body text-amber-300 mb-2" role="status" aria-live="polite">
+            Слишком много неудачных попыток. Повторите через {formatWait(waitSeconds)}.
+          </div>
+        )}
+
         {/* Подсказка: атрибуты autoComplete позволяют браузеру безопасно подставлять сохранённые данные */}
         <form className="space-y-4" onSubmit={handleSubmit} noValidate>
-          <Input
-            label="Email"
-            name="email"
-            type="email"
-            value={email}
-            onChange={handleEmailChange}
-            inputMode="email"
-            autoComplete="username"
-            required
-          />
-
-          <Input
-            label="Пароль"
-            name="password"
-            type="password"
-            value={password}
-            onChange={handlePasswordChange}
-            autoComplete="current-password"
-            required
-          />
+          {challengeToken ? (
+            <>
+              <p className="text-body text-white/70">
+                Введите код из приложения-аутентификатора или один из кодов восстановления.
+              </p>
+              <Input
+                label="Код подтверждения"
+                name="code"
+                value={code}
+                onChange={handleCodeChange}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+            </>
+          ) : (
+            <>
+              <Input
+                label="Email"
+                name="email"
+                type="email"
+                value={email}
+                onChange={handleEmailChange}
+                inputMode="email"
+                autoComplete="username"
+                required
+              />
+
+              <Input
+                label="Пароль"
+                name="password"
+                type="password"
+                value={password}
+                onChange={handlePasswordChange}
+                autoComplete="current-password"
+                required
+              />
+            </>
+          )}
 
           {/* Кнопка не даст повторно отправить форму, пока идёт проверка */}
           <Button
             type="submit"
-            disabled={loading}
+            disabled={loading || waitSeconds > 0}
             loading={loading}
             variant="primary"
           >
-            Войти
+            {challengeToken ? "Подтвердить" : "Войти"}
           </Button>
+
+          {challengeToken && (
+            <button
+              type="button"
+              onClick={handleBack}
+              className="w-full text-body text-white/60 underline"
+            >
+              Войти под другим аккаунтом
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -32,6 +32,7 @@ import RecipientsCard from "./components/RecipientsCard";
 import ProgressCard from "./components/ProgressCard";
 import { useRecipients } from "./hooks/useRecipients";
 import { useBroadcast } from "./hooks/useBroadcast";
+import { useAuth } from "../../context/useAuth";
 import { parseManualIds, canSend as canSendUtil } from "./utils";
 import type {
   MailingFilters,
@@ -47,9 +48,13 @@ const DEFAULT_FILTERS = {
   onlyActiveDays: 90,
   minOrders: 0,
   platform: "any",
+  tags: [],
 } satisfies MailingFilters;
 
 export default function MailingPage() {
+  const { can } = useAuth();
+  const mayBroadcast = can("broadcasts:send");
+
   /** Контент сообщения. */
   const [title, setTitle] = useState("");
   const [text, setText] = useState("");
@@ -73,16 +78,17 @@ export default function MailingPage() {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
   const [manualIdsText, setManualIdsText] = useState("");
 
-  /** Можно ли показывать активный CTA «Отправить». */
+  /** Можно ли показывать активный CTA «Отправить» (и есть ли у роли право на рассылку). */
   const canSend = useMemo(
     () =>
+      mayBroadcast &&
       canSendUtil({
         text,
         platforms,
         sendMode,
         selectedIds,
       }),
-    [text, platforms, sendMode, selectedIds],
+    [mayBroadcast, text, platforms, sendMode, selectedIds],
   );
 
   /** Список включённых платформ (tg/vk) в виде массива ключей. */
@@ -9,7 +9,8 @@
  * - Чёткие контракты типов на вход/выход — проще сопровождать и тестировать.
  */
 
-import type { MailingFilters, PlatformKey } from "../types";
+import { authFetch } from "../../../services/api";
+import type { MailingFilters, MailingTag, PlatformKey } from "../types";
 
 /** Базовый URL бэкенда. Ожидается полный адрес (например, https://api.example.com). */
 const API_BASE = (import.meta as any)?.env?.VITE_API_URL as string;
@@ -28,7 +29,7 @@ interface FetchOptions extends RequestInit {
 async function fetchJSON<T>(url: string | URL, options: FetchOptions = {}): Promise<T> {
   // Неочевидный момент: не навешиваем автоматически заголовок Content-Type,
   // потому что для GET/HEAD он не нужен, а для POST мы выставим его точечно.
-  const response = await fetch(url, options);
+  const response = await authFetch(url, options);
 
   // Быстрый выход для 204/пустого тела
   const contentType = response.headers.get("content-type") ?? "";
@@ -106,6 +107,12 @@ export async function apiLoadRecipients<TResponse = unknown>({
   return fetchJSON<TResponse>(url, { signal });
 }
 
+/** Загрузить теги чатов — варианты для сегмента «по тегам». */
+export async function apiLoadTags(signal?: AbortSignal): Promise<MailingTag[]> {
+  const data = await fetchJSON<{ items?: MailingTag[] }>(new URL("/tags", API_BASE), { signal });
+  return Array.isArray(data?.items) ? data.items : [];
+}
+
 /** Полезная нагрузка для старта рассылки. Типы оставлены расширяемыми — требования зависят от бэкенда. */
 export interface StartBroadcastPayload {
   title?: string;
@@ -2,12 +2,13 @@
  * Карточка фильтров получателей.
  *
  * Что делает:
- * - Даёт быстрый контроль параметров выборки: платформы, активность, минимальные заказы и лимит (для режима "Первые N").
+ * - Даёт быстрый контроль параметров выборки: платформы, активность, минимальные заказы, теги чатов и лимит (для режима "Первые N").
  * - Все значения — контролируемые (controlled inputs), чтобы состояние было единым источником правды.
 */
 
-import type { ChangeEvent, Dispatch, SetStateAction } from "react";
-import type { MailingFilters, PlatformState, SendMode } from "../types";
+import { useEffect, useState, type ChangeEvent, type Dispatch, type SetStateAction } from "react";
+import { apiLoadTags } from "../api";
+import type { MailingFilters, MailingTag, PlatformState, SendMode } from "../types";
 
 interface FiltersCardProps {
   platforms: PlatformState;
@@ -34,6 +35,19 @@ export default function FiltersCard({
   setLimit,
   sendMode,
 }: FiltersCardProps) {
+  /** Теги чатов для сегмента; не загрузились — блок просто не показываем. */
+  const [tags, setTags] = useState<MailingTag[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    apiLoadTags(controller.signal)
+      .then(setTags)
+      .catch((e) => {
+        if ((e as DOMException).name !== "AbortError") console.warn("Не удалось загрузить теги:", e);
+      });
+    return () => controller.abort();
+  }, []);
+
   /**
    * Универсальный обработчик для числовых полей фильтров.
    * Используем `valueAsNumber`, чтобы не парсить строки и не ловить локализационные сюрпризы.
@@ -75,6 +89,14 @@ export default function FiltersCard({
       setPlatforms((prev) => ({ ...prev, [key]: checked }));
     };
 
+  /** Переключение тега в сегменте: выбранные теги объединяются по «или». */
+  const handleTagToggle = (tagId: number) => {
+    setFilters((prev) => ({
+      ...prev,
+      tags: prev.tags.includes(tagId) ? prev.tags.filter((id) => id !== tagId) : [...prev.tags, tagId],
+    }));
+  };
+
   const limitDisabled = sendMode !== "limit";
 
   return (
@@ -134,6 +156,31 @@ export default function FiltersCard({
         </label>
       </div>
 
+      {/* Группа: Сегмент по тегам чатов — чипы-переключатели; ничего не выбрано = все чаты. */}
+      {tags.length > 0 && (
+        <fieldset>
+          <legend className="text-body text-white/40 mb-2">Теги чатов</legend>
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => {
+              const active = filters.tags.includes(tag.id);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  aria-pressed={active}
+                  onClick={() => handleTagToggle(tag.id)}
+                  className={`px-3 py-1 rounded-full border text-body transition-colors ${
+                    active ? "border-[#17E1B1] text-[#17E1B1]" : "border-white/10 text-white/40 hover:text-white/60"
+                  }`}
+                >
+                  {tag.name} · {tag.chats}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+      )}
+
       {/* Группа: Платформа получателя (селект) + лимит для режима "Первые N". */}
       <div className="grid grid-cols-2 gap-3">
         <label className="text-body">
@@ -27,7 +27,8 @@ export type RecipientPlatformFilter = "any" | PlatformKey;
  * Набор фильтров сегментации для построения аудитории рассылки.
  * - `onlyActiveDays`: сколько дней пользователь был активен (минимум),
  * - `minOrders`: минимальное число заказов,
- * - `platform`: платформа-таргет (или "any").
+ * - `platform`: платформа-таргет (или "any"),
+ * - `tags`: id тегов чатов (пусто — без ограничения).
  */
 export interface MailingFilters {
   /** Минимальный срок активности пользователя в днях. */
@@ -36,6 +37,16 @@ export interface MailingFilters {
   minOrders: number;
   /** Платформа-таргет или «без ограничения». */
   platform: RecipientPlatformFilter;
+  /** Сегмент по тегам: чат подходит, если у него есть хотя бы один из них. */
+  tags: number[];
+}
+
+/** Тег чата для сегмента рассылки (из /api/tags). */
+export interface MailingTag {
+  id: number;
+  name: string;
+  /** Сколько чатов помечено тегом. */
+  chats: number;
 }
 
 /**
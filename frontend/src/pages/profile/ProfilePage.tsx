@@ -4,6 +4,9 @@
  * Что это:
  * - Экран профиля с «скелетоном» загрузки, сообщением об ошибке и данными пользователя.
  * - Управляет тремя ключевыми действиями: выход, обновление данных, очистка локального токена.
+ * - Даёт отредактировать имя и сменить пароль (формы с подсветкой ошибок сервера по полям).
+ * - Показывает активные сеансы (устройство, IP) с возможностью завершить любой из них.
+ * - Подключение и отключение двухфакторной аутентификации (TOTP).
  *
  * Почему так:
  * - Отрисовываем три состояния (loading / success / empty) — это делает UX предсказуемым.
@@ -16,18 +19,37 @@ import { useAuth } from "../../context/useAuth";
 import { useProfile } from "./hooks/useProfile";
 import { fmtDateTime as fmt } from "./utils/format";
 import { Info } from "./components/Info";
-import { ReactElement } from "react";
+import ProfileEditForm from "./components/ProfileEditForm";
+import PasswordForm from "./components/PasswordForm";
+import SessionsCard from "./components/SessionsCard";
+import TwoFactorCard from "./components/TwoFactorCard";
+import { ReactElement, useCallback } from "react";
+import type { AuthUser } from "../../context/AuthContext";
 
 export default function ProfilePage(): ReactElement {
   const navigate = useNavigate();
-  const { logout } = useAuth();
+  const { user: authUser, logout, updateUser } = useAuth();
 
   // Хук-оркестратор страницы: собирает данные профиля и готовые действия.
-  const { user, loading, err, onLogout, refresh, clearLocal, initial } = useProfile({
+  const { user, loading, err, onLogout, refresh, clearLocal, applyUser, initial } = useProfile({
     navigate,
     logout,
   });
 
+  // Сохранённый профиль обновляем и локально, и в контексте (имя в сайдбаре).
+  const onProfileSaved = useCallback(
+    (next: AuthUser): void => {
+      applyUser(next);
+      updateUser(next);
+    },
+    [applyUser, updateUser]
+  );
+
+  // 2FA подключена — снимаем ограничение «только профиль» без повторного /auth/me.
+  const onTwoFactorEnabled = useCallback((): void => {
+    if (authUser) updateUser({ ...authUser, twoFactorSetupRequired: false });
+  }, [authUser, updateUser]);
+
   // Неочевидный момент: нормализуем отображаемое имя в один источник правды.
   const displayName = (user?.fullName ?? user?.full_name)?.trim() || "Без имени";
 
@@ -75,6 +97,16 @@ export default function ProfilePage(): ReactElement {
               <Info label="Аккаунт создан" value={fmt(user.created_at)} />
             </section>
 
+            {/* Редактирование: имя и пароль. key сбрасывает форму при смене пользователя. */}
+            <section className="grid md:grid-cols-2 gap-6 mb-6">
+              <ProfileEditForm key={String(user.id)} user={user} onSaved={onProfileSaved} />
+              <PasswordForm />
+            </section>
+
+            <TwoFactorCard onEnabled={onTwoFactorEnabled} />
+
+            <SessionsCard onLoggedOut={onLogout} />
+
             {/* Блок действий: управляет сессией и кэшем. */}
             <section className="flex flex-wrap gap-3" aria-label="Действия с профилем">
               <button
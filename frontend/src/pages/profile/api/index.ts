@@ -1,3 +1,5 @@
+import { isAxiosError } from 'axios'
+
 import api from '@/services/api'
 import type { AuthUser } from '@/context/AuthContext'
 
@@ -33,3 +35,136 @@ export async function getMe(signal?: AbortSignal): Promise<AuthUser | null> {
     return null
   }
 }
+
+/**
+ * Ошибка формы: общий текст и сообщения по полям (`{ error, fields }` от бэкенда).
+ * В отличие от `getMe`, мутации ошибки пробрасывают — форме нужно показать, что не так.
+ */
+export class ProfileFormError extends Error {
+  readonly fields: Readonly<Record<string, string>>
+
+  constructor(message: string, fields: Record<string, string> = {}) {
+    super(message)
+    this.name = 'ProfileFormError'
+    this.fields = fields
+  }
+}
+
+/** Приводим ошибку axios к `ProfileFormError`, сохраняя field-level сообщения сервера. */
+function toFormError(error: unknown, fallback: string): ProfileFormError {
+  if (isAxiosError<{ error?: string; fields?: Record<string, string> }>(error)) {
+    const data = error.response?.data
+    return new ProfileFormError(data?.error ?? fallback, data?.fields ?? {})
+  }
+  return new ProfileFormError(fallback)
+}
+
+/** Обновление собственного профиля (сейчас — только отображаемое имя). */
+export async function updateMe(input: { fullName: string }): Promise<AuthUser> {
+  try {
+    const { data } = await api.patch<MePayload>('/auth/me', input)
+    if (!data.user) throw new ProfileFormError('Пользователь не найден')
+    return data.user
+  } catch (error) {
+    if (error instanceof ProfileFormError) throw error
+    throw toFormError(error, 'Не удалось сохранить профиль')
+  }
+}
+
+/**
+ * Смена пароля. Сервер отзывает остальные сеансы; текущий сеанс (и его токены) остаётся в силе.
+ */
+export async function changePassword(input: {
+  currentPassword: string
+  newPassword: string
+}): Promise<void> {
+  try {
+    await api.post('/auth/password', input)
+  } catch (error) {
+    throw toFormError(error, 'Не удалось сменить пароль')
+  }
+}
+
+/** Активный сеанс (устройство, где выполнен вход). `current` — сеанс этой вкладки. */
+export type Session = Readonly<{
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastUsedAt: string
+  expiresAt: string
+  current: boolean
+}>
+
+/** Список активных сеансов пользователя, последние использованные сверху. */
+export async function listSessions(signal?: AbortSignal): Promise<Session[]> {
+  const { data } = await api.get<{ items: Session[] }>('/auth/sessions', { signal })
+  return data.items
+}
+
+/** Завершает один из сеансов (например, забытый на чужом компьютере). */
+export async function revokeSession(id: string): Promise<void> {
+  await api.delete(`/auth/sessions/${encodeURIComponent(id)}`)
+}
+
+/** Выход на всех устройствах, включая текущее. */
+export async function logoutEverywhere(): Promise<void> {
+  await api.post('/auth/logout-all')
+}
+
+/** Состояние 2FA: включена ли, обязательна ли для роли, сколько кодов восстановления осталось. */
+export type TwoFactorState = Readonly<{
+  enabled: boolean
+  required: boolean
+  recoveryCodesLeft: number
+}>
+
+/** Начало подключения: секрет для ручного ввода и otpauth URI для приложения. */
+export type TwoFactorEnrollment = Readonly<{
+  secret: string
+  otpauthUri: string
+}>
+
+export async function getTwoFactorState(signal?: AbortSignal): Promise<TwoFactorState> {
+  const { data } = await api.get<TwoFactorState>('/auth/2fa', { signal })
+  return data
+}
+
+export async function startTwoFactorEnrollment(): Promise<TwoFactorEnrollment> {
+  try {
+    const { data } = await api.post<TwoFactorEnrollment>('/auth/2fa/enroll')
+    return data
+  } catch (error) {
+    throw toFormError(error, 'Не удалось начать подключение')
+  }
+}
+
+/** Подтверждение кодом из приложения включает 2FA; в ответ — коды восстановления (показываются один раз). */
+export async function confirmTwoFactor(code: string): Promise<string[]> {
+  try {
+    const { data } = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/confirm', { code })
+    return data.recoveryCodes
+  } catch (error) {
+    throw toFormError(error, 'Неверный код')
+  }
+}
+
+/** Перевыпуск кодов восстановления; старые перестают действовать. */
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  try {
+    const { data } = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', {
+      code,
+    })
+    return data.recoveryCodes
+  } catch (error) {
+    throw toFormError(error, 'Неверный код')
+  }
+}
+
+export async function disableTwoFactor(input: { password: string; code: string }): Promise<void> {
+  try {
+    await api.post('/auth/2fa/disable', input)
+  } catch (error) {
+    throw toFormError(error, 'Не удалось отключить 2FA')
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Форма смены пароля.
+ *
+ * - Сервер проверяет текущий пароль и правила сложности; его сообщения по полям
+ *   (`currentPassword`, `newPassword`) показываются под соответствующими `Input`.
+ * - Совпадение подтверждения проверяем на клиенте — серверу оно не нужно.
+ * - После смены остальные сеансы отзываются, текущий продолжает работать (см. `changePassword`).
+ */
+
+import { useState, type FormEvent, type ReactElement } from "react";
+
+import Input from "@/components/Input";
+import Button from "@/components/Button";
+import { ProfileFormError, changePassword } from "../api";
+
+type PasswordField = "currentPassword" | "newPassword" | "confirmPassword";
+
+const EMPTY_FORM: Record<PasswordField, string> = {
+  currentPassword: "",
+  newPassword: "",
+  confirmPassword: "",
+};
+
+const LABELS: Record<PasswordField, string> = {
+  currentPassword: "Текущий пароль",
+  newPassword: "Новый пароль",
+  confirmPassword: "Повторите новый пароль",
+};
+
+export default function PasswordForm(): ReactElement {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [fields, setFields] = useState<Readonly<Record<string, string>>>({});
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    setMessage("");
+
+    if (form.newPassword !== form.confirmPassword) {
+      setFields({ confirmPassword: "Пароли не совпадают" });
+      return;
+    }
+
+    setBusy(true);
+    setFields({});
+    try {
+      await changePassword({
+        currentPassword: form.currentPassword,
+        newPassword: form.newPassword,
+      });
+      setForm(EMPTY_FORM);
+      setMessage("Пароль изменён. Остальные сеансы завершены.");
+    } catch (error) {
+      const formError = error instanceof ProfileFormError ? error : null;
+      setFields(formError?.fields ?? {});
+      setMessage(formError && !Object.keys(formError.fields).length ? formError.message : "");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-3" aria-label="Смена пароля">
+      <h2 className="font-semibold text-white/80">Пароль</h2>
+      {(Object.keys(LABELS) as PasswordField[]).map((field) => (
+        <div key={field} className="space-y-1">
+          <Input
+            label={LABELS[field]}
+            type="password"
+            name={field}
+            value={form[field]}
+            onChange={(e) => setForm((prev) => ({ ...prev, [field]: e.target.value }))}
+            aria-invalid={Boolean(fields[field])}
+            aria-describedby={fields[field] ? `${field}-error` : undefined}
+            autoComplete={field === "currentPassword" ? "current-password" : "new-password"}
+            required
+          />
+          {fields[field] && (
+            <p id={`${field}-error`} className="text-body text-red-400">
+              {fields[field]}
+            </p>
+          )}
+        </div>
+      ))}
+      {message && (
+        <p className="text-body text-white/60" role="status">
+          {message}
+        </p>
+      )}
+      <Button type="submit" size="md" loading={busy} disabled={busy} className="md:w-auto">
+        Сменить пароль
+      </Button>
+    </form>
+  );
+}
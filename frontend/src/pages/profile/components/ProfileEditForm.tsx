@@ -0,0 +1,71 @@
+/**
+ * Форма редактирования профиля (отображаемое имя).
+ *
+ * - Поле переиспользует общий `Input`; ошибка сервера по полю подсвечивает его через `aria-invalid`
+ *   и выводится под ним (связь через `aria-describedby`).
+ * - После сохранения отдаёт обновлённого пользователя наверх — страница и сайдбар обновляются.
+ */
+
+import { useState, type FormEvent, type ReactElement } from "react";
+
+import Input from "@/components/Input";
+import Button from "@/components/Button";
+import type { AuthUser } from "@/context/AuthContext";
+import { ProfileFormError, updateMe } from "../api";
+
+interface ProfileEditFormProps {
+  user: AuthUser;
+  onSaved: (user: AuthUser) => void;
+}
+
+export default function ProfileEditForm({ user, onSaved }: ProfileEditFormProps): ReactElement {
+  const [fullName, setFullName] = useState(user.fullName ?? user.full_name ?? "");
+  const [fields, setFields] = useState<Readonly<Record<string, string>>>({});
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    setBusy(true);
+    setFields({});
+    setMessage("");
+    try {
+      onSaved(await updateMe({ fullName: fullName.trim() }));
+      setMessage("Сохранено");
+    } catch (error) {
+      const formError = error instanceof ProfileFormError ? error : null;
+      setFields(formError?.fields ?? {});
+      setMessage(formError && !Object.keys(formError.fields).length ? formError.message : "");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-3" aria-label="Редактирование профиля">
+      <h2 className="font-semibold text-white/80">Профиль</h2>
+      <Input
+        label="Имя"
+        name="fullName"
+        value={fullName}
+        onChange={(e) => setFullName(e.target.value)}
+        aria-invalid={Boolean(fields.fullName)}
+        aria-describedby={fields.fullName ? "fullName-error" : undefined}
+        autoComplete="name"
+      />
+      {fields.fullName && (
+        <p id="fullName-error" className="text-body text-red-400">
+          {fields.fullName}
+        </p>
+      )}
+      {message && (
+        <p className="text-body text-white/60" role="status">
+          {message}
+        </p>
+      )}
+      <Button type="submit" size="md" loading={busy} disabled={busy} className="md:w-auto">
+        Сохранить
+      </Button>
+    </form>
+  );
+}
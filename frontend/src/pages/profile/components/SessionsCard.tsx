@@ -0,0 +1,146 @@
+/**
+ * Активные сеансы пользователя: устройство, IP и время последней активности.
+ *
+ * - Любой сеанс, кроме текущего, можно завершить — его refresh-токен перестаёт работать,
+ *   а access-токен отклоняется сервером сразу.
+ * - «Выйти на всех устройствах» завершает и текущий сеанс, поэтому после него вызываем `onLoggedOut`.
+ */
+
+import { useCallback, useEffect, useState, type ReactElement } from "react";
+import { isAxiosError } from "axios";
+
+import { listSessions, logoutEverywhere, revokeSession, type Session } from "../api";
+import { fmtDateTime as fmt } from "../utils/format";
+
+interface SessionsCardProps {
+  onLoggedOut: () => void;
+}
+
+/** Грубое, но читаемое имя устройства из User-Agent: «Chrome · Windows». */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Неизвестное устройство";
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["YaBrowser/", "Яндекс Браузер"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([marker]) => userAgent.includes(marker))?.[1] ?? "Браузер";
+
+  const os =
+    [
+      ["Android", "Android"],
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Windows", "Windows"],
+      ["Mac OS", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([marker]) => userAgent.includes(marker))?.[1] ?? "";
+
+  return os ? `${browser} · ${os}` : browser;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (isAxiosError<{ error?: string }>(error)) {
+    return error.response?.data?.error ?? fallback;
+  }
+  return fallback;
+}
+
+export default function SessionsCard({ onLoggedOut }: SessionsCardProps): ReactElement {
+  const [items, setItems] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+
+  const load = useCallback(async (signal?: AbortSignal): Promise<void> => {
+    setLoading(true);
+    try {
+      setItems(await listSessions(signal));
+      setErr("");
+    } catch (error) {
+      if (signal?.aborted) return;
+      setErr(errorMessage(error, "Не удалось загрузить сеансы"));
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  const onRevoke = async (session: Session): Promise<void> => {
+    try {
+      await revokeSession(session.id);
+      setItems((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (error) {
+      setErr(errorMessage(error, "Не удалось завершить сеанс"));
+    }
+  };
+
+  const onLogoutEverywhere = async (): Promise<void> => {
+    if (!confirm("Выйти на всех устройствах, включая это?")) return;
+    try {
+      await logoutEverywhere();
+      onLoggedOut();
+    } catch (error) {
+      setErr(errorMessage(error, "Не удалось завершить сеансы"));
+    }
+  };
+
+  return (
+    <section className="space-y-3 mb-6" aria-label="Сеансы" aria-busy={loading}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="font-semibold text-white/80">Сеансы</h2>
+        <button
+          type="button"
+          onClick={() => void onLogoutEverywhere()}
+          className="px-3 py-1.5 rounded-xl bg-rose-700 hover:bg-rose-600 text-white text-body"
+        >
+          Выйти на всех устройствах
+        </button>
+      </div>
+
+      {err && (
+        <div className="text-body text-red-400" role="alert">
+          {err}
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-800 rounded-xl bg-black/20">
+        {items.length === 0 && !loading ? (
+          <li className="px-4 py-3 text-white/30">Активных сеансов нет</li>
+        ) : (
+          items.map((session) => (
+            <li key={session.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+              <div>
+                <div className="text-white/80">
+                  {describeDevice(session.userAgent)}
+                  {session.current && <span className="text-emerald-300"> · это устройство</span>}
+                </div>
+                <div className="text-body text-white/40">
+                  {session.ip ?? "IP неизвестен"} · активность {fmt(session.lastUsedAt)} · вход{" "}
+                  {fmt(session.createdAt)}
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  type="button"
+                  onClick={() => void onRevoke(session)}
+                  className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white"
+                >
+                  Завершить
+                </button>
+              )}
+            </li>
+          ))
+        )}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Двухфакторная аутентификация (TOTP) в профиле.
+ *
+ * - Подключение в два шага: сервер выдаёт секрет и otpauth-ссылку, пользователь добавляет их
+ *   в приложение-аутентификатор и подтверждает первым кодом. Ссылка на телефоне открывается
+ *   прямо в приложении; на компьютере секрет вводится вручную.
+ * - Коды восстановления показываются один раз — сразу после подключения или перевыпуска.
+ * - Отключить 2FA нельзя, если она обязательна для роли (политику задаёт администратор).
+ */
+
+import { useCallback, useEffect, useState, type FormEvent, type ReactElement } from "react";
+
+import Input from "@/components/Input";
+import Button from "@/components/Button";
+import {
+  ProfileFormError,
+  confirmTwoFactor,
+  disableTwoFactor,
+  getTwoFactorState,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrollment,
+  type TwoFactorEnrollment,
+  type TwoFactorState,
+} from "../api";
+
+interface TwoFactorCardProps {
+  /** 2FA включена — снимаем с пользователя флаг «требуется подключение». */
+  onEnabled: () => void;
+}
+
+/** Секрет группами по 4 символа — так его проще переписать в приложение. */
+const groupSecret = (secret: string): string => secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+
+const errorText = (error: unknown, fallback: string): string =>
+  error instanceof ProfileFormError ? error.message : fallback;
+
+export default function TwoFactorCard({ onEnabled }: TwoFactorCardProps): ReactElement {
+  const [state, setState] = useState<TwoFactorState | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async (signal?: AbortSignal): Promise<void> => {
+    try {
+      setState(await getTwoFactorState(signal));
+    } catch {
+      if (!signal?.aborted) setMessage("Не удалось загрузить состояние 2FA");
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  /** Общая обёртка действий: блокировка кнопок, сброс полей и сообщение об ошибке. */
+  const run = async (action: () => Promise<void>, fallback: string): Promise<void> => {
+    setBusy(true);
+    setMessage("");
+    try {
+      await action();
+      setCode("");
+      setPassword("");
+    } catch (error) {
+      setMessage(errorText(error, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onStart = (): Promise<void> =>
+    run(async () => {
+      setEnrollment(await startTwoFactorEnrollment());
+    }, "Не удалось начать подключение");
+
+  const onConfirm = (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    return run(async () => {
+      setRecoveryCodes(await confirmTwoFactor(code.trim()));
+      setEnrollment(null);
+      onEnabled();
+      await load();
+    }, "Неверный код");
+  };
+
+  const onRegenerate = (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    return run(async () => {
+      setRecoveryCodes(await regenerateRecoveryCodes(code.trim()));
+      await load();
+    }, "Неверный код");
+  };
+
+  const onDisable = (): Promise<void> =>
+    run(async () => {
+      await disableTwoFactor({ password, code: code.trim() });
+      setMessage("Двухфакторная аутентификация отключена.");
+      await load();
+    }, "Не удалось отключить 2FA");
+
+  return (
+    <section className="space-y-3 mb-6" aria-label="Двухфакторная аутентификация">
+      <h2 className="font-semibold text-white/80">Двухфакторная аутентификация</h2>
+
+      {state?.required && !state.enabled && (
+        <div className="rounded-xl bg-amber-900/40 px-4 py-3 text-white/80" role="alert">
+          Для вашей роли 2FA обязательна: подключите её, чтобы открыть остальные разделы.
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="rounded-xl bg-emerald-900/40 px-4 py-3 space-y-2" role="status">
+          <p className="text-white/80">
+            Коды восстановления — каждый срабатывает один раз. Сохраните их: больше они показаны не будут.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-emerald-300 select-all">
+            {recoveryCodes.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+          <button type="button" onClick={() => setRecoveryCodes(null)} className="underline text-white/60">
+            Я сохранил коды
+          </button>
+        </div>
+      )}
+
+      {!state ? null : !state.enabled ? (
+        enrollment ? (
+          <form onSubmit={onConfirm} className="space-y-3" aria-label="Подключение 2FA">
+            <p className="text-body text-white/60">
+              Добавьте аккаунт в приложение-аутентификатор:{" "}
+              <a href={enrollment.otpauthUri} className="underline text-emerald-300">
+                открыть в приложении
+              </a>{" "}
+              или введите ключ вручную:
+            </p>
+            <code className="block font-mono text-emerald-300 select-all break-all">
+              {groupSecret(enrollment.secret)}
+            </code>
+            <Input
+              label="Код из приложения"
+              name="totp-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+            />
+            <Button type="submit" size="md" loading={busy} disabled={busy || !code.trim()} className="md:w-auto">
+              Подтвердить
+            </Button>
+          </form>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-white/60">Не подключена.</span>
+            <Button type="button" size="md" loading={busy} disabled={busy} onClick={onStart} className="md:w-auto">
+              Подключить
+            </Button>
+          </div>
+        )
+      ) : (
+        <form onSubmit={onRegenerate} className="space-y-3" aria-label="Управление 2FA">
+          <p className="text-white/60">
+            Включена. Осталось кодов восстановления: {state.recoveryCodesLeft}.
+          </p>
+          <Input
+            label="Код из приложения"
+            name="totp-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            required
+          />
+          {!state.required && (
+            <Input
+              label="Пароль (для отключения)"
+              type="password"
+              name="totp-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          )}
+          <div className="flex flex-wrap gap-3">
+            <Button type="submit" size="md" loading={busy} disabled={busy || !code.trim()} className="md:w-auto">
+              Новые коды восстановления
+            </Button>
+            {!state.required && (
+              <button
+                type="button"
+                onClick={() => void onDisable()}
+                disabled={busy || !code.trim() || !password}
+                className="px-4 py-2 rounded-xl bg-rose-700 hover:bg-rose-600 text-white disabled:opacity-50"
+              >
+                Отключить 2FA
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {message && (
+        <p className="text-body text-white/60" role="status">
+          {message}
+        </p>
+      )}
+    </section>
+  );
+}
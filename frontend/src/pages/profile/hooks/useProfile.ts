@@ -3,7 +3,8 @@
  *
  * Что делает:
  * - Инициирует загрузку профиля (getMe) при маунте, держит флаги `loading`/`err`.
- * - Возвращает `onLogout`, «жёсткий» `clearLocal` (с чисткой cookie/localStorage) и `refresh`.
+ * - Возвращает `onLogout`, «жёсткий» `clearLocal` (с чисткой cookie/localStorage), `refresh`
+ *   и `applyUser` — подменить данные после сохранения формы профиля.
  * - Отдаёт «инициал» пользователя для аватарки/заглушки.
  *
  * Почему так:
@@ -34,6 +35,7 @@ interface UseProfileReturn {
   onLogout: () => void
   refresh: () => Promise<void>
   clearLocal: () => void
+  applyUser: (user: AuthUser) => void
   initial: string
 }
 
@@ -47,6 +49,7 @@ function clearTokens(alsoCookie = false): void {
   try {
     // local/session storage — на случай, если токен был положен в любую из областей
     window.localStorage.removeItem('auth_token')
+    window.localStorage.removeItem('refresh_token')
     window.sessionStorage.removeItem('auth_token')
 
     // axios: убираем Authorization, чтобы не «засвечивать» протухший токен при следующих вызовах
@@ -189,6 +192,11 @@ export function useProfile({ navigate, logout }: UseProfileParams): UseProfileRe
     }
   }, [logout, redirectToLogin])
 
+  /** Ответ PATCH /auth/me уже содержит актуального пользователя — повторный запрос не нужен. */
+  const applyUser = useCallback((next: AuthUser): void => {
+    setUser(next)
+  }, [])
+
   // Мемоизация инициала — не пересчитываем на каждый рендер
   const initial = useMemo(() => getInitialLetter(user), [user])
 
@@ -199,6 +207,7 @@ export function useProfile({ navigate, logout }: UseProfileParams): UseProfileRe
     onLogout,
     refresh,
     clearLocal,
+    applyUser,
     initial,
   }
 }
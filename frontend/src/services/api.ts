@@ -4,6 +4,11 @@
  * Зачем это нужно:
  * - Централизуем базовый URL, куки/заголовки и таймауты → единое поведение по всему приложению.
  * - Автоматически подставляем Bearer-токен в запросы (если пользователь уже авторизован).
+ * - `authFetch` делает то же для модулей на голом fetch: весь /api, кроме логина, требует токен.
+ * - Access-токен живёт недолго: на 401 клиент один раз обменивает refresh-токен на новую пару
+ *   (POST /auth/refresh) и повторяет запрос, так что истечение токена пользователь не замечает.
+ *   Токены в localStorage общие для всех вкладок, поэтому обновление идёт под межвкладочной
+ *   блокировкой (Web Locks), а сеанс завершает только 401 от /auth/refresh — не сетевая ошибка.
  * - Делаем код SSR/Edge-safe: не обращаемся к window там, где его может не быть.
  *
  * Как использовать:
@@ -38,12 +43,119 @@ if (!import.meta.env.DEV && !import.meta.env.VITE_API_URL) {
   console.warn('[api] VITE_API_URL не задан — запросы пойдут на текущий домен.')
 }
 
-api.interceptors.request.use((config: InternalAxiosRequestConfig) => {
-  // SSR/Edge-safe доступ к window: в средах без DOM (SSR, workers) просто пропускаем токен.
-  const w = typeof globalThis !== 'undefined' && (globalThis as any).window
-  if (!w) return config
+/** Ключ localStorage, под которым хранится JWT. */
+export const AUTH_TOKEN_KEY = 'auth_token'
+
+/** Ключ localStorage для refresh-токена сеанса. */
+export const REFRESH_TOKEN_KEY = 'refresh_token'
+
+/** Событие, которое получает AuthProvider, когда бэкенд ответил 401. */
+export const UNAUTHORIZED_EVENT = 'auth:unauthorized'
+
+/**
+ * Текущий токен или null. SSR/Edge-safe: в средах без DOM (SSR, workers) токена просто нет.
+ */
+export function getAuthToken(): string | null {
+  const w = typeof globalThis !== 'undefined' ? globalThis.window : undefined
+  if (!w) return null
+  return w.localStorage?.getItem(AUTH_TOKEN_KEY) ?? null
+}
+
+/** Пара токенов, которую выдают /auth/login и /auth/refresh. */
+export interface AuthTokens {
+  token: string
+  refreshToken?: string
+}
+
+/** Сохраняет выданные токены; refresh-токен приходит только при входе и обновлении. */
+export function storeAuthTokens({ token, refreshToken }: AuthTokens): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(AUTH_TOKEN_KEY, token)
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken)
+}
+
+/** Удаляет оба токена (выход, отозванный сеанс). */
+export function clearAuthTokens(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(AUTH_TOKEN_KEY)
+  localStorage.removeItem(REFRESH_TOKEN_KEY)
+}
+
+/** Сообщаем приложению, что сессия недействительна (слушатель — AuthProvider). */
+function notifyUnauthorized(): void {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new CustomEvent(UNAUTHORIZED_EVENT))
+}
+
+/** Адреса, на 401 от которых не пытаемся обновлять токен: ошибки входа показывает форма. */
+const NO_REFRESH_URLS = ['/auth/login', '/auth/refresh', '/auth/logout']
+
+const skipsRefresh = (url: string): boolean => NO_REFRESH_URLS.some((u) => url.includes(u))
+
+/** Текущее обновление: параллельные 401 ждут один и тот же запрос, а не ротируют токен наперегонки. */
+let refreshing: Promise<string | null> | null = null
+
+/** Имя Web Lock, под которым вкладки обновляют токен по очереди. */
+const REFRESH_LOCK_NAME = 'auth-refresh'
+
+/** Паузы между повторами POST /auth/refresh при сетевой ошибке или 5xx, мс. */
+const REFRESH_RETRY_DELAYS_MS = [1_000, 3_000]
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+const readRefreshToken = (): string | null =>
+  typeof window !== 'undefined' ? localStorage.getItem(REFRESH_TOKEN_KEY) : null
+
+/** Выполняет fn под блокировкой, общей для всех вкладок; без Web Locks — просто выполняет. */
+async function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+  return locks ? await locks.request(REFRESH_LOCK_NAME, fn) : fn()
+}
+
+/**
+ * POST /auth/refresh. null — сервер ответил 401 (сеанс завершён). Сетевая ошибка и 5xx
+ * повторяются; если не помогло, ошибка пробрасывается, а сеанс остаётся.
+ */
+async function requestRefresh(refreshToken: string): Promise<string | null> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const { data } = await api.post<AuthTokens>('/auth/refresh', { refreshToken })
+      storeAuthTokens(data)
+      return data.token
+    } catch (error) {
+      const status = isAxiosError(error) ? error.response?.status : undefined
+      if (status === 401) return null
+      if ((status !== undefined && status < 500) || attempt >= REFRESH_RETRY_DELAYS_MS.length) throw error
+      await sleep(REFRESH_RETRY_DELAYS_MS[attempt])
+    }
+  }
+}
+
+/**
+ * Обменивает refresh-токен на новую пару. Возвращает новый access-токен или null,
+ * если сеанс завершён (токен отозван, истёк или уже использован). Пока вкладка ждала
+ * блокировку, пару могла обновить другая вкладка — тогда берём её токены из localStorage.
+ * Сетевая ошибка пробрасывается: это не повод завершать сеанс.
+ */
+export function refreshAuthToken(): Promise<string | null> {
+  if (refreshing) return refreshing
 
-  const token = w.localStorage?.getItem('auth_token')
+  const seen = readRefreshToken()
+  if (!seen) return Promise.resolve(null)
+
+  refreshing = withRefreshLock(async () => {
+    const current = readRefreshToken()
+    if (!current) return null
+    if (current !== seen) return getAuthToken()
+    return requestRefresh(current)
+  }).finally(() => {
+    refreshing = null
+  })
+  return refreshing
+}
+
+api.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+  const token = getAuthToken()
   if (!token) return config
 
   // Нормализуем заголовки через AxiosHeaders (современный способ для Axios v1).
@@ -58,17 +170,57 @@ api.interceptors.request.use((config: InternalAxiosRequestConfig) => {
   return config
 })
 
-// Опциональный перехватчик ответов: помогает ловить 401 и централизованно реагировать.
-// Подсказка: здесь можно инициировать logout/refresh, показывать тосты и т.д.
+type RetriableConfig = InternalAxiosRequestConfig & { _retry?: boolean }
+
+// Перехватчик ответов: 401 от защищённых маршрутов означает, что токен истёк или отозван.
+// Сначала пробуем обновить токен и повторить запрос; не вышло — сеанс завершён.
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (isAxiosError(error) && error.response?.status === 401) {
-      // Например, можно диспатчить событие, логировать метрику или чистить токен.
-      // window.dispatchEvent(new CustomEvent('auth:unauthorized'))
+  async (error) => {
+    if (!isAxiosError(error) || error.response?.status !== 401) {
+      return Promise.reject(error)
+    }
+
+    const config = error.config as RetriableConfig | undefined
+    if (!config || skipsRefresh(String(config.url ?? ''))) {
+      return Promise.reject(error)
+    }
+
+    if (!config._retry) {
+      config._retry = true
+      const token = await refreshAuthToken()
+      if (token) return api(config)
     }
+
+    notifyUnauthorized()
     return Promise.reject(error)
   }
 )
 
+/**
+ * Обёртка над fetch для модулей, которые работают без axios (таблицы, чаты, рассылки):
+ * подставляет тот же Bearer-токен и так же реагирует на 401 — обновлением токена и одним повтором.
+ * Если обновить токен не удалось из-за сети, обёртка бросает ошибку, как и сам fetch.
+ */
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null): Promise<Response> => {
+    const headers = new Headers(init.headers)
+    if (token) headers.set('Authorization', `Bearer ${token}`)
+    return fetch(input, { ...init, headers })
+  }
+
+  const explicitAuth = new Headers(init.headers).has('Authorization')
+  const response = await send(explicitAuth ? null : getAuthToken())
+  if (response.status !== 401 || explicitAuth) {
+    return response
+  }
+
+  const token = await refreshAuthToken()
+  const retried = token ? await send(token) : response
+  if (retried.status === 401) {
+    notifyUnauthorized()
+  }
+  return retried
+}
+
 export default api
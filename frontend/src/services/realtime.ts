@@ -0,0 +1,283 @@
+/**
+ * Клиент живых обновлений: одно SSE-соединение с GET /events на всё приложение.
+ *
+ * Зачем это нужно:
+ * - Бэкенд рассылает изменения (broadcast('messages' | 'chats' | 'orders' | …)), а страницы должны
+ *   видеть их без ручной перезагрузки. Каждая страница подписывается на свои топики, соединение общее.
+ *
+ * Как устроено:
+ * - Поток — обычный EventSource. Заголовок Authorization он передавать не умеет, поэтому перед каждым
+ *   подключением берём короткий билет POST /events/ticket (через authFetch — с Bearer-токеном и его
+ *   обновлением на 401) и открываем /events?ticket=….
+ * - У событий есть id. Последний полученный передаём при переподключении (?lastEventId=), и сервер
+ *   досылает пропущенное. Если пропущено больше, чем сервер помнит, приходит reset — подписчики
+ *   получают onResync и перечитывают данные целиком.
+ * - Набор топиков — объединение топиков всех подписчиков. Поменялся набор → переподключаемся
+ *   (с задержкой в один тик, чтобы несколько подписок при монтировании страницы дали одно соединение).
+ * - Ошибка соединения или молчание дольше STALE_MS (сервер шлёт ping каждые 25 с) → повтор со свежим
+ *   билетом и паузой 1 с, 2 с, 4 с … до 30 с со случайным разбросом, чтобы вкладки не переподключались
+ *   разом. После события ready пауза сбрасывается. При появлении сети (online) переподключаемся сразу.
+ * - 403 на билет — у роли нет права events:read: не долбим сервер, ждём смены набора топиков.
+ *
+ * Как использовать в компонентах — хук useRealtime (src/hooks/useRealtime.ts).
+ */
+
+import { authFetch, getAuthToken } from './api'
+
+const API_BASE = ((import.meta.env.VITE_API_URL as string | undefined) ?? '').replace(/\/+$/, '')
+
+const BACKOFF_MIN_MS = 1_000
+const BACKOFF_MAX_MS = 30_000
+/** Сервер пингует раз в 25 с; дольше тишины — соединение считаем зависшим. */
+const STALE_MS = 60_000
+
+/** Событие из потока: имя события SSE — это топик, data — JSON из broadcast(). */
+export interface RealtimeEvent<T = unknown> {
+  topic: string
+  data: T
+}
+
+/** Типовая полезная нагрузка CRUD-топиков (messages, chats, orders, reservations). */
+export interface RealtimeRowEvent<T = Record<string, unknown>> {
+  action: 'create' | 'update' | 'upsert' | 'delete'
+  row?: T
+  id?: number | string
+  chat_id?: number | string
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+export type RealtimeState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'forbidden'
+
+interface Subscription {
+  topics: ReadonlySet<string>
+  listener: RealtimeListener
+  /** События пропущены безвозвратно (reset) — данные нужно перечитать. */
+  onResync?: () => void
+}
+
+interface TicketResponse {
+  ticket: string
+  expiresIn: number
+}
+
+const parseData = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+export function createRealtimeClient(baseUrl: string) {
+  const subscriptions = new Set<Subscription>()
+  const stateListeners = new Set<(state: RealtimeState) => void>()
+
+  let state: RealtimeState = 'idle'
+  let topicsKey = ''
+  let source: EventSource | null = null
+  /** Номер текущей попытки подключения: ответы устаревших попыток игнорируем. */
+  let generation = 0
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let staleTimer: ReturnType<typeof setTimeout> | null = null
+  let syncTimer: ReturnType<typeof setTimeout> | null = null
+  let attempt = 0
+  /** Id последнего полученного события — с него сервер досылает пропущенное. */
+  let lastEventId: string | null = null
+
+  const setState = (next: RealtimeState): void => {
+    if (state === next) return
+    state = next
+    for (const listener of stateListeners) listener(next)
+  }
+
+  const currentTopics = (): string[] => {
+    const all = new Set<string>()
+    for (const sub of subscriptions) sub.topics.forEach((t) => all.add(t))
+    return [...all].sort()
+  }
+
+  /** Вызывает подписчиков, изолируя ошибки: сбой одного не должен рвать поток для остальных. */
+  const notify = (call: () => void): void => {
+    try {
+      call()
+    } catch (error) {
+      console.error('[realtime] listener failed:', error)
+    }
+  }
+
+  const dispatch = (topic: string, data: unknown): void => {
+    for (const sub of [...subscriptions]) {
+      if (sub.topics.has(topic)) notify(() => sub.listener({ topic, data }))
+    }
+  }
+
+  const resync = (): void => {
+    for (const sub of [...subscriptions]) {
+      if (sub.onResync) notify(sub.onResync)
+    }
+  }
+
+  const stop = (): void => {
+    generation += 1
+    source?.close()
+    source = null
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = null
+    if (staleTimer) clearTimeout(staleTimer)
+    staleTimer = null
+  }
+
+  const scheduleRetry = (): void => {
+    stop()
+    const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_MIN_MS * 2 ** attempt)
+    const delay = Math.round(backoff * (0.5 + Math.random() / 2))
+    attempt += 1
+    setState('reconnecting')
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      void connect()
+    }, delay)
+  }
+
+  /** Билет для EventSource; null — у роли нет доступа к потоку (403). */
+  const fetchTicket = async (): Promise<string | null> => {
+    const res = await authFetch(`${baseUrl}/events/ticket`, { method: 'POST', cache: 'no-store' })
+    if (res.status === 403) return null
+    if (!res.ok) {
+      throw new Error(`SSE ticket failed: ${res.status}`)
+    }
+    return ((await res.json()) as TicketResponse).ticket
+  }
+
+  async function connect(): Promise<void> {
+    stop()
+    const own = generation
+    const topics = currentTopics()
+    topicsKey = topics.join(',')
+    if (!topics.length || !baseUrl) {
+      setState('idle')
+      return
+    }
+    // Без токена (вышли из системы) не стучимся: 401 разлогинил бы заново — пробуем позже
+    if (!getAuthToken()) {
+      scheduleRetry()
+      return
+    }
+
+    setState(attempt ? 'reconnecting' : 'connecting')
+
+    let ticket: string | null
+    try {
+      ticket = await fetchTicket()
+    } catch (error) {
+      if (own !== generation) return // нас заменило новое соединение
+      console.warn('[realtime] ticket error:', error)
+      scheduleRetry()
+      return
+    }
+    if (own !== generation) return
+    if (ticket === null) {
+      setState('forbidden')
+      return
+    }
+
+    const params = new URLSearchParams({ topics: topicsKey, ticket })
+    if (lastEventId) params.set('lastEventId', lastEventId)
+    const es = new EventSource(`${baseUrl}/events?${params.toString()}`)
+    source = es
+
+    const touch = (): void => {
+      if (staleTimer) clearTimeout(staleTimer)
+      staleTimer = setTimeout(() => {
+        if (source === es) scheduleRetry()
+      }, STALE_MS)
+    }
+    touch()
+
+    es.addEventListener('ready', (event) => {
+      touch()
+      attempt = 0
+      // Первое подключение: отсчёт с текущего события сервера, иначе повтор начнётся «с начала буфера»
+      const data = parseData(event.data) as { lastEventId?: number }
+      if (!lastEventId && data.lastEventId) lastEventId = String(data.lastEventId)
+      setState('open')
+    })
+    es.addEventListener('ping', touch)
+    es.addEventListener('reset', (event) => {
+      touch()
+      const data = parseData(event.data) as { lastEventId?: number }
+      lastEventId = data.lastEventId ? String(data.lastEventId) : null
+      resync()
+    })
+    for (const topic of topics) {
+      es.addEventListener(topic, (event) => {
+        touch()
+        if (event.lastEventId) lastEventId = event.lastEventId
+        dispatch(topic, parseData(event.data))
+      })
+    }
+    // Встроенный автоповтор EventSource пришёл бы со старым (возможно, истёкшим) билетом — повторяем сами
+    es.onerror = () => {
+      if (source === es) scheduleRetry()
+    }
+  }
+
+  /** Переподключение, если набор топиков изменился. Откладываем на тик, чтобы собрать пачку подписок. */
+  const sync = (): void => {
+    if (syncTimer) return
+    syncTimer = setTimeout(() => {
+      syncTimer = null
+      if (currentTopics().join(',') === topicsKey && state !== 'idle') return
+      attempt = 0
+      void connect()
+    }, 0)
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      if (state === 'reconnecting') {
+        attempt = 0
+        void connect()
+      }
+    })
+  }
+
+  return {
+    /** Подписка на топики; onResync — события потеряны, данные нужно перечитать. Возвращает отписку. */
+    subscribe(topics: readonly string[], listener: RealtimeListener, onResync?: () => void): () => void {
+      const sub: Subscription = { topics: new Set(topics), listener, onResync }
+      subscriptions.add(sub)
+      sync()
+      return () => {
+        subscriptions.delete(sub)
+        if (subscriptions.size === 0) {
+          stop()
+          topicsKey = ''
+          setState('idle')
+          return
+        }
+        sync()
+      }
+    },
+
+    getState(): RealtimeState {
+      return state
+    },
+
+    /** Подписка на смену состояния соединения (для индикатора «переподключение…»). */
+    onStateChange(listener: (state: RealtimeState) => void): () => void {
+      stateListeners.add(listener)
+      return () => {
+        stateListeners.delete(listener)
+      }
+    },
+  }
+}
+
+export type RealtimeClient = ReturnType<typeof createRealtimeClient>
+
+/** Общий клиент приложения. */
+const realtime: RealtimeClient = createRealtimeClient(API_BASE)
+
+export default realtime